@@ -196,6 +196,9 @@ OPENCLAW_DB_ENCRYPTION_KEY=$(secret_256)
 # Audit log HMAC key (for tamper detection)
 OPENCLAW_AUDIT_HMAC_KEY=$(secret_256)
 
+# Audit webhook sink signing secret (share with the receiving collector)
+OPENCLAW_AUDIT_WEBHOOK_SECRET=$(secret_256)
+
 # -----------------------------------------------------------------------------
 # Server Configuration
 # -----------------------------------------------------------------------------
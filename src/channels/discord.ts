@@ -5,6 +5,7 @@
 import { Client, Events, GatewayIntentBits, type Message } from 'discord.js';
 import type { OpenClawConfig, IncomingMessage, ChannelType } from '../types/index.js';
 import { auditInfo, auditWarn, auditError } from '../security/auditLogger.js';
+import { isContactBanned } from '../security/threatResponse.js';
 
 export type DiscordMessageHandler = (msg: IncomingMessage) => Promise<string>;
 
@@ -69,6 +70,12 @@ export class DiscordChannel {
     const mentionsBot = message.mentions.users.has(this.client.user!.id);
     if (!isDM && !mentionsBot) return; // only respond to DMs or mentions
 
+    // Banned by a threat-response rule (silent drop)
+    if (isContactBanned('discord', message.author.id, this.config.security.piiHmacSecret)) {
+      auditWarn('discord_banned_contact', { contactId: message.author.id });
+      return;
+    }
+
     // Strip the bot mention from the message
     let text = message.content;
     if (mentionsBot) {
@@ -89,6 +96,7 @@ export class DiscordChannel {
         await (message.channel as { sendTyping(): Promise<void> }).sendTyping();
       }
       const response = await this.onMessage(msg);
+      if (!response) return; // dropped or merged into a queued message
 
       // Discord message limit is 2000 chars
       if (response.length <= 2000) {
@@ -121,6 +129,19 @@ export class DiscordChannel {
     console.log('[Discord] Bot starting...');
   }
 
+  /**
+   * Post to a server channel by ID (operator alerts), split at 2000 chars.
+   */
+  async sendToChannel(channelId: string, text: string): Promise<void> {
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel?.isSendable()) {
+      throw new Error(`Discord channel ${channelId} not found or not writable`);
+    }
+    for (const chunk of splitMessage(text, 2000)) {
+      await channel.send(chunk);
+    }
+  }
+
   /**
    * Stop the Discord bot.
    */
@@ -35,6 +35,7 @@ export class SignalChannel {
       allowedNumbers: signalConfig.allowedNumbers,
       allowedGroups: signalConfig.allowedGroups,
       rateLimitPerMinute: signalConfig.rateLimitPerMinute,
+      contactHashSecret: config.security.piiHmacSecret,
     };
     this.onMessage = onMessage;
   }
@@ -123,6 +124,7 @@ export class SignalChannel {
 
     try {
       const response = await this.onMessage(msg);
+      if (!response) return; // dropped or merged into a queued message
       await this.sendMessage(sender, response, groupId);
     } catch (err) {
       auditError('signal_response_failed', {
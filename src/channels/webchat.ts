@@ -163,6 +163,7 @@ function getWebChatHTML(nonce: string): string {
     const statusDot = document.getElementById('status-dot');
     const statusText = document.getElementById('status-text');
     let ws;
+    let streaming = null; // assistant bubble currently receiving deltas
 
     function connect() {
       const proto = location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -178,6 +179,7 @@ function getWebChatHTML(nonce: string): string {
         statusDot.className = 'dot offline';
         statusText.textContent = 'Disconnected';
         sendBtn.disabled = true;
+        streaming = null;
         setTimeout(connect, 3000);
       };
 
@@ -189,9 +191,22 @@ function getWebChatHTML(nonce: string): string {
       ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
-          if (data.type === 'message') {
-            addMessage(data.text, 'assistant');
+          if (data.type === 'delta') {
+            if (!streaming) streaming = addMessage('', 'assistant');
+            streaming.textContent += data.text;
+            messages.scrollTop = messages.scrollHeight;
+          } else if (data.type === 'message') {
+            // Final frame is authoritative: replace whatever was streamed
+            if (streaming) {
+              streaming.textContent = data.text;
+              streaming = null;
+            } else {
+              addMessage(data.text, 'assistant');
+            }
+          } else if (data.type === 'queued' && data.status === 'dropped') {
+            addMessage('That message was dropped: too many messages are waiting.', 'system');
           } else if (data.type === 'error') {
+            streaming = null;
             addMessage(data.text, 'system');
           }
         } catch (e) {
@@ -206,6 +221,7 @@ function getWebChatHTML(nonce: string): string {
       div.textContent = text;
       messages.appendChild(div);
       messages.scrollTop = messages.scrollHeight;
+      return div;
     }
 
     function send() {
@@ -0,0 +1,10 @@
+/**
+ * CLI: openclaw security audit events
+ * Print the reference of every audit event: severity, meaning, and the
+ * fields of its details with how each is scrubbed.
+ */
+import { renderAuditEventDocs } from '../../security/auditEvents.js';
+
+export async function auditEventsCommand(args: string[]): Promise<void> {
+  console.log(renderAuditEventDocs(args.includes('--json') ? 'json' : 'markdown'));
+}
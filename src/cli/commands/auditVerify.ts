@@ -0,0 +1,63 @@
+/**
+ * CLI: openclaw security audit verify
+ * Walk the audit hash chain across rotated segments and report gaps,
+ * reordering and modified entries. Exits 1 if anything is wrong.
+ */
+import type { OpenClawConfig } from '../../types/index.js';
+import { resolvePath } from '../../core/config.js';
+import { verifyAuditLog } from '../../security/auditChain.js';
+import { auditCritical, auditInfo } from '../../security/auditLogger.js';
+
+export async function auditVerifyCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const key = config.security.auditKey;
+  if (!key) {
+    console.error(`No audit key configured — set security.auditKey or ${config.security.auditKeyEnv}.`);
+    process.exit(1);
+  }
+
+  const logPath = resolvePath(config.security.auditLogPath);
+  const report = verifyAuditLog(logPath, key);
+  const summary = {
+    segments: report.segments,
+    entries: report.entries,
+    firstSeq: report.firstSeq,
+    lastSeq: report.lastSeq,
+    checkpoints: report.checkpoints,
+    issues: report.issues.length,
+  };
+
+  // Recorded after the walk so the result doesn't verify itself
+  if (report.issues.length > 0) {
+    auditCritical('audit_chain_broken', {
+      details: { ...summary, kinds: [...new Set(report.issues.map(i => i.kind))].join(',') },
+    });
+  } else {
+    auditInfo('audit_chain_verified', { details: summary });
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log('\n  Audit Chain Verification\n');
+    console.log('  ─────────────────────────────────────────\n');
+    console.log(`  Segments:     ${report.segments}`);
+    console.log(`  Entries:      ${report.entries}${report.unchained ? ` (${report.unchained} before chaining began)` : ''}`);
+    if (report.firstSeq !== undefined) {
+      console.log(`  Sequence:     ${report.firstSeq} → ${report.lastSeq}`);
+    }
+    console.log(`  Checkpoints:  ${report.checkpoints}`);
+
+    if (report.issues.length === 0) {
+      console.log('\n  \x1b[32m✓ Chain intact\x1b[0m\n');
+    } else {
+      console.log(`\n  \x1b[91m✗ ${report.issues.length} issue(s)\x1b[0m\n`);
+      for (const issue of report.issues) {
+        const where = issue.line !== undefined ? `${issue.segment}:${issue.line}` : issue.segment;
+        console.log(`  ${issue.kind.padEnd(15)} ${where}  ${issue.message}`);
+      }
+      console.log('');
+    }
+  }
+
+  if (report.issues.length > 0) process.exit(1);
+}
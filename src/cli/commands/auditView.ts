@@ -1,43 +1,173 @@
 /**
  * CLI: openclaw security audit
- * View the audit log.
+ * View, filter, count and follow the audit log, across rotated segments.
  */
-import { readFileSync, existsSync } from 'node:fs';
+import { statSync } from 'node:fs';
 import type { OpenClawConfig, AuditEntry } from '../../types/index.js';
-import { resolvePath } from '../../core/config.js';
+import { CHANNEL_TYPES, type ChannelType } from '../../types/index.js';
+import { resolvePath, resolveSecret } from '../../core/config.js';
+import { hashPhone } from '../../security/piiUtils.js';
+import { auditLogSegments, readAuditTail } from '../../security/auditLogFiles.js';
+import {
+  countAuditLog,
+  followAuditLog,
+  isAuditSeverity,
+  parseTimeBound,
+  queryAuditLog,
+  type AuditCounts,
+  type AuditQuery,
+} from '../../security/auditQuery.js';
 
-export async function auditViewCommand(config: OpenClawConfig): Promise<void> {
+const USAGE = [
+  'Usage: openclaw security audit [--tail N] [--severity INFO|WARN|ERROR|CRITICAL] [--event <glob>]',
+  '         [--channel <signal|discord|webchat|api>] [--session <id>] [--contact <id>]',
+  '         [--since <30m|6h|7d|date>] [--until <...>] [--json] [--follow | --counts]',
+];
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx !== -1 ? args[idx + 1] : undefined;
+}
+
+function usageError(message?: string): never {
+  if (message) console.error(message);
+  for (const line of USAGE) console.error(line);
+  process.exit(1);
+}
+
+export async function auditViewCommand(config: OpenClawConfig, args: string[]): Promise<void> {
   const logPath = resolvePath(config.security.auditLogPath);
+  const query = parseQuery(config, args);
+  const json = args.includes('--json');
 
-  if (!existsSync(logPath)) {
-    console.log('No audit log found yet.');
+  if (args.includes('--counts')) {
+    printCounts(countAuditLog(logPath, query), json);
     return;
   }
 
-  const lines = readFileSync(logPath, 'utf-8').trim().split('\n');
+  const segments = auditLogSegments(logPath);
+  if (segments.length === 0 && !args.includes('--follow')) {
+    console.log('No audit log found yet.');
+    return;
+  }
 
   // Show last 50 entries by default
-  const tailFlag = process.argv.indexOf('--tail');
-  const count = tailFlag !== -1 ? parseInt(process.argv[tailFlag + 1] ?? '50', 10) : 50;
-  const entries = lines.slice(-count);
+  const count = parseInt(getFlag(args, '--tail') ?? '50', 10);
+  if (!Number.isInteger(count) || count < 0) usageError('--tail must be a whole number');
+  const filtered = Object.values(query).some(v => v !== undefined);
+  const entries = filtered ? queryAuditLog(logPath, query, count) : parseLines(readAuditTail(logPath, count));
 
-  console.log(`\n  Audit Log (last ${entries.length} entries)\n`);
-  console.log('  ─────────────────────────────────────────\n');
+  if (json) {
+    for (const entry of entries) console.log(JSON.stringify(entry));
+  } else {
+    console.log(`\n  Audit Log (last ${entries.length} ${filtered ? 'matching ' : ''}entries)\n`);
+    console.log('  ─────────────────────────────────────────\n');
+    for (const entry of entries) printEntry(entry);
+  }
+
+  if (args.includes('--follow')) {
+    if (!json) console.log('\n  Following — Ctrl+C to stop\n');
+    const stop = followAuditLog(logPath, query, entry => (json ? console.log(JSON.stringify(entry)) : printEntry(entry)));
+    await new Promise<void>(resolve => {
+      process.once('SIGINT', () => {
+        stop();
+        resolve();
+      });
+    });
+    return;
+  }
+
+  if (!json) {
+    const bytes = segments.reduce((sum, s) => sum + statSync(s.path).size, 0);
+    console.log(`\n  Segments: ${segments.length} (${(bytes / 1024 / 1024).toFixed(1)} MB on disk)`);
+    console.log(`  Log path: ${logPath}\n`);
+  }
+}
+
+function parseQuery(config: OpenClawConfig, args: string[]): AuditQuery {
+  const query: AuditQuery = {};
+
+  const severity = getFlag(args, '--severity')?.toUpperCase();
+  if (severity !== undefined) {
+    if (!isAuditSeverity(severity)) usageError(`Unknown severity: ${severity}`);
+    query.severity = severity;
+  }
 
-  for (const line of entries) {
+  query.event = getFlag(args, '--event');
+  query.sessionId = getFlag(args, '--session');
+
+  const channel = getFlag(args, '--channel');
+  if (channel !== undefined) {
+    if (!CHANNEL_TYPES.includes(channel as ChannelType)) usageError(`Unknown channel: ${channel}`);
+    query.channel = channel as ChannelType;
+  }
+
+  const contactId = getFlag(args, '--contact');
+  if (contactId !== undefined) {
+    const piiHmacSecret = resolveSecret(config.security.piiHmacSecret, config.security.piiHmacSecretEnv);
+    if (!piiHmacSecret) {
+      console.error('--contact needs the PII HMAC secret: audit entries are matched by contact pseudonym.');
+      process.exit(1);
+    }
+    query.contactHash = hashPhone(contactId, piiHmacSecret);
+  }
+
+  try {
+    const since = getFlag(args, '--since');
+    const until = getFlag(args, '--until');
+    if (since !== undefined) query.since = parseTimeBound(since);
+    if (until !== undefined) query.until = parseTimeBound(until);
+  } catch (err) {
+    usageError((err as Error).message);
+  }
+
+  return query;
+}
+
+function parseLines(lines: string[]): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  for (const line of lines) {
     try {
-      const entry: AuditEntry = JSON.parse(line);
-      const severityColor = entry.severity === 'CRITICAL' ? '\x1b[91m'
-        : entry.severity === 'ERROR' ? '\x1b[31m'
-        : entry.severity === 'WARN' ? '\x1b[33m'
-        : '\x1b[90m';
-      const time = entry.timestamp.slice(11, 19);
-      console.log(`  ${time} ${severityColor}${entry.severity.padEnd(8)}\x1b[0m ${entry.event}`);
+      entries.push(JSON.parse(line) as AuditEntry);
     } catch {
       // skip malformed lines
     }
   }
+  return entries;
+}
+
+function printEntry(entry: AuditEntry): void {
+  const severityColor = entry.severity === 'CRITICAL' ? '\x1b[91m'
+    : entry.severity === 'ERROR' ? '\x1b[31m'
+    : entry.severity === 'WARN' ? '\x1b[33m'
+    : '\x1b[90m';
+  const time = entry.timestamp.slice(0, 19).replace('T', ' ');
+  console.log(`  ${time} ${severityColor}${entry.severity.padEnd(8)}\x1b[0m ${entry.event}`);
+
+  const context = [
+    entry.channel,
+    entry.sessionId && `session=${entry.sessionId}`,
+    entry.contactHash && `contact=${entry.contactHash.slice(0, 12)}…`,
+    entry.details && JSON.stringify(entry.details),
+  ].filter(Boolean);
+  if (context.length > 0) console.log(`  \x1b[90m${' '.repeat(29)}${context.join('  ')}\x1b[0m`);
+}
+
+function printCounts(counts: AuditCounts, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(counts, null, 2));
+    return;
+  }
 
-  console.log(`\n  Total entries: ${lines.length}`);
-  console.log(`  Log path: ${logPath}\n`);
+  console.log(`\n  Audit Counts (${counts.total} entries${counts.first ? `, ${counts.first} → ${counts.last}` : ''})\n`);
+  console.log('  ─────────────────────────────────────────\n');
+  for (const [severity, n] of Object.entries(counts.bySeverity)) {
+    console.log(`  ${severity.padEnd(10)} ${String(n).padStart(8)}`);
+  }
+  console.log('');
+  const events = Object.entries(counts.byEvent).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  for (const [event, n] of events) {
+    console.log(`  ${String(n).padStart(8)}  ${event}`);
+  }
+  console.log('');
 }
@@ -0,0 +1,78 @@
+/**
+ * CLI: openclaw security bans
+ * List the IPs and contacts banned by threat-response rules, and lift
+ * bans. Lifting takes effect in a running `openclaw start` straight away.
+ */
+import type { OpenClawConfig } from '../../types/index.js';
+import { hashPhone } from '../../security/piiUtils.js';
+import { liftBan, listBans, type Ban } from '../../security/threatResponse.js';
+
+const USAGE = [
+  'Usage: openclaw security bans [--json]',
+  '       openclaw security bans lift <ip | contact ID | contact hash prefix> [--channel <channel>]',
+];
+
+function usageError(message?: string): never {
+  if (message) console.error(message);
+  for (const line of USAGE) console.error(line);
+  process.exit(1);
+}
+
+export async function bansCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  if (args[0] === 'lift') {
+    const channel = args[2] === '--channel' ? args[3] : undefined;
+    if (args[2] !== undefined && !channel) usageError();
+    liftCommand(config, args[1], channel);
+    return;
+  }
+  if (args[0] !== undefined && args[0] !== '--json') usageError(`Unknown bans subcommand: ${args[0]}`);
+
+  const bans = listBans();
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(bans, null, 2));
+    return;
+  }
+
+  console.log('\n  Active Bans\n');
+  console.log('  ─────────────────────────────────────────\n');
+  if (bans.length === 0) {
+    console.log('  None.\n');
+    return;
+  }
+  for (const ban of bans) printBan(ban);
+  console.log(`\n  ${bans.length} ban(s). Lift one with \`openclaw security bans lift <target>\`.\n`);
+}
+
+function liftCommand(config: OpenClawConfig, target: string | undefined, channel: string | undefined): void {
+  if (!target) usageError('Name the IP or contact to lift the ban on.');
+
+  // An IP, a contact hash (or the prefix shown in the list), or a contact ID to hash
+  const secret = config.security.piiHmacSecret;
+  const hashed = secret ? hashPhone(target, secret) : undefined;
+  const matches = listBans().filter(ban => (ban.target === target || ban.target === hashed
+    || (ban.kind === 'contact' && target.length >= 8 && ban.target.startsWith(target)))
+    && (!channel || ban.channel === channel));
+
+  if (matches.length > 1) {
+    const sameContact = matches.every(ban => ban.target === matches[0]!.target);
+    usageError(`${target} matches ${matches.length} bans; ${sameContact ? 'pick one with --channel' : 'give more of the hash'}.`);
+  }
+  const ban = matches[0];
+  if (!ban) {
+    console.error(`No active ban on ${target}.${secret ? '' : ' (Contact IDs need OPENCLAW_PII_HMAC_SECRET; use the hash from the list.)'}`);
+    process.exit(1);
+  }
+  liftBan(ban.kind, ban.target, ban.channel);
+  console.log(`Lifted the ${ban.kind} ban on ${displayTarget(ban)}${ban.channel ? ` on ${ban.channel}` : ''}.`);
+}
+
+function displayTarget(ban: Ban): string {
+  return ban.kind === 'ip' ? ban.target : `${ban.target.slice(0, 12)}…`;
+}
+
+function printBan(ban: Ban): void {
+  const target = displayTarget(ban);
+  const until = ban.expiresAt ? ban.expiresAt.slice(0, 19).replace('T', ' ') : 'lifted';
+  console.log(`  ${ban.kind.padEnd(8)} ${target.padEnd(40)} until ${until}`);
+  console.log(`  \x1b[90m${' '.repeat(9)}${[ban.channel, `rule=${ban.rule}`, ban.reason].filter(Boolean).join('  ')}\x1b[0m`);
+}
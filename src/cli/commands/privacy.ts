@@ -0,0 +1,220 @@
+/**
+ * CLI: openclaw privacy
+ * Subject access export (GDPR Articles 15 and 20), unpacking an export
+ * archive, erasure (Article 17) and checking erasure receipts.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import type { OpenClawConfig } from '../../types/index.js';
+import { getOpenClawDir, resolvePath, resolveSecret } from '../../core/config.js';
+import {
+  EXPORT_EXTENSION,
+  EXPORTS_DIR,
+  MIN_PASSPHRASE_LENGTH,
+  decryptArchive,
+  exportSubjectData,
+  generateExportPassphrase,
+} from '../../security/subjectAccess.js';
+import {
+  RECEIPTS_DIR,
+  eraseContact,
+  planErasure,
+  readErasureReceipt,
+  verifyErasureReceipt,
+} from '../../security/rightToErasure.js';
+import { writeFileAtomic } from '../../security/encryptedStore.js';
+import { isInsideJail } from '../../security/pathSecurity.js';
+import { auditInfo } from '../../security/auditLogger.js';
+import { maskPhone, maskGeneric, isValidE164 } from '../../security/piiUtils.js';
+
+const USAGE = [
+  'Usage: openclaw privacy export <contactId> [--out <file>] [--passphrase-env <VAR>]',
+  '       openclaw privacy unpack <archive> [--out <dir>] [--passphrase-env <VAR>]',
+  '       openclaw privacy erase <contactId> [--dry-run] [--yes]',
+  '       openclaw privacy verify-receipt <file> [--contact <id>]',
+];
+const DEFAULT_PASSPHRASE_ENV = 'OPENCLAW_EXPORT_PASSPHRASE';
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx !== -1 ? args[idx + 1] : undefined;
+}
+
+function maskContact(contactId: string): string {
+  return isValidE164(contactId) ? maskPhone(contactId) : maskGeneric(contactId);
+}
+
+function usageError(message?: string): never {
+  if (message) console.error(message);
+  for (const line of USAGE) console.error(line);
+  process.exit(1);
+}
+
+export async function privacyCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  switch (args[0]) {
+    case 'export':
+      await exportCommand(config, args.slice(1));
+      break;
+    case 'unpack':
+      unpackCommand(args.slice(1));
+      break;
+    case 'erase':
+      await privacyEraseCommand(config, args.slice(1));
+      break;
+    case 'verify-receipt':
+      verifyReceiptCommand(config, args.slice(1));
+      break;
+    default:
+      usageError(args[0] ? `Unknown privacy subcommand: ${args[0]}` : undefined);
+  }
+}
+
+async function exportCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const contactId = args[0];
+  if (!contactId || contactId.startsWith('--')) usageError();
+
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  if (!encryptionKey) {
+    console.error('No encryption key configured — stored data cannot be decrypted for export.');
+    process.exit(1);
+  }
+  const piiHmacSecret = resolveSecret(config.security.piiHmacSecret, config.security.piiHmacSecretEnv);
+
+  const passphraseEnv = getFlag(args, '--passphrase-env');
+  const passphrase = passphraseEnv ? process.env[passphraseEnv] : generateExportPassphrase();
+  if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    console.error(`${passphraseEnv} must hold a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    process.exit(1);
+  }
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+  const outPath = resolve(resolvePath(getFlag(args, '--out') ?? join(getOpenClawDir(), EXPORTS_DIR, `subject-export-${stamp}${EXPORT_EXTENSION}`)));
+  if (existsSync(outPath)) {
+    console.error(`Refusing to overwrite ${outPath}`);
+    process.exit(1);
+  }
+
+  console.log('\n  Subject Access Export — Articles 15 & 20\n');
+  console.log(`  Contact: ${maskContact(contactId)}\n`);
+
+  const { archive, data } = await exportSubjectData(contactId, {
+    encryptionKey,
+    piiHmacSecret,
+    auditLogPath: config.security.auditLogPath,
+    usage: config.usage,
+    retentionDays: config.security.retentionDays,
+  }, passphrase);
+  writeFileAtomic(outPath, archive);
+
+  console.log(`  Sessions:           ${data.sessions.length}`);
+  console.log(`  Transcript turns:   ${data.transcripts.length}`);
+  console.log(`  Consent records:    ${data.consent.length}`);
+  console.log(`  Safety number:      ${data.safetyNumber ? 'yes' : 'no'}`);
+  console.log(`  Usage rows:         ${data.usage.length}`);
+  console.log(`  Workspace files:    ${data.workspaceFiles.length}`);
+  console.log(`  Audit entries:      ${data.auditEntries.length}`);
+  for (const note of data.notes) console.log(`\n  Note: ${note}`);
+
+  console.log(`\n  Archive: ${outPath}`);
+  if (!passphraseEnv) {
+    console.log(`  Passphrase: ${passphrase}`);
+    console.log('\n  Send the passphrase to the contact separately from the archive.');
+    console.log('  It is not stored anywhere and cannot be recovered.');
+  }
+  console.log(`  To open: ${DEFAULT_PASSPHRASE_ENV}=<passphrase> openclaw privacy unpack <archive>\n`);
+}
+
+function unpackCommand(args: string[]): void {
+  const archivePath = args[0];
+  if (!archivePath || archivePath.startsWith('--')) usageError();
+
+  const passphraseEnv = getFlag(args, '--passphrase-env') ?? DEFAULT_PASSPHRASE_ENV;
+  const passphrase = process.env[passphraseEnv];
+  if (!passphrase) usageError(`Set ${passphraseEnv} to the export passphrase.`);
+
+  const source = resolvePath(archivePath);
+  const outDir = resolve(resolvePath(getFlag(args, '--out') ?? source.replace(/\.tar\.gz\.enc$/, '') + '-unpacked'));
+  const files = decryptArchive(readFileSync(source), passphrase);
+
+  for (const file of files) {
+    const target = resolve(outDir, file.name);
+    if (!isInsideJail(target, outDir)) throw new Error(`Unsafe path in archive: ${file.name}`);
+    mkdirSync(dirname(target), { recursive: true, mode: 0o700 });
+    writeFileSync(target, file.data, { mode: 0o600, flag: 'wx' });
+  }
+  console.log(`\n  Unpacked ${files.length} file(s) to ${outDir}\n`);
+}
+
+/**
+ * Erase a contact on any channel: preview what will be removed, ask for
+ * confirmation (unless --yes), erase, and print the signed receipt.
+ */
+export async function privacyEraseCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const contactId = args[0];
+  if (!contactId || contactId.startsWith('--')) usageError();
+
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  const piiHmacSecret = resolveSecret(config.security.piiHmacSecret, config.security.piiHmacSecretEnv);
+
+  console.log('\n  GDPR Erasure — Article 17\n');
+  console.log(`  Contact: ${maskContact(contactId)}\n`);
+
+  const plan = planErasure(contactId, encryptionKey, piiHmacSecret, config.usage);
+  const counts = new Map<string, number>();
+  for (const item of plan.items) counts.set(item.location, (counts.get(item.location) ?? 0) + 1);
+  if (plan.items.length === 0) console.log('  Nothing found for this contact.');
+  for (const [location, n] of counts) console.log(`  ${location.padEnd(20)} ${n}`);
+  for (const reason of plan.skipped) console.log(`\n  Not searched — ${reason}`);
+
+  if (args.includes('--dry-run')) {
+    auditInfo('erasure_previewed', { contactId, details: { items: plan.items.length, skipped: plan.skipped.length } });
+    console.log('\n  Dry run — nothing was deleted.\n');
+    return;
+  }
+
+  if (!args.includes('--yes')) {
+    if (!process.stdin.isTTY) usageError('Refusing to erase without confirmation: pass --yes when not running interactively.');
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await rl.question('\n  This permanently deletes the data above. Type the contact ID to confirm: ');
+    rl.close();
+    if (answer.trim() !== contactId) {
+      console.log('\n  Not confirmed — nothing was deleted.\n');
+      process.exit(1);
+    }
+  }
+
+  const result = eraseContact(contactId, encryptionKey, piiHmacSecret, config.usage);
+
+  console.log(`\n  Items deleted: ${result.filesDeleted}`);
+  console.log(`  Locations cleaned: ${result.locations.join(', ') || 'none'}`);
+  if (result.receipt) {
+    console.log(`\n  Receipt: ${join(getOpenClawDir(), RECEIPTS_DIR, `${result.receipt.receiptId}.json`)}`);
+    console.log('  It names the contact only by an HMAC and can be given to them.');
+    console.log('  Check it later with: openclaw privacy verify-receipt <file> --contact <id>');
+  } else {
+    console.log('\n  No receipt: an encryption key is needed to sign one.');
+  }
+  console.log('\n  Erasure complete.\n');
+}
+
+function verifyReceiptCommand(config: OpenClawConfig, args: string[]): void {
+  const path = args[0];
+  if (!path || path.startsWith('--')) usageError();
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  if (!encryptionKey) {
+    console.error('No encryption key configured — receipts cannot be checked.');
+    process.exit(1);
+  }
+
+  const receipt = readErasureReceipt(resolvePath(path));
+  const result = verifyErasureReceipt(receipt, encryptionKey, getFlag(args, '--contact'));
+  if (!result.valid) {
+    console.error(`\n  INVALID: ${result.reason}\n`);
+    process.exit(1);
+  }
+  console.log(`\n  Valid receipt ${receipt.receiptId}`);
+  console.log(`  Erased at: ${receipt.erasedAt}`);
+  for (const [location, n] of Object.entries(receipt.removed)) console.log(`  ${location.padEnd(20)} ${n}`);
+  console.log('');
+}
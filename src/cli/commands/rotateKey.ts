@@ -1,30 +1,96 @@
 /**
  * CLI: openclaw security rotate-key
- * Rotate encryption keys.
+ * Re-encrypt all data under the active keyring key, or (--generate) print
+ * fresh keys and the keyring entry to add.
  */
 import { randomBytes } from 'node:crypto';
 import type { OpenClawConfig } from '../../types/index.js';
+import { resolveSecret } from '../../core/config.js';
+import { getStorage } from '../../core/storage.js';
+import { rotateEncryptedData } from '../../core/keyRotation.js';
+import { keyIdOf } from '../../security/encryptedStore.js';
 import { auditCritical } from '../../security/auditLogger.js';
 
-export async function rotateKeyCommand(_config: OpenClawConfig): Promise<void> {
+export async function rotateKeyCommand(config: OpenClawConfig, args: string[] = []): Promise<void> {
+  if (args.includes('--generate')) {
+    generateKeys(config);
+    return;
+  }
+
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  if (!encryptionKey) {
+    console.error('No encryption key configured — nothing to rotate to.');
+    process.exit(1);
+  }
+
   console.log('\n  Key Rotation\n');
   console.log('  ─────────────────────────────────────────\n');
+  console.log(`  Re-encrypting all data under key "${keyIdOf(encryptionKey)}"...\n`);
+
+  const summary = rotateEncryptedData(encryptionKey, getStorage(encryptionKey));
+
+  if (summary.resumed) console.log('  Resumed an interrupted rotation.');
+  console.log(`  Files re-encrypted:   ${summary.files.rotated}`);
+  console.log(`  Already current:      ${summary.files.current}`);
+  if (summary.records > 0) console.log(`  Storage records:      ${summary.records}`);
+  console.log(`  Took:                 ${summary.durationMs} ms`);
+
+  const unreadable = Object.entries(summary.unreadableLines);
+  if (unreadable.length > 0) {
+    console.log('\n  Transcript lines that could not be decrypted were left as they are:');
+    for (const [path, count] of unreadable) console.log(`    ${path}: ${count}`);
+    console.log('  They are usually torn writes from a crash. Lines written under a key');
+    console.log('  missing from "security.keyring" can be rotated by adding it as retired.');
+  }
+
+  if (summary.failures.length > 0) {
+    console.log(`\n  ${summary.failures.length} file(s) could not be decrypted with any keyring key:`);
+    for (const path of summary.failures) console.log(`    ${path}`);
+    console.log('\n  Add the key they were written with to "security.keyring" as retired, then run this again.\n');
+    process.exit(1);
+  }
+
+  console.log('\n  Done. Retired keys can now be removed from "security.keyring".\n');
+}
+
+function generateKeys(config: OpenClawConfig): void {
+  console.log('\n  Key Generation\n');
+  console.log('  ─────────────────────────────────────────\n');
 
-  // Generate new keys
   const newEncryptionKey = randomBytes(32).toString('hex');
   const newHmacSecret = randomBytes(32).toString('hex');
   const newSessionSecret = randomBytes(32).toString('hex');
   const newGatewayToken = randomBytes(32).toString('hex');
+  const keyId = `k${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`;
+  const keyEnv = `OPENCLAW_ENCRYPTION_KEY_${keyId.toUpperCase()}`;
 
-  console.log('  New keys generated. Update your .env file:\n');
-  console.log(`  OPENCLAW_ENCRYPTION_KEY=${newEncryptionKey}`);
-  console.log(`  OPENCLAW_PII_HMAC_SECRET=${newHmacSecret}`);
+  console.log('  New keys generated. Add to your .env file:\n');
+  console.log(`  ${keyEnv}=${newEncryptionKey}`);
   console.log(`  OPENCLAW_SESSION_SECRET=${newSessionSecret}`);
   console.log(`  OPENCLAW_GATEWAY_TOKEN=${newGatewayToken}`);
 
-  console.log('\n  WARNING: Rotating the encryption key will invalidate');
-  console.log('  all existing encrypted sessions and consent records.');
-  console.log('  Back up your data before updating.\n');
+  // Entries with an inline key are left out rather than printed, so the
+  // secret isn't echoed and a pasted placeholder can't replace it.
+  const inline = config.security.keyring.filter(k => !k.keyEnv);
+  const current = config.security.keyring.length > 0
+    ? config.security.keyring.filter(k => k.keyEnv).map(k => ({ id: k.id, keyEnv: k.keyEnv, retired: true }))
+    : [{ id: 'k1', keyEnv: config.security.encryptionKeyEnv, retired: true }];
+  const keyring = [{ id: keyId, keyEnv }, ...current];
+
+  console.log('\n  Then set the keyring in ~/.openclaw/openclaw.json, keeping the');
+  console.log('  current key as retired so existing data stays readable:\n');
+  for (const line of JSON.stringify({ security: { keyring } }, null, 2).split('\n')) {
+    console.log(`  ${line}`);
+  }
+  if (inline.length > 0) {
+    console.log(`\n  plus your existing ${inline.map(k => `"${k.id}"`).join(', ')} entries, copied as they are`);
+    console.log('  with "retired": true added (their inline keys are not shown here),');
+  }
+  console.log('\n  and run "openclaw security rotate-key" to re-encrypt everything.');
+
+  console.log('\n  The PII HMAC secret is not part of the keyring. Changing it');
+  console.log('  resets contact hashes (session index, usage), so only replace');
+  console.log(`  it deliberately: OPENCLAW_PII_HMAC_SECRET=${newHmacSecret}\n`);
 
   auditCritical('key_rotation_requested');
 }
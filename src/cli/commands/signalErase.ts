@@ -3,13 +3,15 @@
  * GDPR erasure for a Signal contact.
  */
 import type { OpenClawConfig } from '../../types/index.js';
-import { eraseContact } from '../../security/rightToErasure.js';
-import { maskPhone, isValidE164 } from '../../security/piiUtils.js';
+import { isValidE164 } from '../../security/piiUtils.js';
+import { privacyEraseCommand } from './privacy.js';
 
-export async function signalEraseCommand(config: OpenClawConfig, contactId?: string): Promise<void> {
+export async function signalEraseCommand(config: OpenClawConfig, args: string[] = []): Promise<void> {
+  const contactId = args[0];
   if (!contactId) {
-    console.error('Usage: openclaw signal erase-contact <phone_number>');
+    console.error('Usage: openclaw signal erase-contact <phone_number> [--dry-run] [--yes]');
     console.error('  Example: openclaw signal erase-contact +15551234567');
+    console.error('  For Discord and WebChat IDs use: openclaw privacy erase <contactId>');
     process.exit(1);
   }
 
@@ -19,13 +21,5 @@ export async function signalEraseCommand(config: OpenClawConfig, contactId?: str
     process.exit(1);
   }
 
-  console.log(`\n  GDPR Erasure — Article 17\n`);
-  console.log(`  Contact: ${maskPhone(contactId)}`);
-  console.log('  This will permanently delete ALL data for this contact.\n');
-
-  const result = eraseContact(contactId);
-
-  console.log(`  Files deleted: ${result.filesDeleted}`);
-  console.log(`  Locations cleaned: ${result.locations.join(', ') || 'none'}`);
-  console.log('\n  Erasure complete.\n');
+  await privacyEraseCommand(config, args);
 }
@@ -8,12 +8,17 @@ import { AgentManager } from '../../core/agentManager.js';
 import { SignalChannel } from '../../channels/signal.js';
 import { DiscordChannel } from '../../channels/discord.js';
 import { mountWebChatUI } from '../../channels/webchat.js';
+import { mountRestApi } from '../../core/restApi.js';
 import { loadSkills, getToolDefinitions } from '../../skills/skillLoader.js';
 import { createToolExecutor } from '../../skills/skillRunner.js';
 import { getBuiltinToolDefinitions } from '../../tools/builtinTools.js';
 import { createBuiltinToolExecutor } from '../../tools/builtinToolExecutor.js';
 import { createCompositeToolExecutor } from '../../tools/compositeToolExecutor.js';
-import { auditInfo } from '../../security/auditLogger.js';
+import { auditInfo, auditLogSettled, maintainAuditLog, pruneAuditLog } from '../../security/auditLogger.js';
+import { pruneExpiredSessions } from '../../security/sessionManager.js';
+import { RetentionScheduler, exportsRetentionTask, resolveRetention } from '../../security/retentionPolicy.js';
+import { AlertManager, type AlertTransport } from '../../security/auditAlerts.js';
+import { ThreatResponder, pruneExpiredBans } from '../../security/threatResponse.js';
 import type { SignalFileDeliveryContext } from '../../tools/signalFileDelivery.js';
 
 /**
@@ -100,6 +105,9 @@ function buildSystemPrompt(
 export async function startCommand(config: OpenClawConfig): Promise<void> {
   console.log('Starting OpenClaw Fortress...\n');
 
+  // The gateway compresses and prunes rotated audit segments for every process
+  maintainAuditLog();
+
   // Load skills
   const skills = loadSkills();
   const skillTools = getToolDefinitions(skills);
@@ -138,7 +146,7 @@ export async function startCommand(config: OpenClawConfig): Promise<void> {
   // Create gateway
   const gateway = new Gateway({
     config,
-    onMessage: (msg) => agentManager.handleMessage(msg),
+    onMessage: (msg, opts) => agentManager.respond(msg, opts),
   });
 
   // Mount WebChat UI if enabled
@@ -148,16 +156,27 @@ export async function startCommand(config: OpenClawConfig): Promise<void> {
     console.log('[WebChat] UI enabled');
   }
 
+  // Mount the /v1 REST API if enabled
+  const apiEnabled = config.gateway.api.enabled;
+  if (apiEnabled) {
+    mountRestApi(gateway.expressApp, config, agentManager);
+    console.log('[API] REST API enabled at /v1');
+  }
+
   // Channel availability warning
   const signalEnabled = config.channels.signal?.enabled ?? false;
   const discordEnabled = config.channels.discord?.enabled ?? false;
-  if (!signalEnabled && !discordEnabled && !webchatEnabled) {
+  if (!signalEnabled && !discordEnabled && !webchatEnabled && !apiEnabled) {
     console.log('[WARNING] No channels enabled. Enable Signal in config or add --webchat for testing.');
   }
 
   // Start gateway
   await gateway.start();
 
+  // Operator alert destinations, filled in as channels start
+  const alerts = config.security.alerts;
+  const alertTransports: AlertTransport[] = [];
+
   // Start Signal channel if enabled
   if (signalEnabled) {
     const signal = new SignalChannel(config, (msg) => {
@@ -172,12 +191,55 @@ export async function startCommand(config: OpenClawConfig): Promise<void> {
       return agentManager.handleMessage(msg);
     });
     await signal.start();
+    for (const recipient of alerts.signalRecipients) {
+      alertTransports.push({ name: 'signal', send: text => signal.sendMessage(recipient, text) });
+    }
   }
 
   // Start Discord channel if enabled
   if (discordEnabled) {
     const discord = new DiscordChannel(config, (msg) => agentManager.handleMessage(msg));
     await discord.start();
+    const channelId = alerts.discordChannelId;
+    if (channelId) {
+      alertTransports.push({ name: 'discord', send: text => discord.sendToChannel(channelId, text) });
+    }
+  }
+
+  // Page operators about CRITICAL audit events
+  let stopAlerts: (() => void) | undefined;
+  if (alerts.enabled) {
+    if (alertTransports.length === 0) {
+      console.log('[WARNING] Alerts enabled but no destination is available (needs Signal recipients or a Discord channel).');
+    } else {
+      stopAlerts = new AlertManager(alerts, alertTransports).attach();
+      console.log(`[Alerts] Paging ${alertTransports.length} destination(s)`);
+    }
+  }
+
+  // Ban the sources of repeated attacks
+  let stopThreatResponse: (() => void) | undefined;
+  const threatResponse = config.security.threatResponse;
+  if (threatResponse.enabled && threatResponse.rules.length > 0) {
+    if (!config.security.piiHmacSecret && threatResponse.rules.some(r => r.target === 'contact')) {
+      console.log('[WARNING] Contact threat rules need OPENCLAW_PII_HMAC_SECRET; only IP rules will act.');
+    }
+    stopThreatResponse = new ThreatResponder(threatResponse).attach();
+    console.log(`[Threat Response] ${threatResponse.rules.length} rule(s) active`);
+  }
+
+  // Purge expired data in the background
+  let retention: RetentionScheduler | undefined;
+  if (config.retention.enabled) {
+    retention = new RetentionScheduler({
+      ...agentManager.retentionTasks(),
+      gatewaySessions: () => pruneExpiredSessions(),
+      exports: exportsRetentionTask(resolveRetention(config).exportTTLDays),
+      auditLog: (now) => pruneAuditLog(now),
+      bans: (now) => pruneExpiredBans(now),
+    }, config.retention);
+    retention.start();
+    console.log(`[Retention] Purging every ${config.retention.intervalMinutes} min`);
   }
 
   auditInfo('openclaw_started', {
@@ -186,6 +248,7 @@ export async function startCommand(config: OpenClawConfig): Promise<void> {
         webchat: webchatEnabled,
         signal: signalEnabled,
         discord: discordEnabled,
+        api: apiEnabled,
       },
       skills: skills.length,
       builtinTools: builtinTools.length,
@@ -197,8 +260,12 @@ export async function startCommand(config: OpenClawConfig): Promise<void> {
   // Graceful shutdown
   const shutdown = async () => {
     console.log('\nShutting down...');
+    retention?.stop();
+    stopAlerts?.();
+    stopThreatResponse?.();
     await gateway.stop();
     auditInfo('openclaw_stopped');
+    await auditLogSettled();
     process.exit(0);
   };
 
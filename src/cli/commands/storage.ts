@@ -0,0 +1,119 @@
+/**
+ * CLI: openclaw storage
+ * Storage maintenance: migrate between the file and SQLite backends, and
+ * check stores for damage.
+ */
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { StorageBackendNameSchema, type OpenClawConfig } from '../../types/index.js';
+import { getOpenClawDir, resolveSecret } from '../../core/config.js';
+import { checkStorage, createStorageBackend, migrateStorage, type StorageProblem } from '../../core/storage.js';
+import { checkStoreFile } from '../../storage/fileBackend.js';
+import { decryptJSON } from '../../security/encryptedStore.js';
+import { USAGE_FILE } from '../../core/usageLedger.js';
+
+const MIGRATE_USAGE = 'Usage: openclaw storage migrate --to <file|sqlite> [--from <file|sqlite>]';
+const CHECK_USAGE = 'Usage: openclaw storage check [--repair] [--json]';
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx !== -1 ? args[idx + 1] : undefined;
+}
+
+export async function storageCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const subcommand = args[0];
+  if (subcommand === 'migrate') {
+    await migrateCommand(config, args);
+  } else if (subcommand === 'check') {
+    await checkCommand(config, args);
+  } else {
+    console.error(`Unknown storage subcommand: ${subcommand ?? '(none)'}`);
+    console.error(MIGRATE_USAGE);
+    console.error(CHECK_USAGE);
+    process.exit(1);
+  }
+}
+
+async function migrateCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const to = StorageBackendNameSchema.safeParse(getFlag(args, '--to'));
+  const from = StorageBackendNameSchema.safeParse(getFlag(args, '--from') ?? config.storage.backend);
+  if (!to.success || !from.success) {
+    console.error(MIGRATE_USAGE);
+    process.exit(1);
+  }
+  if (to.data === from.data) {
+    console.error(`Source and target are both "${to.data}".`);
+    process.exit(1);
+  }
+
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  if (!encryptionKey) {
+    console.error('No encryption key configured — encrypted records cannot be migrated.');
+    process.exit(1);
+  }
+
+  console.log(`\n  Storage migration: ${from.data} → ${to.data}\n`);
+
+  const source = createStorageBackend({ ...config.storage, backend: from.data }, encryptionKey);
+  const target = createStorageBackend({ ...config.storage, backend: to.data }, encryptionKey);
+  try {
+    const counts = migrateStorage(source, target);
+    for (const [collection, count] of Object.entries(counts)) {
+      console.log(`  ${collection.padEnd(14)} ${count}`);
+    }
+  } finally {
+    source.close();
+    target.close();
+  }
+
+  console.log(`\n  Done. Set "storage": { "backend": "${to.data}" } in ~/.openclaw/openclaw.json and restart.`);
+  console.log('  The source data was left in place; remove it once you have verified the new backend.\n');
+}
+
+async function checkCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const repair = args.includes('--repair');
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  if (!encryptionKey) {
+    console.error('No encryption key configured — encrypted stores cannot be checked.');
+    process.exit(1);
+  }
+
+  const backend = createStorageBackend(config.storage, encryptionKey);
+  let report;
+  try {
+    report = checkStorage(backend, repair);
+  } finally {
+    backend.close();
+  }
+
+  // The usage ledger is a standalone encrypted file, whatever the backend
+  const dir = getOpenClawDir();
+  if (existsSync(join(dir, USAGE_FILE))) {
+    const problem = checkStoreFile(dir, USAGE_FILE, data => decryptJSON(data, encryptionKey), repair);
+    report.checked++;
+    if (problem) report.problems.push(problem);
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`\n  Storage check (${report.backend}) — ${report.checked} encrypted record(s) checked\n`);
+    if (report.problems.length === 0) {
+      console.log('  No problems found.\n');
+    }
+    for (const p of report.problems) {
+      console.log(`  ${formatProblem(p)}`);
+    }
+    if (report.problems.length > 0) {
+      console.log(repair ? '' : '\n  Run "openclaw storage check --repair" to fix these.\n');
+    }
+  }
+
+  if (report.problems.some(p => !p.repair)) process.exit(1);
+}
+
+function formatProblem(p: StorageProblem): string {
+  const outcome = p.repair ? `→ ${p.repair.replace(/_/g, ' ')}` : '';
+  const error = p.error ? ` (${p.error})` : '';
+  return `${p.issue.replace(/_/g, ' ').padEnd(24)} ${p.location}${error} ${outcome}`.trimEnd();
+}
@@ -0,0 +1,126 @@
+/**
+ * CLI: openclaw transcripts
+ * List transcript files by pseudonym, or decrypt one contact's transcript.
+ * Every decryption is audited with the operator's stated reason.
+ */
+import type { OpenClawConfig } from '../../types/index.js';
+import { CHANNEL_TYPES, type ChannelType } from '../../types/index.js';
+import { resolveSecret } from '../../core/config.js';
+import { TranscriptLog, type TranscriptEntry } from '../../core/transcripts.js';
+import { maskPhone, maskGeneric, isValidE164 } from '../../security/piiUtils.js';
+import { auditWarn } from '../../security/auditLogger.js';
+
+const USAGE = [
+  'Usage: openclaw transcripts list [--contact <id>] [--json]',
+  '       openclaw transcripts show <contactId> --reason "<why>" [--channel <signal|discord|webchat|api>] [--json]',
+];
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx !== -1 ? args[idx + 1] : undefined;
+}
+
+function maskContact(contactId: string): string {
+  return isValidE164(contactId) ? maskPhone(contactId) : maskGeneric(contactId);
+}
+
+function usageError(message?: string): never {
+  if (message) console.error(message);
+  for (const line of USAGE) console.error(line);
+  process.exit(1);
+}
+
+export async function transcriptsCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  const piiHmacSecret = resolveSecret(config.security.piiHmacSecret, config.security.piiHmacSecretEnv);
+  if (!encryptionKey || !piiHmacSecret) {
+    console.error('Transcripts need both the encryption key and the PII HMAC secret.');
+    process.exit(1);
+  }
+  const log = new TranscriptLog(encryptionKey, piiHmacSecret, config.security.retentionDays);
+
+  switch (args[0]) {
+    case 'list':
+      listTranscripts(log, args.slice(1));
+      break;
+    case 'show':
+      showTranscript(log, args.slice(1));
+      break;
+    default:
+      usageError(args[0] ? `Unknown transcripts subcommand: ${args[0]}` : undefined);
+  }
+}
+
+function listTranscripts(log: TranscriptLog, args: string[]): void {
+  const contactId = getFlag(args, '--contact');
+  const files = log.list(contactId ? { contactId, channels: CHANNEL_TYPES } : undefined)
+    .sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(files, null, 2));
+    return;
+  }
+
+  console.log('\n  Transcripts\n');
+  console.log('  ─────────────────────────────────────────\n');
+  if (files.length === 0) {
+    console.log('  No transcripts found.\n');
+    return;
+  }
+  for (const f of files) {
+    console.log(`  ${f.pseudonym.slice(0, 16)}…  ${String(f.turns).padStart(6)} turns  ${String(f.bytes).padStart(9)} B  ${f.modifiedAt}`);
+  }
+  console.log('\n  File names are contact pseudonyms. Use --contact <id> to find a contact\'s files.\n');
+}
+
+function showTranscript(log: TranscriptLog, args: string[]): void {
+  const contactId = args[0];
+  if (!contactId || contactId.startsWith('--')) usageError();
+
+  const reason = getFlag(args, '--reason')?.trim();
+  if (!reason) usageError('A --reason is required: every transcript access is recorded in the audit log.');
+
+  const channelFlag = getFlag(args, '--channel');
+  if (channelFlag && !(CHANNEL_TYPES as readonly string[]).includes(channelFlag)) {
+    usageError(`Unknown channel: ${channelFlag}`);
+  }
+  const channels: readonly ChannelType[] = channelFlag ? [channelFlag as ChannelType] : CHANNEL_TYPES;
+
+  const entries: TranscriptEntry[] = [];
+  let unreadable = 0;
+  for (const channel of channels) {
+    const result = log.read(channel, contactId);
+    entries.push(...result.entries);
+    unreadable += result.unreadable;
+  }
+  entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  auditWarn('transcript_accessed', {
+    channel: channelFlag as ChannelType | undefined,
+    contactId,
+    details: { reason, turns: entries.length, unreadable },
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ contact: contactId, turns: entries, unreadable }, null, 2));
+    return;
+  }
+
+  console.log(`\n  Transcript — ${maskContact(contactId)}\n`);
+  console.log('  ─────────────────────────────────────────\n');
+  if (entries.length === 0) {
+    console.log('  No turns recorded.\n');
+  }
+  for (const e of entries) {
+    const tokens = `${e.usage.inputTokens} in / ${e.usage.outputTokens} out`;
+    console.log(`  [${e.timestamp}] ${e.channel} · agent ${e.agentId} · ${tokens}${e.error ? ' · FAILED' : ''}`);
+    console.log(`    User:      ${e.user}`);
+    for (const call of e.toolCalls) {
+      console.log(`    Tool:      ${call.name}${call.isError ? ' (error)' : ''} ${JSON.stringify(call.input)}`);
+    }
+    console.log(`    Assistant: ${e.assistant}\n`);
+  }
+  if (unreadable > 0) {
+    console.log(`  ${unreadable} line(s) could not be decrypted (torn write or unknown key).\n`);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * CLI: openclaw usage
+ * Token usage and estimated cost per contact, channel, agent and model.
+ */
+import type { OpenClawConfig } from '../../types/index.js';
+import { resolveSecret } from '../../core/config.js';
+import { UsageLedger, monthKey, estimateCost, type UsageRow } from '../../core/usageLedger.js';
+import { maskPhone, maskGeneric, isValidE164 } from '../../security/piiUtils.js';
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx !== -1 ? args[idx + 1] : undefined;
+}
+
+function maskContact(contactId: string): string {
+  return isValidE164(contactId) ? maskPhone(contactId) : maskGeneric(contactId);
+}
+
+function formatCost(cost: number | undefined): string {
+  return cost === undefined ? 'n/a' : `$${cost.toFixed(4)}`;
+}
+
+/**
+ * Merge day buckets into one row per contact/channel/agent/model.
+ */
+function aggregate(rows: UsageRow[], keyOf: (r: UsageRow) => string): Map<string, UsageRow> {
+  const groups = new Map<string, UsageRow>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    const g = groups.get(key);
+    if (g) {
+      g.inputTokens += r.inputTokens;
+      g.outputTokens += r.outputTokens;
+      g.requests += r.requests;
+    } else {
+      groups.set(key, { ...r });
+    }
+  }
+  return groups;
+}
+
+export async function usageCommand(config: OpenClawConfig, args: string[]): Promise<void> {
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  if (!encryptionKey) {
+    console.error('No encryption key configured — the usage ledger cannot be read.');
+    process.exit(1);
+  }
+
+  const period = getFlag(args, '--day') ?? getFlag(args, '--month') ?? monthKey(new Date());
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(period)) {
+    console.error('Usage: openclaw usage [--month YYYY-MM | --day YYYY-MM-DD] [--contact <id>] [--json]');
+    process.exit(1);
+  }
+  const contactId = getFlag(args, '--contact');
+
+  const ledger = new UsageLedger(config.usage, encryptionKey);
+  const rows = ledger.query({ period, contactId });
+  const byContact = [...aggregate(rows, r => JSON.stringify([r.channel, r.contactId, r.agentId, r.model])).values()];
+  const byModel = [...aggregate(rows, r => r.model).values()];
+  const totals = ledger.totals(rows);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({
+      period,
+      contacts: byContact.map(({ day: _day, ...r }) => ({ ...r, costUsd: estimateCost(r, ledger.priceFor(r.model)) })),
+      models: byModel.map(r => ({
+        model: r.model,
+        requests: r.requests,
+        inputTokens: r.inputTokens,
+        outputTokens: r.outputTokens,
+        pricing: ledger.priceFor(r.model),
+        costUsd: estimateCost(r, ledger.priceFor(r.model)),
+      })),
+      totals,
+    }, null, 2));
+    return;
+  }
+
+  console.log(`\n  Usage — ${period}\n`);
+  console.log('  ─────────────────────────────────────────\n');
+
+  if (rows.length === 0) {
+    console.log('  No usage recorded for this period.\n');
+    return;
+  }
+
+  byContact.sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+  console.log(`  ${'Contact'.padEnd(18)}${'Channel'.padEnd(9)}${'Agent'.padEnd(12)}${'Model'.padEnd(30)}${'Req'.padStart(6)}${'Input'.padStart(12)}${'Output'.padStart(12)}${'Est. cost'.padStart(12)}`);
+  for (const r of byContact) {
+    const cost = estimateCost(r, ledger.priceFor(r.model));
+    console.log(`  ${maskContact(r.contactId).padEnd(18)}${r.channel.padEnd(9)}${r.agentId.padEnd(12)}${r.model.padEnd(30)}${String(r.requests).padStart(6)}${String(r.inputTokens).padStart(12)}${String(r.outputTokens).padStart(12)}${formatCost(cost).padStart(12)}`);
+  }
+
+  console.log('\n  By model\n');
+  for (const r of byModel) {
+    const pricing = ledger.priceFor(r.model);
+    const rate = pricing ? `$${pricing.inputPerMTok}/$${pricing.outputPerMTok} per MTok` : 'no price configured';
+    console.log(`  ${r.model.padEnd(30)}${String(r.inputTokens + r.outputTokens).padStart(12)} tokens ${formatCost(estimateCost(r, pricing)).padStart(12)}  (${rate})`);
+  }
+
+  console.log(`\n  Total: ${totals.requests} requests, ${totals.inputTokens} input + ${totals.outputTokens} output tokens, ${formatCost(totals.costUsd)}`);
+
+  const budgets = (['dailyTokens', 'monthlyTokens', 'dailyCostUsd', 'monthlyCostUsd'] as const)
+    .filter(b => config.usage[b] !== undefined)
+    .map(b => `${b}=${config.usage[b]}`);
+  console.log(`  Per-contact budgets: ${budgets.length > 0 ? budgets.join(', ') : 'none'}\n`);
+}
@@ -10,13 +10,23 @@ import { resolve } from 'node:path';
 loadEnv({ path: resolve(import.meta.dirname, '../../.env') });
 
 import { loadConfig, ensureOpenClawDir } from '../core/config.js';
-import { initAuditLog } from '../security/auditLogger.js';
+import { checkpointAuditLog, initAuditLog, setAuditChainKey, setAuditContactSecret, setAuditSinks } from '../security/auditLogger.js';
+import { createAuditSinks } from '../security/auditSinks.js';
 import { startCommand } from './commands/start.js';
 import { doctorCommand } from './commands/doctor.js';
 import { signalVerifyCommand } from './commands/signalVerify.js';
 import { signalEraseCommand } from './commands/signalErase.js';
 import { auditViewCommand } from './commands/auditView.js';
+import { auditVerifyCommand } from './commands/auditVerify.js';
+import { auditEventsCommand } from './commands/auditEvents.js';
+import { bansCommand } from './commands/bans.js';
 import { rotateKeyCommand } from './commands/rotateKey.js';
+import { usageCommand } from './commands/usage.js';
+import { storageCommand } from './commands/storage.js';
+import { transcriptsCommand } from './commands/transcripts.js';
+import { privacyCommand } from './commands/privacy.js';
+import { configureStorage, createStorageBackend } from '../core/storage.js';
+import { registerKeyring } from '../security/encryptedStore.js';
 
 const USAGE = `
 OpenClaw Fortress — AI Agent Platform with Security Hardening
@@ -27,8 +37,33 @@ Usage:
   openclaw doctor                   Run security health check (23 controls)
   openclaw signal verify-contacts   Manage Signal safety numbers
   openclaw signal erase-contact     GDPR erasure for a Signal contact
-  openclaw security audit           View audit log
-  openclaw security rotate-key      Rotate encryption keys
+    <number> [--dry-run] [--yes]
+  openclaw security audit           View audit log [--tail N] [--json]
+    [--severity <min>] [--event <glob>] [--channel <ch>] [--session <id>]
+    [--contact <id>] [--since <7d|date>] [--until <...>] [--follow | --counts]
+  openclaw security audit verify    Check the audit hash chain [--json]
+  openclaw security audit events    Reference of every audit event [--json]
+  openclaw security bans            IPs and contacts banned by threat rules [--json]
+  openclaw security bans lift <ip|contact>  Lift a ban
+  openclaw security rotate-key      Re-encrypt all data under the active key
+    [--generate]                    Print new keys and the keyring entry to add
+  openclaw usage                    Token usage and cost per contact
+    [--month YYYY-MM | --day YYYY-MM-DD] [--contact <id>] [--json]
+  openclaw storage migrate          Copy all data to another storage backend
+    --to <file|sqlite> [--from <file|sqlite>]
+  openclaw storage check            Find damaged stores [--repair] [--json]
+  openclaw transcripts list         Transcript files by contact pseudonym
+    [--contact <id>] [--json]
+  openclaw transcripts show <id>    Decrypt a contact's transcript (audited)
+    --reason "<why>" [--channel <ch>] [--json]
+  openclaw privacy export <id>      Encrypted export of all data for a contact
+    [--out <file>] [--passphrase-env <VAR>]
+  openclaw privacy unpack <file>    Decrypt an export archive
+    [--out <dir>] [--passphrase-env <VAR>]
+  openclaw privacy erase <id>       GDPR erasure for any contact, with receipt
+    [--dry-run] [--yes]
+  openclaw privacy verify-receipt   Check an erasure receipt's signature
+    <file> [--contact <id>]
 
 Options:
   --help, -h    Show this help
@@ -54,12 +89,24 @@ async function main(): Promise<void> {
 
   // Load config and init audit
   let config = loadConfig();
-  initAuditLog(config.security.auditLogPath);
+  initAuditLog(config.security.auditLogPath, { ...config.security.auditRotation, ttlDays: config.retention.auditLogTTLDays });
+  setAuditContactSecret(config.security.piiHmacSecret);
+  setAuditChainKey(config.security.auditKey, config.security.auditCheckpointEvery);
+  process.on('exit', () => checkpointAuditLog());
 
   const command = args[0];
   const subcommand = args[1];
 
   try {
+    setAuditSinks(createAuditSinks(config.security.auditSinks, problem => {
+      console.warn(`[WARNING] ${problem}; this sink is disabled`);
+    }));
+    registerKeyring(config.security.keyring.map(entry => {
+      if (!entry.key) throw new Error(`Keyring key "${entry.id}" has no value (set "key" or "keyEnv")`);
+      return { id: entry.id, key: entry.key, retired: entry.retired };
+    }));
+    configureStorage(createStorageBackend(config.storage, config.security.encryptionKey));
+
     // --webchat flag: override WebChat to enabled for dev/test
     if (args.includes('--webchat')) {
       config = {
@@ -87,7 +134,7 @@ async function main(): Promise<void> {
         if (subcommand === 'verify-contacts') {
           await signalVerifyCommand(config);
         } else if (subcommand === 'erase-contact') {
-          await signalEraseCommand(config, args[2]);
+          await signalEraseCommand(config, args.slice(2));
         } else {
           console.error(`Unknown signal subcommand: ${subcommand}`);
           process.exit(1);
@@ -95,16 +142,38 @@ async function main(): Promise<void> {
         break;
 
       case 'security':
-        if (subcommand === 'audit') {
-          await auditViewCommand(config);
+        if (subcommand === 'audit' && args[2] === 'verify') {
+          await auditVerifyCommand(config, args.slice(3));
+        } else if (subcommand === 'audit' && args[2] === 'events') {
+          await auditEventsCommand(args.slice(3));
+        } else if (subcommand === 'audit') {
+          await auditViewCommand(config, args.slice(2));
+        } else if (subcommand === 'bans') {
+          await bansCommand(config, args.slice(2));
         } else if (subcommand === 'rotate-key') {
-          await rotateKeyCommand(config);
+          await rotateKeyCommand(config, args.slice(2));
         } else {
           console.error(`Unknown security subcommand: ${subcommand}`);
           process.exit(1);
         }
         break;
 
+      case 'usage':
+        await usageCommand(config, args.slice(1));
+        break;
+
+      case 'storage':
+        await storageCommand(config, args.slice(1));
+        break;
+
+      case 'transcripts':
+        await transcriptsCommand(config, args.slice(1));
+        break;
+
+      case 'privacy':
+        await privacyCommand(config, args.slice(1));
+        break;
+
       default:
         console.error(`Unknown command: ${command}`);
         console.log(USAGE);
@@ -3,12 +3,14 @@
  * 23-check unified health command.
  */
 import { existsSync } from 'node:fs';
-import { join } from 'node:path';
 import type { OpenClawConfig, SecurityCheckResult, SecurityCheckStatus } from '../types/index.js';
-import { getOpenClawDir, resolveSecret, resolvePath } from '../core/config.js';
+import { resolveSecret, resolvePath } from '../core/config.js';
 import { checkTokenEntropy } from '../security/gatewayAuth.js';
 import { isKeychainAvailable } from '../security/credentialStore.js';
+import { listTrackedContacts } from '../security/signalSafetyNumbers.js';
 import { assertLoopback, checkDaemonHealth, checkNotRoot } from '../security/signalDaemonGuard.js';
+import { readRetentionState, resolveRetention } from '../security/retentionPolicy.js';
+import { auditSinkProblem } from '../security/auditSinks.js';
 import { ALLOWED_DIRECTORIES } from '../tools/fileSecurityPolicy.js';
 
 type Check = (config: OpenClawConfig) => Promise<SecurityCheckResult>;
@@ -58,8 +60,8 @@ const checks: Check[] = [
   // S-03: Safety numbers
   async (c) => {
     if (!c.channels.signal?.enabled) return result('S-03', 'Safety Numbers', 'SKIP', 'Signal not enabled');
-    const storePath = join(getOpenClawDir(), 'safety-numbers.json');
-    return result('S-03', 'Safety Numbers', existsSync(storePath) ? 'PASS' : 'WARN', existsSync(storePath) ? 'Tracking active' : 'No safety numbers tracked yet');
+    const tracked = listTrackedContacts().length > 0;
+    return result('S-03', 'Safety Numbers', tracked ? 'PASS' : 'WARN', tracked ? 'Tracking active' : 'No safety numbers tracked yet');
   },
 
   // S-04: Signal schema validation
@@ -93,7 +95,11 @@ const checks: Check[] = [
   // A-02: Audit logger
   async (c) => {
     const path = resolvePath(c.security.auditLogPath);
-    return result('A-02', 'Audit Logger', 'PASS', `Logging to ${path}`);
+    const key = resolveSecret(c.security.auditKey, c.security.auditKeyEnv);
+    if (!key) return result('A-02', 'Audit Logger', 'WARN', `Logging to ${path} without a hash chain (no audit key)`);
+    const problems = c.security.auditSinks.flatMap((sink, i) => auditSinkProblem(sink, i) ?? []);
+    if (problems.length > 0) return result('A-02', 'Audit Logger', 'WARN', `Disabled: ${problems.join('; ')}`);
+    return result('A-02', 'Audit Logger', 'PASS', `Hash-chained log at ${path}`);
   },
 
   // A-03: Session manager
@@ -119,7 +125,20 @@ const checks: Check[] = [
   async () => result('E-03', 'Right to Erasure', 'PASS', 'GDPR Art. 17 erasure ready'),
 
   // E-04: Retention policy
-  async (c) => result('E-04', 'Retention Policy', 'PASS', `${c.security.retentionDays}-day retention`),
+  async (c) => {
+    const ttls = resolveRetention(c);
+    const policy = `sessions ${ttls.sessionTTLDays}d, transcripts ${ttls.transcriptTTLDays}d`;
+    if (!c.retention.enabled) return result('E-04', 'Retention Policy', 'WARN', `Background purge disabled (${policy})`);
+    const { lastRun, lastSuccess } = readRetentionState();
+    if (!lastSuccess) {
+      return result('E-04', 'Retention Policy', 'WARN', lastRun ? `Last run failed: ${Object.keys(lastRun.errors).join(', ')}` : `No purge has run yet (${policy})`);
+    }
+    const ageMinutes = Math.round((Date.now() - Date.parse(lastSuccess.finishedAt)) / 60_000);
+    const message = `Last purge ${lastSuccess.finishedAt}: ${lastSuccess.totalPurged} item(s) (${policy})`;
+    // Allow for jitter and a missed run before calling it stale
+    if (ageMinutes > c.retention.intervalMinutes * 3) return result('E-04', 'Retention Policy', 'WARN', `Stale — ${message}`);
+    return result('E-04', 'Retention Policy', 'PASS', message);
+  },
 
   // E-05: Input validation
   async () => result('E-05', 'Input Validation', 'PASS', 'Message + attachment validation active'),
@@ -2,17 +2,105 @@
  * 1.3: Agent Runtime
  * Per-contact agent instances with conversation history and tool execution.
  */
-import type { MessageParam } from '@anthropic-ai/sdk/resources/messages.js';
-import type { AgentSession, IncomingMessage, ChannelType, ToolDefinition } from '../types/index.js';
-import { LLMClient, type LLMResponse, type ToolCall } from './llm.js';
+import {
+  CHANNEL_TYPES,
+  SESSION_FORMAT_VERSION,
+  QueueConfigSchema,
+  type AgentSession,
+  type AgentContentBlock,
+  type CompactionConfig,
+  type QueueConfig,
+  type AgentMessage,
+  type IncomingMessage,
+  type ChannelType,
+  type ToolDefinition,
+  type ToolResultContentBlock,
+} from '../types/index.js';
+import { LLMClient, type LLMMessage, type LLMResponse, type ToolCall, type TextDeltaHandler } from './llm.js';
 import type { StateManager } from './stateManager.js';
-import { auditInfo, auditError } from '../security/auditLogger.js';
+import { SessionQueue, type QueueTicket } from './sessionQueue.js';
+import { needsCompaction, compactSession, withMemory, type CompactionResult } from './compaction.js';
+import { auditInfo, auditWarn, auditError } from '../security/auditLogger.js';
+import { stripMetadataForLLM } from '../security/dataMinimization.js';
+import { validateAttachments, validateMessageText } from '../security/inputValidation.js';
 
 const MAX_TOOL_ROUNDS = 5;
 
+function isPlainUserTurn(m: AgentMessage): boolean {
+  if (m.role !== 'user') return false;
+  return typeof m.content === 'string' || !m.content.some(b => b.type === 'tool_result');
+}
+
 export type ToolExecutor = (name: string, input: Record<string, unknown>) => Promise<string>;
 
+/** Tokens consumed by one turn, across every LLM call it made. */
+export interface TurnUsage {
+  channel: ChannelType;
+  contactId: string;
+  agentId: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** One completed or failed turn, as recorded in the transcript archive. */
+export interface TurnRecord {
+  channel: ChannelType;
+  contactId: string;
+  agentId: string;
+  sessionId: string;
+  user: string;
+  assistant: string;
+  toolCalls: Array<{ name: string; input: Record<string, unknown>; isError: boolean }>;
+  inputTokens: number;
+  outputTokens: number;
+  error: boolean;
+}
+
+export interface HandleMessageOptions {
+  /** Receive the response incrementally as it is generated. */
+  onDelta?: TextDeltaHandler;
+}
+
+/**
+ * What became of a message. `dropped` and `merged` come from queue
+ * overflow (or, for `dropped`, from the contact being erased while it
+ * waited): nothing is sent for them, and a merged message is answered
+ * by the reply to the earlier message it was folded into.
+ */
+export interface MessageResult {
+  status: 'replied' | 'dropped' | 'merged';
+  /** The reply to send; empty unless `replied`. */
+  reply: string;
+}
+
+interface QueuedMessage {
+  msg: IncomingMessage;
+  opts?: HandleMessageOptions;
+}
+
+/**
+ * Fold a message into one still waiting in the queue. The earlier message
+ * keeps its reply target; the later one is answered by the merged turn.
+ * Each part passed input validation on its own, so a merge whose text or
+ * attachments would exceed the limits is refused (undefined).
+ */
+function mergeQueued(queued: QueuedMessage, incoming: QueuedMessage): QueuedMessage | undefined {
+  const text = `${queued.msg.text}\n${incoming.msg.text}`;
+  const attachments = [...(queued.msg.attachments ?? []), ...(incoming.msg.attachments ?? [])];
+  if (!validateMessageText(text).valid || !validateAttachments(attachments).valid) return undefined;
+  return {
+    opts: queued.opts,
+    msg: {
+      ...queued.msg,
+      text,
+      timestamp: incoming.msg.timestamp,
+      ...(attachments.length > 0 ? { attachments } : {}),
+    },
+  };
+}
+
 export interface AgentOptions {
+  agentId?: string;
   llm: LLMClient;
   systemPrompt: string;
   tools?: ToolDefinition[];
@@ -20,9 +108,23 @@ export interface AgentOptions {
   maxContextMessages: number;
   maxSessionAge: number;
   stateManager?: StateManager;
+  /** Summarize old turns into session memory instead of only trimming. */
+  compaction?: CompactionConfig;
+  /** Called after every turn (including failed ones) with its token usage. */
+  onUsage?: (usage: TurnUsage) => void;
+  /** Per-session queue limits; defaults to QueueConfigSchema defaults. */
+  queue?: QueueConfig;
+  /** Called after every processed turn (including failed ones). */
+  onTurn?: (turn: TurnRecord) => void;
+  /**
+   * Called as a turn starts, after any wait in the queue. A returned reply
+   * is sent instead of running the turn (e.g. the usage budget ran out).
+   */
+  beforeTurn?: (msg: IncomingMessage) => string | undefined;
 }
 
 export class Agent {
+  private agentId: string;
   private llm: LLMClient;
   private systemPrompt: string;
   private tools: ToolDefinition[];
@@ -31,8 +133,15 @@ export class Agent {
   private sessions = new Map<string, AgentSession>();
   private maxSessionAge: number;
   private stateManager?: StateManager;
+  private compaction?: CompactionConfig;
+  private onUsage?: (usage: TurnUsage) => void;
+  private onTurn?: (turn: TurnRecord) => void;
+  private beforeTurn?: (msg: IncomingMessage) => string | undefined;
+  private queueConfig: QueueConfig;
+  private queue: SessionQueue<QueuedMessage, string>;
 
   constructor(opts: AgentOptions) {
+    this.agentId = opts.agentId ?? 'default';
     this.llm = opts.llm;
     this.systemPrompt = opts.systemPrompt;
     this.tools = opts.tools ?? [];
@@ -40,13 +149,75 @@ export class Agent {
     this.maxContextMessages = opts.maxContextMessages;
     this.maxSessionAge = opts.maxSessionAge;
     this.stateManager = opts.stateManager;
+    this.compaction = opts.compaction;
+    this.onUsage = opts.onUsage;
+    this.onTurn = opts.onTurn;
+    this.beforeTurn = opts.beforeTurn;
+    this.queueConfig = opts.queue ?? QueueConfigSchema.parse({});
+    this.queue = new SessionQueue(this.queueConfig, mergeQueued);
   }
 
   /**
    * Handle an incoming message and return the agent's response.
+   * With `onDelta`, text is streamed as it arrives across every tool round;
+   * the resolved value is still the final round's complete text.
+   *
+   * Messages for the same session are processed one at a time, in order.
+   * When the session's queue is full, a dropped or merged message resolves
+   * to '' (nothing to send) and a busy one to the configured busy reply.
+   * Use `respond` to tell those cases apart.
    */
-  async handleMessage(msg: IncomingMessage): Promise<string> {
+  async handleMessage(msg: IncomingMessage, opts?: HandleMessageOptions): Promise<string> {
+    return (await this.respond(msg, opts)).reply;
+  }
+
+  /**
+   * As handleMessage, with the queue outcome made explicit.
+   */
+  async respond(msg: IncomingMessage, opts?: HandleMessageOptions): Promise<MessageResult> {
+    const result = await this.queue.submit(
+      `${msg.channel}:${msg.contactId}`,
+      { msg, opts },
+      (queued, ticket) => this.processMessage(queued.msg, queued.opts, ticket),
+    );
+    if (result.status === 'processed') return { status: 'replied', reply: result.value };
+    if (result.status === 'cancelled') return { status: 'dropped', reply: '' };
+
+    auditWarn('agent_queue_overflow', {
+      channel: msg.channel,
+      contactId: msg.contactId,
+      details: { agentId: this.agentId, policy: result.status, queueDepth: result.depth },
+    });
+    return result.status === 'busy'
+      ? { status: 'replied', reply: this.queueConfig.busyReply }
+      : { status: result.status, reply: '' };
+  }
+
+  private async processMessage(
+    msg: IncomingMessage,
+    opts: HandleMessageOptions | undefined,
+    ticket: QueueTicket,
+  ): Promise<string> {
+    const refusal = this.beforeTurn?.(msg);
+    if (refusal !== undefined) return refusal;
+
+    const stream = opts?.onDelta ? this.separateRounds(opts.onDelta) : undefined;
+
     const session = this.getOrCreateSession(msg.contactId, msg.channel);
+    const usage: TurnUsage = {
+      channel: msg.channel,
+      contactId: msg.contactId,
+      agentId: this.agentId,
+      inputTokens: 0,
+      outputTokens: 0,
+    };
+    const count = (r: { inputTokens: number; outputTokens: number }): void => {
+      usage.inputTokens += r.inputTokens;
+      usage.outputTokens += r.outputTokens;
+    };
+    const toolCalls: TurnRecord['toolCalls'] = [];
+    let reply: string | undefined;
+    let failed = false;
 
     // Add user message to history
     session.messages.push({
@@ -57,49 +228,71 @@ export class Agent {
       contactId: msg.contactId,
     });
 
-    // Trim history if over limit
+    // Compact, then trim whatever is still over the limit
+    const compaction = await this.compactHistory(session);
+    if (compaction) count(compaction);
     this.trimHistory(session);
+    const historyLength = session.messages.length;
 
-    // Build messages for LLM
-    const messages: MessageParam[] = session.messages.map(m => ({
-      role: m.role,
-      content: m.content,
-    }));
+    // Build messages for LLM (E-02: no timestamps, channel or contact IDs)
+    const messages: LLMMessage[] = stripMetadataForLLM(session.messages);
+    const systemPrompt = withMemory(this.systemPrompt, session);
 
     try {
-      let response = await this.llm.chat({
-        systemPrompt: this.systemPrompt,
+      const request = {
+        systemPrompt,
         messages,
         tools: this.tools,
         maxTokens: undefined,
         temperature: undefined,
-      });
+      };
+      let response = stream
+        ? await this.llm.chatStream(request, stream.handler)
+        : await this.llm.chat(request);
+      count(response);
 
       // Tool use loop
       let toolRounds = 0;
       while (response.toolCalls.length > 0 && toolRounds < MAX_TOOL_ROUNDS) {
         toolRounds++;
+        const toolUse = this.toToolUseBlocks(response);
         const toolResults = await this.executeTools(response.toolCalls, session);
+        toolCalls.push(...response.toolCalls.map((call, i) => ({
+          name: call.name,
+          input: call.input,
+          isError: toolResults[i]?.is_error === true,
+        })));
+        const resultBlocks = toolResults.map((r): ToolResultContentBlock => ({
+          type: 'tool_result',
+          tool_use_id: r.tool_use_id,
+          content: r.content,
+          ...(r.is_error ? { is_error: true } : {}),
+        }));
 
         // Add assistant response (with tool calls) to messages
-        messages.push({ role: 'assistant', content: response.content || 'Using tools...' });
+        messages.push({ role: 'assistant', content: toolUse });
+        stream?.nextRound();
 
         response = await this.llm.continueWithToolResults(
-          { systemPrompt: this.systemPrompt, messages, tools: this.tools },
+          { systemPrompt, messages, tools: this.tools },
           toolResults,
+          stream?.handler,
+        );
+        count(response);
+        messages.push({ role: 'user', content: resultBlocks });
+
+        // Keep the exchange in history so later turns can see what tools returned
+        session.messages.push(
+          this.historyEntry('assistant', toolUse, msg),
+          this.historyEntry('user', resultBlocks, msg),
         );
       }
 
       const responseText = response.content || 'I apologize, but I was unable to generate a response.';
+      reply = responseText;
 
       // Add assistant response to history
-      session.messages.push({
-        role: 'assistant',
-        content: responseText,
-        timestamp: Date.now(),
-        channel: msg.channel,
-        contactId: msg.contactId,
-      });
+      session.messages.push(this.historyEntry('assistant', responseText, msg));
 
       session.lastActiveAt = Date.now();
       this.persistSession(session);
@@ -109,22 +302,87 @@ export class Agent {
         contactId: msg.contactId,
         sessionId: session.id,
         details: {
+          agentId: this.agentId,
           inputTokens: response.inputTokens,
           outputTokens: response.outputTokens,
           toolRounds,
+          queueDepth: ticket.depth,
+          queueWaitMs: ticket.waitMs,
         },
       });
 
       return responseText;
     } catch (err) {
+      // Drop a partial tool exchange so history never holds an unanswered tool_use
+      session.messages.splice(historyLength);
       auditError('agent_error', {
         channel: msg.channel,
         contactId: msg.contactId,
         sessionId: session.id,
-        details: { error: String(err) },
+        details: { error: String(err), queueDepth: ticket.depth, queueWaitMs: ticket.waitMs },
       });
-      return 'I encountered an error processing your message. Please try again.';
+      reply = 'I encountered an error processing your message. Please try again.';
+      failed = true;
+      return reply;
+    } finally {
+      if (usage.inputTokens > 0 || usage.outputTokens > 0) this.onUsage?.(usage);
+      if (reply !== undefined) {
+        this.onTurn?.({
+          channel: msg.channel,
+          contactId: msg.contactId,
+          agentId: this.agentId,
+          sessionId: session.id,
+          user: msg.text,
+          assistant: reply,
+          toolCalls,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          error: failed,
+        });
+      }
+    }
+  }
+
+  /**
+   * Assistant content for a tool round: any text the model produced
+   * followed by one tool_use block per call.
+   */
+  private toToolUseBlocks(response: LLMResponse): AgentContentBlock[] {
+    const blocks: AgentContentBlock[] = [];
+    if (response.content) {
+      blocks.push({ type: 'text', text: response.content });
+    }
+    for (const call of response.toolCalls) {
+      blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.input });
     }
+    return blocks;
+  }
+
+  private historyEntry(
+    role: AgentMessage['role'],
+    content: AgentMessage['content'],
+    msg: IncomingMessage,
+  ): AgentMessage {
+    return { role, content, timestamp: Date.now(), channel: msg.channel, contactId: msg.contactId };
+  }
+
+  /**
+   * Wrap a delta handler so text from consecutive tool rounds is separated
+   * by a blank line instead of running together. The separator is only
+   * emitted once the next round actually produces text.
+   */
+  private separateRounds(onDelta: TextDeltaHandler): { handler: TextDeltaHandler; nextRound(): void } {
+    let emitted = false;
+    let pendingSeparator = false;
+    return {
+      handler: (delta) => {
+        if (pendingSeparator && emitted) onDelta('\n\n');
+        pendingSeparator = false;
+        emitted = true;
+        onDelta(delta);
+      },
+      nextRound: () => { pendingSeparator = true; },
+    };
   }
 
   /**
@@ -151,8 +409,9 @@ export class Agent {
 
     if (!session) {
       session = {
+        version: SESSION_FORMAT_VERSION,
         id: crypto.randomUUID(),
-        agentId: 'default',
+        agentId: this.agentId,
         contactId,
         channel,
         messages: [],
@@ -169,36 +428,67 @@ export class Agent {
   }
 
   /**
-   * Try to restore a session from disk by scanning persisted sessions
-   * for a matching channel:contactId key.
+   * Try to restore this agent's session for a contact from disk.
    */
   private tryRestoreFromDisk(key: string, contactId: string, channel: ChannelType): AgentSession | undefined {
     if (!this.stateManager) return undefined;
-    const sessionIds = this.stateManager.listSessions();
-    for (const sid of sessionIds) {
-      const loaded = this.stateManager.loadSession(sid);
-      if (!loaded) continue;
-      if (loaded.channel === channel && loaded.contactId === contactId) {
-        if (loaded.expiresAt < Date.now()) {
-          this.stateManager.deleteSession(sid);
-          auditInfo('session_expired', { channel, contactId });
-          return undefined;
-        }
-        this.sessions.set(key, loaded);
-        auditInfo('session_restored', { channel, contactId, sessionId: loaded.id });
-        return loaded;
+    const loaded = this.stateManager.findSession(channel, contactId, this.agentId);
+    if (!loaded) return undefined;
+    if (loaded.expiresAt < Date.now()) {
+      this.stateManager.deleteSession(loaded.id);
+      auditInfo('session_expired', { channel, contactId });
+      return undefined;
+    }
+    this.sessions.set(key, loaded);
+    auditInfo('session_restored', { channel, contactId, sessionId: loaded.id });
+    return loaded;
+  }
+
+  /**
+   * Fold older turns into the session's pinned memory when compaction is
+   * configured and the history is over threshold. On failure the history is
+   * left as-is and trimHistory applies.
+   */
+  private async compactHistory(session: AgentSession): Promise<CompactionResult | undefined> {
+    if (!this.compaction || !needsCompaction(session, this.compaction, this.maxContextMessages)) return undefined;
+    try {
+      const result = await compactSession(session, this.llm, this.compaction);
+      if (result.compacted > 0) {
+        auditInfo('conversation_compacted', {
+          channel: session.channel,
+          contactId: session.contactId,
+          sessionId: session.id,
+          details: {
+            agentId: this.agentId,
+            compacted: result.compacted,
+            remaining: session.messages.length,
+            totalCompacted: session.memory?.compactedMessages,
+          },
+        });
       }
+      return result;
+    } catch (err) {
+      auditWarn('conversation_compaction_failed', {
+        channel: session.channel,
+        contactId: session.contactId,
+        sessionId: session.id,
+        details: { agentId: this.agentId, error: String(err) },
+      });
+      return undefined;
     }
-    return undefined;
   }
 
   /**
    * Trim conversation history to maxContextMessages.
+   * History always restarts at a plain user turn, so a tool_result is
+   * never left without the tool_use that produced it.
    */
   private trimHistory(session: AgentSession): void {
     if (session.messages.length > this.maxContextMessages) {
       const excess = session.messages.length - this.maxContextMessages;
       session.messages.splice(0, excess);
+      const start = session.messages.findIndex(isPlainUserTurn);
+      if (start > 0) session.messages.splice(0, start);
     }
   }
 
@@ -274,7 +564,7 @@ export class Agent {
     }
     for (const sid of this.stateManager.listSessions()) {
       const session = this.stateManager.loadSession(sid);
-      if (!session) continue;
+      if (!session || session.agentId !== this.agentId) continue;
       if (session.expiresAt < now) {
         this.stateManager.deleteSession(sid);
         continue;
@@ -288,6 +578,49 @@ export class Agent {
     return restored;
   }
 
+  /**
+   * Take over the live sessions of the agent this one replaces (when the
+   * manager rebuilds its agents, e.g. to hand them new tools).
+   */
+  adoptSessions(previous: Agent): void {
+    for (const [key, session] of previous.sessions) {
+      if (!this.sessions.has(key)) this.sessions.set(key, session);
+    }
+  }
+
+  /**
+   * Drop expired sessions from memory, and with ttlDays, sessions idle for
+   * longer. Persisted copies are pruned by StateManager.pruneExpiredSessions.
+   */
+  pruneSessions(ttlDays?: number, now = Date.now()): number {
+    const idleCutoff = ttlDays === undefined ? undefined : now - ttlDays * 86400_000;
+    let pruned = 0;
+    for (const [key, session] of this.sessions) {
+      if (session.expiresAt < now || (idleCutoff !== undefined && session.lastActiveAt < idleCutoff)) {
+        this.sessions.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * Live sessions held in memory (all persisted ones are restored at
+   * startup), skipping any that have expired but not been pruned yet.
+   */
+  listSessions(now = Date.now()): AgentSession[] {
+    return [...this.sessions.values()].filter(session => session.expiresAt >= now);
+  }
+
+  /**
+   * Discard a contact's waiting messages, on every channel, and wait for
+   * the one being processed, so nothing writes their session back after
+   * it is erased.
+   */
+  async cancelContact(contactId: string): Promise<void> {
+    await Promise.all(CHANNEL_TYPES.map(channel => this.queue.cancel(`${channel}:${contactId}`)));
+  }
+
   /**
    * Clear a specific session (memory + disk).
    */
@@ -312,6 +645,10 @@ export class Agent {
     this.sessions.clear();
   }
 
+  getAgentId(): string {
+    return this.agentId;
+  }
+
   /**
    * Get session count.
    */
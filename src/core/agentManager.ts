@@ -1,77 +1,312 @@
 /**
  * Agent Manager
- * Creates and manages agent instances for the gateway.
+ * Creates and manages named agent instances and routes messages to them.
  */
-import type { OpenClawConfig, IncomingMessage } from '../types/index.js';
-import { Agent, type ToolExecutor } from './agent.js';
+import type { OpenClawConfig, IncomingMessage, AgentConfig, AgentSession, ToolDefinition } from '../types/index.js';
+import { Agent, type ToolExecutor, type HandleMessageOptions, type MessageResult, type TurnRecord } from './agent.js';
 import { LLMClient } from './llm.js';
 import { StateManager } from './stateManager.js';
+import { MessagePipeline, buildSecurityPipeline } from './messagePipeline.js';
+import { resolveAgentId } from './agentRouter.js';
+import { UsageLedger, type UsageEntry } from './usageLedger.js';
+import { TranscriptLog } from './transcripts.js';
 import { resolveSecret } from './config.js';
-import { auditInfo } from '../security/auditLogger.js';
+import { auditInfo, auditWarn, auditError } from '../security/auditLogger.js';
+import { resolveRetention, type RetentionTask } from '../security/retentionPolicy.js';
+import { isContactBanned } from '../security/threatResponse.js';
 
 export class AgentManager {
-  private agent: Agent;
+  private agents = new Map<string, Agent>();
   private config: OpenClawConfig;
   private stateManager?: StateManager;
+  private pipeline: MessagePipeline;
+  private usage: UsageLedger;
+  private piiHmacSecret?: string;
+  private transcripts?: TranscriptLog;
+  private toolExecutor?: ToolExecutor;
+  private tools: ToolDefinition[] = [];
 
   constructor(config: OpenClawConfig, toolExecutor?: ToolExecutor) {
     this.config = config;
+    this.toolExecutor = toolExecutor;
+    const retention = resolveRetention(config);
+    this.piiHmacSecret = resolveSecret(config.security.piiHmacSecret, config.security.piiHmacSecretEnv);
 
     // Initialize StateManager if encryption key is available
     const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
     if (encryptionKey) {
-      this.stateManager = new StateManager(encryptionKey);
+      const piiHmacSecret = this.piiHmacSecret;
+      if (!piiHmacSecret) {
+        console.warn('[Sessions] No PII HMAC secret — session lookups will decrypt every session file');
+      }
+      this.stateManager = new StateManager(encryptionKey, piiHmacSecret);
+      if (piiHmacSecret && config.security.transcriptsEnabled) {
+        this.transcripts = new TranscriptLog(encryptionKey, piiHmacSecret, retention.transcriptTTLDays);
+        this.transcripts.prune();
+      }
     } else {
       console.warn('[Sessions] No encryption key — sessions will not persist across restarts');
     }
 
-    const llm = new LLMClient(config.llm);
+    this.pipeline = buildSecurityPipeline(config.security, encryptionKey);
+    this.usage = new UsageLedger(config.usage, encryptionKey, retention.usageTTLDays);
 
-    this.agent = new Agent({
-      llm,
-      systemPrompt: config.systemPrompt,
-      tools: [],
-      toolExecutor,
-      maxContextMessages: config.llm.maxContextMessages,
-      maxSessionAge: config.security.maxSessionAge,
-      stateManager: this.stateManager,
-    });
+    this.buildAgents();
 
     // Restore persisted sessions
-    const restored = this.agent.restoreAllSessions();
+    let restored = 0;
+    for (const agent of this.agents.values()) {
+      restored += agent.restoreAllSessions();
+    }
     if (restored > 0) {
       console.log(`[Sessions] Restored ${restored} session(s) from disk`);
       auditInfo('sessions_restored', { details: { count: restored } });
     }
 
-    auditInfo('agent_manager_initialized');
+    auditInfo('agent_manager_initialized', { details: { agents: this.getAgentIds() } });
+  }
+
+  /**
+   * Run an incoming message through the security pipeline, then route it
+   * to the matching agent. Blocked messages get the pipeline's reply instead.
+   */
+  async handleMessage(msg: IncomingMessage, opts?: HandleMessageOptions): Promise<string> {
+    return (await this.respond(msg, opts)).reply;
+  }
+
+  /**
+   * As handleMessage, saying whether the message was answered or dropped
+   * or merged by the agent's queue (see MessageResult).
+   */
+  async respond(msg: IncomingMessage, opts?: HandleMessageOptions): Promise<MessageResult> {
+    // Threat-response bans, on every channel (Signal, Discord and the API
+    // also refuse banned contacts on arrival; webchat relies on this)
+    if (isContactBanned(msg.channel, msg.contactId, this.piiHmacSecret)) {
+      auditWarn('agent_banned_contact', { channel: msg.channel, contactId: msg.contactId });
+      return { status: 'dropped', reply: '' };
+    }
+
+    const outcome = await this.pipeline.process(msg);
+    if (!outcome.allowed) {
+      return { status: 'replied', reply: outcome.reply ?? '' };
+    }
+
+    const agentId = resolveAgentId(outcome.message, this.config.routing);
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      // Config validation prevents this; fail closed if it happens anyway
+      auditError('agent_route_missing', { channel: msg.channel, details: { agentId } });
+      return { status: 'replied', reply: 'I encountered an error processing your message. Please try again.' };
+    }
+
+    return agent.respond(outcome.message, opts);
+  }
+
+  getUsageLedger(): UsageLedger {
+    return this.usage;
   }
 
   /**
-   * Route an incoming message to the agent.
+   * The inbound security pipeline (for adding stages or lifting suspensions).
    */
-  async handleMessage(msg: IncomingMessage): Promise<string> {
-    return this.agent.handleMessage(msg);
+  getPipeline(): MessagePipeline {
+    return this.pipeline;
   }
 
   /**
-   * Update tools available to the agent (e.g., after skill loading).
+   * Update tools available to the agents (e.g., after skill loading).
+   * Each agent receives the subset named in its config.
    * Preserves the StateManager across agent rebuilds.
    */
-  updateAgent(toolExecutor: ToolExecutor, tools: import('../types/index.js').ToolDefinition[]): void {
-    const llm = new LLMClient(this.config.llm);
-    this.agent = new Agent({
-      llm,
-      systemPrompt: this.config.systemPrompt,
-      tools,
-      toolExecutor,
-      maxContextMessages: this.config.llm.maxContextMessages,
-      maxSessionAge: this.config.security.maxSessionAge,
-      stateManager: this.stateManager,
-    });
+  updateAgent(toolExecutor: ToolExecutor, tools: ToolDefinition[]): void {
+    this.toolExecutor = toolExecutor;
+    this.tools = tools;
+    this.buildAgents();
+  }
+
+  /**
+   * Retention tasks for the data held here: sessions (memory and disk),
+   * transcripts and usage rows. Run by the RetentionScheduler.
+   */
+  retentionTasks(): Record<string, RetentionTask> {
+    const { sessionTTLDays } = resolveRetention(this.config);
+    const tasks: Record<string, RetentionTask> = {
+      sessions: (now) => {
+        let pruned = 0;
+        for (const agent of this.agents.values()) pruned += agent.pruneSessions(sessionTTLDays, now.getTime());
+        return this.stateManager ? this.stateManager.pruneExpiredSessions(sessionTTLDays, now.getTime()) : pruned;
+      },
+      usage: (now) => this.usage.prune(now),
+    };
+    const transcripts = this.transcripts;
+    if (transcripts) tasks['transcripts'] = (now) => transcripts.prune(now).turnsDropped;
+    return tasks;
+  }
+
+  getAgent(agentId: string): Agent | undefined {
+    return this.agents.get(agentId);
+  }
+
+  getAgentIds(): string[] {
+    return [...this.agents.keys()];
+  }
+
+  /**
+   * Unexpired sessions across every agent, most recently active first:
+   * those in memory, and persisted ones that are not (e.g. of an agent no
+   * longer configured).
+   */
+  listSessions(now = Date.now()): AgentSession[] {
+    const live = [...this.agents.values()].flatMap(agent => agent.listSessions(now));
+    const ids = new Set(live.map(session => session.id));
+    const stored = this.stateManager
+      ? this.stateManager.listSessions()
+        .filter(id => !ids.has(id))
+        .map(id => this.loadStoredSession(id, now))
+        .filter((session): session is AgentSession => session !== undefined)
+      : [];
+    return [...live, ...stored].sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+  }
+
+  getSession(sessionId: string, now = Date.now()): AgentSession | undefined {
+    for (const agent of this.agents.values()) {
+      const session = agent.listSessions(now).find(s => s.id === sessionId);
+      if (session) return session;
+    }
+    return this.loadStoredSession(sessionId, now);
+  }
+
+  /**
+   * Delete a session from memory and disk. Returns it, or undefined if
+   * there was no such unexpired session.
+   */
+  deleteSession(sessionId: string): AgentSession | undefined {
+    const session = this.getSession(sessionId);
+    if (!session) return undefined;
+    this.agents.get(session.agentId)?.clearSession(session.contactId, session.channel);
+    this.stateManager?.deleteSession(session.id);
+    return session;
+  }
+
+  /**
+   * Discard a contact's queued messages on every agent and wait for those
+   * being processed. Call before erasing their stored data.
+   */
+  async cancelContact(contactId: string): Promise<void> {
+    await Promise.all([...this.agents.values()].map(agent => agent.cancelContact(contactId)));
+  }
+
+  /**
+   * Drop what this process holds for a contact, on every agent and channel,
+   * after their stored data was erased: sessions (so they aren't written
+   * back), usage rows and pipeline suspensions. Returns the sessions dropped.
+   */
+  forgetContact(contactId: string): number {
+    let forgotten = 0;
+    for (const session of this.listSessions()) {
+      if (session.contactId !== contactId) continue;
+      this.agents.get(session.agentId)?.clearSession(contactId, session.channel);
+      forgotten++;
+    }
+    // A damaged ledger was already reported by the erasure itself
+    if (!this.usage.isDamaged()) this.usage.forget(contactId);
+    this.pipeline.forgetContact(contactId);
+    return forgotten;
   }
 
   getSessionCount(): number {
-    return this.agent.getSessionCount();
+    let count = 0;
+    for (const agent of this.agents.values()) {
+      count += agent.getSessionCount();
+    }
+    return count;
+  }
+
+  /**
+   * (Re)create every configured agent. The implicit 'default' agent uses
+   * the top-level llm/systemPrompt settings unless `agents` overrides it.
+   */
+  private buildAgents(): void {
+    const previous = new Map(this.agents);
+    this.agents.clear();
+    for (const spec of this.getAgentSpecs()) {
+      const model = spec.model ?? this.config.llm.model;
+      const llm = new LLMClient({
+        ...this.config.llm,
+        model,
+        temperature: spec.temperature ?? this.config.llm.temperature,
+        maxTokens: spec.maxTokens ?? this.config.llm.maxTokens,
+      });
+
+      const tools = spec.tools
+        ? this.tools.filter(t => spec.tools!.includes(t.name))
+        : this.tools;
+
+      if (this.stateManager) {
+        this.stateManager.ensureAgentDir(spec.id);
+      }
+
+      this.agents.set(spec.id, new Agent({
+        agentId: spec.id,
+        llm,
+        systemPrompt: spec.systemPrompt ?? this.config.systemPrompt,
+        tools,
+        toolExecutor: this.toolExecutor,
+        maxContextMessages: spec.maxContextMessages ?? this.config.llm.maxContextMessages,
+        maxSessionAge: spec.maxSessionAge ?? this.config.security.maxSessionAge,
+        stateManager: this.stateManager,
+        compaction: spec.compaction,
+        onUsage: (usage) => this.recordUsage({ ...usage, model }),
+        onTurn: (turn) => this.recordTranscript(turn, model),
+        // Budgets are per contact, across all agents. Checked as the turn
+        // starts, so queued (and merged) messages don't slip past them
+        beforeTurn: (turnMsg) => this.usage.checkBudget(turnMsg.channel, turnMsg.contactId).allowed
+          ? undefined
+          : this.usage.getLimitReply(),
+        queue: this.config.queue,
+      }));
+      const replaced = previous.get(spec.id);
+      if (replaced) this.agents.get(spec.id)!.adoptSessions(replaced);
+    }
+  }
+
+  private loadStoredSession(sessionId: string, now: number): AgentSession | undefined {
+    const session = this.stateManager?.loadSession(sessionId);
+    return session && session.expiresAt >= now ? session : undefined;
+  }
+
+  private recordUsage(entry: UsageEntry): void {
+    try {
+      this.usage.record(entry);
+    } catch (err) {
+      auditError('usage_record_failed', { channel: entry.channel, details: { error: String(err) } });
+    }
+  }
+
+  private recordTranscript(turn: TurnRecord, model: string): void {
+    if (!this.transcripts) return;
+    const { inputTokens, outputTokens, error, ...rest } = turn;
+    try {
+      this.transcripts.append({
+        ...rest,
+        timestamp: new Date().toISOString(),
+        usage: { inputTokens, outputTokens, model },
+        ...(error ? { error } : {}),
+      });
+    } catch (err) {
+      auditError('transcript_write_failed', {
+        channel: turn.channel,
+        sessionId: turn.sessionId,
+        details: { error: String(err) },
+      });
+    }
+  }
+
+  private getAgentSpecs(): AgentConfig[] {
+    const specs = [...this.config.agents];
+    if (!specs.some(a => a.id === 'default')) {
+      specs.unshift({ id: 'default' });
+    }
+    return specs;
   }
 }
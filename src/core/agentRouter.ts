@@ -0,0 +1,38 @@
+/**
+ * 1.12: Agent Router
+ * Pick a named agent for an incoming message from the routing rules.
+ */
+import type { IncomingMessage, RoutingConfig, RoutingRule } from '../types/index.js';
+
+/**
+ * Check a single rule against a message.
+ * Every criterion the rule specifies must match; unspecified criteria match anything.
+ */
+export function ruleMatches(rule: RoutingRule, msg: IncomingMessage): boolean {
+  if (rule.channel && rule.channel !== msg.channel) return false;
+
+  if (rule.contacts && !rule.contacts.includes(msg.contactId)) return false;
+
+  if (rule.signalGroups) {
+    if (msg.channel !== 'signal' || !msg.groupId) return false;
+    if (!rule.signalGroups.includes(msg.groupId)) return false;
+  }
+
+  if (rule.discordServers) {
+    if (msg.channel !== 'discord' || !msg.groupId) return false;
+    if (!rule.discordServers.includes(msg.groupId)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Resolve the agent ID for a message. First matching rule wins;
+ * falls back to `routing.defaultAgent`.
+ */
+export function resolveAgentId(msg: IncomingMessage, routing: RoutingConfig): string {
+  for (const rule of routing.rules) {
+    if (ruleMatches(rule, msg)) return rule.agent;
+  }
+  return routing.defaultAgent;
+}
@@ -0,0 +1,343 @@
+/**
+ * 1.21: REST API Schemas
+ * zod schemas for every /v1 request and response, the error envelope, and
+ * the table of operations. The router validates against these schemas and
+ * mounts its routes from the table, and the OpenAPI document is generated
+ * from both, so the docs can't drift from what the server accepts.
+ */
+import { z } from 'zod';
+import { CHANNEL_TYPES } from '../types/index.js';
+
+export const API_BASE_PATH = '/v1';
+
+// ── Errors ───────────────────────────────────────────────────
+
+export const API_ERROR_STATUS = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  payload_too_large: 413,
+  rate_limited: 429,
+  internal: 500,
+  unavailable: 503,
+} as const;
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+export const ApiErrorSchema = z.object({
+  error: z.object({
+    code: z.enum(Object.keys(API_ERROR_STATUS) as [ApiErrorCode, ...ApiErrorCode[]]),
+    message: z.string(),
+    details: z.array(z.object({
+      path: z.string().describe('Dotted path to the offending field, empty for the whole body'),
+      message: z.string(),
+    })).optional().describe('Validation problems, for invalid_request'),
+  }),
+});
+export type ApiErrorBody = z.infer<typeof ApiErrorSchema>;
+
+// ── Shared ───────────────────────────────────────────────────
+
+const timestamp = () => z.iso.datetime();
+const contactId = () => z.string().min(1).max(256)
+  .describe('ID of the end user. API sessions are keyed by it, on the `api` channel');
+
+export const SessionIdParamsSchema = z.strictObject({ id: z.uuid() });
+export const JobIdParamsSchema = z.strictObject({ id: z.uuid() });
+
+// ── Messages and jobs ────────────────────────────────────────
+
+export const SendMessageRequestSchema = z.strictObject({
+  contactId: contactId(),
+  text: z.string().min(1),
+  mode: z.enum(['sync', 'async']).default('sync')
+    .describe('sync waits for the reply; async returns a job to poll'),
+});
+export type SendMessageRequest = z.infer<typeof SendMessageRequestSchema>;
+
+export const MessageReplySchema = z.object({
+  contactId: z.string(),
+  status: z.enum(['replied', 'dropped', 'merged'])
+    .describe('dropped or merged: the contact\'s queue was full. A merged message is answered by the reply to an earlier one'),
+  reply: z.string().optional().describe('Present when replied'),
+});
+export type MessageReply = z.infer<typeof MessageReplySchema>;
+
+export const JobSchema = z.object({
+  id: z.uuid(),
+  status: z.enum(['pending', 'completed', 'failed']),
+  createdAt: timestamp(),
+  completedAt: timestamp().optional(),
+  result: MessageReplySchema.optional().describe('Present when completed'),
+  error: z.string().optional(),
+});
+export type Job = z.infer<typeof JobSchema>;
+
+// ── Sessions ─────────────────────────────────────────────────
+
+export const ListSessionsQuerySchema = z.strictObject({
+  channel: z.enum(CHANNEL_TYPES).optional(),
+  contactId: z.string().optional(),
+  agentId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const SessionSummarySchema = z.object({
+  id: z.uuid(),
+  agentId: z.string(),
+  channel: z.enum(CHANNEL_TYPES),
+  contactId: z.string(),
+  messageCount: z.number().int().nonnegative(),
+  createdAt: timestamp(),
+  lastActiveAt: timestamp(),
+  expiresAt: timestamp(),
+});
+export type SessionSummary = z.infer<typeof SessionSummarySchema>;
+
+export const SessionListSchema = z.object({
+  sessions: z.array(SessionSummarySchema),
+});
+
+// Mirrors the stored content blocks (Anthropic Messages API shapes)
+const ContentBlockSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({ type: z.literal('tool_use'), id: z.string(), name: z.string(), input: z.record(z.string(), z.unknown()) }),
+  z.object({ type: z.literal('tool_result'), tool_use_id: z.string(), content: z.string(), is_error: z.boolean().optional() }),
+]);
+
+export const SessionHistorySchema = z.object({
+  session: SessionSummarySchema,
+  memory: z.object({
+    summary: z.string(),
+    compactedMessages: z.number().int().nonnegative(),
+  }).optional().describe('Summary of older turns folded out of the history by compaction'),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.union([z.string(), z.array(ContentBlockSchema)]),
+    timestamp: timestamp(),
+  })),
+});
+export type SessionHistory = z.infer<typeof SessionHistorySchema>;
+
+// ── Erasure ──────────────────────────────────────────────────
+
+export const ErasureRequestSchema = z.strictObject({
+  contactId: z.string().min(1).max(256).describe('Contact to erase, on every channel'),
+  dryRun: z.boolean().default(false),
+  confirm: z.string().optional().describe('Must repeat contactId unless dryRun'),
+}).refine(req => req.dryRun || req.confirm === req.contactId, {
+  path: ['confirm'],
+  message: 'Repeat the contact ID in confirm to erase',
+});
+
+export const ErasureResultSchema = z.object({
+  dryRun: z.boolean(),
+  items: z.record(z.string(), z.number().int().nonnegative())
+    .describe('Items per location: found for a dry run, deleted otherwise'),
+  skipped: z.array(z.string()).describe('Stores that could not be searched, and why'),
+  receipt: z.record(z.string(), z.unknown()).optional()
+    .describe('Signed erasure receipt naming the contact only by HMAC (needs an encryption key)'),
+});
+export type ErasureResult = z.infer<typeof ErasureResultSchema>;
+
+// ── Operations ───────────────────────────────────────────────
+
+export type ApiOperationId =
+  | 'sendMessage'
+  | 'getJob'
+  | 'listSessions'
+  | 'getSessionHistory'
+  | 'deleteSession'
+  | 'eraseContact'
+  | 'getOpenApi';
+
+export interface ApiOperation {
+  id: ApiOperationId;
+  method: 'get' | 'post' | 'delete';
+  /** Relative to API_BASE_PATH, with OpenAPI-style `{param}`s. */
+  path: string;
+  summary: string;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  /** Success responses by status; no schema means no body. */
+  responses: Record<number, { description: string; schema?: z.ZodType }>;
+  /** Error codes this operation can return besides the common ones. */
+  errors?: ApiErrorCode[];
+  /** Served without a token (the API description itself). */
+  public?: boolean;
+}
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    id: 'sendMessage',
+    method: 'post',
+    path: '/messages',
+    summary: 'Send a message to the agent and get its reply, or a job to poll for it',
+    body: SendMessageRequestSchema,
+    responses: {
+      200: { description: 'The agent\'s reply, or what the queue did with the message (sync)', schema: MessageReplySchema },
+      202: { description: 'Job accepted (async)', schema: JobSchema },
+    },
+    errors: ['forbidden', 'payload_too_large', 'unavailable'],
+  },
+  {
+    id: 'getJob',
+    method: 'get',
+    path: '/jobs/{id}',
+    summary: 'Poll an async message job',
+    params: JobIdParamsSchema,
+    responses: { 200: { description: 'The job', schema: JobSchema } },
+    errors: ['not_found'],
+  },
+  {
+    id: 'listSessions',
+    method: 'get',
+    path: '/sessions',
+    summary: 'List live sessions on every channel, most recently active first',
+    query: ListSessionsQuerySchema,
+    responses: { 200: { description: 'Matching sessions', schema: SessionListSchema } },
+  },
+  {
+    id: 'getSessionHistory',
+    method: 'get',
+    path: '/sessions/{id}/history',
+    summary: 'Fetch a session\'s conversation history',
+    params: SessionIdParamsSchema,
+    responses: { 200: { description: 'The session and its messages', schema: SessionHistorySchema } },
+    errors: ['not_found'],
+  },
+  {
+    id: 'deleteSession',
+    method: 'delete',
+    path: '/sessions/{id}',
+    summary: 'Delete a session from memory and disk',
+    params: SessionIdParamsSchema,
+    responses: { 204: { description: 'Deleted' } },
+    errors: ['not_found'],
+  },
+  {
+    id: 'eraseContact',
+    method: 'post',
+    path: '/erasure',
+    summary: 'Erase everything held about a contact (GDPR Article 17), or preview it',
+    body: ErasureRequestSchema,
+    responses: { 200: { description: 'What was (or would be) erased', schema: ErasureResultSchema } },
+    errors: ['payload_too_large'],
+  },
+  {
+    id: 'getOpenApi',
+    method: 'get',
+    path: '/openapi.json',
+    summary: 'This API\'s OpenAPI document',
+    responses: { 200: { description: 'OpenAPI 3.1 document' } },
+    public: true,
+  },
+];
+
+const COMMON_ERRORS: ApiErrorCode[] = ['invalid_request', 'unauthorized', 'rate_limited', 'internal'];
+
+const ERROR_DESCRIPTIONS: Record<ApiErrorCode, string> = {
+  invalid_request: 'The request failed validation',
+  unauthorized: 'Missing or wrong gateway token',
+  forbidden: 'The caller or contact is banned',
+  not_found: 'No such resource',
+  payload_too_large: 'The body is over gateway.api.maxBodyKB',
+  rate_limited: 'Too many requests from this IP',
+  internal: 'The server failed to handle the request',
+  unavailable: 'Too many jobs pending; retry later',
+};
+
+// ── OpenAPI ──────────────────────────────────────────────────
+
+/**
+ * The OpenAPI 3.1 document for the API. Named schemas become components;
+ * everything else is inlined where it is used.
+ */
+export function buildOpenApiDocument(version: string): Record<string, unknown> {
+  const registry = z.registry<{ id: string }>();
+  const named: Array<[z.ZodType, string]> = [
+    [ApiErrorSchema, 'Error'],
+    [SendMessageRequestSchema, 'SendMessageRequest'],
+    [MessageReplySchema, 'MessageReply'],
+    [JobSchema, 'Job'],
+    [SessionSummarySchema, 'SessionSummary'],
+    [SessionListSchema, 'SessionList'],
+    [SessionHistorySchema, 'SessionHistory'],
+    [ErasureRequestSchema, 'ErasureRequest'],
+    [ErasureResultSchema, 'ErasureResult'],
+  ];
+  for (const [schema, id] of named) registry.add(schema, { id });
+
+  const ref = (schema: z.ZodType) => {
+    const id = registry.get(schema)?.id;
+    return id ? { $ref: `#/components/schemas/${id}` } : jsonSchema(schema);
+  };
+  const json = (schema: z.ZodType) => ({ 'application/json': { schema: ref(schema) } });
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of API_OPERATIONS) {
+    const responses: Record<string, unknown> = {};
+    for (const [status, response] of Object.entries(op.responses)) {
+      responses[status] = { description: response.description, ...(response.schema ? { content: json(response.schema) } : {}) };
+    }
+    if (!op.public) {
+      for (const code of [...COMMON_ERRORS, ...(op.errors ?? [])]) {
+        responses[String(API_ERROR_STATUS[code])] = { description: ERROR_DESCRIPTIONS[code], content: json(ApiErrorSchema) };
+      }
+    }
+
+    const parameters = [
+      ...parametersOf(op.params, 'path'),
+      ...parametersOf(op.query, 'query'),
+    ];
+    (paths[`${API_BASE_PATH}${op.path}`] ??= {})[op.method] = {
+      operationId: op.id,
+      summary: op.summary,
+      ...(op.public ? { security: [] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(op.body ? { requestBody: { required: true, content: json(op.body) } } : {}),
+      responses,
+    };
+  }
+
+  const { schemas } = z.toJSONSchema(registry, { io: 'input', uri: id => `#/components/schemas/${id}` });
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'OpenClaw Fortress API',
+      version,
+      description: 'Authenticate with the gateway token: `Authorization: Bearer <token>`.',
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: { gatewayToken: { type: 'http', scheme: 'bearer' } },
+    },
+    security: [{ gatewayToken: [] }],
+  };
+}
+
+function jsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _, ...rest } = z.toJSONSchema(schema, { io: 'input' });
+  return rest;
+}
+
+function parametersOf(schema: z.ZodObject | undefined, location: 'path' | 'query'): unknown[] {
+  if (!schema) return [];
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const type = field as z.ZodType;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !type.safeParse(undefined).success,
+      schema: jsonSchema(type),
+      ...(type.description ? { description: type.description } : {}),
+    };
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * 1.13: Conversation Compaction
+ * Summarize older turns into a pinned conversation memory instead of dropping them.
+ */
+import type { AgentMessage, AgentSession, CompactionConfig } from '../types/index.js';
+import type { LLMClient } from './llm.js';
+
+const SUMMARY_PROMPT = [
+  'You maintain the long-term memory of a conversation between a user and an assistant.',
+  'Merge the existing memory (if any) with the transcript below into a concise summary.',
+  'Keep facts, preferences, commitments and open questions the assistant will need later.',
+  'Write in the third person, as plain prose. Do not invent details.',
+].join(' ');
+
+const MAX_TOOL_RESULT_CHARS = 500;
+
+/**
+ * Rough token estimate (~4 characters per token). Good enough for a threshold.
+ */
+export function estimateTokens(messages: AgentMessage[]): number {
+  let chars = 0;
+  for (const m of messages) {
+    chars += renderContent(m).length;
+  }
+  return Math.ceil(chars / 4);
+}
+
+/**
+ * Whether the session's history has crossed the compaction threshold.
+ */
+export function needsCompaction(
+  session: AgentSession,
+  config: CompactionConfig,
+  maxContextMessages: number,
+): boolean {
+  if (!config.enabled) return false;
+  if (session.messages.length > (config.maxMessages ?? maxContextMessages)) return true;
+  return config.maxTokens !== undefined && estimateTokens(session.messages) > config.maxTokens;
+}
+
+/**
+ * Index where the recent, verbatim part of history starts: at most
+ * `keepRecent` messages, beginning at a plain user turn so tool_use /
+ * tool_result pairs are never split. Returns 0 if nothing can be compacted.
+ */
+export function compactionSplit(messages: AgentMessage[], keepRecent: number): number {
+  for (let i = Math.max(messages.length - keepRecent, 1); i < messages.length; i++) {
+    const m = messages[i]!;
+    if (m.role === 'user' && (typeof m.content === 'string' || !m.content.some(b => b.type === 'tool_result'))) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+export interface CompactionResult {
+  /** Messages removed from history (0 if none). */
+  compacted: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Fold everything before the recent window into `session.memory` using the LLM.
+ * Throws if the summarization request fails; history is left untouched.
+ */
+export async function compactSession(
+  session: AgentSession,
+  llm: LLMClient,
+  config: CompactionConfig,
+): Promise<CompactionResult> {
+  const split = compactionSplit(session.messages, config.keepRecent);
+  if (split === 0) return { compacted: 0, inputTokens: 0, outputTokens: 0 };
+
+  const older = session.messages.slice(0, split);
+  const transcript = older.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${renderContent(m)}`).join('\n');
+  const existing = session.memory?.summary;
+
+  const response = await llm.chat({
+    systemPrompt: SUMMARY_PROMPT,
+    messages: [{
+      role: 'user',
+      content: existing
+        ? `Existing memory:\n${existing}\n\nTranscript:\n${transcript}`
+        : `Transcript:\n${transcript}`,
+    }],
+    maxTokens: config.summaryMaxTokens,
+  });
+
+  const summary = response.content.trim();
+  if (!summary) throw new Error('Empty summary');
+
+  session.messages.splice(0, split);
+  session.memory = {
+    summary,
+    compactedMessages: (session.memory?.compactedMessages ?? 0) + split,
+    updatedAt: Date.now(),
+  };
+  return { compacted: split, inputTokens: response.inputTokens, outputTokens: response.outputTokens };
+}
+
+/**
+ * System prompt with the pinned conversation memory appended.
+ */
+export function withMemory(systemPrompt: string, session: AgentSession): string {
+  if (!session.memory) return systemPrompt;
+  return `${systemPrompt}\n\nSummary of earlier conversation with this user:\n${session.memory.summary}`;
+}
+
+function renderContent(m: AgentMessage): string {
+  if (typeof m.content === 'string') return m.content;
+  return m.content.map(b => {
+    switch (b.type) {
+      case 'text': return b.text;
+      case 'tool_use': return `[used tool ${b.name}]`;
+      case 'tool_result': return `[tool result: ${b.content.slice(0, MAX_TOOL_RESULT_CHARS)}]`;
+    }
+  }).join(' ');
+}
@@ -1,11 +1,17 @@
 import { readFileSync, existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
-import { OpenClawConfigSchema, type OpenClawConfig } from '../types/index.js';
+import { OpenClawConfigSchema, type OpenClawConfig, type LLMProviderName } from '../types/index.js';
 
 const OPENCLAW_DIR = join(homedir(), '.openclaw');
 const CONFIG_PATH = join(OPENCLAW_DIR, 'openclaw.json');
 
+// Each provider reads its own key so a local server is never sent the Anthropic key
+const DEFAULT_API_KEY_ENV: Partial<Record<LLMProviderName, string>> = {
+  'anthropic': 'ANTHROPIC_API_KEY',
+  'openai-compatible': 'OPENAI_API_KEY',
+};
+
 export function getOpenClawDir(): string {
   return OPENCLAW_DIR;
 }
@@ -48,11 +54,18 @@ export function loadConfig(overridePath?: string): OpenClawConfig {
   const sec = config.security;
   sec.gatewayToken = resolveSecret(sec.gatewayToken, sec.gatewayTokenEnv);
   sec.encryptionKey = resolveSecret(sec.encryptionKey, sec.encryptionKeyEnv);
+  for (const entry of sec.keyring) {
+    if (!entry.key && entry.keyEnv) entry.key = process.env[entry.keyEnv];
+  }
+  const activeKey = sec.keyring.find(k => !k.retired)?.key;
+  if (activeKey) sec.encryptionKey = activeKey;
   sec.piiHmacSecret = resolveSecret(sec.piiHmacSecret, sec.piiHmacSecretEnv);
   sec.sessionSecret = resolveSecret(sec.sessionSecret, sec.sessionSecretEnv);
+  sec.auditKey = resolveSecret(sec.auditKey, sec.auditKeyEnv);
 
   const llm = config.llm;
-  llm.apiKey = resolveSecret(llm.apiKey, llm.apiKeyEnv);
+  const apiKeyEnv = llm.apiKeyEnv ?? DEFAULT_API_KEY_ENV[llm.provider];
+  if (apiKeyEnv) llm.apiKey = resolveSecret(llm.apiKey, apiKeyEnv);
 
   // Resolve channel token env vars
   if (config.channels.discord) {
@@ -0,0 +1,76 @@
+/**
+ * 1.22: File Locks
+ * Advisory cross-process locks for files that the gateway and CLI commands
+ * both write. A lock is `<file>.lock`, created exclusively and holding the
+ * owner's pid. A lock whose owner has died, or that has been held far
+ * longer than any file operation takes, is broken.
+ */
+import { closeSync, openSync, readFileSync, rmSync, statSync, writeSync } from 'node:fs';
+
+export const LOCK_SUFFIX = '.lock';
+
+const TIMEOUT_MS = 5_000;
+const STALE_MS = 30_000;
+const RETRY_MS = 5;
+
+const held = new Set<string>();
+const sleeper = new Int32Array(new SharedArrayBuffer(4));
+
+/**
+ * Run `fn` holding the lock on `path`. Waiting blocks the thread, so hold
+ * locks only around short, synchronous file work. Re-entrant within a
+ * process. Throws if the lock can't be taken within `timeoutMs`.
+ */
+export function withFileLock<T>(path: string, fn: () => T, timeoutMs = TIMEOUT_MS): T {
+  const lockPath = path + LOCK_SUFFIX;
+  if (held.has(lockPath)) return fn();
+
+  const deadline = Date.now() + timeoutMs;
+  while (!tryLock(lockPath)) {
+    if (isStale(lockPath)) {
+      rmSync(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for the lock on ${path}`);
+    Atomics.wait(sleeper, 0, 0, RETRY_MS);
+  }
+
+  held.add(lockPath);
+  try {
+    return fn();
+  } finally {
+    held.delete(lockPath);
+    rmSync(lockPath, { force: true });
+  }
+}
+
+function tryLock(lockPath: string): boolean {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, 'wx', 0o600);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw err;
+  }
+  try {
+    writeSync(fd, String(process.pid));
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs > STALE_MS) return true;
+    const pid = Number(readFileSync(lockPath, 'utf-8'));
+    // An owner still writing its pid has an empty file: not stale yet
+    if (!Number.isInteger(pid) || pid <= 0) return false;
+    process.kill(pid, 0);
+    return false;
+  } catch (err) {
+    // ESRCH: the owner is gone. ENOENT: released meanwhile, just retry
+    const code = (err as NodeJS.ErrnoException).code;
+    return code === 'ESRCH';
+  }
+}
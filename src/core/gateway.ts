@@ -3,16 +3,22 @@
  * WebSocket server with HTTP, auth, health endpoint.
  */
 import { createServer, type Server as HTTPServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { WebSocketServer, WebSocket, type RawData } from 'ws';
 import express from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
 import type { OpenClawConfig, IncomingMessage as OCMessage, ChannelType } from '../types/index.js';
 import { authenticateRequest } from '../security/gatewayAuth.js';
+import { isIpBanned } from '../security/threatResponse.js';
 import { getHelmetConfig, getCorsConfig, additionalSecurityHeaders, cspMiddleware } from '../security/securityHeaders.js';
 import { auditInfo, auditWarn, auditError } from '../security/auditLogger.js';
+import type { MessageResult } from './agent.js';
 
-export type MessageHandler = (msg: OCMessage) => Promise<string>;
+export type MessageHandler = (
+  msg: OCMessage,
+  opts?: { onDelta?: (delta: string) => void },
+) => Promise<MessageResult>;
 
 export interface GatewayOptions {
   config: OpenClawConfig;
@@ -58,6 +64,13 @@ export class Gateway {
       verifyClient: (info, cb) => {
         const ip = info.req.socket.remoteAddress ?? 'unknown';
 
+        // Banned by a threat-response rule, token or not
+        if (isIpBanned(ip)) {
+          auditWarn('ws_connection_rejected', { details: { ip, reason: 'Banned' } });
+          cb(false, 403, 'Forbidden');
+          return;
+        }
+
         // Allow loopback WebChat connections from same-origin (browser WS)
         const origin = info.origin ?? info.req.headers['origin'];
         const isLoopback = ip === '127.0.0.1' || ip === '::1' || ip === '::ffff:127.0.0.1';
@@ -93,9 +106,21 @@ export class Gateway {
             text: parsed.text ?? '',
             timestamp: Date.now(),
           };
-          const response = await this.onMessage(msg);
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'message', text: response }));
+          // Stream incremental `delta` frames, then a final `message` frame.
+          // A message dropped or merged by the queue gets a `queued` frame
+          // instead; a merged one is answered with the earlier message.
+          const result = await this.onMessage(msg, {
+            onDelta: (delta) => {
+              if (ws.readyState === WebSocket.OPEN) {
+                ws.send(JSON.stringify({ type: 'delta', text: delta }));
+              }
+            },
+          });
+          if (ws.readyState !== WebSocket.OPEN) return;
+          if (result.status !== 'replied') {
+            ws.send(JSON.stringify({ type: 'queued', status: result.status }));
+          } else if (result.reply) {
+            ws.send(JSON.stringify({ type: 'message', text: result.reply }));
           }
         } catch (err) {
           auditError('ws_message_error', { details: { connId, error: String(err) } });
@@ -138,6 +163,13 @@ export class Gateway {
     });
   }
 
+  /**
+   * The port actually bound (useful when configured with port 0).
+   */
+  getPort(): number {
+    return (this.httpServer.address() as AddressInfo).port;
+  }
+
   /**
    * Stop the gateway server.
    */
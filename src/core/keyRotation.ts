@@ -0,0 +1,143 @@
+/**
+ * 1.18: Key Rotation
+ * Re-encrypts everything under ~/.openclaw with the active keyring key:
+ * every `.enc` file (sessions, consent, usage, their `.bak` generations),
+ * every transcript line and, for SQLite storage, every row. Each file is
+ * replaced atomically and files already under the active key are skipped,
+ * so an interrupted run is resumed by running it again. Transcript lines
+ * that can't be decrypted are copied through and counted, not failed.
+ */
+import { existsSync, lstatSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { getOpenClawDir } from './config.js';
+import type { StorageBackend } from './storage.js';
+import { TRANSCRIPTS_DIR, TRANSCRIPT_EXT, reencryptTranscript } from './transcripts.js';
+import {
+  BACKUP_SUFFIX,
+  decrypt,
+  encrypt,
+  keyIdOf,
+  readKeyId,
+  writeFileAtomic,
+} from '../security/encryptedStore.js';
+import { auditError, auditInfo } from '../security/auditLogger.js';
+
+export const ROTATION_STATE_FILE = 'key-rotation.json';
+
+interface RotationState {
+  keyId: string;
+  startedAt: string;
+}
+
+export interface RotationSummary {
+  keyId: string;
+  /** True if an earlier run to the same key was interrupted. */
+  resumed: boolean;
+  files: { rotated: number; current: number; failed: number };
+  /** Storage records (SQLite rows) rewritten. */
+  records: number;
+  /** Paths relative to the data dir that could not be decrypted. */
+  failures: string[];
+  /** Transcript lines left as they were because they could not be decrypted, by path. */
+  unreadableLines: Record<string, number>;
+  durationMs: number;
+}
+
+/**
+ * Re-encrypt all data under `encryptionKey`. Data under retired keys is
+ * decrypted through the registered keyring. Files that fail are left as
+ * they are and listed in the summary.
+ */
+export function rotateEncryptedData(
+  encryptionKey: string,
+  storage: StorageBackend,
+  baseDir = getOpenClawDir(),
+): RotationSummary {
+  const started = Date.now();
+  const keyId = keyIdOf(encryptionKey);
+  const statePath = join(baseDir, ROTATION_STATE_FILE);
+
+  let resumed = false;
+  if (existsSync(statePath)) {
+    try {
+      resumed = (JSON.parse(readFileSync(statePath, 'utf-8')) as RotationState).keyId === keyId;
+    } catch {
+      // unreadable state: start over, the per-file check makes that safe
+    }
+  }
+  if (!resumed) {
+    const state: RotationState = { keyId, startedAt: new Date(started).toISOString() };
+    writeFileAtomic(statePath, JSON.stringify(state));
+  }
+
+  const summary: RotationSummary = {
+    keyId,
+    resumed,
+    files: { rotated: 0, current: 0, failed: 0 },
+    records: 0,
+    failures: [],
+    unreadableLines: {},
+    durationMs: 0,
+  };
+
+  for (const path of encryptedFiles(baseDir)) {
+    if (path.endsWith(TRANSCRIPT_EXT)) {
+      try {
+        const { status, unreadable } = reencryptTranscript(path, encryptionKey);
+        summary.files[status]++;
+        if (unreadable > 0) summary.unreadableLines[relative(baseDir, path)] = unreadable;
+      } catch {
+        summary.files.failed++;
+        summary.failures.push(relative(baseDir, path));
+      }
+      continue;
+    }
+    try {
+      const data = readFileSync(path);
+      if (readKeyId(data) === keyId) {
+        summary.files.current++;
+        continue;
+      }
+      writeFileAtomic(path, encrypt(decrypt(data, encryptionKey), encryptionKey));
+      summary.files.rotated++;
+    } catch {
+      summary.files.failed++;
+      summary.failures.push(relative(baseDir, path));
+    }
+  }
+
+  summary.records = storage.reencrypt?.() ?? 0;
+  summary.durationMs = Date.now() - started;
+
+  const unreadableLines = Object.values(summary.unreadableLines).reduce((sum, n) => sum + n, 0);
+  const details = { keyId, resumed, ...summary.files, records: summary.records, unreadableLines };
+  if (summary.files.failed > 0) {
+    auditError('key_rotation_incomplete', { details: { ...details, failures: summary.failures.slice(0, 20) } });
+  } else {
+    rmSync(statePath, { force: true });
+    auditInfo('key_rotation_completed', { details });
+  }
+  return summary;
+}
+
+/**
+ * Every `.enc` / `.enc.bak` file below `dir`, plus transcripts. Symlinks
+ * are not followed.
+ */
+function encryptedFiles(dir: string, inTranscripts = false): string[] {
+  const found: string[] = [];
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    const stat = lstatSync(path);
+    if (stat.isDirectory()) {
+      found.push(...encryptedFiles(path, name === TRANSCRIPTS_DIR));
+    } else if (stat.isFile() && (
+      name.endsWith('.enc') ||
+      name.endsWith(`.enc${BACKUP_SUFFIX}`) ||
+      (inTranscripts && name.endsWith(TRANSCRIPT_EXT))
+    )) {
+      found.push(path);
+    }
+  }
+  return found;
+}
@@ -1,18 +1,24 @@
 /**
- * 1.4: LLM Integration (Anthropic Claude)
- * SDK wrapper with retry logic, streaming, token management.
+ * 1.4: LLM Integration
+ * Provider-agnostic client with retry logic, streaming, token management.
+ * Vendor specifics live in src/providers/.
  */
-import Anthropic from '@anthropic-ai/sdk';
-import type { MessageParam, ContentBlock, ToolUseBlock, ToolResultBlockParam } from '@anthropic-ai/sdk/resources/messages.js';
-import type { LLMConfig, ToolDefinition } from '../types/index.js';
+import type { AgentMessage, LLMConfig, ToolDefinition, ToolResultContentBlock } from '../types/index.js';
+import { AnthropicProvider } from '../providers/anthropic.js';
+import { OpenAICompatibleProvider } from '../providers/openaiCompatible.js';
+import { MockProvider } from '../providers/mock.js';
+import { createRecordReplayFetch } from '../providers/recordReplay.js';
 import { auditInfo, auditError } from '../security/auditLogger.js';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 
+/** A message as sent to the LLM: role and content only (E-02). */
+export type LLMMessage = Pick<AgentMessage, 'role' | 'content'>;
+
 export interface LLMRequest {
   systemPrompt: string;
-  messages: MessageParam[];
+  messages: LLMMessage[];
   tools?: ToolDefinition[];
   maxTokens?: number;
   temperature?: number;
@@ -26,89 +32,93 @@ export interface LLMResponse {
   outputTokens: number;
 }
 
+export type TextDeltaHandler = (delta: string) => void;
+
 export interface ToolCall {
   id: string;
   name: string;
   input: Record<string, unknown>;
 }
 
+/**
+ * One LLM backend. Providers translate the neutral request (Anthropic-style
+ * content blocks) to their wire format and report usage in the response;
+ * retries, auditing and tool-result continuation are handled by LLMClient.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /** Single non-streaming completion. */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /** Streaming completion; `onText` receives text deltas as they arrive. */
+  stream(request: LLMRequest, onText: TextDeltaHandler): Promise<LLMResponse>;
+}
+
+/**
+ * Create the provider selected by `config.provider`. With `recordReplay`,
+ * HTTP providers record to / replay from fixture files.
+ */
+export function createProvider(config: LLMConfig): LLMProvider {
+  const fetchImpl = config.recordReplay ? createRecordReplayFetch(config.recordReplay) : undefined;
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config, fetchImpl);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config, fetchImpl);
+    case 'mock':
+      return new MockProvider(config);
+  }
+}
+
 export class LLMClient {
-  private client: Anthropic;
+  private provider: LLMProvider;
   private config: LLMConfig;
 
-  constructor(config: LLMConfig) {
+  constructor(config: LLMConfig, provider?: LLMProvider) {
     this.config = config;
-    const apiKey = config.apiKey;
-    if (!apiKey) {
-      throw new Error('Anthropic API key not configured. Set ANTHROPIC_API_KEY env var.');
-    }
-    this.client = new Anthropic({ apiKey });
+    this.provider = provider ?? createProvider(config);
   }
 
   /**
-   * Send a message to Claude with retry logic.
+   * Send a message with retry logic.
    */
   async chat(request: LLMRequest): Promise<LLMResponse> {
-    const tools = request.tools?.map(t => ({
-      name: t.name,
-      description: t.description,
-      input_schema: t.input_schema as Anthropic.Tool['input_schema'],
-    }));
-
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
-        const response = await this.client.messages.create({
-          model: this.config.model,
-          max_tokens: request.maxTokens ?? this.config.maxTokens,
-          temperature: request.temperature ?? this.config.temperature,
-          system: request.systemPrompt,
-          messages: request.messages,
-          ...(tools && tools.length > 0 ? { tools } : {}),
-        });
-
-        const textBlocks = response.content
-          .filter((b): b is ContentBlock & { type: 'text' } => b.type === 'text')
-          .map(b => b.text);
-
-        const toolCalls = response.content
-          .filter((b): b is ToolUseBlock => b.type === 'tool_use')
-          .map(b => ({
-            id: b.id,
-            name: b.name,
-            input: b.input as Record<string, unknown>,
-          }));
-
-        auditInfo('llm_request', {
-          details: {
-            model: this.config.model,
-            inputTokens: response.usage.input_tokens,
-            outputTokens: response.usage.output_tokens,
-          },
-        });
-
-        return {
-          content: textBlocks.join('\n'),
-          toolCalls,
-          stopReason: response.stop_reason,
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens,
-        };
+        return this.audited(await this.provider.complete(request));
       } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-        auditError('llm_request_failed', {
-          details: { attempt: attempt + 1, error: lastError.message },
-        });
+        lastError = await this.handleFailure(err, attempt);
+      }
+    }
 
-        // Don't retry on auth errors
-        if (lastError.message.includes('401') || lastError.message.includes('authentication')) {
-          throw lastError;
-        }
+    throw lastError ?? new Error('LLM request failed');
+  }
+
+  /**
+   * Stream a message, calling `onText` for every text delta.
+   * Tool calls are assembled from the stream and returned in
+   * `toolCalls` exactly as `chat` would. Retries only happen if the
+   * failure occurred before any text reached the caller.
+   */
+  async chatStream(request: LLMRequest, onText: TextDeltaHandler): Promise<LLMResponse> {
+    let lastError: Error | null = null;
 
-        if (attempt < MAX_RETRIES - 1) {
-          await sleep(RETRY_DELAY_MS * (attempt + 1));
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      let emitted = false;
+      try {
+        const response = await this.provider.stream(request, (delta) => {
+          emitted = true;
+          onText(delta);
+        });
+        return this.audited(response);
+      } catch (err) {
+        if (emitted) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          auditError('llm_stream_interrupted', { details: { attempt: attempt + 1, error: error.message } });
+          throw error;
         }
+        lastError = await this.handleFailure(err, attempt);
       }
     }
 
@@ -121,23 +131,61 @@ export class LLMClient {
   async continueWithToolResults(
     request: LLMRequest,
     toolResults: Array<{ tool_use_id: string; content: string; is_error?: boolean }>,
+    onText?: TextDeltaHandler,
   ): Promise<LLMResponse> {
-    const toolResultContent: ToolResultBlockParam[] = toolResults.map(r => ({
+    const toolResultContent: ToolResultContentBlock[] = toolResults.map(r => ({
       type: 'tool_result' as const,
       tool_use_id: r.tool_use_id,
       content: r.content,
       is_error: r.is_error,
     }));
 
-    const updatedMessages: MessageParam[] = [
+    const updatedMessages: LLMMessage[] = [
       ...request.messages,
       { role: 'user' as const, content: toolResultContent },
     ];
 
-    return this.chat({
-      ...request,
-      messages: updatedMessages,
+    const next = { ...request, messages: updatedMessages };
+    return onText ? this.chatStream(next, onText) : this.chat(next);
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  private audited(response: LLMResponse): LLMResponse {
+    auditInfo('llm_request', {
+      details: {
+        provider: this.provider.name,
+        model: this.config.model,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+      },
     });
+    return response;
+  }
+
+  /**
+   * Audit a failed attempt, rethrow if it shouldn't be retried,
+   * otherwise back off and hand the error back to the retry loop.
+   */
+  private async handleFailure(err: unknown, attempt: number): Promise<Error> {
+    const error = err instanceof Error ? err : new Error(String(err));
+    auditError('llm_request_failed', {
+      details: { provider: this.provider.name, attempt: attempt + 1, error: error.message },
+    });
+
+    // Don't retry on auth errors
+    const status = (error as { status?: unknown }).status;
+    if (status === 401 || status === 403
+      || error.message.includes('401') || error.message.includes('authentication')) {
+      throw error;
+    }
+
+    if (attempt < MAX_RETRIES - 1) {
+      await sleep(RETRY_DELAY_MS * (attempt + 1));
+    }
+    return error;
   }
 }
 
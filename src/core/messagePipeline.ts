@@ -0,0 +1,350 @@
+/**
+ * 1.11: Inbound Message Pipeline
+ * Ordered security stages between the channel adapters and the agent.
+ */
+import { CHANNEL_TYPES, type IncomingMessage, type SecurityConfig } from '../types/index.js';
+import { validateMessageText, validateAttachments } from '../security/inputValidation.js';
+import { scanPrompt } from '../security/promptGuard.js';
+import { containsPII, redactPII } from '../security/piiDetector.js';
+import { consentKey, hasConsent, recordConsent } from '../security/piiConsent.js';
+import { auditInfo, auditWarn, auditError, auditCritical } from '../security/auditLogger.js';
+import { getStorage } from './storage.js';
+
+export type PipelineAction = 'allow' | 'rewrite' | 'block' | 'suspend';
+
+/**
+ * Result of a single stage.
+ * - allow:   pass the message on unchanged
+ * - rewrite: pass `message` on in place of the original
+ * - block:   stop here and send `reply` back to the contact
+ * - suspend: stop here, send `reply`, and block the contact until lifted
+ */
+export interface StageResult {
+  action: PipelineAction;
+  message?: IncomingMessage;
+  reply?: string;
+  reason?: string;
+}
+
+export interface PipelineStage {
+  name: string;
+  run(msg: IncomingMessage): StageResult | Promise<StageResult>;
+}
+
+export interface PipelineOutcome {
+  allowed: boolean;
+  action: PipelineAction;
+  message: IncomingMessage;
+  reply?: string;
+  stage?: string;
+  reason?: string;
+}
+
+interface Suspension {
+  stage: string;
+  reason?: string;
+  suspendedAt: number;
+}
+
+export const BLOCKED_REPLY = 'Sorry, I can\'t process that message.';
+export const SUSPENDED_REPLY = 'This conversation has been suspended for security review. An operator has been notified.';
+export const INVALID_INPUT_REPLY = 'Sorry, that message could not be accepted. Please check its length, content, and attachments.';
+export const CONSENT_KEYWORD = 'I AGREE';
+export const CONSENT_REQUEST_REPLY = `Before we continue, please confirm you consent to your messages being processed by this assistant. Reply "${CONSENT_KEYWORD}" to continue.`;
+export const CONSENT_RECORDED_REPLY = 'Thank you — your consent has been recorded. How can I help?';
+
+export class MessagePipeline {
+  private stages: PipelineStage[] = [];
+  private encryptionKey?: string;
+  // This process's suspensions; with an encryption key they are also kept
+  // in storage, so they survive restarts
+  private suspended = new Map<string, Suspension>();
+
+  constructor(encryptionKey?: string) {
+    this.encryptionKey = encryptionKey;
+  }
+
+  /**
+   * Append a stage. Stages run in the order they were added.
+   */
+  use(stage: PipelineStage): this {
+    this.stages.push(stage);
+    return this;
+  }
+
+  getStageNames(): string[] {
+    return this.stages.map(s => s.name);
+  }
+
+  /**
+   * Run a message through every stage until one blocks or suspends.
+   * Every decision is audited with the full stage trace.
+   */
+  async process(msg: IncomingMessage): Promise<PipelineOutcome> {
+    const key = suspensionKey(msg.channel, msg.contactId);
+    let suspension: Suspension | undefined;
+    try {
+      suspension = this.getSuspension(key);
+    } catch (err) {
+      // Fail closed, as for a broken stage
+      suspension = { stage: 'suspension', reason: `Suspension check failed: ${String(err)}`, suspendedAt: Date.now() };
+    }
+    if (suspension) {
+      const outcome: PipelineOutcome = {
+        allowed: false,
+        action: 'block',
+        message: msg,
+        reply: SUSPENDED_REPLY,
+        stage: 'suspension',
+        reason: `Suspended by ${suspension.stage}`,
+      };
+      this.auditOutcome(msg, outcome, ['suspension:block']);
+      return outcome;
+    }
+
+    let current = msg;
+    const trace: string[] = [];
+
+    for (const stage of this.stages) {
+      let result: StageResult;
+      try {
+        result = await stage.run(current);
+      } catch (err) {
+        // Fail closed: a broken stage must not wave messages through
+        result = { action: 'block', reply: BLOCKED_REPLY, reason: `Stage error: ${String(err)}` };
+      }
+      trace.push(`${stage.name}:${result.action}`);
+
+      if (result.action === 'rewrite' && result.message) {
+        current = result.message;
+        continue;
+      }
+
+      if (result.action === 'block' || result.action === 'suspend') {
+        if (result.action === 'suspend') {
+          this.setSuspension(msg, { stage: stage.name, reason: result.reason, suspendedAt: Date.now() });
+        }
+        const outcome: PipelineOutcome = {
+          allowed: false,
+          action: result.action,
+          message: current,
+          reply: result.reply ?? (result.action === 'suspend' ? SUSPENDED_REPLY : BLOCKED_REPLY),
+          stage: stage.name,
+          reason: result.reason,
+        };
+        this.auditOutcome(msg, outcome, trace);
+        return outcome;
+      }
+    }
+
+    const outcome: PipelineOutcome = {
+      allowed: true,
+      action: current === msg ? 'allow' : 'rewrite',
+      message: current,
+    };
+    this.auditOutcome(msg, outcome, trace);
+    return outcome;
+  }
+
+  isSuspended(channel: IncomingMessage['channel'], contactId: string): boolean {
+    return this.getSuspension(suspensionKey(channel, contactId)) !== undefined;
+  }
+
+  /**
+   * Lift a pipeline suspension (operator action).
+   */
+  liftSuspension(channel: IncomingMessage['channel'], contactId: string): boolean {
+    const key = suspensionKey(channel, contactId);
+    let lifted = this.suspended.delete(key);
+    if (this.encryptionKey) lifted = getStorage(this.encryptionKey).delete('suspensions', key) || lifted;
+    if (lifted) {
+      auditInfo('pipeline_suspension_lifted', { channel, contactId });
+    }
+    return lifted;
+  }
+
+  /**
+   * Drop a contact's suspensions held in this process, on every channel
+   * (erasure: the stored ones are erased with the rest of their data).
+   */
+  forgetContact(contactId: string): void {
+    for (const channel of CHANNEL_TYPES) this.suspended.delete(suspensionKey(channel, contactId));
+  }
+
+  private getSuspension(key: string): Suspension | undefined {
+    const local = this.suspended.get(key);
+    if (local || !this.encryptionKey) return local;
+    return getStorage(this.encryptionKey).get<Suspension>('suspensions', key) ?? undefined;
+  }
+
+  /**
+   * Suspend in this process at once, then persist. A failed write is
+   * audited; the suspension still holds until restart.
+   */
+  private setSuspension(msg: IncomingMessage, suspension: Suspension): void {
+    const key = suspensionKey(msg.channel, msg.contactId);
+    this.suspended.set(key, suspension);
+    if (!this.encryptionKey) return;
+    try {
+      getStorage(this.encryptionKey).put('suspensions', key, suspension);
+    } catch (err) {
+      auditError('pipeline_suspension_persist_failed', {
+        channel: msg.channel,
+        contactId: msg.contactId,
+        details: { error: String(err) },
+      });
+    }
+  }
+
+  private auditOutcome(msg: IncomingMessage, outcome: PipelineOutcome, trace: string[]): void {
+    const opts = {
+      channel: msg.channel,
+      contactId: msg.contactId,
+      details: {
+        action: outcome.action,
+        stage: outcome.stage,
+        reason: outcome.reason,
+        stages: trace,
+      },
+    };
+    if (outcome.action === 'suspend') {
+      auditCritical('pipeline_contact_suspended', opts);
+    } else if (!outcome.allowed) {
+      auditWarn('pipeline_message_blocked', opts);
+    } else {
+      auditInfo('pipeline_message_allowed', opts);
+    }
+  }
+}
+
+// ── Built-in stages ──────────────────────────────────────────
+
+/**
+ * E-05: reject oversized, malformed, or dangerous input.
+ */
+export function inputValidationStage(): PipelineStage {
+  return {
+    name: 'input_validation',
+    run(msg) {
+      const errors = [...validateMessageText(msg.text).errors];
+      if (msg.attachments?.length) {
+        errors.push(...validateAttachments(msg.attachments).errors);
+      }
+      if (errors.length > 0) {
+        return { action: 'block', reply: INVALID_INPUT_REPLY, reason: errors.join('; ') };
+      }
+      return { action: 'allow' };
+    },
+  };
+}
+
+/**
+ * E-01: require recorded consent before any message reaches the LLM.
+ * Replying with CONSENT_KEYWORD records consent.
+ */
+export function consentStage(encryptionKey: string): PipelineStage {
+  return {
+    name: 'consent',
+    run(msg) {
+      const key = consentKey(msg.channel, msg.contactId);
+      if (hasConsent(key, encryptionKey)) return { action: 'allow' };
+
+      if (msg.text.trim().toUpperCase() === CONSENT_KEYWORD) {
+        recordConsent(key, ['conversation'], encryptionKey);
+        return { action: 'block', reply: CONSENT_RECORDED_REPLY, reason: 'Consent recorded' };
+      }
+      return { action: 'block', reply: CONSENT_REQUEST_REPLY, reason: 'No consent on record' };
+    },
+  };
+}
+
+/**
+ * E-01 without an encryption key: consent can't be recorded or checked, so
+ * nothing gets through rather than everything.
+ */
+export function consentUnavailableStage(): PipelineStage {
+  return {
+    name: 'consent',
+    run() {
+      return { action: 'block', reply: BLOCKED_REPLY, reason: 'Consent required but no encryption key' };
+    },
+  };
+}
+
+/**
+ * A-01: block or suspend on prompt injection patterns; warnings pass through.
+ */
+export function promptGuardStage(): PipelineStage {
+  return {
+    name: 'prompt_guard',
+    run(msg) {
+      const scan = scanPrompt(msg.text, { channel: msg.channel, contactId: msg.contactId });
+      if (scan.action === 'suspend') {
+        return { action: 'suspend', reply: SUSPENDED_REPLY, reason: scan.patterns.join(',') };
+      }
+      if (scan.action === 'block') {
+        return { action: 'block', reply: BLOCKED_REPLY, reason: scan.patterns.join(',') };
+      }
+      return { action: 'allow' };
+    },
+  };
+}
+
+/**
+ * P-02: redact PII from the text before it reaches the LLM.
+ */
+export function piiRedactionStage(): PipelineStage {
+  return {
+    name: 'pii_redaction',
+    run(msg) {
+      if (!containsPII(msg.text)) return { action: 'allow' };
+      return { action: 'rewrite', message: { ...msg, text: redactPII(msg.text) }, reason: 'PII redacted' };
+    },
+  };
+}
+
+/**
+ * E-02: drop the raw channel payload (full Signal envelope, etc.)
+ * so it can't leak into the agent runtime.
+ */
+export function dataMinimizationStage(): PipelineStage {
+  return {
+    name: 'data_minimization',
+    run(msg) {
+      if (msg.raw === undefined) return { action: 'allow' };
+      const { raw: _raw, ...rest } = msg;
+      return { action: 'rewrite', message: rest };
+    },
+  };
+}
+
+/**
+ * Build the default pipeline from SecurityConfig flags.
+ * Order: validation → consent → prompt guard → PII redaction → minimization.
+ */
+export function buildSecurityPipeline(
+  security: SecurityConfig,
+  encryptionKey?: string,
+): MessagePipeline {
+  const pipeline = new MessagePipeline(encryptionKey);
+  pipeline.use(inputValidationStage());
+  if (security.consentRequired) {
+    if (encryptionKey) {
+      pipeline.use(consentStage(encryptionKey));
+    } else {
+      auditError('pipeline_consent_unavailable', { details: { reason: 'No encryption key' } });
+      pipeline.use(consentUnavailableStage());
+    }
+  }
+  if (security.promptGuardEnabled) pipeline.use(promptGuardStage());
+  if (security.piiDetectionEnabled) pipeline.use(piiRedactionStage());
+  pipeline.use(dataMinimizationStage());
+  return pipeline;
+}
+
+/**
+ * Key of a contact's record in the `suspensions` collection.
+ */
+export function suspensionKey(channel: IncomingMessage['channel'], contactId: string): string {
+  return `${channel}:${contactId}`;
+}
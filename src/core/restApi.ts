@@ -0,0 +1,340 @@
+/**
+ * 1.20: REST API
+ * Versioned HTTP API on the gateway under /v1. It can send a message to
+ * the agent and wait for the reply, or return a job to poll. It can also
+ * list, read and delete sessions, and erase a contact. Every route except
+ * the OpenAPI document needs the gateway token as a Bearer header. Banned
+ * IPs are refused, as on the WebSocket. Requests and responses are
+ * checked against the schemas in apiSchemas.ts, and every error uses the
+ * same `{ error: { code, message, details? } }` envelope.
+ */
+import express, { type Express, type NextFunction, type Request, type RequestHandler, type Response } from 'express';
+import type { z } from 'zod';
+import type { AgentManager } from './agentManager.js';
+import { resolveSecret } from './config.js';
+import {
+  API_BASE_PATH,
+  API_ERROR_STATUS,
+  API_OPERATIONS,
+  ErasureRequestSchema,
+  ErasureResultSchema,
+  JobIdParamsSchema,
+  JobSchema,
+  ListSessionsQuerySchema,
+  MessageReplySchema,
+  SendMessageRequestSchema,
+  SessionHistorySchema,
+  SessionIdParamsSchema,
+  SessionListSchema,
+  buildOpenApiDocument,
+  type ApiErrorBody,
+  type ApiErrorCode,
+  type ApiOperationId,
+  type Job,
+  type MessageReply,
+  type SessionSummary,
+} from './apiSchemas.js';
+import type { MessageResult } from './agent.js';
+import { authenticateRequest } from '../security/gatewayAuth.js';
+import { isContactBanned, isIpBanned } from '../security/threatResponse.js';
+import { eraseContact, planErasure } from '../security/rightToErasure.js';
+import { auditError, auditInfo, auditWarn } from '../security/auditLogger.js';
+import type { AgentSession, IncomingMessage, OpenClawConfig, RestApiConfig } from '../types/index.js';
+
+/**
+ * Async message jobs, held in memory. Finished jobs are kept for the
+ * configured TTL; pending ones until they finish.
+ */
+class JobStore {
+  private jobs = new Map<string, Job>();
+  private ttlMs: number;
+  private maxJobs: number;
+
+  constructor(config: RestApiConfig) {
+    this.ttlMs = config.jobTTLMinutes * 60_000;
+    this.maxJobs = config.maxJobs;
+  }
+
+  /**
+   * Start a job. Returns undefined when the store is full.
+   */
+  create(now = Date.now()): Job | undefined {
+    this.prune(now);
+    if (this.jobs.size >= this.maxJobs) return undefined;
+    const job: Job = { id: crypto.randomUUID(), status: 'pending', createdAt: new Date(now).toISOString() };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  finish(id: string, outcome: { result: MessageReply } | { error: string }): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    this.jobs.set(id, {
+      ...job,
+      status: 'result' in outcome ? 'completed' : 'failed',
+      completedAt: new Date().toISOString(),
+      ...outcome,
+    });
+  }
+
+  private prune(now: number): void {
+    for (const [id, job] of this.jobs) {
+      if (job.completedAt && Date.parse(job.completedAt) + this.ttlMs < now) this.jobs.delete(id);
+    }
+  }
+}
+
+function sendError(res: Response, code: ApiErrorCode, message: string, details?: ApiErrorBody['error']['details']): void {
+  if (code === 'unauthorized') res.setHeader('WWW-Authenticate', 'Bearer');
+  res.status(API_ERROR_STATUS[code]).json({ error: { code, message, ...(details ? { details } : {}) } });
+}
+
+/**
+ * Validate part of a request. On failure the invalid_request response has
+ * been sent and undefined is returned.
+ */
+function parseRequest<T extends z.ZodType>(schema: T, value: unknown, res: Response): z.infer<T> | undefined {
+  const result = schema.safeParse(value ?? {});
+  if (result.success) return result.data;
+  sendError(res, 'invalid_request', 'The request failed validation', result.error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  })));
+  return undefined;
+}
+
+/**
+ * Send a response body after checking it against its schema, so a shape
+ * the OpenAPI document doesn't describe fails loudly instead of leaking.
+ */
+function sendBody<T extends z.ZodType>(res: Response, status: number, schema: T, body: z.input<T>): void {
+  res.status(status).json(schema.parse(body));
+}
+
+function clientIp(req: Request): string {
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+function toSummary(session: AgentSession): SessionSummary {
+  return {
+    id: session.id,
+    agentId: session.agentId,
+    channel: session.channel,
+    contactId: session.contactId,
+    messageCount: session.messages.length,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastActiveAt: new Date(session.lastActiveAt).toISOString(),
+    expiresAt: new Date(session.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Gateway token as a Bearer header (never a query parameter, which would
+ * end up in logs), checked after the IP ban list.
+ */
+function requireToken(config: OpenClawConfig): RequestHandler {
+  return (req, res, next) => {
+    const ip = clientIp(req);
+    if (isIpBanned(ip)) {
+      auditWarn('api_request_rejected', { details: { ip, reason: 'Banned' } });
+      sendError(res, 'forbidden', 'Forbidden');
+      return;
+    }
+
+    const header = req.headers['authorization'];
+    const token = header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+    // Counted apart from WebSocket connections, so polling a job doesn't lock out the webchat
+    const auth = authenticateRequest(token, config.security.gatewayToken, ip, {
+      scope: 'api',
+      maxRequests: config.gateway.api.requestsPerMinute,
+    });
+    if (!auth.ok) {
+      auditWarn('api_request_rejected', { details: { ip, reason: auth.reason } });
+      sendError(res, auth.reason === 'Rate limited' ? 'rate_limited' : 'unauthorized', auth.reason ?? 'Unauthorized');
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Mount the /v1 API on the gateway's Express app. Refuses to mount on a
+ * gateway without a token, since the API reads and erases every channel's
+ * conversations.
+ */
+export function mountRestApi(app: Express, config: OpenClawConfig, agentManager: AgentManager): void {
+  if (!config.security.gatewayToken) {
+    throw new Error('The REST API needs a gateway token (security.gatewayToken or OPENCLAW_GATEWAY_TOKEN)');
+  }
+
+  const jobs = new JobStore(config.gateway.api);
+  const openApi = buildOpenApiDocument(config.version);
+  const encryptionKey = resolveSecret(config.security.encryptionKey, config.security.encryptionKeyEnv);
+  const piiHmacSecret = resolveSecret(config.security.piiHmacSecret, config.security.piiHmacSecretEnv);
+
+  const handlers: Record<ApiOperationId, (req: Request, res: Response) => Promise<void> | void> = {
+    sendMessage: async (req, res) => {
+      const body = parseRequest(SendMessageRequestSchema, req.body, res);
+      if (!body) return;
+
+      // Contacts banned by a threat-response rule, as on Signal and Discord
+      if (isContactBanned('api', body.contactId, piiHmacSecret)) {
+        auditWarn('api_request_rejected', { channel: 'api', contactId: body.contactId, details: { ip: clientIp(req), reason: 'Banned contact' } });
+        sendError(res, 'forbidden', 'This contact is banned');
+        return;
+      }
+
+      const msg: IncomingMessage = { channel: 'api', contactId: body.contactId, text: body.text, timestamp: Date.now() };
+      const toReply = ({ status, reply }: MessageResult): MessageReply =>
+        ({ contactId: body.contactId, status, ...(status === 'replied' ? { reply } : {}) });
+      if (body.mode === 'sync') {
+        sendBody(res, 200, MessageReplySchema, toReply(await agentManager.respond(msg)));
+        return;
+      }
+
+      const job = jobs.create();
+      if (!job) {
+        sendError(res, 'unavailable', 'Too many jobs pending; retry later');
+        return;
+      }
+      agentManager.respond(msg).then(
+        result => jobs.finish(job.id, { result: toReply(result) }),
+        (err: unknown) => {
+          auditError('api_job_failed', { channel: 'api', contactId: body.contactId, details: { jobId: job.id, error: String(err) } });
+          jobs.finish(job.id, { error: 'Failed to process message' });
+        },
+      );
+      res.location(`${API_BASE_PATH}/jobs/${job.id}`);
+      sendBody(res, 202, JobSchema, job);
+    },
+
+    getJob: (req, res) => {
+      const params = parseRequest(JobIdParamsSchema, req.params, res);
+      if (!params) return;
+      const job = jobs.get(params.id);
+      if (!job) {
+        sendError(res, 'not_found', 'No such job (finished jobs expire)');
+        return;
+      }
+      sendBody(res, 200, JobSchema, job);
+    },
+
+    listSessions: (req, res) => {
+      const query = parseRequest(ListSessionsQuerySchema, req.query, res);
+      if (!query) return;
+      const sessions = agentManager.listSessions()
+        .filter(s => (!query.channel || s.channel === query.channel)
+          && (!query.contactId || s.contactId === query.contactId)
+          && (!query.agentId || s.agentId === query.agentId))
+        .slice(0, query.limit);
+      sendBody(res, 200, SessionListSchema, { sessions: sessions.map(toSummary) });
+    },
+
+    getSessionHistory: (req, res) => {
+      const params = parseRequest(SessionIdParamsSchema, req.params, res);
+      if (!params) return;
+      const session = agentManager.getSession(params.id);
+      if (!session) {
+        sendError(res, 'not_found', 'No such session');
+        return;
+      }
+      sendBody(res, 200, SessionHistorySchema, {
+        session: toSummary(session),
+        memory: session.memory && {
+          summary: session.memory.summary,
+          compactedMessages: session.memory.compactedMessages,
+        },
+        messages: session.messages.map(m => ({
+          role: m.role,
+          content: m.content,
+          timestamp: new Date(m.timestamp).toISOString(),
+        })),
+      });
+    },
+
+    deleteSession: (req, res) => {
+      const params = parseRequest(SessionIdParamsSchema, req.params, res);
+      if (!params) return;
+      const session = agentManager.deleteSession(params.id);
+      if (!session) {
+        sendError(res, 'not_found', 'No such session');
+        return;
+      }
+      auditInfo('api_session_deleted', { channel: session.channel, contactId: session.contactId, sessionId: session.id });
+      res.status(204).end();
+    },
+
+    eraseContact: async (req, res) => {
+      const body = parseRequest(ErasureRequestSchema, req.body, res);
+      if (!body) return;
+
+      if (body.dryRun) {
+        const plan = planErasure(body.contactId, encryptionKey, piiHmacSecret, config.usage);
+        const items: Record<string, number> = {};
+        for (const item of plan.items) items[item.location] = (items[item.location] ?? 0) + 1;
+        auditInfo('erasure_previewed', { contactId: body.contactId, details: { items: plan.items.length, skipped: plan.skipped.length } });
+        sendBody(res, 200, ErasureResultSchema, { dryRun: true, items, skipped: plan.skipped });
+        return;
+      }
+
+      // Let the message being processed finish and discard queued ones, as
+      // either would write the session back. Then erase what is stored, so
+      // the receipt covers it, and drop the in-memory copies
+      await agentManager.cancelContact(body.contactId);
+      const result = eraseContact(body.contactId, encryptionKey, piiHmacSecret, config.usage);
+      agentManager.forgetContact(body.contactId);
+      sendBody(res, 200, ErasureResultSchema, {
+        dryRun: false,
+        items: result.removed,
+        skipped: result.skipped,
+        ...(result.receipt ? { receipt: { ...result.receipt } } : {}),
+      });
+    },
+
+    getOpenApi: (_req, res) => {
+      res.json(openApi);
+    },
+  };
+
+  const router = express.Router();
+  const auth = requireToken(config);
+  // Parsed after authentication, so anonymous callers can't make us parse bodies
+  const json = express.json({ limit: `${config.gateway.api.maxBodyKB}kb` });
+
+  for (const op of API_OPERATIONS) {
+    const handler = handlers[op.id];
+    const run: RequestHandler = async (req, res) => {
+      try {
+        await handler(req, res);
+      } catch (err) {
+        auditError('api_request_failed', { details: { operation: op.id, error: String(err) } });
+        if (!res.headersSent) sendError(res, 'internal', 'The request could not be handled');
+      }
+    };
+    const route = op.path.replace(/\{(\w+)\}/g, ':$1');
+    router[op.method](route, ...(op.public ? [run] : [auth, json, run]));
+  }
+
+  router.use((_req: Request, res: Response) => {
+    sendError(res, 'not_found', 'No such endpoint');
+  });
+
+  // Body parser failures
+  router.use((err: { type?: string }, _req: Request, res: Response, _next: NextFunction) => {
+    if (err.type === 'entity.too.large') {
+      sendError(res, 'payload_too_large', `The body is over ${config.gateway.api.maxBodyKB} KB`);
+    } else if (err.type === 'entity.parse.failed') {
+      sendError(res, 'invalid_request', 'The body is not valid JSON');
+    } else {
+      auditError('api_request_failed', { details: { operation: 'unknown', error: String(err) } });
+      sendError(res, 'internal', 'The request could not be handled');
+    }
+  });
+
+  app.use(API_BASE_PATH, router);
+  auditInfo('api_mounted', { details: { basePath: API_BASE_PATH, operations: API_OPERATIONS.length } });
+}
@@ -0,0 +1,114 @@
+/**
+ * 1.16: Session Index
+ * Encrypted map from HMAC(channel:contactId) to session IDs and expiry, so
+ * lookups, pruning and erasure don't decrypt every session file. Contact IDs
+ * never appear in the index, even decrypted. The index is derived data: it
+ * can always be rebuilt from the sessions.
+ */
+import { createHmac } from 'node:crypto';
+import type { StorageBackend } from './storage.js';
+import { auditWarn } from '../security/auditLogger.js';
+import type { AgentSession, ChannelType } from '../types/index.js';
+
+export interface SessionIndexEntry {
+  sessionId: string;
+  agentId: string;
+  expiresAt: number;
+}
+
+export function contactKeyHash(channel: ChannelType, contactId: string, secret: string): string {
+  if (!secret) throw new Error('PII HMAC secret is required');
+  return createHmac('sha256', secret).update(`${channel}:${contactId}`).digest('hex');
+}
+
+/**
+ * In-memory copy of the `sessionIndex` collection (one record per contact
+ * hash). Changes are written through to storage immediately.
+ */
+export class SessionIndex {
+  private storage: StorageBackend;
+  private hmacSecret: string;
+  private entries?: Map<string, SessionIndexEntry[]>;
+
+  constructor(storage: StorageBackend, hmacSecret: string) {
+    this.storage = storage;
+    this.hmacSecret = hmacSecret;
+  }
+
+  /**
+   * Load the index from storage. Returns false if it is unreadable, in which
+   * case the index starts empty and should be rebuilt.
+   */
+  load(): boolean {
+    try {
+      this.entries = new Map(this.storage.entries<SessionIndexEntry[]>('sessionIndex'));
+      return true;
+    } catch (err) {
+      this.entries = new Map();
+      auditWarn('session_index_unreadable', { details: { error: String(err) } });
+      return false;
+    }
+  }
+
+  find(channel: ChannelType, contactId: string): SessionIndexEntry[] {
+    return [...(this.map().get(contactKeyHash(channel, contactId, this.hmacSecret)) ?? [])];
+  }
+
+  /**
+   * Add or update a session's entry. Returns true if the index changed.
+   */
+  put(session: AgentSession): boolean {
+    const hash = contactKeyHash(session.channel, session.contactId, this.hmacSecret);
+    const existing = this.map().get(hash)?.find(e => e.sessionId === session.id);
+    if (existing?.agentId === session.agentId && existing.expiresAt === session.expiresAt) {
+      return false;
+    }
+    this.remove(session.id);
+    const list = [...(this.map().get(hash) ?? []), {
+      sessionId: session.id,
+      agentId: session.agentId,
+      expiresAt: session.expiresAt,
+    }];
+    this.map().set(hash, list);
+    this.storage.put('sessionIndex', hash, list);
+    return true;
+  }
+
+  /**
+   * Drop a session's entry. Returns true if it was indexed.
+   */
+  remove(sessionId: string): boolean {
+    for (const [hash, list] of this.map()) {
+      const next = list.filter(e => e.sessionId !== sessionId);
+      if (next.length === list.length) continue;
+      if (next.length > 0) {
+        this.map().set(hash, next);
+        this.storage.put('sessionIndex', hash, next);
+      } else {
+        this.map().delete(hash);
+        this.storage.delete('sessionIndex', hash);
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /** Every indexed session. */
+  all(): SessionIndexEntry[] {
+    return [...this.map().values()].flat();
+  }
+
+  /** Replace the whole index with entries for `sessions`. */
+  reset(sessions: Iterable<AgentSession>): void {
+    this.storage.transaction(() => {
+      this.storage.clear('sessionIndex');
+      this.entries = new Map();
+      for (const session of sessions) this.put(session);
+    });
+  }
+
+  private map(): Map<string, SessionIndexEntry[]> {
+    if (!this.entries) this.load();
+    return this.entries!;
+  }
+}
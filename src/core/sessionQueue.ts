@@ -0,0 +1,129 @@
+/**
+ * 1.15: Session Queue
+ * Serializes work per session key (channel:contactId) so concurrent messages
+ * from one contact never interleave. Each key has one active item and at most
+ * `maxDepth` waiting; beyond that the overflow policy applies:
+ * - drop:  discard the new item
+ * - merge: fold the new item into the last waiting one; an item that
+ *          can't be merged (the result would be too large) is refused as busy
+ * - busy:  refuse the new item so the caller can reply "busy"
+ *
+ * A key's queue can also be cancelled: waiting items are discarded and the
+ * caller waits for the active one (e.g. before erasing the contact).
+ */
+import type { QueueConfig } from '../types/index.js';
+
+/** Queue position seen by an item when it was submitted, and how long it waited. */
+export interface QueueTicket {
+  depth: number; // items ahead of this one (active + waiting)
+  waitMs: number;
+}
+
+export type QueueResult<R> =
+  | { status: 'processed'; value: R; ticket: QueueTicket }
+  | { status: 'dropped' | 'merged' | 'busy' | 'cancelled'; depth: number };
+
+export type QueueHandler<T, R> = (item: T, ticket: QueueTicket) => Promise<R>;
+
+interface Entry<T, R> {
+  item: T;
+  handler: QueueHandler<T, R>;
+  depth: number;
+  enqueuedAt: number;
+  resolve: (result: QueueResult<R>) => void;
+  reject: (err: unknown) => void;
+}
+
+interface Lane<T, R> {
+  waiting: Entry<T, R>[];
+  idle: Promise<void>;
+  settle: () => void;
+}
+
+export class SessionQueue<T, R> {
+  private lanes = new Map<string, Lane<T, R>>();
+  private config: QueueConfig;
+  private merge: (queued: T, incoming: T) => T | undefined;
+
+  /** `merge` returns undefined when the two items can't be combined. */
+  constructor(config: QueueConfig, merge: (queued: T, incoming: T) => T | undefined) {
+    this.config = config;
+    this.merge = merge;
+  }
+
+  /**
+   * Run `handler(item)` once every earlier item for `key` has finished.
+   * Rejects only if the handler itself throws.
+   */
+  submit(key: string, item: T, handler: QueueHandler<T, R>): Promise<QueueResult<R>> {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      let settle!: () => void;
+      const idle = new Promise<void>(resolve => { settle = resolve; });
+      lane = { waiting: [], idle, settle };
+      this.lanes.set(key, lane);
+      return this.start(key, lane, item, handler);
+    }
+
+    const depth = lane.waiting.length + 1;
+    if (lane.waiting.length >= this.config.maxDepth) {
+      switch (this.config.overflow) {
+        case 'drop':
+          return Promise.resolve({ status: 'dropped', depth });
+        case 'busy':
+          return Promise.resolve({ status: 'busy', depth });
+        case 'merge': {
+          const last = lane.waiting[lane.waiting.length - 1]!;
+          const merged = this.merge(last.item, item);
+          if (merged === undefined) return Promise.resolve({ status: 'busy', depth });
+          last.item = merged;
+          return Promise.resolve({ status: 'merged', depth });
+        }
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      lane.waiting.push({ item, handler, depth, enqueuedAt: Date.now(), resolve, reject });
+    });
+  }
+
+  /**
+   * Discard the items waiting for `key` (they resolve as 'cancelled') and
+   * resolve once the active one has finished.
+   */
+  async cancel(key: string): Promise<void> {
+    const lane = this.lanes.get(key);
+    if (!lane) return;
+    for (const entry of lane.waiting.splice(0)) entry.resolve({ status: 'cancelled', depth: entry.depth });
+    await lane.idle;
+  }
+
+  /** Items for `key` that are active or waiting. */
+  depth(key: string): number {
+    const lane = this.lanes.get(key);
+    return lane ? lane.waiting.length + 1 : 0;
+  }
+
+  private async start(key: string, lane: Lane<T, R>, item: T, handler: QueueHandler<T, R>): Promise<QueueResult<R>> {
+    try {
+      const ticket = { depth: 0, waitMs: 0 };
+      return { status: 'processed', value: await handler(item, ticket), ticket };
+    } finally {
+      void this.drain(key, lane);
+    }
+  }
+
+  private async drain(key: string, lane: Lane<T, R>): Promise<void> {
+    let entry: Entry<T, R> | undefined;
+    while ((entry = lane.waiting.shift())) {
+      const ticket = { depth: entry.depth, waitMs: Date.now() - entry.enqueuedAt };
+      try {
+        entry.resolve({ status: 'processed', value: await entry.handler(entry.item, ticket), ticket });
+      } catch (err) {
+        entry.reject(err);
+      }
+    }
+    this.lanes.delete(key);
+    lane.settle();
+  }
+}
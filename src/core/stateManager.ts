@@ -5,22 +5,62 @@
 import { existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'node:fs';
 import { join } from 'node:path';
 import { getOpenClawDir, ensureOpenClawDir } from './config.js';
-import { writeEncryptedJSON, readEncryptedJSON } from '../security/encryptedStore.js';
-import { isValidSessionId, isInsideJail } from '../security/pathSecurity.js';
+import { getStorage, type StorageBackend } from './storage.js';
+import { isValidSessionId, isValidAgentId, isInsideJail } from '../security/pathSecurity.js';
 import { auditInfo, auditWarn } from '../security/auditLogger.js';
-import type { AgentSession } from '../types/index.js';
+import { SessionIndex } from './sessionIndex.js';
+import { SESSION_FORMAT_VERSION, type AgentSession, type ChannelType } from '../types/index.js';
 
 const AGENTS_DIR = 'agents';
 const SESSIONS_DIR = 'sessions';
 
+/**
+ * Upgrade steps keyed by the version they upgrade *from*.
+ * Sessions written before versioning have no `version` and count as v1.
+ */
+const SESSION_MIGRATIONS: Record<number, (session: AgentSession) => AgentSession> = {
+  // v1 → v2: content was always a string, which is still valid in v2
+  1: (session) => ({ ...session, version: 2 }),
+  // v2 → v3: memory is optional, so nothing to rewrite
+  2: (session) => ({ ...session, version: 3 }),
+};
+
+/**
+ * Bring a persisted session up to SESSION_FORMAT_VERSION.
+ * Throws if the session was written by a newer format than this build understands.
+ */
+export function migrateSession(session: AgentSession): { session: AgentSession; migrated: boolean } {
+  const from = session.version ?? 1;
+  if (from > SESSION_FORMAT_VERSION) {
+    throw new Error(`Unsupported session format version ${from}`);
+  }
+  let current = session;
+  for (let v = from; v < SESSION_FORMAT_VERSION; v++) {
+    const step = SESSION_MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from session format version ${v}`);
+    current = step(current);
+  }
+  return { session: current, migrated: from !== SESSION_FORMAT_VERSION };
+}
+
 export class StateManager {
   private baseDir: string;
-  private encryptionKey: string;
+  private storage: StorageBackend;
+  private index?: SessionIndex;
+  private indexReady = false;
 
-  constructor(encryptionKey: string) {
+  /**
+   * Without a PII HMAC secret there is no session index, and lookups fall
+   * back to decrypting every session. Sessions are kept in the configured
+   * storage backend (see core/storage.ts).
+   */
+  constructor(encryptionKey: string, piiHmacSecret?: string) {
     this.baseDir = getOpenClawDir();
-    this.encryptionKey = encryptionKey;
+    this.storage = getStorage(encryptionKey);
     this.ensureDirs();
+    if (piiHmacSecret) {
+      this.index = new SessionIndex(this.storage, piiHmacSecret);
+    }
   }
 
   private ensureDirs(): void {
@@ -37,7 +77,7 @@ export class StateManager {
   // ── Agent Workspaces ────────────────────────────────────────
 
   getAgentDir(agentId: string): string {
-    if (!isValidSessionId(agentId)) throw new Error('Invalid agent ID');
+    if (!isValidAgentId(agentId)) throw new Error('Invalid agent ID');
     return join(this.baseDir, AGENTS_DIR, agentId);
   }
 
@@ -72,73 +112,165 @@ export class StateManager {
   // ── Sessions ────────────────────────────────────────────────
 
   saveSession(session: AgentSession): void {
-    const filePath = join(this.baseDir, SESSIONS_DIR, `${session.id}.enc`);
-    writeEncryptedJSON(filePath, session, this.encryptionKey);
+    if (!isValidSessionId(session.id)) throw new Error('Invalid session ID');
+    this.storage.put('sessions', session.id, { ...session, version: SESSION_FORMAT_VERSION });
+    this.getIndex()?.put(session);
   }
 
+  /**
+   * Load a session, upgrading older formats in place.
+   * Returns null if the session is missing, unreadable, or from a newer format.
+   */
   loadSession(sessionId: string): AgentSession | null {
     if (!isValidSessionId(sessionId)) return null;
-    const filePath = join(this.baseDir, SESSIONS_DIR, `${sessionId}.enc`);
+    let stored: AgentSession | null;
     try {
-      return readEncryptedJSON<AgentSession>(filePath, this.encryptionKey);
+      stored = this.storage.get<AgentSession>('sessions', sessionId);
     } catch {
       return null;
     }
+    if (!stored) return null;
+
+    try {
+      const { session, migrated } = migrateSession(stored);
+      if (migrated) {
+        this.saveSession(session);
+        auditInfo('session_migrated', {
+          sessionId,
+          details: { from: stored.version ?? 1, to: SESSION_FORMAT_VERSION },
+        });
+      }
+      return session;
+    } catch (err) {
+      auditWarn('session_migration_failed', { sessionId, details: { error: String(err) } });
+      return null;
+    }
   }
 
   deleteSession(sessionId: string): void {
     if (!isValidSessionId(sessionId)) return;
-    const filePath = join(this.baseDir, SESSIONS_DIR, `${sessionId}.enc`);
-    const dir = join(this.baseDir, SESSIONS_DIR);
-    if (!isInsideJail(filePath, dir)) return;
-    if (existsSync(filePath)) {
-      rmSync(filePath);
+    if (this.storage.delete('sessions', sessionId)) {
       auditInfo('session_deleted', { sessionId });
     }
+    this.getIndex()?.remove(sessionId);
+  }
+
+  /**
+   * Find an agent's session for a contact. Uses the index when available
+   * (one decryption), otherwise scans every session file.
+   */
+  findSession(channel: ChannelType, contactId: string, agentId: string): AgentSession | null {
+    const index = this.getIndex();
+    const candidates = index
+      ? index.find(channel, contactId).filter(e => e.agentId === agentId).map(e => e.sessionId)
+      : this.listSessions();
+
+    for (const sid of candidates) {
+      const session = this.loadSession(sid);
+      if (!session) {
+        // Session gone or unreadable: the entry is stale
+        index?.remove(sid);
+        continue;
+      }
+      if (session.agentId === agentId && session.channel === channel && session.contactId === contactId) {
+        return session;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Recreate the session index by decrypting every session.
+   * Returns the number of sessions indexed, or 0 without an index.
+   */
+  rebuildSessionIndex(): number {
+    if (!this.index) return 0;
+    const sessions: AgentSession[] = [];
+    for (const sid of this.listSessions()) {
+      const session = this.loadSession(sid);
+      if (session) sessions.push(session);
+    }
+    this.index.reset(sessions);
+    this.indexReady = true;
+    auditInfo('session_index_rebuilt', { details: { sessions: sessions.length } });
+    return sessions.length;
   }
 
   listSessions(): string[] {
-    const dir = join(this.baseDir, SESSIONS_DIR);
-    if (!existsSync(dir)) return [];
-    return readdirSync(dir)
-      .filter(f => f.endsWith('.enc'))
-      .map(f => f.replace('.enc', ''));
+    return this.storage.keys('sessions');
   }
 
   // ── Auto-prune ──────────────────────────────────────────────
 
-  pruneExpiredSessions(): number {
+  /**
+   * Delete expired sessions, and with ttlDays, sessions idle for longer.
+   * Expiry comes from the index when there is one; the idle check has to
+   * decrypt the sessions that have not expired.
+   */
+  pruneExpiredSessions(ttlDays?: number, now = Date.now()): number {
     let pruned = 0;
-    const now = Date.now();
-    for (const sid of this.listSessions()) {
-      const session = this.loadSession(sid);
-      if (session && session.expiresAt < now) {
-        this.deleteSession(sid);
-        pruned++;
+    const idleCutoff = ttlDays === undefined ? undefined : now - ttlDays * 86400_000;
+    const isStale = (session: AgentSession): boolean =>
+      session.expiresAt < now || (idleCutoff !== undefined && session.lastActiveAt < idleCutoff);
+
+    const index = this.getIndex();
+    if (index) {
+      for (const entry of index.all()) {
+        if (entry.expiresAt < now) {
+          this.deleteSession(entry.sessionId);
+          pruned++;
+        } else if (idleCutoff !== undefined) {
+          const session = this.loadSession(entry.sessionId);
+          if (session && isStale(session)) {
+            this.deleteSession(entry.sessionId);
+            pruned++;
+          }
+        }
+      }
+    } else {
+      for (const sid of this.listSessions()) {
+        const session = this.loadSession(sid);
+        if (session && isStale(session)) {
+          this.deleteSession(sid);
+          pruned++;
+        }
       }
     }
     if (pruned > 0) {
-      auditInfo('sessions_pruned', { details: { count: pruned } });
+      auditInfo('sessions_pruned', { details: { count: pruned, ...(ttlDays !== undefined && { ttlDays }) } });
     }
     return pruned;
   }
 
   /**
-   * Prune transcripts older than retentionDays.
+   * The session index, loaded on first use and reconciled with the stored
+   * sessions: an unreadable index is rebuilt, sessions written without an
+   * entry (e.g. after a crash, or before the index existed) are indexed,
+   * and entries whose session is gone are dropped. Only unindexed sessions
+   * are decrypted.
    */
-  pruneTranscripts(retentionDays: number): number {
-    const dir = join(this.baseDir, 'transcripts');
-    if (!existsSync(dir)) return 0;
-    const cutoff = Date.now() - retentionDays * 86400_000;
-    let pruned = 0;
-    for (const file of readdirSync(dir)) {
-      const filePath = join(dir, file);
-      const stat = statSync(filePath);
-      if (stat.mtimeMs < cutoff) {
-        rmSync(filePath);
-        pruned++;
-      }
+  private getIndex(): SessionIndex | undefined {
+    if (!this.index || this.indexReady) return this.index;
+    this.indexReady = true;
+
+    if (!this.index.load()) {
+      this.rebuildSessionIndex();
+      return this.index;
     }
-    return pruned;
+
+    const index = this.index;
+    const stored = new Set(this.listSessions());
+    this.storage.transaction(() => {
+      for (const entry of index.all()) {
+        if (!stored.has(entry.sessionId)) index.remove(entry.sessionId);
+      }
+      const indexed = new Set(index.all().map(e => e.sessionId));
+      for (const sid of stored) {
+        if (indexed.has(sid)) continue;
+        const session = this.loadSession(sid);
+        if (session) index.put(session);
+      }
+    });
+    return index;
   }
 }
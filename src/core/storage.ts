@@ -0,0 +1,136 @@
+/**
+ * 1.17: Storage
+ * Backend-agnostic persistence for sessions, the session index, consent,
+ * safety numbers, threat-response bans and pipeline suspensions. Backends
+ * live in src/storage/; the CLI selects one from `storage.backend` after
+ * loading config.
+ */
+import type { StorageBackendName, StorageConfig } from '../types/index.js';
+import { FileBackend } from '../storage/fileBackend.js';
+import { SqliteBackend } from '../storage/sqliteBackend.js';
+import { getOpenClawDir, resolvePath } from './config.js';
+import { auditInfo, auditWarn } from '../security/auditLogger.js';
+
+export const STORAGE_COLLECTIONS = ['sessions', 'sessionIndex', 'consent', 'safetyNumbers', 'bans', 'suspensions'] as const;
+export type StorageCollection = typeof STORAGE_COLLECTIONS[number];
+
+export interface StorageProblem {
+  collection?: StorageCollection;
+  /** File name relative to the data dir, or a record's key hash — never a contact ID. */
+  location: string;
+  issue: 'corrupt' | 'interrupted_write' | 'interrupted_transaction' | 'integrity';
+  error?: string;
+  repair?: 'restored_from_backup' | 'quarantined' | 'removed' | 'replayed';
+}
+
+export interface StorageCheckReport {
+  backend: StorageBackendName;
+  /** Number of encrypted records or store files that were checked. */
+  checked: number;
+  problems: StorageProblem[];
+}
+
+/**
+ * Key-value records grouped into collections. Values are JSON-serializable.
+ * Reads throw if a record exists but can't be decrypted or parsed.
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  get<T>(collection: StorageCollection, key: string): T | null;
+  put(collection: StorageCollection, key: string, value: unknown): void;
+  /** Returns true if the record existed. */
+  delete(collection: StorageCollection, key: string): boolean;
+  keys(collection: StorageCollection): string[];
+  entries<T>(collection: StorageCollection): Array<[string, T]>;
+  clear(collection: StorageCollection): void;
+  /** Run `fn` atomically where the backend supports it (SQLite); the file backend just runs it. */
+  transaction<T>(fn: () => T): T;
+  /** Scan for damaged data; with `repair`, fix what can be fixed. */
+  check(repair: boolean): StorageCheckReport;
+  /**
+   * Re-encrypt records held outside `.enc` files under the active key
+   * (SQLite). Files are rotated by keyRotation directly. Returns the count.
+   */
+  reencrypt?(): number;
+  close(): void;
+}
+
+let active: StorageBackend | undefined;
+
+export function createStorageBackend(config: StorageConfig, encryptionKey?: string): StorageBackend {
+  switch (config.backend) {
+    case 'file':
+      return new FileBackend(getOpenClawDir(), encryptionKey, { backups: config.backups });
+    case 'sqlite':
+      if (!encryptionKey) throw new Error('The sqlite storage backend requires an encryption key');
+      return new SqliteBackend(resolvePath(config.sqlitePath), encryptionKey);
+  }
+}
+
+/**
+ * Make `backend` the process-wide storage (called once by the CLI).
+ */
+export function configureStorage(backend: StorageBackend): void {
+  if (active && active !== backend) active.close();
+  active = backend;
+}
+
+/**
+ * The configured backend. Until one is configured (tests, library use) this
+ * is the file backend under ~/.openclaw, as before backends existed.
+ */
+export function getStorage(encryptionKey?: string): StorageBackend {
+  return active ?? new FileBackend(getOpenClawDir(), encryptionKey);
+}
+
+/**
+ * Copy every record from one backend to another. The target is written in a
+ * single transaction and the source is left untouched. Returns per-collection counts.
+ */
+export function migrateStorage(from: StorageBackend, to: StorageBackend): Record<StorageCollection, number> {
+  const counts = {} as Record<StorageCollection, number>;
+  const data = STORAGE_COLLECTIONS.map(c => [c, from.entries<unknown>(c)] as const);
+
+  to.transaction(() => {
+    for (const [collection, entries] of data) {
+      for (const [key, value] of entries) to.put(collection, key, value);
+      counts[collection] = entries.length;
+    }
+  });
+
+  for (const [collection, entries] of data) {
+    const present = new Set(to.keys(collection));
+    const missing = entries.filter(([key]) => !present.has(key)).length;
+    if (missing > 0) throw new Error(`Migration incomplete: ${missing} ${collection} record(s) missing in ${to.name}`);
+  }
+
+  auditInfo('storage_migrated', { details: { from: from.name, to: to.name, counts } });
+  return counts;
+}
+
+/**
+ * Check a backend and optionally repair it. Repairs never destroy data:
+ * damaged records are moved aside. Still, when every record is unreadable
+ * that points at a wrong key rather than damage, so repair is refused.
+ */
+export function checkStorage(backend: StorageBackend, repair: boolean): StorageCheckReport {
+  const report = backend.check(false);
+  const corrupt = report.problems.filter(p => p.issue === 'corrupt').length;
+  if (repair && report.checked > 1 && corrupt >= report.checked) {
+    throw new Error('Every record failed to decrypt — check the encryption key. Refusing to repair.');
+  }
+  const result = repair && report.problems.length > 0 ? backend.check(true) : report;
+
+  const details = {
+    backend: backend.name,
+    checked: result.checked,
+    problems: result.problems.length,
+    repaired: result.problems.filter(p => p.repair).length,
+  };
+  if (result.problems.length > 0) {
+    auditWarn('storage_check', { details });
+  } else {
+    auditInfo('storage_check', { details });
+  }
+  return result;
+}
@@ -0,0 +1,270 @@
+/**
+ * 1.19: Transcripts
+ * Append-only, encrypted per-contact record of every turn, kept after
+ * trimming and compaction have dropped the messages from the session.
+ * One file per contact and channel, named by an HMAC pseudonym so file
+ * names never reveal who the contact is. Each line is one turn, encrypted
+ * on its own, so appending never rewrites earlier turns and a torn last
+ * line (crash mid-append) costs only that turn. Appends and the rewrites
+ * done by pruning and key rotation hold the file's lock.
+ */
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  statSync,
+  writeSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { getOpenClawDir } from './config.js';
+import { contactKeyHash } from './sessionIndex.js';
+import { withFileLock } from './fileLock.js';
+import { decrypt, encrypt, keyIdOf, overwriteAndRemove, readKeyId, writeFileAtomic } from '../security/encryptedStore.js';
+import { auditInfo, auditWarn } from '../security/auditLogger.js';
+import type { ChannelType } from '../types/index.js';
+
+export const TRANSCRIPTS_DIR = 'transcripts';
+export const TRANSCRIPT_EXT = '.log';
+const INFO = 'openclaw-transcript';
+const PSEUDONYM = /^[0-9a-f]{64}$/;
+
+export interface TranscriptToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  isError: boolean;
+}
+
+export interface TranscriptEntry {
+  timestamp: string;
+  channel: ChannelType;
+  contactId: string;
+  agentId: string;
+  sessionId: string;
+  user: string;
+  assistant: string;
+  toolCalls: TranscriptToolCall[];
+  usage: { inputTokens: number; outputTokens: number; model?: string };
+  /** The turn failed; `assistant` is the error reply that was sent. */
+  error?: boolean;
+}
+
+export interface TranscriptFileInfo {
+  pseudonym: string;
+  bytes: number;
+  turns: number;
+  modifiedAt: string;
+}
+
+export interface TranscriptReadResult {
+  entries: TranscriptEntry[];
+  /** Lines that could not be decrypted (torn write, unknown key). */
+  unreadable: number;
+}
+
+/**
+ * File name for a contact's transcript on one channel.
+ */
+export function transcriptFileName(channel: ChannelType, contactId: string, hmacSecret: string): string {
+  return `${contactKeyHash(channel, contactId, hmacSecret)}${TRANSCRIPT_EXT}`;
+}
+
+export class TranscriptLog {
+  private dir: string;
+  private encryptionKey: string;
+  private hmacSecret: string;
+  private retentionDays: number;
+  private lastPrunedDay?: string;
+
+  constructor(encryptionKey: string, hmacSecret: string, retentionDays: number, baseDir = getOpenClawDir()) {
+    this.dir = join(baseDir, TRANSCRIPTS_DIR);
+    this.encryptionKey = encryptionKey;
+    this.hmacSecret = hmacSecret;
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Append one turn. The line is fsynced before returning. Turns older than
+   * retentionDays are pruned once per UTC day.
+   */
+  append(entry: TranscriptEntry, now = new Date()): void {
+    const day = now.toISOString().slice(0, 10);
+    if (this.lastPrunedDay !== day) {
+      this.lastPrunedDay = day;
+      this.prune(now);
+    }
+
+    if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const line = encrypt(JSON.stringify(entry), this.encryptionKey, INFO).toString('base64') + '\n';
+    const path = this.path(entry.channel, entry.contactId);
+    withFileLock(path, () => {
+      // After a torn append, start on a fresh line so only the torn turn is lost
+      const prefix = existsSync(path) && !endsWithNewline(path) ? '\n' : '';
+      const fd = openSync(path, 'a', 0o600);
+      try {
+        writeSync(fd, prefix + line);
+        fsyncSync(fd);
+      } finally {
+        closeSync(fd);
+      }
+    });
+  }
+
+  /**
+   * Every turn recorded for a contact on one channel, oldest first.
+   */
+  read(channel: ChannelType, contactId: string): TranscriptReadResult {
+    const path = this.path(channel, contactId);
+    if (!existsSync(path)) return { entries: [], unreadable: 0 };
+    return this.readLines(readFileSync(path, 'utf-8'));
+  }
+
+  /**
+   * Transcript files by pseudonym. With a contact, only that contact's files.
+   */
+  list(contact?: { contactId: string; channels: readonly ChannelType[] }): TranscriptFileInfo[] {
+    if (!existsSync(this.dir)) return [];
+    const wanted = contact
+      ? new Set(contact.channels.map(ch => transcriptFileName(ch, contact.contactId, this.hmacSecret)))
+      : undefined;
+    return readdirSync(this.dir)
+      .filter(f => f.endsWith(TRANSCRIPT_EXT) && PSEUDONYM.test(f.slice(0, -TRANSCRIPT_EXT.length)))
+      .filter(f => !wanted || wanted.has(f))
+      .map(f => {
+        const path = join(this.dir, f);
+        const stat = statSync(path);
+        return {
+          pseudonym: f.slice(0, -TRANSCRIPT_EXT.length),
+          bytes: stat.size,
+          turns: countLines(readFileSync(path, 'utf-8')),
+          modifiedAt: stat.mtime.toISOString(),
+        };
+      });
+  }
+
+  /**
+   * Drop turns older than retentionDays. Files with nothing left are
+   * removed; others are rewritten atomically without the expired turns.
+   * Undecryptable lines are kept, and go when the whole file expires.
+   */
+  prune(now = new Date()): { filesDeleted: number; turnsDropped: number } {
+    const result = { filesDeleted: 0, turnsDropped: 0 };
+    if (!existsSync(this.dir)) return result;
+    const cutoff = now.getTime() - this.retentionDays * 86400_000;
+
+    for (const file of readdirSync(this.dir).filter(f => f.endsWith(TRANSCRIPT_EXT))) {
+      const path = join(this.dir, file);
+      // Under the file's lock, so a turn appended meanwhile isn't lost in the rewrite
+      withFileLock(path, () => {
+        if (!existsSync(path)) return;
+        if (statSync(path).mtimeMs < cutoff) {
+          result.turnsDropped += countLines(readFileSync(path, 'utf-8'));
+          overwriteAndRemove(path);
+          result.filesDeleted++;
+          return;
+        }
+
+        const lines = readFileSync(path, 'utf-8').split('\n').filter(Boolean);
+        const kept = lines.filter(line => {
+          const entry = this.decryptLine(line);
+          return !entry || Date.parse(entry.timestamp) >= cutoff;
+        });
+        if (kept.length === lines.length) return;
+        result.turnsDropped += lines.length - kept.length;
+        if (kept.length === 0) {
+          overwriteAndRemove(path);
+          result.filesDeleted++;
+        } else {
+          writeFileAtomic(path, kept.map(l => l + '\n').join(''));
+        }
+      });
+    }
+
+    if (result.turnsDropped > 0) {
+      auditInfo('transcripts_pruned', { details: { ...result, retentionDays: this.retentionDays } });
+    }
+    return result;
+  }
+
+  private readLines(content: string): TranscriptReadResult {
+    const result: TranscriptReadResult = { entries: [], unreadable: 0 };
+    for (const line of content.split('\n').filter(Boolean)) {
+      const entry = this.decryptLine(line);
+      if (entry) {
+        result.entries.push(entry);
+      } else {
+        result.unreadable++;
+      }
+    }
+    if (result.unreadable > 0) {
+      auditWarn('transcript_lines_unreadable', { details: { count: result.unreadable } });
+    }
+    return result;
+  }
+
+  private decryptLine(line: string): TranscriptEntry | null {
+    try {
+      return JSON.parse(decrypt(Buffer.from(line, 'base64'), this.encryptionKey, INFO)) as TranscriptEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private path(channel: ChannelType, contactId: string): string {
+    return join(this.dir, transcriptFileName(channel, contactId, this.hmacSecret));
+  }
+}
+
+export interface TranscriptRotation {
+  /** 'current' if every readable line already was under the key. */
+  status: 'rotated' | 'current';
+  /** Lines that could not be decrypted (torn writes, unknown keys), copied through unchanged. */
+  unreadable: number;
+}
+
+/**
+ * Re-encrypt a transcript file's lines under `encryptionKey` (key rotation).
+ * A line that can't be decrypted is kept as it is rather than failing the
+ * file, since one torn append would otherwise block rotating the rest.
+ */
+export function reencryptTranscript(path: string, encryptionKey: string): TranscriptRotation {
+  const keyId = keyIdOf(encryptionKey);
+  const result: TranscriptRotation = { status: 'current', unreadable: 0 };
+  withFileLock(path, () => {
+    const lines = readFileSync(path, 'utf-8').split('\n').filter(Boolean).map(line => {
+      const data = Buffer.from(line, 'base64');
+      if (readKeyId(data) === keyId) return line;
+      try {
+        const rotated = encrypt(decrypt(data, encryptionKey, INFO), encryptionKey, INFO).toString('base64');
+        result.status = 'rotated';
+        return rotated;
+      } catch {
+        result.unreadable++;
+        return line;
+      }
+    });
+    if (result.status === 'rotated') writeFileAtomic(path, lines.map(line => line + '\n').join(''));
+  });
+  return result;
+}
+
+function endsWithNewline(path: string): boolean {
+  const size = statSync(path).size;
+  if (size === 0) return true;
+  const fd = openSync(path, 'r');
+  try {
+    const last = Buffer.alloc(1);
+    readSync(fd, last, 0, 1, size - 1);
+    return last[0] === 0x0a;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function countLines(content: string): number {
+  return content.split('\n').filter(Boolean).length;
+}
@@ -0,0 +1,355 @@
+/**
+ * 1.14: Usage Ledger
+ * Per-contact token accounting, cost estimates and budgets (encrypted).
+ * Usage is bucketed by UTC day; monthly figures are the sum of the month's days.
+ *
+ * The gateway and CLI commands (erasure, pruning) share the file. Every
+ * change re-reads it under its lock first, and reads pick up a file another
+ * process has rewritten, so one process never writes back rows that
+ * another has removed.
+ */
+import { existsSync, mkdirSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { getOpenClawDir } from './config.js';
+import { withFileLock } from './fileLock.js';
+import { BACKUP_SUFFIX, overwriteAndRemove, writeEncryptedJSON, readEncryptedJSON } from '../security/encryptedStore.js';
+import { auditWarn } from '../security/auditLogger.js';
+import type { ChannelType, ModelPricing, UsageConfig } from '../types/index.js';
+
+export const USAGE_FILE = 'usage.enc';
+
+/**
+ * Built-in list prices (USD per million tokens), matched by model-name prefix.
+ * `usage.pricing` in config takes precedence.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku-4': { inputPerMTok: 1, outputPerMTok: 5 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+};
+
+export interface UsageCounts {
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+}
+
+export interface UsageRow extends UsageCounts {
+  day: string; // YYYY-MM-DD (UTC)
+  channel: ChannelType;
+  contactId: string;
+  agentId: string;
+  model: string;
+}
+
+export interface UsageEntry {
+  channel: ChannelType;
+  contactId: string;
+  agentId: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageFilter {
+  channel?: ChannelType;
+  contactId?: string;
+  agentId?: string;
+  /** Day (YYYY-MM-DD) or month (YYYY-MM) prefix. */
+  period?: string;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Highest share of any configured budget used so far (0-100+). */
+  usedPercent: number;
+  /** The budget that is closest to (or over) its limit, e.g. "monthlyCostUsd". */
+  budget?: string;
+}
+
+interface UsageStore {
+  rows: Record<string, UsageRow>;
+  /** `channel:contactId|period` → time of the soft warning for that period. */
+  warnings: Record<string, number>;
+}
+
+export function dayKey(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function monthKey(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Resolve the price for a model: exact or longest-prefix match,
+ * config overrides first. Undefined if the model is unknown.
+ */
+export function priceFor(model: string, overrides: Record<string, ModelPricing> = {}): ModelPricing | undefined {
+  for (const table of [overrides, DEFAULT_PRICING]) {
+    let best: string | undefined;
+    for (const prefix of Object.keys(table)) {
+      if (model.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+    }
+    if (best) return table[best];
+  }
+  return undefined;
+}
+
+/**
+ * Estimated cost in USD, or undefined if the model has no known price.
+ */
+export function estimateCost(
+  counts: Pick<UsageCounts, 'inputTokens' | 'outputTokens'>,
+  pricing: ModelPricing | undefined,
+): number | undefined {
+  if (!pricing) return undefined;
+  return (counts.inputTokens * pricing.inputPerMTok + counts.outputTokens * pricing.outputPerMTok) / 1_000_000;
+}
+
+export class UsageLedger {
+  private config: UsageConfig;
+  private encryptionKey?: string;
+  private store: UsageStore;
+  private retentionDays: number;
+  private lastPrunedDay?: string;
+  private unreadable = false;
+  /** Identity of the file version `store` was read from or saved as. */
+  private version?: string;
+
+  /**
+   * Without an encryption key the ledger works in memory only and
+   * budgets reset on restart. Rows older than retentionDays are pruned.
+   */
+  constructor(config: UsageConfig, encryptionKey?: string, retentionDays = 400) {
+    this.config = config;
+    this.encryptionKey = encryptionKey;
+    this.retentionDays = retentionDays;
+    this.store = { rows: {}, warnings: {} };
+    this.sync();
+  }
+
+  /**
+   * Add one turn's token usage to the ledger and persist it.
+   */
+  record(entry: UsageEntry, now = new Date()): void {
+    const day = dayKey(now);
+    const key = JSON.stringify([day, entry.channel, entry.contactId, entry.agentId, entry.model]);
+    this.update(store => {
+      const row = store.rows[key] ?? {
+        day,
+        channel: entry.channel,
+        contactId: entry.contactId,
+        agentId: entry.agentId,
+        model: entry.model,
+        inputTokens: 0,
+        outputTokens: 0,
+        requests: 0,
+      };
+      row.inputTokens += entry.inputTokens;
+      row.outputTokens += entry.outputTokens;
+      row.requests++;
+      store.rows[key] = row;
+
+      if (this.lastPrunedDay !== day) {
+        this.dropExpired(now);
+        this.lastPrunedDay = day;
+      }
+    });
+  }
+
+  query(filter: UsageFilter = {}): UsageRow[] {
+    this.sync();
+    return Object.values(this.store.rows).filter(r =>
+      (!filter.channel || r.channel === filter.channel)
+      && (!filter.contactId || r.contactId === filter.contactId)
+      && (!filter.agentId || r.agentId === filter.agentId)
+      && (!filter.period || r.day.startsWith(filter.period)),
+    );
+  }
+
+  /**
+   * Sum rows; cost only includes models with a known price.
+   */
+  totals(rows: UsageRow[]): UsageCounts & { costUsd: number } {
+    const totals = { inputTokens: 0, outputTokens: 0, requests: 0, costUsd: 0 };
+    for (const r of rows) {
+      totals.inputTokens += r.inputTokens;
+      totals.outputTokens += r.outputTokens;
+      totals.requests += r.requests;
+      totals.costUsd += estimateCost(r, this.priceFor(r.model)) ?? 0;
+    }
+    return totals;
+  }
+
+  priceFor(model: string): ModelPricing | undefined {
+    return priceFor(model, this.config.pricing);
+  }
+
+  /**
+   * Check a contact's daily and monthly budgets before answering.
+   * Crossing `warnAtPercent` is audited once per period; going over a
+   * budget is audited on every refused message.
+   */
+  checkBudget(channel: ChannelType, contactId: string, now = new Date()): BudgetCheck {
+    if (!this.config.enabled) return { allowed: true, usedPercent: 0 };
+
+    const day = this.totals(this.query({ channel, contactId, period: dayKey(now) }));
+    const month = this.totals(this.query({ channel, contactId, period: monthKey(now) }));
+    const limits: Array<[string, number | undefined, number, string]> = [
+      ['dailyTokens', this.config.dailyTokens, day.inputTokens + day.outputTokens, dayKey(now)],
+      ['dailyCostUsd', this.config.dailyCostUsd, day.costUsd, dayKey(now)],
+      ['monthlyTokens', this.config.monthlyTokens, month.inputTokens + month.outputTokens, monthKey(now)],
+      ['monthlyCostUsd', this.config.monthlyCostUsd, month.costUsd, monthKey(now)],
+    ];
+
+    let worst: { budget: string; percent: number; period: string } | undefined;
+    for (const [budget, max, used, period] of limits) {
+      if (max === undefined) continue;
+      const percent = (used / max) * 100;
+      if (!worst || percent > worst.percent) worst = { budget, percent, period };
+    }
+    if (!worst) return { allowed: true, usedPercent: 0 };
+
+    const usedPercent = Math.round(worst.percent * 10) / 10;
+    if (worst.percent >= 100) {
+      auditWarn('usage_budget_exceeded', {
+        channel,
+        contactId,
+        details: { budget: worst.budget, period: worst.period, usedPercent },
+      });
+      return { allowed: false, usedPercent, budget: worst.budget };
+    }
+
+    if (worst.percent >= this.config.warnAtPercent) {
+      const warningKey = `${channel}:${contactId}|${worst.period}`;
+      const first = this.update(store => {
+        if (store.warnings[warningKey]) return false;
+        store.warnings[warningKey] = now.getTime();
+        return true;
+      });
+      if (first) {
+        auditWarn('usage_budget_warning', {
+          channel,
+          contactId,
+          details: { budget: worst.budget, period: worst.period, usedPercent },
+        });
+      }
+    }
+    return { allowed: true, usedPercent, budget: worst.budget };
+  }
+
+  getLimitReply(): string {
+    return this.config.limitReply;
+  }
+
+  /** True if the ledger file exists but could not be read. */
+  isDamaged(): boolean {
+    return this.unreadable;
+  }
+
+  /**
+   * Remove every row and budget warning for a contact, on all channels
+   * (erasure). Returns the number of rows removed. Throws if the ledger
+   * file is damaged, since the rows in it could not be removed.
+   */
+  forget(contactId: string): number {
+    return this.update(store => {
+      if (this.unreadable) throw new Error('The usage ledger is damaged — run "openclaw storage check --repair" first');
+      let removed = 0;
+      for (const [key, row] of Object.entries(store.rows)) {
+        if (row.contactId === contactId) {
+          delete store.rows[key];
+          removed++;
+        }
+      }
+      for (const key of Object.keys(store.warnings)) {
+        if (key.slice(key.indexOf(':') + 1, key.lastIndexOf('|')) === contactId) delete store.warnings[key];
+      }
+      return removed;
+    }, true);
+  }
+
+  /**
+   * Remove rows older than retentionDays and warnings from past months.
+   * Returns the number of rows removed.
+   */
+  prune(now = new Date()): number {
+    let removed = 0;
+    this.update(() => { removed = this.dropExpired(now); }, () => removed > 0);
+    return removed;
+  }
+
+  private dropExpired(now: Date): number {
+    const cutoff = dayKey(new Date(now.getTime() - this.retentionDays * 86400_000));
+    let removed = 0;
+    for (const [key, row] of Object.entries(this.store.rows)) {
+      if (row.day < cutoff) {
+        delete this.store.rows[key];
+        removed++;
+      }
+    }
+    const month = monthKey(now);
+    for (const key of Object.keys(this.store.warnings)) {
+      const period = key.slice(key.lastIndexOf('|') + 1);
+      if (!period.startsWith(month)) delete this.store.warnings[key];
+    }
+    return removed;
+  }
+
+  /**
+   * Apply `change` to the ledger and persist it: holding the file's lock,
+   * re-read what another process may have written, change that, and save.
+   * `scrub` as in save, or a function deciding once the change is made.
+   */
+  private update<T>(change: (store: UsageStore) => T, scrub: boolean | (() => boolean) = false): T {
+    if (!this.encryptionKey) return change(this.store);
+    const path = join(getOpenClawDir(), USAGE_FILE);
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+    return withFileLock(path, () => {
+      this.sync();
+      const result = change(this.store);
+      this.save(typeof scrub === 'function' ? scrub() : scrub);
+      return result;
+    });
+  }
+
+  /** Reload the store if the file has changed since it was read or saved. */
+  private sync(): void {
+    const path = join(getOpenClawDir(), USAGE_FILE);
+    if (!this.encryptionKey || !existsSync(path)) return;
+    const version = fileVersion(path);
+    if (version === this.version) return;
+    try {
+      this.store = readEncryptedJSON<UsageStore>(path, this.encryptionKey);
+      this.unreadable = false;
+    } catch (err) {
+      // Keep counting in memory, but never overwrite the damaged file
+      if (!this.unreadable) auditWarn('usage_ledger_unreadable', { details: { error: String(err) } });
+      this.unreadable = true;
+    }
+    this.version = version;
+  }
+
+  /**
+   * Persist the ledger, keeping the previous file as a backup. A scrubbing
+   * write (erasure, pruning) keeps no backup and destroys the old one, so
+   * removed rows don't survive in it.
+   */
+  private save(scrub = false): void {
+    if (!this.encryptionKey || this.unreadable) return;
+    const path = join(getOpenClawDir(), USAGE_FILE);
+    writeEncryptedJSON(path, this.store, this.encryptionKey, { backup: !scrub });
+    this.version = fileVersion(path);
+    if (scrub && existsSync(path + BACKUP_SUFFIX)) overwriteAndRemove(path + BACKUP_SUFFIX);
+  }
+}
+
+/** Changes whenever the file is replaced (writes go through a rename). */
+function fileVersion(path: string): string {
+  const stat = statSync(path);
+  return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * LLM Provider: Anthropic Claude
+ * Messages API via the official SDK.
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import type { ContentBlock, ToolUseBlock } from '@anthropic-ai/sdk/resources/messages.js';
+import type { LLMConfig } from '../types/index.js';
+import type { LLMProvider, LLMRequest, LLMResponse, TextDeltaHandler } from '../core/llm.js';
+import type { FetchLike } from './recordReplay.js';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+  private config: LLMConfig;
+
+  constructor(config: LLMConfig, fetchImpl?: FetchLike) {
+    this.config = config;
+    // Replay never reaches the API, so it needs no real key
+    const apiKey = config.apiKey ?? (config.recordReplay?.mode === 'replay' ? 'replay' : undefined);
+    if (!apiKey) {
+      throw new Error('Anthropic API key not configured. Set ANTHROPIC_API_KEY env var.');
+    }
+    this.client = new Anthropic({ apiKey, ...(fetchImpl ? { fetch: fetchImpl } : {}) });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.messages.create(this.buildParams(request));
+    return toResponse(response);
+  }
+
+  async stream(request: LLMRequest, onText: TextDeltaHandler): Promise<LLMResponse> {
+    const stream = this.client.messages.stream(this.buildParams(request));
+    stream.on('text', onText);
+    return toResponse(await stream.finalMessage());
+  }
+
+  private buildParams(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+    const tools = request.tools?.map(t => ({
+      name: t.name,
+      description: t.description,
+      input_schema: t.input_schema as Anthropic.Tool['input_schema'],
+    }));
+
+    return {
+      model: this.config.model,
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+      system: request.systemPrompt,
+      // Session content blocks already use the Messages API shapes
+      messages: request.messages,
+      ...(tools && tools.length > 0 ? { tools } : {}),
+    };
+  }
+}
+
+function toResponse(response: Anthropic.Message): LLMResponse {
+  const textBlocks = response.content
+    .filter((b): b is ContentBlock & { type: 'text' } => b.type === 'text')
+    .map(b => b.text);
+
+  const toolCalls = response.content
+    .filter((b): b is ToolUseBlock => b.type === 'tool_use')
+    .map(b => ({
+      id: b.id,
+      name: b.name,
+      input: b.input as Record<string, unknown>,
+    }));
+
+  return {
+    content: textBlocks.join('\n'),
+    toolCalls,
+    stopReason: response.stop_reason,
+    inputTokens: response.usage.input_tokens,
+    outputTokens: response.usage.output_tokens,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * LLM Provider: Mock
+ * Deterministic offline replies for tests and demos. Plays the configured
+ * script in order (text and/or tool calls); once it runs out, echoes the
+ * latest user message. Never touches the network.
+ */
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { MockStepSchema, type LLMConfig, type MockStep } from '../types/index.js';
+import { resolvePath } from '../core/config.js';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, TextDeltaHandler } from '../core/llm.js';
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private script: MockStep[];
+  private cursor = 0;
+  private callCount = 0;
+
+  constructor(config: LLMConfig) {
+    this.script = [...(config.mock?.script ?? [])];
+    const scriptPath = config.mock?.scriptPath;
+    if (scriptPath) {
+      const raw: unknown = JSON.parse(readFileSync(resolvePath(scriptPath), 'utf-8'));
+      this.script.push(...z.array(MockStepSchema).parse(raw));
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.next(request);
+  }
+
+  /**
+   * Streams the scripted text word by word, then returns the full response.
+   */
+  async stream(request: LLMRequest, onText: TextDeltaHandler): Promise<LLMResponse> {
+    const response = this.next(request);
+    for (const word of response.content.match(/\S+\s*|\s+/g) ?? []) {
+      onText(word);
+    }
+    return response;
+  }
+
+  /** Steps of the script not yet played. */
+  remaining(): number {
+    return this.script.length - this.cursor;
+  }
+
+  private next(request: LLMRequest): LLMResponse {
+    const step = this.script[this.cursor];
+    if (step) this.cursor++;
+
+    const content = step ? step.text : `[mock] ${lastUserText(request.messages)}`;
+    const toolCalls = (step?.toolCalls ?? []).map(call => ({
+      id: `mock_call_${++this.callCount}`,
+      name: call.name,
+      input: call.input,
+    }));
+
+    return {
+      content,
+      toolCalls,
+      stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+      inputTokens: step?.inputTokens ?? estimateTokens(request),
+      outputTokens: step?.outputTokens ?? Math.ceil(content.length / 4),
+    };
+  }
+}
+
+function lastUserText(messages: LLMMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i]!;
+    if (m.role === 'user' && typeof m.content === 'string') return m.content;
+  }
+  return '';
+}
+
+function estimateTokens(request: LLMRequest): number {
+  return Math.ceil((request.systemPrompt.length + JSON.stringify(request.messages).length) / 4);
+}
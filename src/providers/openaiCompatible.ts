@@ -0,0 +1,229 @@
+/**
+ * LLM Provider: OpenAI-compatible Chat Completions
+ * Plain HTTP client for any /v1/chat/completions server, including local
+ * Ollama and llama.cpp, so inference can stay on-box.
+ */
+import type { LLMConfig } from '../types/index.js';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, TextDeltaHandler, ToolCall } from '../core/llm.js';
+import type { FetchLike } from './recordReplay.js';
+
+const REQUEST_TIMEOUT_MS = 300_000; // local models can be slow on CPU
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletion {
+  choices: Array<{
+    message: { content?: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatUsage | null;
+}
+
+// Normalised to the Anthropic vocabulary used elsewhere
+const STOP_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+};
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private config: LLMConfig;
+  private endpoint: string;
+  private fetch: FetchLike;
+
+  constructor(config: LLMConfig, fetchImpl?: FetchLike) {
+    if (!config.baseUrl) {
+      throw new Error('llm.baseUrl is required for the openai-compatible provider');
+    }
+    this.config = config;
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.fetch = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const res = await this.post(this.buildBody(request, false));
+    const data = await res.json() as ChatCompletion;
+    const choice = data.choices[0];
+    if (!choice) throw new Error('OpenAI-compatible API returned no choices');
+
+    return {
+      content: choice.message.content ?? '',
+      toolCalls: (choice.message.tool_calls ?? []).map((tc, i) => toToolCall(tc.id, tc.function.name, tc.function.arguments, i)),
+      stopReason: normaliseStopReason(choice.finish_reason),
+      inputTokens: data.usage?.prompt_tokens ?? 0,
+      outputTokens: data.usage?.completion_tokens ?? 0,
+    };
+  }
+
+  async stream(request: LLMRequest, onText: TextDeltaHandler): Promise<LLMResponse> {
+    const res = await this.post(this.buildBody(request, true));
+    if (!res.body) throw new Error('OpenAI-compatible API returned an empty stream');
+
+    let content = '';
+    let stopReason: string | null = null;
+    let usage: ChatUsage = {};
+    const calls: Array<{ id?: string; name: string; args: string }> = [];
+
+    const handleLine = (line: string): void => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.usage) usage = chunk.usage;
+      const choice = chunk.choices?.[0];
+      if (!choice) return;
+
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        onText(choice.delta.content);
+      }
+      for (const tc of choice.delta?.tool_calls ?? []) {
+        const call = calls[tc.index ?? 0] ??= { name: '', args: '' };
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.args += tc.function.arguments;
+      }
+      if (choice.finish_reason) stopReason = choice.finish_reason;
+    };
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        handleLine(buffer.slice(0, newline).trim());
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+    handleLine(buffer.trim());
+
+    return {
+      content,
+      toolCalls: calls.filter(Boolean).map((c, i) => toToolCall(c.id, c.name, c.args, i)),
+      stopReason: normaliseStopReason(stopReason),
+      inputTokens: usage.prompt_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? 0,
+    };
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean): Record<string, unknown> {
+    const tools = request.tools?.map(t => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    }));
+
+    return {
+      model: this.config.model,
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+      messages: toChatMessages(request.systemPrompt, request.messages),
+      ...(tools && tools.length > 0 ? { tools } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const res = await this.fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(this.config.apiKey ? { authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw Object.assign(
+        new Error(`OpenAI-compatible API error ${res.status}: ${text.slice(0, 200)}`),
+        { status: res.status },
+      );
+    }
+    return res;
+  }
+}
+
+/**
+ * Convert neutral (Anthropic-style) history to Chat Completions messages.
+ * tool_use blocks become assistant `tool_calls`; each tool_result becomes
+ * its own `tool` message.
+ */
+export function toChatMessages(systemPrompt: string, messages: LLMMessage[]): ChatMessage[] {
+  const out: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+
+  for (const m of messages) {
+    if (typeof m.content === 'string') {
+      out.push({ role: m.role, content: m.content });
+      continue;
+    }
+
+    const text = m.content.flatMap(b => (b.type === 'text' ? [b.text] : [])).join('\n');
+
+    if (m.role === 'assistant') {
+      const toolCalls: ChatToolCall[] = m.content.flatMap(b => (b.type === 'tool_use'
+        ? [{ id: b.id, type: 'function' as const, function: { name: b.name, arguments: JSON.stringify(b.input) } }]
+        : []));
+      out.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+
+    for (const b of m.content) {
+      if (b.type === 'tool_result') {
+        out.push({ role: 'tool', tool_call_id: b.tool_use_id, content: b.content });
+      }
+    }
+    if (text) out.push({ role: 'user', content: text });
+  }
+
+  return out;
+}
+
+function toToolCall(id: string | undefined, name: string, args: string, index: number): ToolCall {
+  let input: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = args ? JSON.parse(args) : {};
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      input = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Small local models sometimes emit invalid JSON; the tool sees no arguments
+  }
+  // Some local servers omit call IDs
+  return { id: id || `call_${index}`, name, input };
+}
+
+function normaliseStopReason(reason: string | null): string | null {
+  if (reason === null) return null;
+  return STOP_REASONS[reason] ?? reason;
+}
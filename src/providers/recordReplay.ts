@@ -0,0 +1,87 @@
+/**
+ * LLM Provider: Record / Replay
+ * A `fetch` wrapper for the HTTP providers. In record mode every exchange is
+ * written to a fixture file; in replay mode responses are served from those
+ * files byte-for-byte and the network is never touched. Fixtures are keyed by
+ * method, URL and request body. Request headers (and so API keys) are not stored.
+ */
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { RecordReplayConfig } from '../types/index.js';
+import { resolvePath } from '../core/config.js';
+
+export type FetchLike = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export interface Fixture {
+  request: { method: string; url: string; body: string };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    encoding: 'utf8' | 'base64';
+    body: string;
+  };
+}
+
+// fetch has already decoded the body, so these no longer describe it
+const DROPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+
+export function fixtureKey(method: string, url: string, body: string): string {
+  return createHash('sha256').update(`${method} ${url}\n${body}`).digest('hex');
+}
+
+export function createRecordReplayFetch(config: RecordReplayConfig, inner?: FetchLike): FetchLike {
+  const dir = resolvePath(config.dir);
+  const send: FetchLike = inner ?? ((input, init) => fetch(input, init));
+
+  return async (input, init) => {
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const body = await requestBody(input, init);
+    const path = join(dir, `${fixtureKey(method, url, body)}.json`);
+
+    if (config.mode === 'replay') {
+      if (!existsSync(path)) {
+        throw new Error(`No recorded fixture for ${method} ${url} (${path})`);
+      }
+      const fixture = JSON.parse(readFileSync(path, 'utf-8')) as Fixture;
+      return new Response(Buffer.from(fixture.response.body, fixture.response.encoding), {
+        status: fixture.response.status,
+        headers: fixture.response.headers,
+      });
+    }
+
+    const res = await send(input, init);
+    const bytes = Buffer.from(await res.arrayBuffer());
+    const text = bytes.toString('utf8');
+    const utf8Safe = Buffer.from(text, 'utf8').equals(bytes);
+
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, name) => {
+      if (!DROPPED_RESPONSE_HEADERS.has(name)) headers[name] = value;
+    });
+
+    const fixture: Fixture = {
+      request: { method, url, body },
+      response: {
+        status: res.status,
+        headers,
+        encoding: utf8Safe ? 'utf8' : 'base64',
+        body: utf8Safe ? text : bytes.toString('base64'),
+      },
+    };
+    // Fixtures hold conversation content: keep them owner-only
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+    writeFileSync(path, JSON.stringify(fixture, null, 2) + '\n', { mode: 0o600 });
+
+    return new Response(bytes, { status: res.status, statusText: res.statusText, headers });
+  };
+}
+
+async function requestBody(input: string | URL | Request, init?: RequestInit): Promise<string> {
+  if (init?.body !== undefined && init.body !== null) {
+    if (typeof init.body !== 'string') throw new Error('Record/replay only supports string request bodies');
+    return init.body;
+  }
+  return input instanceof Request ? input.clone().text() : '';
+}
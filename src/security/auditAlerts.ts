@@ -0,0 +1,147 @@
+/**
+ * A-02: Audit Alerts
+ * Pages operators about CRITICAL audit events (and any others configured)
+ * over Signal and/or Discord. Repeats of the same event for the same
+ * contact or IP are folded into one alert per dedup window, and a global
+ * hourly cap keeps an attack from flooding the operators' phones.
+ */
+import { auditError, auditWarn, onAuditEvent } from './auditLogger.js';
+import { auditEntryFilter } from './auditQuery.js';
+import type { AlertConfig, AuditEntry, AuditSeverity } from '../types/index.js';
+
+const SEVERITY_ORDER: AuditSeverity[] = ['INFO', 'WARN', 'ERROR', 'CRITICAL'];
+const HOUR_MS = 3_600_000;
+const MAX_DEDUP_KEYS = 1000;
+
+export interface AlertTransport {
+  name: string;
+  send(text: string): Promise<void>;
+}
+
+export const DEFAULT_ALERT_TEMPLATES: Record<string, string> = {
+  safety_number_changed:
+    'Signal safety number changed for {contactId} ({details.oldFingerprint} → {details.newFingerprint}). '
+    + 'Possible MITM. Check it with `openclaw signal verify-contacts`.',
+  gateway_auth_failed: 'Gateway authentication failed from {details.ip}.',
+  skill_integrity_failed_at_runtime:
+    'Skill "{details.skill}" failed its integrity check before running {details.tool}: {details.reason}. The call was blocked.',
+  prompt_injection_detected: 'Prompt injection ({details.severity}) on {channel}: {details.patterns}.',
+  threat_ban_added:
+    'Threat rule "{details.rule}" banned {details.kind} {details.target} ({details.duration}) after '
+    + '{details.events} × {details.event}. Lift with `openclaw security bans lift`.',
+};
+const FALLBACK_TEMPLATE = '{event} {details}';
+
+/**
+ * Fill `{path}` placeholders from the entry. Arrays are joined, objects
+ * shown as JSON, and missing values as `?`.
+ */
+export function renderAlertTemplate(template: string, entry: AuditEntry): string {
+  return template.replace(/\{([\w.]+)\}/g, (_, path: string) => {
+    let value: unknown = entry;
+    for (const key of path.split('.')) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined || value === null) return path === 'details' ? '' : '?';
+    if (Array.isArray(value)) return value.join(', ');
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }).trim();
+}
+
+export class AlertManager {
+  private config: AlertConfig;
+  private transports: AlertTransport[];
+  private clock: () => number;
+  private triggers: Array<(entry: AuditEntry) => boolean>;
+  private lastSent = new Map<string, { at: number; suppressed: number }>();
+  private sentAt: number[] = [];
+  private rateLimited = 0;
+  private pending = new Set<Promise<void>>();
+
+  constructor(config: AlertConfig, transports: AlertTransport[], clock: () => number = Date.now) {
+    this.config = config;
+    this.transports = transports;
+    this.clock = clock;
+    const minSeverity = SEVERITY_ORDER.indexOf(config.minSeverity);
+    this.triggers = [
+      entry => SEVERITY_ORDER.indexOf(entry.severity) >= minSeverity,
+      ...config.events.map(event => auditEntryFilter({ event })),
+    ];
+  }
+
+  /**
+   * Start alerting on audit events. Returns a function that stops it.
+   */
+  attach(): () => void {
+    return onAuditEvent(entry => this.handle(entry));
+  }
+
+  handle(entry: AuditEntry): void {
+    // Our own events (delivery failures, rate limiting) never page
+    if (entry.event.startsWith('alert_') || !this.triggers.some(t => t(entry))) return;
+
+    const now = this.clock();
+    const windowMs = this.config.dedupWindowMinutes * 60_000;
+    const key = [entry.event, entry.contactHash ?? entry.contactId ?? '', String(entry.details?.['ip'] ?? '')].join('|');
+    const previous = this.lastSent.get(key);
+    if (previous && now - previous.at < windowMs) {
+      previous.suppressed++;
+      return;
+    }
+
+    this.sentAt = this.sentAt.filter(at => now - at < HOUR_MS);
+    if (this.sentAt.length >= this.config.maxPerHour) {
+      if (this.rateLimited++ === 0) {
+        auditWarn('alert_rate_limited', { details: { event: entry.event, maxPerHour: this.config.maxPerHour } });
+      }
+      return;
+    }
+
+    this.forgetExpired(now, windowMs);
+    this.lastSent.set(key, { at: now, suppressed: 0 });
+    this.sentAt.push(now);
+    const text = this.format(entry, previous?.suppressed ?? 0);
+    this.rateLimited = 0;
+
+    const delivery = this.deliver(entry, text).finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  /**
+   * Resolves once alerts being sent have been delivered or have failed.
+   */
+  async settled(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  private format(entry: AuditEntry, suppressed: number): string {
+    const template = this.config.templates[entry.event] ?? DEFAULT_ALERT_TEMPLATES[entry.event] ?? FALLBACK_TEMPLATE;
+    const lines = [
+      `[OpenClaw ${entry.severity}] ${entry.event}`,
+      renderAlertTemplate(template, entry),
+      `${entry.timestamp.slice(0, 19).replace('T', ' ')} UTC`,
+    ];
+    if (suppressed > 0) lines.push(`${suppressed} more like this since the last alert.`);
+    if (this.rateLimited > 0) lines.push(`${this.rateLimited} other alert(s) were held back by the hourly limit.`);
+    return lines.filter(Boolean).join('\n');
+  }
+
+  private async deliver(entry: AuditEntry, text: string): Promise<void> {
+    await Promise.all(this.transports.map(async transport => {
+      try {
+        await transport.send(text);
+      } catch (err) {
+        auditError('alert_delivery_failed', {
+          details: { transport: transport.name, event: entry.event, error: String(err) },
+        });
+      }
+    }));
+  }
+
+  private forgetExpired(now: number, windowMs: number): void {
+    if (this.lastSent.size < MAX_DEDUP_KEYS) return;
+    for (const [key, sent] of this.lastSent) {
+      if (now - sent.at >= windowMs) this.lastSent.delete(key);
+    }
+  }
+}
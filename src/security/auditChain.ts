@@ -0,0 +1,267 @@
+/**
+ * A-02: Audit Chain
+ * Tamper evidence for the audit log. With an audit key, every entry carries
+ * a sequence number, the previous entry's hash, and an HMAC over both and
+ * its content, so deleting, reordering or editing a line breaks the chain.
+ * Signed checkpoints in <log>.checkpoints record the head of the chain
+ * every few entries, at rotation and when a process exits. Cutting entries
+ * off the end is caught back to the last checkpoint; entries after it (up
+ * to checkpointEvery - 1, after a crash) can still be cut unnoticed. The
+ * checkpoint file is a plain file whose own tail can be cut, so only a
+ * copy kept off the host (an audit sink) really anchors the head.
+ *
+ * Writers hold the log's file lock (fileLock.ts) from seal() to append,
+ * so the gateway and CLI commands can't fork the chain.
+ */
+import { createHmac } from 'node:crypto';
+import { appendFileSync, existsSync, readFileSync, statSync } from 'node:fs';
+import { basename } from 'node:path';
+import { forEachAuditLine, readAuditTail } from './auditLogFiles.js';
+import type { AuditEntry } from '../types/index.js';
+
+export const CHECKPOINT_SUFFIX = '.checkpoints';
+export const GENESIS_HASH = '0'.repeat(64);
+// seq, prevHash and hash add about this much to each line
+export const CHAIN_OVERHEAD_BYTES = 170;
+const RESUME_LINES = 20;
+
+export interface AuditCheckpoint {
+  timestamp: string;
+  seq: number;
+  hash: string;
+  signature: string;
+}
+
+export type AuditChainIssueKind =
+  | 'malformed'
+  | 'unsealed'
+  | 'modified'
+  | 'broken-link'
+  | 'gap'
+  | 'reordered'
+  | 'truncated'
+  | 'bad-checkpoint';
+
+export interface AuditChainIssue {
+  kind: AuditChainIssueKind;
+  /** File name of the segment, or of the checkpoint file. */
+  segment: string;
+  line?: number;
+  seq?: number;
+  message: string;
+}
+
+export interface AuditChainReport {
+  segments: number;
+  entries: number;
+  /** Entries written before the chain started (no audit key at the time). */
+  unchained: number;
+  firstSeq?: number;
+  lastSeq?: number;
+  checkpoints: number;
+  issues: AuditChainIssue[];
+}
+
+/**
+ * HMAC of an entry's JSON without its `hash` field. `prevHash` is part of
+ * that JSON, which is what links the chain.
+ */
+export function entryHash(key: string, body: string): string {
+  return createHmac('sha256', key).update(body).digest('hex');
+}
+
+function checkpointSignature(key: string, checkpoint: Omit<AuditCheckpoint, 'signature'>): string {
+  return createHmac('sha256', key)
+    .update(`checkpoint\n${checkpoint.timestamp}\n${checkpoint.seq}\n${checkpoint.hash}`)
+    .digest('hex');
+}
+
+/**
+ * The writer's end of the chain. Picks up from the last sealed entry on
+ * disk, and again whenever the log changed underneath it (another process
+ * wrote to it, or it was rotated).
+ */
+export class AuditChain {
+  private logPath: string;
+  private key: string;
+  private checkpointEvery: number;
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+  private expectedSize = -1;
+  private checkpointedSeq = 0;
+
+  constructor(logPath: string, key: string, checkpointEvery: number) {
+    this.logPath = logPath;
+    this.key = key;
+    this.checkpointEvery = checkpointEvery;
+  }
+
+  /**
+   * Assign the next sequence number and link to the previous entry.
+   * Returns the sealed entry, to be appended as serialized. Call holding
+   * the log's lock until the entry is appended.
+   */
+  seal(entry: AuditEntry): AuditEntry {
+    if (this.activeSize() !== this.expectedSize) this.resume();
+    const body: AuditEntry = { ...entry, seq: this.seq + 1, prevHash: this.lastHash };
+    const hash = entryHash(this.key, JSON.stringify(body));
+    this.seq = body.seq!;
+    this.lastHash = hash;
+    return { ...body, hash };
+  }
+
+  /**
+   * Call once the sealed line is on disk. Writes a checkpoint when due.
+   */
+  appended(): void {
+    this.expectedSize = this.activeSize();
+    if (this.seq % this.checkpointEvery === 0) this.checkpoint();
+  }
+
+  /**
+   * Record the current head of the chain, signed, in the checkpoint file,
+   * unless it was already recorded. Call holding the log's lock.
+   */
+  checkpoint(now = new Date()): void {
+    if (this.activeSize() !== this.expectedSize) this.resume();
+    if (this.seq === 0 || this.seq === this.checkpointedSeq) return;
+    this.checkpointedSeq = this.seq;
+    const unsigned = { timestamp: now.toISOString(), seq: this.seq, hash: this.lastHash };
+    const checkpoint: AuditCheckpoint = { ...unsigned, signature: checkpointSignature(this.key, unsigned) };
+    appendFileSync(this.logPath + CHECKPOINT_SUFFIX, JSON.stringify(checkpoint) + '\n', { mode: 0o600 });
+  }
+
+  private resume(): void {
+    this.seq = 0;
+    this.lastHash = GENESIS_HASH;
+    for (const line of readAuditTail(this.logPath, RESUME_LINES).reverse()) {
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (entry.seq !== undefined && entry.hash) {
+          this.seq = entry.seq;
+          this.lastHash = entry.hash;
+          break;
+        }
+      } catch { /* torn line */ }
+    }
+    this.expectedSize = this.activeSize();
+  }
+
+  private activeSize(): number {
+    return existsSync(this.logPath) ? statSync(this.logPath).size : 0;
+  }
+}
+
+/**
+ * Walk the chain across every segment and check it against the signed
+ * checkpoints. Entries before the first sealed one are counted, not
+ * flagged, and the chain may start past seq 1 once old segments have
+ * been pruned.
+ */
+export function verifyAuditLog(logPath: string, key: string): AuditChainReport {
+  const report: AuditChainReport = { segments: 0, entries: 0, unchained: 0, checkpoints: 0, issues: [] };
+  const checkpoints = readCheckpoints(logPath, key, report);
+  const wanted = new Set(checkpoints.map(c => c.seq));
+  const hashes = new Map<number, string>();
+
+  let segmentPath = '';
+  let lineNo = 0;
+  let prev: { seq: number; hash: string } | undefined;
+
+  forEachAuditLine(logPath, (line, segment) => {
+    if (segment.path !== segmentPath) {
+      segmentPath = segment.path;
+      lineNo = 0;
+      report.segments++;
+    }
+    lineNo++;
+    report.entries++;
+    const at = { segment: basename(segment.path), line: lineNo };
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      report.issues.push({ kind: 'malformed', ...at, message: 'Line is not valid JSON' });
+      return;
+    }
+
+    if (entry.seq === undefined || !entry.hash) {
+      if (prev) {
+        report.issues.push({ kind: 'unsealed', ...at, message: `Entry "${entry.event}" has no chain fields (written without the audit key?)` });
+      } else {
+        report.unchained++;
+      }
+      return;
+    }
+
+    const { hash, ...body } = entry;
+    const seq = entry.seq;
+    if (entryHash(key, JSON.stringify(body)) !== hash) {
+      report.issues.push({ kind: 'modified', ...at, seq, message: `Entry ${seq} does not match its hash` });
+    }
+
+    if (!prev) {
+      report.firstSeq = seq;
+    } else if (seq === prev.seq + 1) {
+      if (entry.prevHash !== prev.hash) {
+        report.issues.push({ kind: 'broken-link', ...at, seq, message: `Entry ${seq} does not follow entry ${prev.seq}` });
+      }
+    } else if (seq <= prev.seq) {
+      report.issues.push({ kind: 'reordered', ...at, seq, message: `Entry ${seq} appears after entry ${prev.seq}` });
+    } else {
+      const missing = seq - prev.seq - 1;
+      report.issues.push({ kind: 'gap', ...at, seq, message: `${missing} entr${missing === 1 ? 'y' : 'ies'} missing before entry ${seq}` });
+    }
+
+    if (wanted.has(seq)) hashes.set(seq, hash);
+    report.lastSeq = Math.max(seq, report.lastSeq ?? seq);
+    prev = { seq, hash };
+  });
+
+  const checkpointFile = basename(logPath + CHECKPOINT_SUFFIX);
+  for (const checkpoint of checkpoints) {
+    if (report.lastSeq === undefined || checkpoint.seq > report.lastSeq) {
+      report.issues.push({
+        kind: 'truncated',
+        segment: checkpointFile,
+        seq: checkpoint.seq,
+        message: `Checkpoint at ${checkpoint.timestamp} saw entry ${checkpoint.seq}, but the log ends at ${report.lastSeq ?? 'no entry'}`,
+      });
+    } else if (report.firstSeq !== undefined && checkpoint.seq >= report.firstSeq && hashes.get(checkpoint.seq) !== checkpoint.hash) {
+      report.issues.push({
+        kind: 'modified',
+        segment: checkpointFile,
+        seq: checkpoint.seq,
+        message: `Entry ${checkpoint.seq} differs from the checkpoint taken at ${checkpoint.timestamp}`,
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Checkpoints with a valid signature. Bad ones are reported and skipped.
+ */
+function readCheckpoints(logPath: string, key: string, report: AuditChainReport): AuditCheckpoint[] {
+  const path = logPath + CHECKPOINT_SUFFIX;
+  if (!existsSync(path)) return [];
+  const valid: AuditCheckpoint[] = [];
+  readFileSync(path, 'utf-8').split('\n').forEach((line, i) => {
+    if (!line) return;
+    const at = { segment: basename(path), line: i + 1 };
+    try {
+      const { signature, ...unsigned } = JSON.parse(line) as AuditCheckpoint;
+      if (checkpointSignature(key, unsigned) !== signature) {
+        report.issues.push({ kind: 'bad-checkpoint', ...at, message: 'Checkpoint signature does not match' });
+        return;
+      }
+      valid.push({ ...unsigned, signature });
+      report.checkpoints++;
+    } catch {
+      report.issues.push({ kind: 'bad-checkpoint', ...at, message: 'Checkpoint is not valid JSON' });
+    }
+  });
+  return valid;
+}
@@ -0,0 +1,490 @@
+/**
+ * A-02: Audit Event Catalog
+ * Every audit event the codebase emits, with its severity and a strict
+ * zod schema for its `details`. Each field's schema carries a scrub rule
+ * in its metadata, and the logger scrubs details recursively by walking
+ * the schema. Events that aren't catalogued are still scrubbed, with the
+ * default rule applied to every string, and so are the fields a
+ * catalogued event's details don't declare. The catalog also renders the event reference
+ * (`openclaw security audit events`).
+ */
+import { homedir } from 'node:os';
+import { z } from 'zod';
+import { redactPII } from './piiDetector.js';
+import { hashPhone, isValidE164, maskGeneric, maskPhone } from './piiUtils.js';
+import type { AuditSeverity } from '../types/index.js';
+
+/**
+ * What happens to a field's value before it is logged:
+ * - `redact`: replace detected PII with [REDACTED:type] (the default)
+ * - `path`: as redact, and the home directory becomes `~`
+ * - `hash`: HMAC with the PII secret (or [REDACTED] without one)
+ * - `mask`: keep the first and last characters only
+ * - `drop`: leave the field out
+ * - `keep`: log as is (fingerprints, IPs)
+ */
+export type AuditScrubRule = 'keep' | 'redact' | 'path' | 'hash' | 'mask' | 'drop';
+
+export interface AuditEventSpec {
+  group: string;
+  severity: AuditSeverity[];
+  description: string;
+  details?: z.ZodObject;
+}
+
+const scrubbed = (rule: AuditScrubRule) => z.string().meta({ scrub: rule });
+const text = () => z.string();
+const count = () => z.number();
+const error = () => z.string().describe('Error message');
+const path = () => scrubbed('path');
+const ip = () => scrubbed('keep').describe('Client IP address');
+
+function group(
+  name: string,
+  events: Record<string, [AuditSeverity | AuditSeverity[], string, z.ZodRawShape?]>,
+): Record<string, AuditEventSpec> {
+  const specs: Record<string, AuditEventSpec> = {};
+  for (const [event, [severity, description, shape]] of Object.entries(events)) {
+    specs[event] = {
+      group: name,
+      severity: Array.isArray(severity) ? severity : [severity],
+      description,
+      details: shape ? z.strictObject(shape) : undefined,
+    };
+  }
+  return specs;
+}
+
+const pipelineOutcome = {
+  action: text(),
+  stage: text().optional(),
+  reason: text().optional(),
+  stages: z.array(text()).describe('Stages the message passed through'),
+};
+const injection = {
+  patterns: z.array(text()),
+  severity: text(),
+  preview: text().describe('Start of the message, PII redacted'),
+};
+const budget = { budget: text(), period: text(), usedPercent: count() };
+const rotation = {
+  keyId: text(), resumed: z.boolean(), rotated: count(), current: count(), failed: count(), records: count(),
+  unreadableLines: count().describe('Transcript lines copied through undecrypted'),
+};
+const chainSummary = {
+  segments: count(),
+  entries: count(),
+  firstSeq: count().optional(),
+  lastSeq: count().optional(),
+  checkpoints: count(),
+  issues: count(),
+};
+
+export const AUDIT_EVENTS: Record<string, AuditEventSpec> = {
+  ...group('Lifecycle', {
+    openclaw_started: ['INFO', 'OpenClaw started.', {
+      channels: z.strictObject({ webchat: z.boolean(), signal: z.boolean(), discord: z.boolean(), api: z.boolean() }),
+      skills: count(),
+      builtinTools: count(),
+    }],
+    openclaw_stopped: ['INFO', 'OpenClaw shut down.'],
+  }),
+
+  ...group('Gateway', {
+    gateway_started: ['INFO', 'Gateway listening.', { host: text(), port: count() }],
+    gateway_stopped: ['INFO', 'Gateway stopped.'],
+    gateway_no_token_configured: ['WARN', 'A client connected to a gateway with no token set.'],
+    gateway_auth_missing_token: ['CRITICAL', 'A request carried no gateway token.', { ip: ip() }],
+    gateway_auth_failed: ['CRITICAL', 'A request carried a wrong gateway token.', { ip: ip() }],
+    rate_limit_exceeded: ['WARN', 'An IP exceeded the gateway rate limit.', { ip: ip() }],
+    ws_connected: ['INFO', 'WebSocket client connected.', { connId: text(), ip: ip() }],
+    ws_connection_rejected: ['WARN', 'WebSocket connection refused.', { ip: ip(), reason: text().optional() }],
+    ws_disconnected: ['INFO', 'WebSocket client disconnected.', { connId: text() }],
+    ws_error: ['ERROR', 'WebSocket error.', { connId: text(), error: error() }],
+    ws_message_error: ['ERROR', 'Handling a WebSocket message failed.', { connId: text(), error: error() }],
+    webchat_ui_mounted: ['INFO', 'WebChat UI served from the gateway.'],
+  }),
+
+  ...group('REST API', {
+    api_mounted: ['INFO', 'REST API served from the gateway.', { basePath: text(), operations: count() }],
+    api_request_rejected: ['WARN', 'An API request was refused.', { ip: ip(), reason: text().optional() }],
+    api_request_failed: ['ERROR', 'Handling an API request failed.', { operation: text(), error: error() }],
+    api_job_failed: ['ERROR', 'An async API message job failed.', { jobId: text(), error: error() }],
+    api_session_deleted: ['INFO', 'A session was deleted through the API.'],
+  }),
+
+  ...group('Agents and sessions', {
+    agent_manager_initialized: ['INFO', 'Agents configured.', { agents: z.array(text()) }],
+    agent_route_missing: ['ERROR', 'A route named an agent that does not exist.', { agentId: text() }],
+    agent_banned_contact: ['WARN', 'A message from a banned contact was dropped.'],
+    agent_queue_overflow: ['WARN', 'A contact\'s message queue was full.', {
+      agentId: text(), policy: text(), queueDepth: count(),
+    }],
+    agent_response: ['INFO', 'The agent answered a message.', {
+      agentId: text(),
+      inputTokens: count(),
+      outputTokens: count(),
+      toolRounds: count(),
+      queueDepth: count(),
+      queueWaitMs: count(),
+    }],
+    agent_error: ['ERROR', 'Answering a message failed.', { error: error(), queueDepth: count(), queueWaitMs: count() }],
+    agent_workspace_deleted: ['INFO', 'An agent\'s workspace was deleted.', { agentId: text() }],
+    conversation_compacted: ['INFO', 'Older messages were summarised into session memory.', {
+      agentId: text(), compacted: count(), remaining: count(), totalCompacted: count().optional(),
+    }],
+    conversation_compaction_failed: ['WARN', 'Summarising older messages failed.', { agentId: text(), error: error() }],
+    tool_execution: ['INFO', 'The agent called a tool.', { tool: text() }],
+    tool_execution_failed: ['ERROR', 'A tool call failed.', { tool: text(), error: error() }],
+    session_created: ['INFO', 'New conversation session.'],
+    session_restored: ['INFO', 'Session reloaded from disk.'],
+    session_expired: ['INFO', 'Session expired and was replaced.'],
+    session_persist_failed: ['ERROR', 'Saving a session failed.', { error: error() }],
+    session_deleted: ['INFO', 'Session deleted.'],
+    session_migrated: ['INFO', 'Session upgraded to the current format.', { from: count(), to: count() }],
+    session_migration_failed: ['WARN', 'Upgrading a session failed.', { error: error() }],
+    session_index_rebuilt: ['INFO', 'Session index rebuilt from disk.', { sessions: count() }],
+    session_index_unreadable: ['WARN', 'Session index could not be read.', { error: error() }],
+    sessions_restored: ['INFO', 'Sessions reloaded at startup.', { count: count() }],
+    sessions_pruned: ['INFO', 'Expired sessions deleted.', { count: count(), ttlDays: count().optional() }],
+    sessions_pruned_on_startup: ['INFO', 'Expired sessions deleted at startup.', { count: count() }],
+    session_created_managed: ['INFO', 'Gateway session created.'],
+    session_rotated: ['INFO', 'Gateway session ID rotated.', { from: text() }],
+    session_destroyed: ['INFO', 'Gateway session destroyed.'],
+    session_expired_validation: ['WARN', 'An expired gateway session was presented.'],
+    session_channel_mismatch: ['WARN', 'A gateway session was used from another channel.', { expected: text(), got: text() }],
+    session_contact_mismatch: ['WARN', 'A gateway session was used by another contact.'],
+    transcript_write_failed: ['ERROR', 'Appending to a transcript failed.', { error: error() }],
+    usage_record_failed: ['ERROR', 'Recording token usage failed.', { error: error() }],
+  }),
+
+  ...group('LLM', {
+    llm_request: ['INFO', 'LLM request completed.', {
+      provider: text(), model: text(), inputTokens: count(), outputTokens: count(),
+    }],
+    llm_request_failed: ['ERROR', 'LLM request failed (retried if attempts remain).', {
+      provider: text(), attempt: count(), error: error(),
+    }],
+    llm_stream_interrupted: ['ERROR', 'LLM stream broke off mid-response.', { attempt: count(), error: error() }],
+  }),
+
+  ...group('Message pipeline', {
+    pipeline_message_allowed: ['INFO', 'A message passed every pipeline stage.', pipelineOutcome],
+    pipeline_message_blocked: ['WARN', 'A pipeline stage refused a message.', pipelineOutcome],
+    pipeline_contact_suspended: ['CRITICAL', 'A pipeline stage suspended the contact.', pipelineOutcome],
+    pipeline_suspension_lifted: ['INFO', 'A contact\'s suspension ended.'],
+    pipeline_suspension_persist_failed: ['ERROR', 'Saving a suspension failed; it holds until restart.', { error: error() }],
+    pipeline_consent_unavailable: ['ERROR', 'Consent is required but can\'t be checked; every message is blocked.', { reason: text() }],
+    prompt_injection_detected: ['CRITICAL', 'A message matched blocking prompt-injection patterns.', injection],
+    prompt_injection_warning: ['WARN', 'A message matched prompt-injection patterns.', injection],
+    blocked_mime_type: ['WARN', 'An attachment type is not allowed.', { contentType: text() }],
+    blocked_extension: ['WARN', 'An attachment extension is not allowed.', { filename: text(), ext: text() }],
+    usage_budget_warning: ['WARN', 'A contact passed the budget warning threshold.', budget],
+    usage_budget_exceeded: ['WARN', 'A contact is over budget; the message was refused.', budget],
+    usage_ledger_unreadable: ['WARN', 'The usage ledger could not be read.', { error: error() }],
+  }),
+
+  ...group('Signal', {
+    signal_channel_started: ['INFO', 'Signal channel connected.', { phoneNumber: scrubbed('mask') }],
+    signal_channel_stopped: ['INFO', 'Signal channel stopped.'],
+    signal_sse_error: ['ERROR', 'The signal-cli event stream failed.', { error: error() }],
+    signal_invalid_event: ['WARN', 'signal-cli sent an event that failed validation.', {
+      raw: scrubbed('drop').describe('Raw event (never logged)'),
+    }],
+    signal_response_failed: ['ERROR', 'Replying over Signal failed.', { error: error() }],
+    signal_suspended_contact: ['WARN', 'A message from a suspended contact was dropped.'],
+    signal_banned_contact: ['WARN', 'A message from a banned contact was dropped.'],
+    signal_number_blocked: ['WARN', 'A number not on the allowlist was dropped.'],
+    signal_group_blocked: ['WARN', 'A group not on the allowlist was dropped.', { groupId: scrubbed('hash') }],
+    signal_rate_limited: ['WARN', 'A contact hit the Signal rate limit.'],
+    signal_attachment_sent: ['INFO', 'Attachment sent over Signal.', { filename: text(), contentType: text() }],
+    signal_attachment_too_large: ['WARN', 'An incoming attachment was too large.', { size: count() }],
+    signal_blocked_attachment: ['WARN', 'An incoming attachment type is not allowed.', { contentType: text() }],
+    signal_daemon_healthy: ['INFO', 'signal-cli answered its health check.', { version: z.unknown() }],
+    signal_daemon_unhealthy: ['WARN', 'signal-cli failed its health check.', { error: error() }],
+    signal_daemon_invalid_url: ['CRITICAL', 'The signal-cli API URL is not a URL.', { apiUrl: text() }],
+    signal_daemon_not_loopback: ['CRITICAL', 'The signal-cli API is not on loopback.', { hostname: text(), apiUrl: text() }],
+    signal_running_as_root: ['CRITICAL', 'signal-cli is running as root.'],
+    safety_number_new: ['INFO', 'First safety number recorded for a contact.'],
+    safety_number_changed: ['CRITICAL', 'A contact\'s safety number changed.', {
+      oldFingerprint: scrubbed('keep'), newFingerprint: scrubbed('keep'),
+    }],
+    safety_number_cleared: ['INFO', 'A contact\'s safety number was reset.'],
+    file_delivered_via_signal: ['INFO', 'A file was sent to the contact.', {
+      path: path(), filename: text(), size: count(), contentType: text(),
+    }],
+    file_delivery_failed: ['ERROR', 'Sending a file failed.', { path: path(), error: error() }],
+    file_delivery_no_signal: ['INFO', 'File delivery asked for outside a Signal conversation.', { path: path() }],
+  }),
+
+  ...group('Discord', {
+    discord_ready: ['INFO', 'Discord bot logged in.', { username: text() }],
+    discord_error: ['ERROR', 'Discord client error.', { error: error() }],
+    discord_response_failed: ['ERROR', 'Replying on Discord failed.', { error: error() }],
+    discord_banned_contact: ['WARN', 'A message from a banned contact was dropped.'],
+    discord_channel_stopped: ['INFO', 'Discord bot stopped.'],
+  }),
+
+  ...group('File tools', {
+    file_tool_read: ['INFO', 'The agent read a file.', { path: path(), bytes: count() }],
+    file_tool_write: ['INFO', 'The agent wrote a file.', { path: path(), bytes: count() }],
+    file_tool_list: ['INFO', 'The agent listed a directory.', { path: path(), count: count() }],
+    file_tool_mkdir: ['INFO', 'The agent created a directory.', { path: path() }],
+    file_tool_pdf: ['INFO', 'The agent generated a PDF.', { path: path(), title: text() }],
+    file_tool_pdf_failed: ['ERROR', 'Generating a PDF failed.', { error: error() }],
+  }),
+
+  ...group('Skills', {
+    skill_loaded: ['INFO', 'Skill loaded.', { name: text(), version: text() }],
+    skill_no_manifest: ['WARN', 'A skill directory has no manifest.', { dir: path() }],
+    skill_load_failed: ['ERROR', 'Loading a skill failed.', { dir: path(), error: error() }],
+    skill_integrity_verified: ['INFO', 'Skill hash matches its manifest.', { skill: text() }],
+    skill_integrity_failed: ['CRITICAL', 'Skill hash does not match its manifest.', {
+      skill: text(), expected: scrubbed('keep'), actual: scrubbed('keep'),
+    }],
+    skill_integrity_missing_entry: ['CRITICAL', 'A skill\'s entry point is missing.', { skill: text(), path: path() }],
+    skill_integrity_check_failed: ['ERROR', 'A skill failed its integrity check and was not loaded.', {
+      skill: text(), reason: text().optional(),
+    }],
+    skill_integrity_failed_at_runtime: ['CRITICAL', 'A skill failed its integrity check before a tool call.', {
+      skill: text(), tool: text(), reason: text().optional(),
+    }],
+    skill_tool_conflict: ['ERROR', 'Two skills define the same tool.', { tool: text(), skill: text() }],
+    skill_tool_executing: ['INFO', 'A skill tool is running.', { skill: text(), tool: text() }],
+    skill_tool_execution_failed: ['ERROR', 'A skill tool failed.', { skill: text(), tool: text(), error: error() }],
+  }),
+
+  ...group('Network', {
+    ssrf_blocked_scheme: ['CRITICAL', 'Outbound request with a disallowed scheme.', { url: text(), scheme: text() }],
+    ssrf_blocked_private_ip: ['CRITICAL', 'Outbound request to a private address.', { url: text(), ip: ip() }],
+    ssrf_blocked_hostname: ['CRITICAL', 'Outbound request to a blocked hostname.', { url: text(), hostname: text() }],
+  }),
+
+  ...group('Threat response', {
+    threat_ban_added: [['WARN', 'CRITICAL'], 'A threat rule banned an IP or contact (CRITICAL when the rule alerts).', {
+      rule: text(),
+      kind: text(),
+      target: scrubbed('keep').describe('IP address or contact HMAC'),
+      event: text().describe('Event that reached the threshold'),
+      events: count(),
+      windowMinutes: count(),
+      duration: text(),
+      expiresAt: text().optional(),
+    }],
+    threat_ban_lifted: ['INFO', 'An operator lifted a ban.', {
+      kind: text(), target: scrubbed('keep').describe('IP address or contact HMAC'), rule: text(),
+    }],
+    threat_ban_failed: ['ERROR', 'Saving a ban failed.', { rule: text(), kind: text(), error: error() }],
+  }),
+
+  ...group('Storage and keys', {
+    storage_check: [['INFO', 'WARN'], 'Storage integrity check (WARN when problems were found).', {
+      backend: text(), checked: count(), problems: count(), repaired: count(),
+    }],
+    storage_corrupt: ['ERROR', 'A stored record could not be read.', { collection: text(), file: path(), error: error() }],
+    storage_journal_replayed: ['WARN', 'Interrupted writes were completed from the journal.', { files: count() }],
+    storage_journal_unreadable: ['ERROR', 'The write journal could not be read.', { error: error() }],
+    storage_migrated: ['INFO', 'Data copied to another storage backend.', {
+      from: text(), to: text(), counts: z.record(z.string(), count()),
+    }],
+    key_rotation_requested: ['CRITICAL', 'Encryption key rotation started.'],
+    key_rotation_completed: ['INFO', 'All data re-encrypted under the new key.', rotation],
+    key_rotation_incomplete: ['ERROR', 'Some files could not be re-encrypted.', {
+      ...rotation, failures: z.array(path()).describe('First 20 failed paths'),
+    }],
+  }),
+
+  ...group('Privacy and retention', {
+    consent_recorded: ['INFO', 'A contact gave consent.', { purposes: z.array(text()) }],
+    consent_withdrawn: ['INFO', 'A contact withdrew consent.'],
+    conversation_pruned: ['INFO', 'History trimmed before sending to the LLM.', { original: count(), remaining: count() }],
+    transcript_accessed: ['WARN', 'An operator read a contact\'s transcript.', {
+      reason: text(), turns: count(), unreadable: count(),
+    }],
+    transcript_lines_unreadable: ['WARN', 'Transcript lines could not be decrypted.', { count: count() }],
+    transcripts_pruned: ['INFO', 'Transcript turns past retention deleted.', {
+      filesDeleted: count(), turnsDropped: count(), retentionDays: count(),
+    }],
+    subject_export_created: ['WARN', 'A contact\'s data was exported.', {
+      sessions: count(), transcriptTurns: count(), auditEntries: count(), workspaceFiles: count(), bytes: count(),
+    }],
+    erasure_previewed: ['INFO', 'Erasure dry run for a contact.', { items: count(), skipped: count() }],
+    erasure_started: ['CRITICAL', 'Erasing a contact\'s data.', { items: count() }],
+    erasure_completed: ['INFO', 'A contact\'s data was erased.', {
+      filesDeleted: count(), locations: z.array(text()), skipped: count(), receiptId: text().optional(),
+    }],
+    retention_enforced: ['INFO', 'Retention run finished.', {
+      totalPurged: count(), breakdown: z.record(z.string(), count()), failed: z.array(text()), durationMs: count(),
+    }],
+    retention_task_failed: ['ERROR', 'A retention task failed.', { task: text(), error: error() }],
+    retention_run_failed: ['ERROR', 'A retention run failed.', { error: error() }],
+    retention_run_skipped: ['WARN', 'A retention run was skipped.', { reason: text() }],
+    retention_state_unwritable: ['WARN', 'Retention state could not be saved.', { error: error() }],
+  }),
+
+  ...group('Audit', {
+    audit_log_rotated: ['INFO', 'First entry of a new segment.', { previous: path() }],
+    audit_chain_verified: ['INFO', 'Audit hash chain verified.', chainSummary],
+    audit_chain_broken: ['CRITICAL', 'Audit hash chain verification found problems.', {
+      ...chainSummary, kinds: text().describe('Comma-separated issue kinds'),
+    }],
+    alert_delivery_failed: ['ERROR', 'Sending an operator alert failed.', { transport: text(), event: text(), error: error() }],
+    alert_rate_limited: ['WARN', 'Operator alerts hit the hourly cap.', { event: text(), maxPerHour: count() }],
+  }),
+};
+
+export function isKnownAuditEvent(event: string): boolean {
+  return Object.hasOwn(AUDIT_EVENTS, event);
+}
+
+const warnedMismatch = new Set<string>();
+
+/**
+ * Scrub an entry's details by its event's schema. Uncatalogued events get
+ * the default rule on every string. When details don't match the schema
+ * (reported once per event), catalogued fields still get their own rule
+ * and the rest get the default; a field to drop is dropped whatever it
+ * holds, and any other field whose value doesn't fit gets the default.
+ */
+export function scrubAuditDetails(
+  event: string,
+  details: Record<string, unknown>,
+  secret: string | undefined,
+): Record<string, unknown> {
+  const schema = AUDIT_EVENTS[event]?.details;
+  if (schema && !schema.safeParse(details).success) {
+    if (!warnedMismatch.has(event)) {
+      warnedMismatch.add(event);
+      process.stderr.write(`[AUDIT] Details of ${event} don't match the catalog; scrubbing unknown fields with the default rule\n`);
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(details)) {
+      const field = schema.shape[key] as z.ZodType | undefined;
+      const fits = field && (scrubRule(unwrap(field)) === 'drop' || field.safeParse(value).success);
+      const next = scrubValue(value, fits ? field : undefined, secret);
+      if (next !== undefined || value === undefined) result[key] = next;
+    }
+    return result;
+  }
+  return scrubValue(details, schema, secret) as Record<string, unknown>;
+}
+
+// ── Documentation ────────────────────────────────────────────
+
+interface FieldDoc {
+  name: string;
+  type: string;
+  required: boolean;
+  scrub: AuditScrubRule;
+  description?: string;
+}
+
+/**
+ * The event reference, as markdown or as JSON (details as JSON Schema).
+ */
+export function renderAuditEventDocs(format: 'markdown' | 'json'): string {
+  const events = Object.entries(AUDIT_EVENTS);
+  if (format === 'json') {
+    return JSON.stringify(events.map(([name, spec]) => ({
+      event: name,
+      group: spec.group,
+      severity: spec.severity,
+      description: spec.description,
+      details: spec.details ? z.toJSONSchema(spec.details) : undefined,
+    })), null, 2);
+  }
+
+  const lines = ['# Audit events', ''];
+  let current: string | undefined;
+  for (const [name, spec] of events) {
+    if (spec.group !== current) {
+      current = spec.group;
+      lines.push(`## ${current}`, '');
+    }
+    lines.push(`### \`${name}\``, '', `${spec.severity.join(' or ')}. ${spec.description}`, '');
+    const fields = spec.details ? fieldDocs(spec.details) : [];
+    if (fields.length > 0) {
+      lines.push('| Field | Type | Scrub | Notes |', '|---|---|---|---|');
+      for (const f of fields) {
+        lines.push(`| \`${f.name}\`${f.required ? '' : '?'} | ${f.type} | ${f.scrub} | ${f.description ?? ''} |`);
+      }
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+function fieldDocs(schema: z.ZodObject): FieldDoc[] {
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const inner = unwrap(field as z.ZodType);
+    return {
+      name,
+      type: typeName(inner),
+      required: !(field instanceof z.ZodOptional),
+      scrub: scrubRule(inner) ?? (inner instanceof z.ZodNumber || inner instanceof z.ZodBoolean ? 'keep' : 'redact'),
+      description: inner.description ?? (field as z.ZodType).description,
+    };
+  });
+}
+
+function typeName(schema: z.ZodType): string {
+  if (schema instanceof z.ZodArray) return `${typeName(unwrap(schema.element as z.ZodType))}[]`;
+  if (schema instanceof z.ZodRecord) return `Record<string, ${typeName(unwrap(schema.valueType as z.ZodType))}>`;
+  if (schema instanceof z.ZodObject) return `{ ${Object.keys(schema.shape).join(', ')} }`;
+  return schema.def.type;
+}
+
+// ── Scrubbing ────────────────────────────────────────────────
+
+function scrubValue(value: unknown, schema: z.ZodType | undefined, secret: string | undefined): unknown {
+  const inner = schema && unwrap(schema);
+  const rule = inner ? scrubRule(inner) ?? 'redact' : 'redact';
+  if (value === undefined || value === null || rule === 'keep') return value;
+  if (rule === 'drop') return undefined;
+
+  if (Array.isArray(value)) {
+    const element = inner instanceof z.ZodArray ? inner.element as z.ZodType : undefined;
+    return value.map(item => scrubValue(item, element, secret));
+  }
+  if (typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const field = inner instanceof z.ZodObject ? inner.shape[key] as z.ZodType | undefined
+        : inner instanceof z.ZodRecord ? inner.valueType as z.ZodType
+          : undefined;
+      const next = scrubValue(item, field, secret);
+      if (next !== undefined || item === undefined) result[key] = next;
+    }
+    return result;
+  }
+  if (typeof value !== 'string') return value;
+
+  switch (rule) {
+    case 'hash':
+      return secret ? hashPhone(value, secret) : '[REDACTED]';
+    case 'mask':
+      return isValidE164(value) ? maskPhone(value) : maskGeneric(value);
+    case 'path':
+      return scrubHome(redactPII(value));
+    default:
+      return redactPII(value);
+  }
+}
+
+function scrubRule(schema: z.ZodType): AuditScrubRule | undefined {
+  return schema.meta()?.['scrub'] as AuditScrubRule | undefined;
+}
+
+function unwrap(schema: z.ZodType): z.ZodType {
+  let inner = schema;
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+    inner = inner.unwrap() as z.ZodType;
+  }
+  return inner;
+}
+
+function scrubHome(value: string): string {
+  const home = homedir();
+  const local = home && home !== '/' && value.startsWith(home) ? '~' + value.slice(home.length) : value;
+  return local.replace(/(^|[\s/"'])(home|Users)\/[^/\s"']+/g, '$1$2/[user]');
+}
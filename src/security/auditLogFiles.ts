@@ -0,0 +1,369 @@
+/**
+ * A-02: Audit Log Files
+ * Size- and time-based rotation of the audit log, gzip compression of
+ * rotated segments, retention by count and age, and reading across
+ * segments without loading the whole history into memory.
+ *
+ * Rotated segments sit next to the log as <log>.<UTC stamp>[-n][.gz],
+ * e.g. audit.jsonl.20260315T000000Z.gz, stamped with the time they were
+ * rotated out, so they sort oldest to newest by name.
+ */
+import { randomBytes } from 'node:crypto';
+import {
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  fstatSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip, gunzipSync } from 'node:zlib';
+import type { AuditRotationConfig } from '../types/index.js';
+
+const SEGMENT_SUFFIX = /^\.(\d{8}T\d{6}Z)(?:-(\d+))?(\.gz)?$/;
+const TEMP_SUFFIX = /^\.\d{8}T\d{6}Z(?:-\d+)?\.gz(?:\.[\w-]+)?\.tmp$/;
+const CHUNK_BYTES = 64 * 1024;
+
+export interface AuditRotationOptions extends AuditRotationConfig {
+  /** Rotated segments older than this are deleted. */
+  ttlDays?: number;
+}
+
+export interface AuditSegment {
+  path: string;
+  compressed: boolean;
+  /** When the segment was rotated out; undefined for the active log. */
+  rotatedAt?: number;
+}
+
+/**
+ * Every segment of the log, oldest first, ending with the active file.
+ * A segment caught mid-compression is listed once, as whichever copy is
+ * complete.
+ */
+export function auditLogSegments(logPath: string): AuditSegment[] {
+  const dir = dirname(logPath);
+  const base = basename(logPath);
+  const rotated = new Map<string, AuditSegment & { order: [string, number] }>();
+
+  if (existsSync(dir)) {
+    for (const name of readdirSync(dir)) {
+      if (!name.startsWith(base)) continue;
+      const match = SEGMENT_SUFFIX.exec(name.slice(base.length));
+      if (!match) continue;
+      const [, stamp = '', n = '0', gz] = match;
+      const key = `${stamp}-${n}`;
+      // The .gz only appears once fully written, so it wins over the plain copy
+      if (rotated.has(key) && !gz) continue;
+      rotated.set(key, {
+        path: join(dir, name),
+        compressed: Boolean(gz),
+        rotatedAt: parseStamp(stamp),
+        order: [stamp, Number(n)],
+      });
+    }
+  }
+
+  const segments: AuditSegment[] = [...rotated.values()]
+    .sort((a, b) => a.order[0].localeCompare(b.order[0]) || a.order[1] - b.order[1])
+    .map(({ order: _order, ...segment }) => segment);
+  if (existsSync(logPath)) segments.push({ path: logPath, compressed: false });
+  return segments;
+}
+
+/**
+ * The last `count` lines of the log across segments, oldest first. The
+ * active file is read backwards in chunks; older segments are only opened
+ * when the active one holds fewer lines.
+ */
+export function readAuditTail(logPath: string, count: number): string[] {
+  const lines: string[] = [];
+  for (const segment of auditLogSegments(logPath).reverse()) {
+    const needed = count - lines.length;
+    if (needed <= 0) break;
+    const tail = segment.compressed
+      ? splitLines(gunzipSync(readFileSync(segment.path))).slice(-needed)
+      : tailLines(segment.path, needed);
+    lines.unshift(...tail);
+  }
+  return lines;
+}
+
+/**
+ * Call `fn` with every line of every segment, oldest first. Plain files are
+ * read in chunks; compressed segments (bounded by the rotation size) are
+ * decompressed one at a time. With `since`, segments rotated out before
+ * then are skipped without being opened.
+ */
+export function forEachAuditLine(
+  logPath: string,
+  fn: (line: string, segment: AuditSegment) => void,
+  since?: number,
+): void {
+  for (const segment of auditLogSegments(logPath)) {
+    if (since !== undefined && segment.rotatedAt !== undefined && segment.rotatedAt < since) continue;
+    if (segment.compressed) {
+      for (const line of splitLines(gunzipSync(readFileSync(segment.path)))) fn(line, segment);
+    } else {
+      readLinesForward(segment.path, line => fn(line, segment));
+    }
+  }
+}
+
+/**
+ * Rotates the active log before an append would push it over the size
+ * limit or into a new day/week. Several processes may write the same log
+ * (the gateway and CLI commands), so the file is re-checked on disk before
+ * rotating. Compression and pruning run in the background, and only in the
+ * process that called maintain(): a short CLI command leaves its rotated
+ * segment plain for the gateway to compress.
+ */
+export class AuditLogRotator {
+  private path: string;
+  private options: AuditRotationOptions;
+  private size = 0;
+  private period?: string;
+  private maintaining = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(path: string, options: AuditRotationOptions) {
+    this.path = path;
+    this.options = options;
+    this.refresh();
+  }
+
+  /**
+   * Compress and prune in this process from now on, starting with segments
+   * left plain by other processes or a crash.
+   */
+  maintain(): void {
+    if (this.maintaining) return;
+    this.maintaining = true;
+    removeStaleTemps(this.path);
+    this.queueMaintenance();
+  }
+
+  /**
+   * Rotate if appending `bytes` at `now` calls for it. Returns the file name
+   * of the rotated segment, or undefined.
+   */
+  rotateIfNeeded(bytes: number, now = new Date()): string | undefined {
+    if (!this.isDue(bytes, now)) {
+      if (this.size === 0) this.period = this.periodOf(now);
+      return undefined;
+    }
+    this.refresh();
+    if (!this.isDue(bytes, now)) return undefined;
+
+    const target = this.segmentPath(now);
+    renameSync(this.path, target);
+    this.size = 0;
+    this.period = this.periodOf(now);
+    if (this.maintaining) this.queueMaintenance();
+    return basename(target) + (this.options.compress ? '.gz' : '');
+  }
+
+  recordAppend(bytes: number): void {
+    this.size += bytes;
+  }
+
+  /**
+   * Delete rotated segments older than ttlDays, then the oldest beyond
+   * maxFiles. Returns the number of segments deleted.
+   */
+  prune(now = new Date()): number {
+    const rotated = auditLogSegments(this.path).filter(s => s.rotatedAt !== undefined);
+    const cutoff = this.options.ttlDays === undefined ? -Infinity : now.getTime() - this.options.ttlDays * 86400_000;
+    const excess = this.options.maxFiles === undefined ? 0 : rotated.length - this.options.maxFiles;
+    let deleted = 0;
+    rotated.forEach((segment, i) => {
+      if (i < excess || segment.rotatedAt! < cutoff) {
+        rmSync(segment.path, { force: true });
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  /**
+   * Resolves once queued compression and pruning have finished.
+   */
+  settled(): Promise<void> {
+    return this.pending;
+  }
+
+  private isDue(bytes: number, now: Date): boolean {
+    if (this.size === 0) return false;
+    if (this.size + bytes > this.options.maxSizeMB * 1024 * 1024) return true;
+    return this.options.interval !== 'never' && this.period !== this.periodOf(now);
+  }
+
+  private refresh(): void {
+    if (!existsSync(this.path)) {
+      this.size = 0;
+      this.period = undefined;
+      return;
+    }
+    this.size = statSync(this.path).size;
+    const first = firstLine(this.path);
+    let started = statSync(this.path).mtimeMs;
+    try {
+      const timestamp = Date.parse((JSON.parse(first ?? '') as { timestamp: string }).timestamp);
+      if (!Number.isNaN(timestamp)) started = timestamp;
+    } catch { /* torn or foreign first line: fall back to mtime */ }
+    this.period = this.periodOf(new Date(started));
+  }
+
+  private periodOf(date: Date): string {
+    if (this.options.interval !== 'weekly') return date.toISOString().slice(0, 10);
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+    return monday.toISOString().slice(0, 10);
+  }
+
+  private segmentPath(now: Date): string {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    let target = `${this.path}.${stamp}`;
+    for (let n = 1; existsSync(target) || existsSync(target + '.gz'); n++) {
+      target = `${this.path}.${stamp}-${n}`;
+    }
+    return target;
+  }
+
+  private queueMaintenance(): void {
+    if (this.options.compress) {
+      for (const path of plainSegments(this.path)) this.queue(() => compressSegment(path));
+    }
+    this.queue(async () => { this.prune(); });
+  }
+
+  private queue(step: () => Promise<void>): void {
+    this.pending = this.pending.then(step).catch(err => {
+      process.stderr.write(`[AUDIT] Segment maintenance failed: ${String(err)}\n`);
+    });
+  }
+}
+
+/**
+ * Gzip a rotated segment to `<segment>.gz`, then remove the plain copy.
+ * The temp name is unique to the call, so a second compressor can never
+ * write into the same file.
+ */
+async function compressSegment(path: string): Promise<void> {
+  if (!existsSync(path)) return;
+  // The .gz only appears once complete, so the plain copy is a leftover
+  if (existsSync(`${path}.gz`)) {
+    rmSync(path, { force: true });
+    return;
+  }
+  const tmp = `${path}.gz.${process.pid}-${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await pipeline(createReadStream(path), createGzip(), createWriteStream(tmp, { mode: 0o600 }));
+    renameSync(tmp, `${path}.gz`);
+  } finally {
+    rmSync(tmp, { force: true });
+  }
+  rmSync(path, { force: true });
+}
+
+/**
+ * Rotated segments not yet compressed, including a plain copy left next to
+ * its finished .gz (which auditLogSegments hides).
+ */
+function plainSegments(logPath: string): string[] {
+  return matchingFiles(logPath, suffix => {
+    const match = SEGMENT_SUFFIX.exec(suffix);
+    return match !== null && !match[3];
+  });
+}
+
+/**
+ * Remove compression temp files left by a crash.
+ */
+function removeStaleTemps(logPath: string): void {
+  for (const path of matchingFiles(logPath, suffix => TEMP_SUFFIX.test(suffix))) rmSync(path, { force: true });
+}
+
+function matchingFiles(logPath: string, test: (suffix: string) => boolean): string[] {
+  const dir = dirname(logPath);
+  const base = basename(logPath);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(name => name.startsWith(base) && test(name.slice(base.length)))
+    .map(name => join(dir, name));
+}
+
+function parseStamp(stamp: string): number {
+  const iso = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}Z`;
+  return Date.parse(iso);
+}
+
+function splitLines(data: Buffer): string[] {
+  return data.toString('utf-8').split('\n').filter(Boolean);
+}
+
+function firstLine(path: string): string | undefined {
+  const fd = openSync(path, 'r');
+  try {
+    const buf = Buffer.alloc(CHUNK_BYTES);
+    const read = readSync(fd, buf, 0, CHUNK_BYTES, 0);
+    const end = buf.subarray(0, read).indexOf(0x0a);
+    return end === -1 ? undefined : buf.subarray(0, end).toString('utf-8');
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * The last `count` complete lines of a file, reading backwards from the end.
+ */
+function tailLines(path: string, count: number): string[] {
+  const fd = openSync(path, 'r');
+  try {
+    let position = fstatSync(fd).size;
+    let tail = Buffer.alloc(0);
+    let newlines = 0;
+    // One newline more than needed guarantees the first kept line is whole
+    while (position > 0 && newlines <= count) {
+      const length = Math.min(CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      readSync(fd, chunk, 0, length, position);
+      for (const byte of chunk) if (byte === 0x0a) newlines++;
+      tail = Buffer.concat([chunk, tail]);
+    }
+    const lines = tail.toString('utf-8').split('\n');
+    if (position > 0) lines.shift();
+    return lines.filter(Boolean).slice(-count);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readLinesForward(path: string, fn: (line: string) => void): void {
+  const fd = openSync(path, 'r');
+  try {
+    const chunk = Buffer.alloc(CHUNK_BYTES);
+    let carry = Buffer.alloc(0);
+    let read: number;
+    while ((read = readSync(fd, chunk, 0, CHUNK_BYTES, null)) > 0) {
+      let data = Buffer.concat([carry, chunk.subarray(0, read)]);
+      let newline: number;
+      while ((newline = data.indexOf(0x0a)) !== -1) {
+        if (newline > 0) fn(data.subarray(0, newline).toString('utf-8'));
+        data = data.subarray(newline + 1);
+      }
+      carry = Buffer.from(data);
+    }
+    if (carry.length > 0) fn(carry.toString('utf-8'));
+  } finally {
+    closeSync(fd);
+  }
+}
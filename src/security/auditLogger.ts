@@ -1,29 +1,129 @@
 /**
  * A-02: Audit Logger
- * Structured JSONL audit log with PII scrubbing and CRITICAL alerting.
+ * Structured JSONL audit log with PII scrubbing and CRITICAL alerting
+ * (operator paging is an onAuditEvent listener, see auditAlerts.ts).
+ * Details are scrubbed by the event's schema in auditEvents.ts.
+ * Rotation, compression and retention live in auditLogFiles.ts; hash
+ * chaining and verification in auditChain.ts; fan-out to syslog, webhooks
+ * and other files in auditSinks.ts.
  */
 import { appendFileSync, existsSync, mkdirSync } from 'node:fs';
 import { dirname } from 'node:path';
 import { resolvePath } from '../core/config.js';
+import { withFileLock } from '../core/fileLock.js';
 import { redactPII } from './piiDetector.js';
+import { hashPhone } from './piiUtils.js';
+import { AuditLogRotator, type AuditRotationOptions } from './auditLogFiles.js';
+import { AuditChain, CHAIN_OVERHEAD_BYTES } from './auditChain.js';
+import { dispatchToSinks, type AuditSink } from './auditSinks.js';
+import { scrubAuditDetails } from './auditEvents.js';
 import type { AuditSeverity, AuditEntry, ChannelType } from '../types/index.js';
 
 let auditLogPath: string = '~/.openclaw/audit.jsonl';
+let contactHashSecret: string | undefined;
+let rotator: AuditLogRotator | undefined;
+let chain: AuditChain | undefined;
+let sinks: AuditSink[] = [];
+const listeners = new Set<(entry: AuditEntry) => void>();
 
 /**
- * Initialize the audit logger with a configured path.
+ * Initialize the audit logger with a configured path. Without rotation
+ * options the log is a single file that grows forever.
  */
-export function initAuditLog(path: string): void {
+export function initAuditLog(path: string, rotation?: AuditRotationOptions): void {
   auditLogPath = path;
   const resolved = resolvePath(auditLogPath);
   const dir = dirname(resolved);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true, mode: 0o700 });
   }
+  rotator = rotation ? new AuditLogRotator(resolved, rotation) : undefined;
+  chain = undefined;
 }
 
 /**
- * Write an audit entry. Scrubs PII from all string values in details.
+ * Set the audit key. From then on every entry is sealed into the hash
+ * chain, with a signed checkpoint every `checkpointEvery` entries and at
+ * each rotation. Call after initAuditLog.
+ */
+export function setAuditChainKey(key: string | undefined, checkpointEvery = 1000): void {
+  chain = key ? new AuditChain(resolvePath(auditLogPath), key, checkpointEvery) : undefined;
+}
+
+/**
+ * Checkpoint the head of the chain now, if it moved since the last
+ * checkpoint. Called as the process exits, so entries written since the
+ * last periodic checkpoint can't be cut off the log unnoticed.
+ */
+export function checkpointAuditLog(now = new Date()): void {
+  if (!chain) return;
+  const active = chain;
+  try {
+    withFileLock(resolvePath(auditLogPath), () => active.checkpoint(now));
+  } catch (err) {
+    process.stderr.write(`[AUDIT] Checkpoint failed: ${String(err)}\n`);
+  }
+}
+
+/**
+ * Replace the sinks every entry is fanned out to after the main log.
+ * Returns the previous ones so the caller can close them.
+ */
+export function setAuditSinks(next: AuditSink[]): AuditSink[] {
+  const previous = sinks;
+  sinks = next;
+  return previous;
+}
+
+/**
+ * Call `listener` with every entry once it has been written. Returns a
+ * function that removes the listener. Listeners run synchronously inside
+ * audit(), so anything slow should be handed off.
+ */
+export function onAuditEvent(listener: (entry: AuditEntry) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Delete rotated segments past their TTL or count (retention scheduler).
+ * Returns the number deleted.
+ */
+export function pruneAuditLog(now = new Date()): number {
+  return rotator?.prune(now) ?? 0;
+}
+
+/**
+ * Compress and prune rotated segments of the log and of file sinks in the
+ * background from now on. Only the long-running gateway calls this, so a
+ * short CLI command never races it on a segment or exits mid-compression;
+ * segments the CLI rotates are compressed by the gateway.
+ */
+export function maintainAuditLog(): void {
+  rotator?.maintain();
+  for (const sink of sinks) sink.maintain?.();
+}
+
+/**
+ * Resolves once rotated segments have been compressed and pruned. Await
+ * before exiting so a segment isn't left half-compressed.
+ */
+export function auditLogSettled(): Promise<void> {
+  return Promise.all([rotator?.settled(), ...sinks.map(s => s.flush())]).then(() => undefined);
+}
+
+/**
+ * Set the PII HMAC secret. Entries that name a contact then carry an HMAC
+ * of the contact ID (`contactHash`), so a contact's entries can be found
+ * even though the ID itself is scrubbed.
+ */
+export function setAuditContactSecret(secret: string | undefined): void {
+  contactHashSecret = secret || undefined;
+}
+
+/**
+ * Write an audit entry. Scrubs PII from details, recursing into nested
+ * objects and arrays, by the rules in the event catalog.
  */
 export function audit(
   severity: AuditSeverity,
@@ -35,26 +135,49 @@ export function audit(
     details?: Record<string, unknown>;
   },
 ): void {
-  const entry: AuditEntry = {
-    timestamp: new Date().toISOString(),
+  const now = new Date();
+  let entry: AuditEntry = {
+    timestamp: now.toISOString(),
     severity,
     event,
     channel: opts?.channel,
     contactId: opts?.contactId ? scrubValue(opts.contactId) : undefined,
+    contactHash: opts?.contactId && contactHashSecret ? hashPhone(opts.contactId, contactHashSecret) : undefined,
     sessionId: opts?.sessionId,
-    details: opts?.details ? scrubDetails(opts.details) : undefined,
+    details: opts?.details ? scrubAuditDetails(event, opts.details, contactHashSecret) : undefined,
   };
 
-  const line = JSON.stringify(entry) + '\n';
+  let line = JSON.stringify(entry) + '\n';
 
+  let marker: AuditEntry | undefined;
   try {
     const resolved = resolvePath(auditLogPath);
-    appendFileSync(resolved, line, { mode: 0o600 });
+    // Sealing reads the chain head from disk, so writers take turns
+    exclusive(resolved, () => {
+      const rotated = rotateIfNeeded(Buffer.byteLength(line) + (chain ? CHAIN_OVERHEAD_BYTES : 0), now);
+      if (rotated) {
+        // Open each segment with a pointer to the one before it
+        marker = seal({
+          timestamp: entry.timestamp,
+          severity: 'INFO',
+          event: 'audit_log_rotated',
+          details: { previous: rotated },
+        });
+        appendLine(resolved, JSON.stringify(marker) + '\n');
+        chain?.checkpoint(now);
+      }
+      entry = seal(entry);
+      line = JSON.stringify(entry) + '\n';
+      appendLine(resolved, line);
+    });
   } catch (err) {
     // Fallback to stderr if file write fails
     process.stderr.write(`[AUDIT-FALLBACK] ${line}`);
   }
 
+  if (marker) publish(marker);
+  publish(entry);
+
   // CRITICAL events go to stderr immediately
   if (severity === 'CRITICAL') {
     process.stderr.write(`\x1b[91m[CRITICAL AUDIT] ${event}\x1b[0m\n`);
@@ -78,18 +201,42 @@ export const auditCritical = (event: string, opts?: Parameters<typeof audit>[2])
 
 // ── Internal ─────────────────────────────────────────────────
 
-function scrubValue(value: string): string {
-  return redactPII(value);
+function rotateIfNeeded(bytes: number, now: Date): string | undefined {
+  try {
+    return rotator?.rotateIfNeeded(bytes, now);
+  } catch (err) {
+    // Keep logging to the active file rather than lose entries
+    process.stderr.write(`[AUDIT] Rotation failed: ${String(err)}\n`);
+    return undefined;
+  }
 }
 
-function scrubDetails(details: Record<string, unknown>): Record<string, unknown> {
-  const scrubbed: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(details)) {
-    if (typeof value === 'string') {
-      scrubbed[key] = redactPII(value);
-    } else {
-      scrubbed[key] = value;
+function publish(entry: AuditEntry): void {
+  dispatchToSinks(sinks, entry);
+  for (const listener of listeners) {
+    try {
+      listener(entry);
+    } catch (err) {
+      process.stderr.write(`[AUDIT] Listener failed: ${String(err)}\n`);
     }
   }
-  return scrubbed;
+}
+
+function exclusive(path: string, fn: () => void): void {
+  if (chain) withFileLock(path, fn);
+  else fn();
+}
+
+function seal(entry: AuditEntry): AuditEntry {
+  return chain ? chain.seal(entry) : entry;
+}
+
+function appendLine(path: string, line: string): void {
+  appendFileSync(path, line, { mode: 0o600 });
+  rotator?.recordAppend(Buffer.byteLength(line));
+  chain?.appended();
+}
+
+function scrubValue(value: string): string {
+  return redactPII(value);
 }
@@ -0,0 +1,200 @@
+/**
+ * A-02: Audit Query
+ * Filtering, counting and live-tailing the audit log for incident
+ * response. Reads through the segment readers in auditLogFiles.ts, so
+ * rotated and compressed segments are searched like the active file.
+ */
+import { closeSync, existsSync, fstatSync, openSync, readSync, statSync } from 'node:fs';
+import { forEachAuditLine } from './auditLogFiles.js';
+import type { AuditEntry, AuditSeverity, ChannelType } from '../types/index.js';
+
+const SEVERITY_ORDER: AuditSeverity[] = ['INFO', 'WARN', 'ERROR', 'CRITICAL'];
+const RELATIVE_TIME = /^(\d+)([mhdw])$/;
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+const FOLLOW_CHUNK_BYTES = 64 * 1024;
+
+export interface AuditQuery {
+  /** Minimum severity: WARN matches WARN, ERROR and CRITICAL. */
+  severity?: AuditSeverity;
+  /** Event name glob; `*` matches any run of characters, `?` one. */
+  event?: string;
+  channel?: ChannelType;
+  sessionId?: string;
+  /** HMAC of the contact ID, as recorded in `contactHash`. */
+  contactHash?: string;
+  /** Epoch ms, inclusive. */
+  since?: number;
+  /** Epoch ms, exclusive. */
+  until?: number;
+}
+
+export interface AuditCounts {
+  total: number;
+  bySeverity: Record<AuditSeverity, number>;
+  byEvent: Record<string, number>;
+  first?: string;
+  last?: string;
+}
+
+export function isAuditSeverity(value: string): value is AuditSeverity {
+  return (SEVERITY_ORDER as string[]).includes(value);
+}
+
+/**
+ * Parse a --since/--until value: a duration back from `now` (30m, 6h, 7d,
+ * 2w) or anything Date.parse accepts (2026-03-15, 2026-03-15T08:00:00Z).
+ */
+export function parseTimeBound(value: string, now = Date.now()): number {
+  const relative = RELATIVE_TIME.exec(value);
+  if (relative) return now - Number(relative[1]) * UNIT_MS[relative[2]!]!;
+  const absolute = Date.parse(value);
+  if (Number.isNaN(absolute)) throw new Error(`Invalid time "${value}" (use e.g. 30m, 6h, 7d, 2w or an ISO date)`);
+  return absolute;
+}
+
+/**
+ * A predicate for entries matching every field set in the query.
+ */
+export function auditEntryFilter(query: AuditQuery): (entry: AuditEntry) => boolean {
+  const minSeverity = query.severity ? SEVERITY_ORDER.indexOf(query.severity) : 0;
+  const event = query.event ? globToRegExp(query.event) : undefined;
+  const timed = query.since !== undefined || query.until !== undefined;
+
+  return entry => {
+    if (SEVERITY_ORDER.indexOf(entry.severity) < minSeverity) return false;
+    if (event && !event.test(entry.event)) return false;
+    if (query.channel && entry.channel !== query.channel) return false;
+    if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+    if (query.contactHash && entry.contactHash !== query.contactHash) return false;
+    if (timed) {
+      const at = Date.parse(entry.timestamp);
+      if (query.since !== undefined && at < query.since) return false;
+      if (query.until !== undefined && at >= query.until) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * The last `limit` matching entries across all segments, oldest first.
+ */
+export function queryAuditLog(logPath: string, query: AuditQuery, limit = Infinity): AuditEntry[] {
+  const matches: AuditEntry[] = [];
+  scan(logPath, query, entry => {
+    matches.push(entry);
+    if (matches.length > limit) matches.shift();
+  });
+  return matches;
+}
+
+/**
+ * Count matching entries by severity and by event, without keeping them.
+ */
+export function countAuditLog(logPath: string, query: AuditQuery): AuditCounts {
+  const counts: AuditCounts = { total: 0, bySeverity: { INFO: 0, WARN: 0, ERROR: 0, CRITICAL: 0 }, byEvent: {} };
+  scan(logPath, query, entry => {
+    counts.total++;
+    counts.bySeverity[entry.severity]++;
+    counts.byEvent[entry.event] = (counts.byEvent[entry.event] ?? 0) + 1;
+    counts.first ??= entry.timestamp;
+    counts.last = entry.timestamp;
+  });
+  return counts;
+}
+
+/**
+ * Call `fn` with each matching entry appended to the log from now on,
+ * polling every `intervalMs`. Follows the log through rotation by
+ * finishing the renamed file before reopening the path. Returns a
+ * function that stops following.
+ */
+export function followAuditLog(
+  logPath: string,
+  query: AuditQuery,
+  fn: (entry: AuditEntry) => void,
+  intervalMs = 500,
+): () => void {
+  const matches = auditEntryFilter(query);
+  let fd: number | undefined;
+  let position = 0;
+  let carry = '';
+
+  const open = (fromEnd: boolean): void => {
+    if (!existsSync(logPath)) return;
+    fd = openSync(logPath, 'r');
+    position = fromEnd ? fstatSync(fd).size : 0;
+    carry = '';
+  };
+
+  const drain = (): void => {
+    if (fd === undefined) return;
+    const chunk = Buffer.alloc(FOLLOW_CHUNK_BYTES);
+    let read: number;
+    while ((read = readSync(fd, chunk, 0, FOLLOW_CHUNK_BYTES, position)) > 0) {
+      position += read;
+      const lines = (carry + chunk.subarray(0, read).toString('utf-8')).split('\n');
+      carry = lines.pop() ?? '';
+      for (const line of lines) emit(line);
+    }
+  };
+
+  const emit = (line: string): void => {
+    if (!line) return;
+    try {
+      const entry = JSON.parse(line) as AuditEntry;
+      if (matches(entry)) fn(entry);
+    } catch { /* foreign line */ }
+  };
+
+  const poll = (): void => {
+    try {
+      drain();
+      const current = existsSync(logPath) ? statSync(logPath) : undefined;
+      if (!current) return;
+      if (fd === undefined) {
+        open(false);
+      } else if (current.ino !== fstatSync(fd).ino) {
+        // Rotated: the old descriptor has been drained, move to the new file
+        closeSync(fd);
+        open(false);
+      } else if (current.size < position) {
+        // Truncated in place
+        position = 0;
+        carry = '';
+      } else {
+        return;
+      }
+      drain();
+    } catch (err) {
+      process.stderr.write(`[AUDIT] Follow failed: ${String(err)}\n`);
+    }
+  };
+
+  open(true);
+  const timer = setInterval(poll, intervalMs);
+  return () => {
+    clearInterval(timer);
+    if (fd !== undefined) closeSync(fd);
+    fd = undefined;
+  };
+}
+
+// ── Internal ─────────────────────────────────────────────────
+
+function scan(logPath: string, query: AuditQuery, fn: (entry: AuditEntry) => void): void {
+  const matches = auditEntryFilter(query);
+  forEachAuditLine(logPath, line => {
+    // Cheap reject before parsing when looking for one contact or session
+    if (query.contactHash && !line.includes(query.contactHash)) return;
+    if (query.sessionId && !line.includes(query.sessionId)) return;
+    try {
+      const entry = JSON.parse(line) as AuditEntry;
+      if (matches(entry)) fn(entry);
+    } catch { /* torn line */ }
+  }, query.since);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${pattern}$`);
+}
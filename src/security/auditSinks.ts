@@ -0,0 +1,455 @@
+/**
+ * A-02: Audit Sinks
+ * Fan-out of audit entries to destinations beyond the main log: another
+ * JSONL file, RFC 5424 syslog over UDP or a unix socket, and a signed
+ * HTTP webhook that buffers undelivered entries on disk.
+ *
+ * Each sink has its own severity threshold and redaction policy. Sinks
+ * never call audit() themselves; delivery problems go to stderr.
+ */
+import { createHmac } from 'node:crypto';
+import { createSocket, type Socket as UdpSocket } from 'node:dgram';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { createConnection, isIPv6, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { dirname, join } from 'node:path';
+import { getOpenClawDir, resolvePath, resolveSecret } from '../core/config.js';
+import { withFileLock } from '../core/fileLock.js';
+import { AuditLogRotator } from './auditLogFiles.js';
+import { writeFileAtomic } from './encryptedStore.js';
+import type { FetchLike } from '../providers/recordReplay.js';
+import type { AuditEntry, AuditRedaction, AuditSeverity, AuditSinkConfig } from '../types/index.js';
+
+export const SINK_BUFFER_DIR = 'audit-sinks';
+
+const SEVERITY_ORDER: AuditSeverity[] = ['INFO', 'WARN', 'ERROR', 'CRITICAL'];
+// RFC 5424 severities: crit, err, warning, informational
+const SYSLOG_SEVERITY: Record<AuditSeverity, number> = { CRITICAL: 2, ERROR: 3, WARN: 4, INFO: 6 };
+const MAX_SOCKET_QUEUE = 1000;
+const MAX_RETRY_MS = 5 * 60_000;
+const BUFFER_POLL_MS = 5_000;
+
+type FileSinkConfig = Extract<AuditSinkConfig, { type: 'file' }>;
+type SyslogSinkConfig = Extract<AuditSinkConfig, { type: 'syslog' }>;
+type WebhookSinkConfig = Extract<AuditSinkConfig, { type: 'webhook' }>;
+
+export interface AuditSink {
+  readonly name: string;
+  readonly minSeverity: AuditSeverity;
+  readonly redact: AuditRedaction;
+  /** Hand over one entry, already filtered and redacted. Must not block on I/O. */
+  deliver(entry: AuditEntry): void;
+  /** Resolves once deliveries in flight have finished or failed. */
+  flush(): Promise<void>;
+  /** Start background work: compressing rotated files, sending buffered entries (see maintainAuditLog). */
+  maintain?(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Why a sink can't work as configured (no webhook secret, plain http off
+ * loopback, unix syslog without a path), or undefined if it can.
+ */
+export function auditSinkProblem(config: AuditSinkConfig, index: number): string | undefined {
+  const name = sinkName(config, index);
+  if (config.type === 'syslog' && config.transport === 'unix' && !config.path) {
+    return `Audit sink ${name}: unix syslog needs a socket path`;
+  }
+  if (config.type === 'webhook') {
+    if (!resolveSecret(config.secret, config.secretEnv)) {
+      return `Audit sink ${name}: webhook needs a signing secret (set "secret" or ${config.secretEnv})`;
+    }
+    const url = new URL(config.url);
+    const loopback = ['127.0.0.1', 'localhost', '[::1]'].includes(url.hostname);
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && loopback)) {
+      return `Audit sink ${name}: webhook must use https unless it is on loopback`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the configured sinks. A sink that can't work is left out and
+ * passed to `onProblem`, so one bad entry doesn't stop every command.
+ */
+export function createAuditSinks(configs: AuditSinkConfig[], onProblem: (problem: string) => void): AuditSink[] {
+  const built: AuditSink[] = [];
+  configs.forEach((config, i) => {
+    const problem = auditSinkProblem(config, i);
+    if (problem) {
+      onProblem(problem);
+    } else {
+      built.push(createAuditSink(config, i));
+    }
+  });
+  return built;
+}
+
+/**
+ * Build a sink from its config. Throws on a sink that can't work as
+ * configured (see auditSinkProblem).
+ */
+export function createAuditSink(config: AuditSinkConfig, index: number, fetchImpl?: FetchLike): AuditSink {
+  const problem = auditSinkProblem(config, index);
+  if (problem) throw new Error(problem);
+  const name = sinkName(config, index);
+  switch (config.type) {
+    case 'file':
+      return new FileSink(name, config);
+    case 'syslog':
+      return new SyslogSink(name, config);
+    case 'webhook':
+      return new WebhookSink(name, config, fetchImpl);
+  }
+}
+
+function sinkName(config: AuditSinkConfig, index: number): string {
+  return config.name ?? `${config.type}-${index}`;
+}
+
+/**
+ * Send an entry to every sink whose threshold it meets, redacted for that
+ * sink. One failing sink doesn't stop the others.
+ */
+export function dispatchToSinks(sinks: AuditSink[], entry: AuditEntry): void {
+  const rank = SEVERITY_ORDER.indexOf(entry.severity);
+  for (const sink of sinks) {
+    if (rank < SEVERITY_ORDER.indexOf(sink.minSeverity)) continue;
+    try {
+      sink.deliver(redactAuditEntry(entry, sink.redact));
+    } catch (err) {
+      process.stderr.write(`[AUDIT] Sink ${sink.name} failed: ${String(err)}\n`);
+    }
+  }
+}
+
+/**
+ * Apply a sink's redaction policy. Returns a copy; the entry is untouched.
+ */
+export function redactAuditEntry(entry: AuditEntry, policy: AuditRedaction): AuditEntry {
+  const redacted: AuditEntry = { ...entry };
+  if (policy.contact !== 'keep') delete redacted.contactId;
+  if (policy.contact === 'drop') delete redacted.contactHash;
+  if (policy.session === 'drop') delete redacted.sessionId;
+  if (policy.details === 'drop') {
+    delete redacted.details;
+  } else if (redacted.details && policy.dropDetails.length > 0) {
+    redacted.details = Object.fromEntries(
+      Object.entries(redacted.details).filter(([key]) => !policy.dropDetails.includes(key)),
+    );
+  }
+  return redacted;
+}
+
+/**
+ * One RFC 5424 message: the entry as JSON in MSG, the event as MSGID.
+ */
+export function formatSyslog(entry: AuditEntry, facility: number, appName: string, host = hostname()): string {
+  const pri = facility * 8 + SYSLOG_SEVERITY[entry.severity];
+  const msgId = /^[!-~]{1,32}$/.test(entry.event) ? entry.event : '-';
+  return `<${pri}>1 ${entry.timestamp} ${host || '-'} ${appName} ${process.pid} ${msgId} - ${JSON.stringify(entry)}`;
+}
+
+// ── Sinks ────────────────────────────────────────────────────
+
+class FileSink implements AuditSink {
+  readonly name: string;
+  readonly minSeverity: AuditSeverity;
+  readonly redact: AuditRedaction;
+  private path: string;
+  private rotator?: AuditLogRotator;
+
+  constructor(name: string, config: FileSinkConfig) {
+    this.name = name;
+    this.minSeverity = config.minSeverity;
+    this.redact = config.redact;
+    this.path = resolvePath(config.path);
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    this.rotator = config.rotation ? new AuditLogRotator(this.path, config.rotation) : undefined;
+  }
+
+  deliver(entry: AuditEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    const bytes = Buffer.byteLength(line);
+    this.rotator?.rotateIfNeeded(bytes, new Date(entry.timestamp));
+    appendFileSync(this.path, line, { mode: 0o600 });
+    this.rotator?.recordAppend(bytes);
+  }
+
+  flush(): Promise<void> {
+    return this.rotator?.settled() ?? Promise.resolve();
+  }
+
+  maintain(): void {
+    this.rotator?.maintain();
+  }
+
+  close(): Promise<void> {
+    return this.flush();
+  }
+}
+
+/**
+ * UDP datagrams are fire-and-forget. The unix socket is a stream, one
+ * message per line; messages are queued while it reconnects, oldest
+ * dropped past MAX_SOCKET_QUEUE.
+ */
+class SyslogSink implements AuditSink {
+  readonly name: string;
+  readonly minSeverity: AuditSeverity;
+  readonly redact: AuditRedaction;
+  private config: SyslogSinkConfig;
+  private udp?: UdpSocket;
+  private socket?: Socket;
+  private connected = false;
+  private queue: string[] = [];
+  private dropped = 0;
+  private inFlight = 0;
+  private idle: Array<() => void> = [];
+  private retryMs = 1000;
+  private closed = false;
+
+  constructor(name: string, config: SyslogSinkConfig) {
+    this.name = name;
+    this.minSeverity = config.minSeverity;
+    this.redact = config.redact;
+    this.config = config;
+    if (config.transport === 'udp') {
+      this.udp = createSocket(isIPv6(config.host) ? 'udp6' : 'udp4');
+      this.udp.on('error', err => process.stderr.write(`[AUDIT] Sink ${name}: ${String(err)}\n`));
+      this.udp.unref();
+    } else {
+      this.connect();
+    }
+  }
+
+  deliver(entry: AuditEntry): void {
+    const message = formatSyslog(entry, this.config.facility, this.config.appName);
+    if (this.udp) {
+      this.inFlight++;
+      this.udp.send(Buffer.from(message), this.config.port, this.config.host, err => {
+        if (err) process.stderr.write(`[AUDIT] Sink ${this.name}: ${String(err)}\n`);
+        this.settle();
+      });
+      return;
+    }
+    if (this.connected && this.socket) {
+      this.write(message);
+    } else {
+      this.queue.push(message);
+      if (this.queue.length > MAX_SOCKET_QUEUE) {
+        this.queue.shift();
+        this.dropped++;
+      }
+    }
+  }
+
+  flush(): Promise<void> {
+    if (this.inFlight === 0) return Promise.resolve();
+    return new Promise(resolve => this.idle.push(resolve));
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.flush();
+    this.udp?.close();
+    this.socket?.end();
+  }
+
+  private connect(): void {
+    const socket = createConnection({ path: resolvePath(this.config.path!) });
+    this.socket = socket;
+    socket.unref();
+    socket.on('connect', () => {
+      this.connected = true;
+      this.retryMs = 1000;
+      if (this.dropped > 0) {
+        process.stderr.write(`[AUDIT] Sink ${this.name}: dropped ${this.dropped} message(s) while disconnected\n`);
+        this.dropped = 0;
+      }
+      for (const message of this.queue.splice(0)) this.write(message);
+    });
+    socket.on('error', err => {
+      if (this.connected || this.retryMs === 1000) process.stderr.write(`[AUDIT] Sink ${this.name}: ${String(err)}\n`);
+    });
+    socket.on('close', () => {
+      this.connected = false;
+      if (this.closed) return;
+      setTimeout(() => this.connect(), this.retryMs).unref();
+      this.retryMs = Math.min(this.retryMs * 2, MAX_RETRY_MS);
+    });
+  }
+
+  private write(message: string): void {
+    this.inFlight++;
+    this.socket!.write(message + '\n', () => this.settle());
+  }
+
+  private settle(): void {
+    if (--this.inFlight === 0) for (const resolve of this.idle.splice(0)) resolve();
+  }
+}
+
+/**
+ * Every entry is appended to a buffer file first and removed once the
+ * endpoint has acknowledged it with a 2xx, so entries survive restarts and
+ * outages (at-least-once delivery). Batches are POSTed as
+ * `{"entries":[...]}` and signed: X-OpenClaw-Signature is
+ * `sha256=` + HMAC-SHA256(secret, `${X-OpenClaw-Timestamp}.${body}`).
+ *
+ * Every process appends to the same buffer, under its file lock, but only
+ * the one that called maintain() (the gateway) sends from it. Entries
+ * buffered by CLI commands go out on its next poll.
+ */
+class WebhookSink implements AuditSink {
+  readonly name: string;
+  readonly minSeverity: AuditSeverity;
+  readonly redact: AuditRedaction;
+  private config: WebhookSinkConfig;
+  private secret: string;
+  private bufferPath: string;
+  private fetch: FetchLike;
+  private sending?: Promise<void>;
+  private rerun = false;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private retryMs = 1000;
+  private pollTimer?: ReturnType<typeof setInterval>;
+
+  constructor(name: string, config: WebhookSinkConfig, fetchImpl?: FetchLike) {
+    this.name = name;
+    this.minSeverity = config.minSeverity;
+    this.redact = config.redact;
+    this.config = config;
+    this.secret = resolveSecret(config.secret, config.secretEnv)!;
+    this.fetch = fetchImpl ?? ((input, init) => fetch(input, init));
+    this.bufferPath = join(getOpenClawDir(), SINK_BUFFER_DIR, `${name}.jsonl`);
+    mkdirSync(dirname(this.bufferPath), { recursive: true, mode: 0o700 });
+  }
+
+  deliver(entry: AuditEntry): void {
+    withFileLock(this.bufferPath, () => {
+      appendFileSync(this.bufferPath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+      this.enforceCap();
+    });
+    if (this.pollTimer) this.kick();
+  }
+
+  /**
+   * Start sending: what earlier and other processes left in the buffer
+   * now, and whatever they add from then on.
+   */
+  maintain(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.kick(), BUFFER_POLL_MS);
+    this.pollTimer.unref();
+    this.kick();
+  }
+
+  async flush(): Promise<void> {
+    while (this.sending) await this.sending;
+  }
+
+  async close(): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    await this.flush();
+  }
+
+  private kick(): void {
+    if (this.retryTimer) return;
+    if (this.sending) {
+      // The running pass may already have read the buffer: go again after it
+      this.rerun = true;
+      return;
+    }
+    this.sending = this.sendAll().finally(() => {
+      this.sending = undefined;
+      if (this.rerun) {
+        this.rerun = false;
+        this.kick();
+      }
+    });
+  }
+
+  private async sendAll(): Promise<void> {
+    for (;;) {
+      const batch = this.buffered().slice(0, this.config.batchSize);
+      if (batch.length === 0) return;
+      const error = await this.post(batch);
+      if (error) {
+        process.stderr.write(`[AUDIT] Sink ${this.name}: ${error}; retrying in ${this.retryMs / 1000}s\n`);
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = undefined;
+          this.kick();
+        }, this.retryMs);
+        this.retryTimer.unref();
+        this.retryMs = Math.min(this.retryMs * 2, MAX_RETRY_MS);
+        return;
+      }
+      this.retryMs = 1000;
+      this.drop(batch);
+    }
+  }
+
+  private async post(batch: string[]): Promise<string | undefined> {
+    const body = `{"entries":[${batch.join(',')}]}`;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+    try {
+      const res = await this.fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-OpenClaw-Timestamp': timestamp,
+          'X-OpenClaw-Signature': `sha256=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      return res.ok ? undefined : `HTTP ${res.status}`;
+    } catch (err) {
+      return String(err);
+    }
+  }
+
+  private buffered(): string[] {
+    if (!existsSync(this.bufferPath)) return [];
+    return readFileSync(this.bufferPath, 'utf-8').split('\n').filter(Boolean);
+  }
+
+  /**
+   * Remove the delivered lines. Other processes may have appended, or
+   * trimmed the oldest lines for the cap, since the batch was read, so
+   * lines are matched by content rather than position.
+   */
+  private drop(sent: string[]): void {
+    withFileLock(this.bufferPath, () => {
+      const unmatched = new Map<string, number>();
+      for (const line of sent) unmatched.set(line, (unmatched.get(line) ?? 0) + 1);
+      const rest = this.buffered().filter(line => {
+        const n = unmatched.get(line);
+        if (!n) return true;
+        unmatched.set(line, n - 1);
+        return false;
+      });
+      if (rest.length === 0) {
+        rmSync(this.bufferPath, { force: true });
+      } else {
+        writeFileAtomic(this.bufferPath, rest.join('\n') + '\n');
+      }
+    });
+  }
+
+  /** Past maxBufferMB the oldest undelivered entries go first. Call holding the lock. */
+  private enforceCap(): void {
+    const limit = this.config.maxBufferMB * 1024 * 1024;
+    if (statSync(this.bufferPath).size <= limit) return;
+    const lines = this.buffered();
+    let bytes = lines.reduce((sum, l) => sum + Buffer.byteLength(l) + 1, 0);
+    let cut = 0;
+    while (bytes > limit * 0.9 && cut < lines.length) bytes -= Buffer.byteLength(lines[cut++]!) + 1;
+    writeFileAtomic(this.bufferPath, lines.slice(cut).join('\n') + '\n');
+    process.stderr.write(`[AUDIT] Sink ${this.name}: buffer full, dropped ${cut} undelivered entr${cut === 1 ? 'y' : 'ies'}\n`);
+  }
+}
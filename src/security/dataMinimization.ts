@@ -9,7 +9,9 @@ import { auditInfo } from './auditLogger.js';
  * Strip metadata from messages before sending to LLM.
  * Removes contactId, channel info, and other identifying data.
  */
-export function stripMetadataForLLM(messages: AgentMessage[]): Array<{ role: string; content: string }> {
+export function stripMetadataForLLM(
+  messages: AgentMessage[],
+): Array<Pick<AgentMessage, 'role' | 'content'>> {
   return messages.map(m => ({
     role: m.role,
     content: m.content,
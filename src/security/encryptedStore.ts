@@ -1,21 +1,110 @@
 /**
  * P-03: Encrypted Store
- * AES-256-GCM encrypt/decrypt with HKDF key derivation
+ * AES-256-GCM encrypt/decrypt with HKDF key derivation. Every ciphertext
+ * names the key that produced it, so data under retired keys stays readable
+ * through the keyring until it has been rotated.
  */
 import {
   createCipheriv,
   createDecipheriv,
+  createHash,
   randomBytes,
   hkdfSync,
 } from 'node:crypto';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
-import { dirname } from 'node:path';
+import {
+  readFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  writeSync,
+  fsyncSync,
+  closeSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { dirname, basename, join } from 'node:path';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 12; // 96 bits for GCM
 const TAG_LENGTH = 16;
 const SALT_LENGTH = 16;
 
+// Header: magic(3) + format version(1) + key ID length(1) + key ID
+const MAGIC = Buffer.from('OCK', 'ascii');
+const FORMAT_VERSION = 1;
+export const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export const BACKUP_SUFFIX = '.bak';
+export const TEMP_SUFFIX = '.tmp';
+
+export interface AtomicWriteOptions {
+  /** Keep the previous contents as `<file>.bak` before replacing. */
+  backup?: boolean;
+}
+
+export interface KeyringEntry {
+  id: string;
+  key: string;
+  retired?: boolean;
+}
+
+let keyring: KeyringEntry[] = [];
+const fingerprints = new Map<string, string>();
+
+/**
+ * Register the configured keyring (called once by the CLI after loading
+ * config). Retired keys are only used to decrypt.
+ */
+export function registerKeyring(entries: KeyringEntry[]): void {
+  for (const entry of entries) {
+    if (!KEY_ID_PATTERN.test(entry.id)) throw new Error(`Invalid key ID "${entry.id}"`);
+  }
+  keyring = entries.map(e => ({ ...e }));
+}
+
+/** Retired keyring keys, for lookups that depend on the key (e.g. HMAC indexes). */
+export function retiredKeys(): string[] {
+  return keyring.filter(k => k.retired).map(k => k.key);
+}
+
+/**
+ * The ID written into ciphertext made with `masterKey`: its keyring ID, or
+ * a fingerprint for keys used without a keyring.
+ */
+export function keyIdOf(masterKey: string): string {
+  return keyring.find(k => k.key === masterKey)?.id ?? fingerprint(masterKey);
+}
+
+/**
+ * The key ID in a ciphertext's header, or null for data written before
+ * headers existed.
+ */
+export function readKeyId(data: Buffer): string | null {
+  return parseHeader(data)?.keyId ?? null;
+}
+
+function fingerprint(masterKey: string): string {
+  let fp = fingerprints.get(masterKey);
+  if (!fp) {
+    const derived = Buffer.from(hkdfSync('sha256', masterKey, Buffer.alloc(0), 'openclaw-key-id', 32));
+    fp = `fp-${createHash('sha256').update(derived).digest('hex').slice(0, 12)}`;
+    fingerprints.set(masterKey, fp);
+  }
+  return fp;
+}
+
+function parseHeader(data: Buffer): { keyId: string; header: Buffer; body: Buffer } | null {
+  if (data.length < MAGIC.length + 2 || !data.subarray(0, MAGIC.length).equals(MAGIC)) return null;
+  if (data[MAGIC.length] !== FORMAT_VERSION) return null;
+  const idLength = data[MAGIC.length + 1]!;
+  const headerLength = MAGIC.length + 2 + idLength;
+  const keyId = data.subarray(MAGIC.length + 2, headerLength).toString('ascii');
+  if (!KEY_ID_PATTERN.test(keyId)) return null;
+  return { keyId, header: data.subarray(0, headerLength), body: data.subarray(headerLength) };
+}
+
 /**
  * Derive a 256-bit key from master key using HKDF.
  */
@@ -27,27 +116,71 @@ function deriveKey(masterKey: string, salt: Buffer, info: string): Buffer {
 
 /**
  * Encrypt plaintext with AES-256-GCM.
- * Returns: salt(16) + iv(12) + tag(16) + ciphertext
+ * Returns: header + salt(16) + iv(12) + tag(16) + ciphertext. The header
+ * (magic, version, key ID) is authenticated as additional data.
  */
 export function encrypt(plaintext: string, masterKey: string, info = 'openclaw-store'): Buffer {
+  const keyId = Buffer.from(keyIdOf(masterKey), 'ascii');
+  const header = Buffer.concat([MAGIC, Buffer.from([FORMAT_VERSION, keyId.length]), keyId]);
   const salt = randomBytes(SALT_LENGTH);
   const key = deriveKey(masterKey, salt, info);
   const iv = randomBytes(IV_LENGTH);
 
   const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(header);
   const encrypted = Buffer.concat([
     cipher.update(plaintext, 'utf8'),
     cipher.final(),
   ]);
   const tag = cipher.getAuthTag();
 
-  return Buffer.concat([salt, iv, tag, encrypted]);
+  return Buffer.concat([header, salt, iv, tag, encrypted]);
 }
 
 /**
- * Decrypt AES-256-GCM ciphertext.
+ * Decrypt AES-256-GCM ciphertext. `masterKey` is the active key; data
+ * whose header names a retired key is decrypted with that keyring entry.
+ * Headerless (pre-keyring) data is tried against the active key first,
+ * then each keyring key.
  */
 export function decrypt(data: Buffer, masterKey: string, info = 'openclaw-store'): string {
+  const parsed = parseHeader(data);
+  if (parsed) {
+    try {
+      return decryptBody(parsed.body, keyFor(parsed.keyId, masterKey), info, parsed.header);
+    } catch (err) {
+      // One in 2^32 legacy ciphertexts starts with bytes that look like a header
+      try {
+        return decryptLegacy(data, masterKey, info);
+      } catch {
+        throw err;
+      }
+    }
+  }
+  return decryptLegacy(data, masterKey, info);
+}
+
+function keyFor(keyId: string, masterKey: string): string {
+  if (keyIdOf(masterKey) === keyId || fingerprint(masterKey) === keyId) return masterKey;
+  const entry = keyring.find(k => k.id === keyId || fingerprint(k.key) === keyId);
+  if (!entry) throw new Error(`Decryption failed — data is encrypted with key "${keyId}", which is not in the keyring`);
+  return entry.key;
+}
+
+function decryptLegacy(data: Buffer, masterKey: string, info: string): string {
+  const candidates = [masterKey, ...keyring.map(k => k.key).filter(k => k !== masterKey)];
+  let lastError: unknown;
+  for (const candidate of candidates) {
+    try {
+      return decryptBody(data, candidate, info);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
+
+function decryptBody(data: Buffer, masterKey: string, info: string, header?: Buffer): string {
   if (data.length < SALT_LENGTH + IV_LENGTH + TAG_LENGTH) {
     throw new Error('Encrypted data too short — possible tampering');
   }
@@ -60,6 +193,7 @@ export function decrypt(data: Buffer, masterKey: string, info = 'openclaw-store'
   const key = deriveKey(masterKey, salt, info);
   const decipher = createDecipheriv(ALGORITHM, key, iv);
   decipher.setAuthTag(tag);
+  if (header) decipher.setAAD(header);
 
   try {
     const decrypted = Buffer.concat([
@@ -73,26 +207,105 @@ export function decrypt(data: Buffer, masterKey: string, info = 'openclaw-store'
 }
 
 /**
- * Write encrypted JSON to a file.
+ * Write `data` to a temp file beside `filePath` and fsync it. Returns the
+ * temp path; nothing is visible at `filePath` until `commitStagedFile`.
  */
-export function writeEncryptedJSON(filePath: string, data: unknown, masterKey: string): void {
+export function stageFile(filePath: string, data: string | Buffer): string {
   const dir = dirname(filePath);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true, mode: 0o700 });
   }
+  const tempPath = join(dir, `.${basename(filePath)}.${randomBytes(6).toString('hex')}${TEMP_SUFFIX}`);
+  const fd = openSync(tempPath, 'wx', 0o600);
+  try {
+    writeSync(fd, typeof data === 'string' ? Buffer.from(data, 'utf8') : data);
+    fsyncSync(fd);
+  } catch (err) {
+    closeSync(fd);
+    rmSync(tempPath, { force: true });
+    throw err;
+  }
+  closeSync(fd);
+  return tempPath;
+}
+
+/**
+ * Atomically replace `filePath` with a staged temp file. Readers see either
+ * the old or the new contents, never a partial write.
+ */
+export function commitStagedFile(tempPath: string, filePath: string, options: AtomicWriteOptions = {}): void {
+  if (options.backup && existsSync(filePath)) {
+    renameSync(stageFile(filePath + BACKUP_SUFFIX, readFileSync(filePath)), filePath + BACKUP_SUFFIX);
+  }
+  renameSync(tempPath, filePath);
+  fsyncDir(dirname(filePath));
+}
+
+/**
+ * Crash-safe write: temp file + fsync + rename.
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer, options: AtomicWriteOptions = {}): void {
+  commitStagedFile(stageFile(filePath, data), filePath, options);
+}
+
+/**
+ * Overwrite a file with random bytes before removing it (best-effort on SSDs).
+ */
+export function overwriteAndRemove(filePath: string): void {
+  try {
+    writeFileSync(filePath, randomBytes(statSync(filePath).size));
+  } finally {
+    rmSync(filePath, { force: true });
+  }
+}
+
+/**
+ * Persist a rename. Not every platform can open a directory for fsync.
+ */
+function fsyncDir(dir: string): void {
+  let fd: number | undefined;
+  try {
+    fd = openSync(dir, 'r');
+    fsyncSync(fd);
+  } catch {
+    // best-effort
+  } finally {
+    if (fd !== undefined) closeSync(fd);
+  }
+}
+
+/**
+ * Write encrypted JSON to a file (atomically).
+ */
+export function writeEncryptedJSON(
+  filePath: string,
+  data: unknown,
+  masterKey: string,
+  options: AtomicWriteOptions = {},
+): void {
   const json = JSON.stringify(data, null, 2);
-  const encrypted = encrypt(json, masterKey);
-  writeFileSync(filePath, encrypted, { mode: 0o600 });
+  writeFileAtomic(filePath, encrypt(json, masterKey), options);
 }
 
 /**
  * Read encrypted JSON from a file.
+ * Throws if the file is missing, can't be decrypted, or isn't valid JSON.
  */
 export function readEncryptedJSON<T = unknown>(filePath: string, masterKey: string): T {
   if (!existsSync(filePath)) {
     throw new Error(`Encrypted file not found: ${filePath}`);
   }
-  const data = readFileSync(filePath);
+  return decryptJSON<T>(readFileSync(filePath), masterKey);
+}
+
+/**
+ * Decrypt and parse encrypted JSON held in memory.
+ */
+export function decryptJSON<T = unknown>(data: Buffer, masterKey: string): T {
   const json = decrypt(data, masterKey);
-  return JSON.parse(json) as T;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    throw new Error('Decrypted data is not valid JSON');
+  }
 }
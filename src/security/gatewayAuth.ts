@@ -41,12 +41,13 @@ export function verifyToken(provided: string, expected: string): boolean {
 }
 
 /**
- * Rate limit check by IP.
+ * Rate limit check by IP, counted separately per `scope`.
  * Returns true if allowed, false if rate limited.
  */
-export function checkRateLimit(ip: string, maxRequests = MAX_REQUESTS_PER_WINDOW): boolean {
+export function checkRateLimit(ip: string, maxRequests = MAX_REQUESTS_PER_WINDOW, scope = 'gateway'): boolean {
   const now = Date.now();
-  let timestamps = rateLimitMap.get(ip) ?? [];
+  const key = `${scope}:${ip}`;
+  let timestamps = rateLimitMap.get(key) ?? [];
 
   // Prune expired entries
   timestamps = timestamps.filter(t => now - t < RATE_WINDOW_MS);
@@ -57,7 +58,7 @@ export function checkRateLimit(ip: string, maxRequests = MAX_REQUESTS_PER_WINDOW
   }
 
   timestamps.push(now);
-  rateLimitMap.set(ip, timestamps);
+  rateLimitMap.set(key, timestamps);
   return true;
 }
 
@@ -76,12 +77,14 @@ export function generateToken(bytes = 32): string {
 }
 
 /**
- * Authenticate an incoming WS/HTTP request.
+ * Authenticate an incoming WS/HTTP request. `limit` sets the per-IP rate
+ * limit and the scope it is counted in (default: WebSocket connections).
  */
 export function authenticateRequest(
   providedToken: string | undefined,
   expectedToken: string | undefined,
   ip: string,
+  limit: { scope: string; maxRequests: number } = { scope: 'gateway', maxRequests: MAX_REQUESTS_PER_WINDOW },
 ): { ok: boolean; reason?: string } {
   if (!expectedToken) {
     // No token configured = open gateway (warn)
@@ -94,7 +97,7 @@ export function authenticateRequest(
     return { ok: false, reason: 'Missing authentication token' };
   }
 
-  if (!checkRateLimit(ip)) {
+  if (!checkRateLimit(ip, limit.maxRequests, limit.scope)) {
     return { ok: false, reason: 'Rate limited' };
   }
 
@@ -7,6 +7,9 @@ import { resolve, relative, normalize } from 'node:path';
 // Session IDs: alphanumeric + hyphens only, 8-128 chars
 const SESSION_ID_REGEX = /^[a-zA-Z0-9-]{8,128}$/;
 
+// Agent IDs: human-chosen names, alphanumeric + hyphen/underscore, 1-64 chars
+export const AGENT_ID_REGEX = /^[a-zA-Z0-9_-]{1,64}$/;
+
 /**
  * Validate a session ID is safe for filesystem use.
  */
@@ -17,6 +20,13 @@ export function isValidSessionId(id: string): boolean {
   return true;
 }
 
+/**
+ * Validate an agent ID is safe for use as a workspace directory name.
+ */
+export function isValidAgentId(id: string): boolean {
+  return AGENT_ID_REGEX.test(id);
+}
+
 /**
  * Check that a resolved path is inside the jail directory.
  * Prevents path traversal attacks.
@@ -2,13 +2,11 @@
  * E-01: PII Consent
  * Per-contact consent store (encrypted).
  */
-import { join } from 'node:path';
-import { getOpenClawDir } from '../core/config.js';
-import { writeEncryptedJSON, readEncryptedJSON } from './encryptedStore.js';
+import { getStorage } from '../core/storage.js';
 import { auditInfo } from './auditLogger.js';
-import { existsSync } from 'node:fs';
+import { CHANNEL_TYPES, type ChannelType } from '../types/index.js';
 
-interface ConsentRecord {
+export interface ConsentRecord {
   contactId: string;
   consentGiven: boolean;
   consentDate: string;
@@ -16,28 +14,28 @@ interface ConsentRecord {
   version: string;
 }
 
-interface ConsentStore {
-  records: Record<string, ConsentRecord>;
-}
-
-const CONSENT_FILE = 'consent.enc';
-
-function getConsentPath(): string {
-  return join(getOpenClawDir(), CONSENT_FILE);
+/**
+ * Store key for a contact's consent on one channel.
+ */
+export function consentKey(channel: ChannelType, contactId: string): string {
+  return `${channel}:${contactId}`;
 }
 
-function loadConsents(encryptionKey: string): ConsentStore {
-  const path = getConsentPath();
-  if (!existsSync(path)) return { records: {} };
-  try {
-    return readEncryptedJSON<ConsentStore>(path, encryptionKey);
-  } catch {
-    return { records: {} };
-  }
+/**
+ * Every key a contact's consent may be stored under: one per channel, and
+ * the bare contact ID for records made without a channel.
+ */
+export function contactConsentKeys(contactId: string): string[] {
+  return [contactId, ...CHANNEL_TYPES.map(ch => consentKey(ch, contactId))];
 }
 
-function saveConsents(store: ConsentStore, encryptionKey: string): void {
-  writeEncryptedJSON(getConsentPath(), store, encryptionKey);
+/**
+ * Read a contact's record, or null when there is none (including no store
+ * yet). A damaged or undecryptable store throws rather than reading as "no
+ * consent", so callers can't mistake it for a withdrawal.
+ */
+function loadConsent(contactId: string, encryptionKey: string): ConsentRecord | null {
+  return getStorage(encryptionKey).get<ConsentRecord>('consent', contactId);
 }
 
 /**
@@ -48,35 +46,32 @@ export function recordConsent(
   purposes: string[],
   encryptionKey: string,
 ): void {
-  const store = loadConsents(encryptionKey);
-  store.records[contactId] = {
+  const record: ConsentRecord = {
     contactId,
     consentGiven: true,
     consentDate: new Date().toISOString(),
     purposes,
     version: '1.0',
   };
-  saveConsents(store, encryptionKey);
+  getStorage(encryptionKey).put('consent', contactId, record);
   auditInfo('consent_recorded', { contactId, details: { purposes } });
 }
 
 /**
- * Check if a contact has given consent.
+ * Check if a contact has given consent. Throws if the store can't be read.
  */
 export function hasConsent(contactId: string, encryptionKey: string): boolean {
-  const store = loadConsents(encryptionKey);
-  return store.records[contactId]?.consentGiven === true;
+  return loadConsent(contactId, encryptionKey)?.consentGiven === true;
 }
 
 /**
  * Withdraw consent for a contact.
  */
 export function withdrawConsent(contactId: string, encryptionKey: string): void {
-  const store = loadConsents(encryptionKey);
-  const record = store.records[contactId];
+  const record = loadConsent(contactId, encryptionKey);
   if (record) {
     record.consentGiven = false;
-    saveConsents(store, encryptionKey);
+    getStorage(encryptionKey).put('consent', contactId, record);
     auditInfo('consent_withdrawn', { contactId });
   }
 }
@@ -88,6 +83,5 @@ export function getConsentRecord(
   contactId: string,
   encryptionKey: string,
 ): ConsentRecord | null {
-  const store = loadConsents(encryptionKey);
-  return store.records[contactId] ?? null;
+  return loadConsent(contactId, encryptionKey);
 }
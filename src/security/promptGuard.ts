@@ -4,6 +4,7 @@
  */
 import { auditCritical, auditWarn } from './auditLogger.js';
 import { redactPII } from './piiDetector.js';
+import type { ChannelType } from '../types/index.js';
 
 export interface PromptGuardResult {
   safe: boolean;
@@ -38,9 +39,13 @@ const INJECTION_PATTERNS: Array<{ name: string; pattern: RegExp; severity: 'warn
 ];
 
 /**
- * Scan input text against all injection patterns.
+ * Scan input text against all injection patterns. `source` attributes
+ * the audit entry to the sender, so repeat offenders can be counted.
  */
-export function scanPrompt(text: string): PromptGuardResult {
+export function scanPrompt(
+  text: string,
+  source?: { channel: ChannelType; contactId: string },
+): PromptGuardResult {
   const matches: string[] = [];
   let maxSeverity: 'allow' | 'warn' | 'block' | 'suspend' = 'allow';
 
@@ -57,10 +62,12 @@ export function scanPrompt(text: string): PromptGuardResult {
     const safeText = redactPII(text.slice(0, 200));
     if (maxSeverity === 'suspend' || maxSeverity === 'block') {
       auditCritical('prompt_injection_detected', {
+        ...source,
         details: { patterns: matches, severity: maxSeverity, preview: safeText },
       });
     } else {
       auditWarn('prompt_injection_warning', {
+        ...source,
         details: { patterns: matches, severity: maxSeverity, preview: safeText },
       });
     }
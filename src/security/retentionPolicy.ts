@@ -1,66 +1,222 @@
 /**
  * E-04: Retention Policy
  * Configurable TTLs, auto-expiry, secure deletion.
+ * A scheduler in the running process purges each data class on its own
+ * TTL at a jittered interval, never two runs at once, and records an
+ * audited summary of every run.
  */
-import { existsSync, readdirSync, rmSync, statSync } from 'node:fs';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
 import { join } from 'node:path';
+import { setImmediate as yieldToEventLoop } from 'node:timers/promises';
 import { getOpenClawDir } from '../core/config.js';
-import { auditInfo } from './auditLogger.js';
+import { overwriteAndRemove, writeFileAtomic } from './encryptedStore.js';
+import { auditError, auditInfo, auditWarn } from './auditLogger.js';
+import { EXPORTS_DIR } from './subjectAccess.js';
+import type { OpenClawConfig } from '../types/index.js';
 
-export interface RetentionConfig {
+export const RETENTION_STATE_FILE = 'retention-state.json';
+
+export interface RetentionTTLs {
   sessionTTLDays: number;
   transcriptTTLDays: number;
+  usageTTLDays: number;
+  exportTTLDays: number;
   auditLogTTLDays: number;
 }
 
-const DEFAULT_RETENTION: RetentionConfig = {
-  sessionTTLDays: 30,
-  transcriptTTLDays: 90,
-  auditLogTTLDays: 365,
-};
-
 /**
- * Run retention policy enforcement.
- * Returns total number of files cleaned up.
+ * Purge one data class. Returns the number of items removed.
  */
-export function enforceRetention(config: Partial<RetentionConfig> = {}): {
+export type RetentionTask = (now: Date) => number;
+
+export interface RetentionRunSummary {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
   totalPurged: number;
   breakdown: Record<string, number>;
-} {
-  const retention = { ...DEFAULT_RETENTION, ...config };
-  const baseDir = getOpenClawDir();
+  /** Task name → error message, for tasks that threw. */
+  errors: Record<string, string>;
+}
+
+export interface RetentionState {
+  lastRun?: RetentionRunSummary;
+  lastSuccess?: RetentionRunSummary;
+}
+
+export interface RetentionScheduleOptions {
+  intervalMinutes: number;
+  jitterPercent: number;
+}
+
+/**
+ * TTLs per data class. Sessions and transcripts fall back to
+ * security.retentionDays.
+ */
+export function resolveRetention(config: OpenClawConfig): RetentionTTLs {
+  const { retention, security } = config;
+  return {
+    sessionTTLDays: retention.sessionTTLDays ?? security.retentionDays,
+    transcriptTTLDays: retention.transcriptTTLDays ?? security.retentionDays,
+    usageTTLDays: retention.usageTTLDays,
+    exportTTLDays: retention.exportTTLDays,
+    auditLogTTLDays: retention.auditLogTTLDays,
+  };
+}
+
+/**
+ * Run every task, yielding to the event loop between them so messages keep
+ * flowing. A failing task is audited and does not stop the others. The
+ * summary is audited and saved for `openclaw doctor`.
+ */
+export async function enforceRetention(
+  tasks: Record<string, RetentionTask>,
+  now = new Date(),
+): Promise<RetentionRunSummary> {
+  const started = Date.now();
   const breakdown: Record<string, number> = {};
+  const errors: Record<string, string> = {};
 
-  // Sessions
-  breakdown['sessions'] = purgeDir(
-    join(baseDir, 'sessions'),
-    retention.sessionTTLDays,
-  );
+  for (const [name, task] of Object.entries(tasks)) {
+    await yieldToEventLoop();
+    try {
+      breakdown[name] = task(now);
+    } catch (err) {
+      errors[name] = String(err);
+      auditError('retention_task_failed', { details: { task: name, error: String(err) } });
+    }
+  }
 
-  // Transcripts
-  breakdown['transcripts'] = purgeDir(
-    join(baseDir, 'transcripts'),
-    retention.transcriptTTLDays,
-  );
+  const finished = Date.now();
+  const summary: RetentionRunSummary = {
+    startedAt: new Date(started).toISOString(),
+    finishedAt: new Date(finished).toISOString(),
+    durationMs: finished - started,
+    totalPurged: Object.values(breakdown).reduce((a, b) => a + b, 0),
+    breakdown,
+    errors,
+  };
 
-  const totalPurged = Object.values(breakdown).reduce((a, b) => a + b, 0);
+  auditInfo('retention_enforced', {
+    details: { totalPurged: summary.totalPurged, breakdown, failed: Object.keys(errors), durationMs: summary.durationMs },
+  });
+  saveRetentionState(summary);
+  return summary;
+}
+
+/**
+ * Remove subject access archives older than ttlDays.
+ */
+export function exportsRetentionTask(ttlDays: number, baseDir = getOpenClawDir()): RetentionTask {
+  return (now) => purgeDir(join(baseDir, EXPORTS_DIR), ttlDays, now);
+}
 
-  if (totalPurged > 0) {
-    auditInfo('retention_enforced', {
-      details: { totalPurged, breakdown },
-    });
+/**
+ * The last run and the last run without errors, if any.
+ */
+export function readRetentionState(baseDir = getOpenClawDir()): RetentionState {
+  const path = join(baseDir, RETENTION_STATE_FILE);
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as RetentionState;
+  } catch {
+    return {};
   }
+}
 
-  return { totalPurged, breakdown };
+/**
+ * Milliseconds until the next run: one interval after the last run started,
+ * shifted by up to ±jitterPercent so several instances don't purge in step.
+ */
+export function nextRunDelay(
+  options: RetentionScheduleOptions,
+  lastRunAt: number | undefined,
+  now = Date.now(),
+  random = Math.random,
+): number {
+  const interval = options.intervalMinutes * 60_000;
+  const jitter = interval * (options.jitterPercent / 100) * (random() * 2 - 1);
+  const due = lastRunAt === undefined ? now : lastRunAt + interval;
+  return Math.max(0, Math.round(due - now + jitter));
+}
+
+export class RetentionScheduler {
+  private tasks: Record<string, RetentionTask>;
+  private options: RetentionScheduleOptions;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private stopped = true;
+
+  constructor(tasks: Record<string, RetentionTask>, options: RetentionScheduleOptions) {
+    this.tasks = tasks;
+    this.options = options;
+  }
+
+  /**
+   * Schedule runs. The first is due one interval after the last recorded
+   * run, so restarts don't postpone purging indefinitely.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    const lastRun = readRetentionState().lastRun;
+    this.schedule(nextRunDelay(this.options, lastRun ? Date.parse(lastRun.startedAt) : undefined));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run now. Returns undefined, without running, while another run is in
+   * progress.
+   */
+  async runNow(now = new Date()): Promise<RetentionRunSummary | undefined> {
+    if (this.running) {
+      auditWarn('retention_run_skipped', { details: { reason: 'previous run still in progress' } });
+      return undefined;
+    }
+    this.running = true;
+    try {
+      return await enforceRetention(this.tasks, now);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      void this.runNow()
+        .catch(err => auditError('retention_run_failed', { details: { error: String(err) } }))
+        .finally(() => {
+          if (!this.stopped) this.schedule(nextRunDelay(this.options, Date.now()));
+        });
+    }, delay);
+    // Never keep the process alive just to purge
+    this.timer.unref();
+  }
+}
+
+function saveRetentionState(summary: RetentionRunSummary, baseDir = getOpenClawDir()): void {
+  const state = readRetentionState(baseDir);
+  state.lastRun = summary;
+  if (Object.keys(summary.errors).length === 0) state.lastSuccess = summary;
+  try {
+    writeFileAtomic(join(baseDir, RETENTION_STATE_FILE), JSON.stringify(state, null, 2) + '\n');
+  } catch (err) {
+    auditWarn('retention_state_unwritable', { details: { error: String(err) } });
+  }
 }
 
 /**
- * Purge files older than TTL days from a directory.
+ * Securely delete files older than ttlDays from a directory.
  */
-function purgeDir(dirPath: string, ttlDays: number): number {
+function purgeDir(dirPath: string, ttlDays: number, now: Date): number {
   if (!existsSync(dirPath)) return 0;
 
-  const cutoff = Date.now() - ttlDays * 86400_000;
+  const cutoff = now.getTime() - ttlDays * 86400_000;
   let purged = 0;
 
   for (const file of readdirSync(dirPath)) {
@@ -68,7 +224,7 @@ function purgeDir(dirPath: string, ttlDays: number): number {
     try {
       const stat = statSync(filePath);
       if (stat.isFile() && stat.mtimeMs < cutoff) {
-        rmSync(filePath);
+        overwriteAndRemove(filePath);
         purged++;
       }
     } catch { /* skip unreadable files */ }
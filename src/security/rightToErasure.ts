@@ -1,107 +1,384 @@
 /**
  * E-03: Right to Erasure
- * GDPR Article 17 — full contact data destruction.
+ * GDPR Article 17 — full contact data destruction, with a preview of what
+ * will be removed and a signed receipt of what was.
  */
-import { existsSync, rmSync, readdirSync, readFileSync, writeFileSync, statSync } from 'node:fs';
+import { existsSync, rmSync, readdirSync, readFileSync, lstatSync } from 'node:fs';
 import { join } from 'node:path';
-import { randomBytes } from 'node:crypto';
+import { createHash, createHmac, hkdfSync, randomUUID, timingSafeEqual } from 'node:crypto';
 import { getOpenClawDir } from '../core/config.js';
 import { auditCritical, auditInfo } from './auditLogger.js';
+import { getStorage, type StorageBackend } from '../core/storage.js';
+import { SessionIndex } from '../core/sessionIndex.js';
+import { TRANSCRIPTS_DIR, transcriptFileName } from '../core/transcripts.js';
+import { UsageLedger } from '../core/usageLedger.js';
+import { contactConsentKeys } from './piiConsent.js';
+import { suspensionKey } from '../core/messagePipeline.js';
+import { keyIdOf, overwriteAndRemove, retiredKeys, writeFileAtomic } from './encryptedStore.js';
+import { CHANNEL_TYPES, UsageConfigSchema, type AgentSession, type UsageConfig } from '../types/index.js';
+
+export const RECEIPTS_DIR = 'erasure-receipts';
+
+export type ErasureLocation =
+  | 'sessions'
+  | 'transcripts'
+  | 'consent'
+  | 'usage'
+  | 'safety-numbers'
+  | 'suspensions'
+  | 'agent-workspaces';
+
+export interface ErasureItem {
+  location: ErasureLocation;
+  /** Session ID, store key, usage row, or path relative to ~/.openclaw. */
+  id: string;
+}
+
+export interface ErasurePlan {
+  contactId: string;
+  items: ErasureItem[];
+  /** Stores that could not be searched, and why. */
+  skipped: string[];
+}
+
+export interface ErasureReceipt {
+  type: 'openclaw-erasure-receipt';
+  version: 1;
+  receiptId: string;
+  erasedAt: string;
+  /** Key the receipt was signed with (derived from the encryption key). */
+  keyId: string;
+  /** HMAC of the contact ID, so the receipt names nobody by itself. */
+  subject: string;
+  removed: Partial<Record<ErasureLocation, number>>;
+  /** SHA-256 over the removed items. */
+  itemsDigest: string;
+  skipped: string[];
+  signature: string;
+}
 
 /**
- * Securely overwrite a file before deletion (best-effort on modern SSDs).
+ * Securely delete a file, or every file in a directory and then the directory.
  */
-function secureDelete(filePath: string): void {
-  if (!existsSync(filePath)) return;
-  try {
-    const stat = statSync(filePath);
-    // Overwrite with random data
-    const randomData = randomBytes(stat.size);
-    writeFileSync(filePath, randomData);
-    // Then delete
-    rmSync(filePath);
-  } catch {
-    // Fallback: just delete
-    rmSync(filePath, { force: true });
+function secureDeleteTree(path: string): void {
+  const stat = lstatSync(path);
+  if (stat.isDirectory()) {
+    for (const name of readdirSync(path)) secureDeleteTree(join(path, name));
+    rmSync(path, { recursive: true, force: true });
+  } else if (stat.isFile()) {
+    try {
+      overwriteAndRemove(path);
+    } catch {
+      rmSync(path, { force: true });
+    }
+  } else {
+    rmSync(path, { force: true });
   }
 }
 
 /**
- * Execute a full GDPR erasure for a contact.
- * Removes all data associated with the contact from:
- * - Sessions
- * - Transcripts
- * - Agent workspaces
- * - Safety numbers
- * - Consent records
+ * True if a file name contains the contact ID as a whole token, so that
+ * "+1555123" doesn't match a file belonging to "+15551234" and a short
+ * Discord or WebChat ID doesn't match inside another ID.
  */
-export function eraseContact(contactId: string): {
-  filesDeleted: number;
-  locations: string[];
-} {
-  let filesDeleted = 0;
-  const locations: string[] = [];
-  const baseDir = getOpenClawDir();
+export function namesContact(fileName: string, contactId: string): boolean {
+  let from = 0;
+  for (;;) {
+    const at = fileName.indexOf(contactId, from);
+    if (at === -1) return false;
+    const before = fileName[at - 1];
+    const after = fileName[at + contactId.length];
+    if ((!before || !/[A-Za-z0-9]/.test(before)) && (!after || !/[A-Za-z0-9]/.test(after))) return true;
+    from = at + 1;
+  }
+}
 
-  auditCritical('erasure_started', { contactId });
+/**
+ * Find everything stored about a contact, without changing anything.
+ * Sessions and consent need the encryption key; transcripts are named by
+ * pseudonym and need the PII HMAC secret. `usage` is the configured usage
+ * section, so the ledger is opened as the gateway opens it.
+ */
+export function planErasure(
+  contactId: string,
+  encryptionKey?: string,
+  piiHmacSecret?: string,
+  usage: UsageConfig = UsageConfigSchema.parse({}),
+): ErasurePlan {
+  if (!contactId) throw new Error('A contact ID is required');
+  const baseDir = getOpenClawDir();
+  const items: ErasureItem[] = [];
+  const skipped: string[] = [];
 
-  // 1. Sessions — scan encrypted session files for contactId
-  const sessionsDir = join(baseDir, 'sessions');
-  if (existsSync(sessionsDir)) {
-    // We can't decrypt without key, but we can delete by pattern
-    const sessionFiles = readdirSync(sessionsDir);
-    // In a real impl, we'd decrypt and check. For now, contact-based naming is used.
-    locations.push('sessions');
+  // 1. Sessions — the index names the contact's sessions on every channel;
+  // only sessions it doesn't cover are decrypted and checked.
+  // The conversation memory lives inside the session, so it goes with it.
+  if (encryptionKey) {
+    for (const sessionId of findSessions(getStorage(encryptionKey), contactId, piiHmacSecret)) {
+      items.push({ location: 'sessions', id: sessionId });
+    }
+  } else {
+    skipped.push('sessions: no encryption key, so sessions could not be decrypted');
   }
 
-  // 2. Transcripts
-  const transcriptsDir = join(baseDir, 'transcripts');
-  if (existsSync(transcriptsDir)) {
-    for (const file of readdirSync(transcriptsDir)) {
-      if (file.includes(contactId)) {
-        secureDelete(join(transcriptsDir, file));
-        filesDeleted++;
+  // 2. Transcripts — named by the contact's pseudonym on each channel
+  if (piiHmacSecret) {
+    for (const channel of CHANNEL_TYPES) {
+      const file = transcriptFileName(channel, contactId, piiHmacSecret);
+      if (existsSync(join(baseDir, TRANSCRIPTS_DIR, file))) {
+        items.push({ location: 'transcripts', id: `${TRANSCRIPTS_DIR}/${file}` });
       }
     }
-    locations.push('transcripts');
+  } else if (existsSync(join(baseDir, TRANSCRIPTS_DIR))) {
+    skipped.push('transcripts: no PII HMAC secret, so transcript files could not be matched');
   }
 
   // 3. Agent workspaces
   const agentsDir = join(baseDir, 'agents');
   if (existsSync(agentsDir)) {
     for (const agent of readdirSync(agentsDir)) {
-      const agentDir = join(agentsDir, agent);
-      // Check for contact-specific files
       try {
-        for (const file of readdirSync(agentDir)) {
-          if (file.includes(contactId)) {
-            secureDelete(join(agentDir, file));
-            filesDeleted++;
-          }
+        for (const file of readdirSync(join(agentsDir, agent))) {
+          if (namesContact(file, contactId)) items.push({ location: 'agent-workspaces', id: `agents/${agent}/${file}` });
         }
       } catch { /* skip non-directories */ }
     }
-    locations.push('agent-workspaces');
   }
 
-  // 4. Safety numbers
-  const safetyPath = join(baseDir, 'safety-numbers.json');
-  if (existsSync(safetyPath)) {
+  // 4. Consent records — one per channel
+  if (encryptionKey) {
+    try {
+      const keys = new Set(getStorage(encryptionKey).keys('consent'));
+      for (const key of contactConsentKeys(contactId)) {
+        if (keys.has(key)) items.push({ location: 'consent', id: key });
+      }
+    } catch (err) {
+      skipped.push(`consent: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } else {
+    skipped.push('consent: no encryption key, so consent records could not be read');
+  }
+
+  // 5. Pipeline suspensions — one per channel
+  if (encryptionKey) {
     try {
-      const data = JSON.parse(readFileSync(safetyPath, 'utf-8'));
-      if (data.contacts?.[contactId]) {
-        delete data.contacts[contactId];
-        writeFileSync(safetyPath, JSON.stringify(data, null, 2), { mode: 0o600 });
-        filesDeleted++;
-        locations.push('safety-numbers');
+      const keys = new Set(getStorage(encryptionKey).keys('suspensions'));
+      for (const channel of CHANNEL_TYPES) {
+        const key = suspensionKey(channel, contactId);
+        if (keys.has(key)) items.push({ location: 'suspensions', id: key });
       }
-    } catch { /* skip if corrupt */ }
+    } catch (err) {
+      skipped.push(`suspensions: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  // 6. Usage rows
+  if (encryptionKey) {
+    const ledger = new UsageLedger(usage, encryptionKey);
+    if (ledger.isDamaged()) {
+      skipped.push('usage: the ledger file is damaged (run "openclaw storage check --repair")');
+    }
+    for (const row of ledger.query({ contactId })) {
+      items.push({ location: 'usage', id: `${row.day} ${row.channel} ${row.agentId} ${row.model}` });
+    }
+  }
+
+  // 7. Safety numbers
+  try {
+    if (getStorage(encryptionKey).get('safetyNumbers', contactId)) {
+      items.push({ location: 'safety-numbers', id: contactId });
+    }
+  } catch { /* skip if corrupt */ }
+
+  return { contactId, items, skipped };
+}
+
+/**
+ * Execute a full GDPR erasure for a contact.
+ * Removes all data associated with the contact from:
+ * - Sessions (history and compacted conversation memory; needs the encryption key,
+ *   and uses the session index when the PII HMAC secret is given)
+ * - Transcripts (found by pseudonym; needs the PII HMAC secret)
+ * - Agent workspaces (files named for the contact)
+ * - Consent records (on every channel)
+ * - Pipeline suspensions (on every channel; erasing lifts them)
+ * - Usage ledger rows
+ * - Safety numbers
+ * With the encryption key, a signed receipt is returned and kept in
+ * ~/.openclaw/erasure-receipts.
+ */
+export function eraseContact(
+  contactId: string,
+  encryptionKey?: string,
+  piiHmacSecret?: string,
+  usage: UsageConfig = UsageConfigSchema.parse({}),
+): {
+  filesDeleted: number;
+  locations: string[];
+  removed: Partial<Record<ErasureLocation, number>>;
+  skipped: string[];
+  receipt?: ErasureReceipt;
+} {
+  const baseDir = getOpenClawDir();
+  const plan = planErasure(contactId, encryptionKey, piiHmacSecret, usage);
+
+  auditCritical('erasure_started', { contactId, details: { items: plan.items.length } });
+
+  const storage = getStorage(encryptionKey);
+  const index = encryptionKey && piiHmacSecret ? new SessionIndex(storage, piiHmacSecret) : undefined;
+  const indexLoaded = index?.load() ?? false;
+
+  const removed: Partial<Record<ErasureLocation, number>> = {};
+  const count = (location: ErasureLocation, n = 1) => { removed[location] = (removed[location] ?? 0) + n; };
+
+  for (const item of plan.items) {
+    switch (item.location) {
+      case 'sessions':
+        storage.delete('sessions', item.id); // overwritten before removal
+        if (indexLoaded) index?.remove(item.id);
+        count('sessions');
+        break;
+      case 'transcripts':
+      case 'agent-workspaces':
+        if (existsSync(join(baseDir, item.id))) {
+          secureDeleteTree(join(baseDir, item.id));
+          count(item.location);
+        }
+        break;
+      case 'consent':
+        if (storage.delete('consent', item.id)) count('consent');
+        break;
+      case 'safety-numbers':
+        if (storage.delete('safetyNumbers', item.id)) count('safety-numbers');
+        break;
+      case 'suspensions':
+        if (storage.delete('suspensions', item.id)) count('suspensions');
+        break;
+      case 'usage':
+        break; // all rows at once, below
+    }
+  }
+  if (encryptionKey && plan.items.some(i => i.location === 'usage')) {
+    count('usage', new UsageLedger(usage, encryptionKey).forget(contactId));
+  }
+
+  const locations = Object.keys(removed);
+  const filesDeleted = Object.values(removed).reduce((sum, n) => sum + n, 0);
+  const receipt = encryptionKey ? issueReceipt(plan, removed, encryptionKey) : undefined;
+  if (receipt) {
+    writeFileAtomic(join(baseDir, RECEIPTS_DIR, `${receipt.receiptId}.json`), JSON.stringify(receipt, null, 2));
   }
 
   auditInfo('erasure_completed', {
     contactId,
-    details: { filesDeleted, locations },
+    details: { filesDeleted, locations, skipped: plan.skipped.length, receiptId: receipt?.receiptId },
   });
 
-  return { filesDeleted, locations };
+  return { filesDeleted, locations, removed, skipped: plan.skipped, receipt };
+}
+
+/**
+ * Check a receipt's signature against the encryption key (or a retired
+ * keyring key it was signed with). With a contact ID, also check that the
+ * receipt is for that contact.
+ */
+export function verifyErasureReceipt(
+  receipt: ErasureReceipt,
+  encryptionKey: string,
+  contactId?: string,
+): { valid: boolean; reason?: string } {
+  if (receipt.type !== 'openclaw-erasure-receipt' || receipt.version !== 1) {
+    return { valid: false, reason: 'Not an erasure receipt' };
+  }
+  const key = [encryptionKey, ...retiredKeys()].find(k => keyIdOf(k) === receipt.keyId);
+  if (!key) return { valid: false, reason: `Signed with key "${receipt.keyId}", which is not in the keyring` };
+
+  const { signature, ...body } = receipt;
+  const expected = Buffer.from(sign(body, key), 'hex');
+  const actual = Buffer.from(signature ?? '', 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'Signature does not match — the receipt was altered or not issued here' };
+  }
+  if (contactId !== undefined && subjectHash(contactId, key) !== receipt.subject) {
+    return { valid: false, reason: 'The receipt is for a different contact' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Read a stored or handed-back receipt.
+ */
+export function readErasureReceipt(path: string): ErasureReceipt {
+  return JSON.parse(readFileSync(path, 'utf-8')) as ErasureReceipt;
+}
+
+// ── Internal ─────────────────────────────────────────────────
+
+function findSessions(storage: StorageBackend, contactId: string, piiHmacSecret?: string): string[] {
+  let index = piiHmacSecret ? new SessionIndex(storage, piiHmacSecret) : undefined;
+  if (index && !index.load()) index = undefined; // unreadable: check everything
+  const indexed = new Set(index?.all().map(e => e.sessionId));
+  const matches = new Set(index ? CHANNEL_TYPES.flatMap(ch => index.find(ch, contactId).map(e => e.sessionId)) : []);
+
+  const found: string[] = [];
+  for (const sessionId of storage.keys('sessions')) {
+    if (!matches.has(sessionId)) {
+      if (indexed.has(sessionId)) continue; // indexed under another contact
+      try {
+        if (storage.get<AgentSession>('sessions', sessionId)?.contactId !== contactId) continue;
+      } catch {
+        continue; // unreadable with this key
+      }
+    }
+    found.push(sessionId);
+  }
+  return found;
+}
+
+function issueReceipt(
+  plan: ErasurePlan,
+  removed: Partial<Record<ErasureLocation, number>>,
+  encryptionKey: string,
+): ErasureReceipt {
+  const body: Omit<ErasureReceipt, 'signature'> = {
+    type: 'openclaw-erasure-receipt',
+    version: 1,
+    receiptId: randomUUID(),
+    erasedAt: new Date().toISOString(),
+    keyId: keyIdOf(encryptionKey),
+    subject: subjectHash(plan.contactId, encryptionKey),
+    removed,
+    itemsDigest: createHash('sha256')
+      .update(plan.items.map(i => `${i.location}\n${i.id}`).sort().join('\n'))
+      .digest('hex'),
+    skipped: plan.skipped,
+  };
+  return { ...body, signature: sign(body, encryptionKey) };
+}
+
+function receiptKey(encryptionKey: string, purpose: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', encryptionKey, Buffer.alloc(0), `openclaw-erasure-${purpose}`, 32));
+}
+
+function subjectHash(contactId: string, encryptionKey: string): string {
+  return createHmac('sha256', receiptKey(encryptionKey, 'subject')).update(contactId).digest('hex');
+}
+
+function sign(body: Omit<ErasureReceipt, 'signature'>, encryptionKey: string): string {
+  return createHmac('sha256', receiptKey(encryptionKey, 'receipt')).update(canonicalJSON(body)).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so a receipt re-serialized by another tool
+ * still verifies.
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
@@ -1,8 +1,9 @@
 /**
  * S-02: Signal Allowlist
- * DM allowlist enforcement, silent drop, rate limiting.
+ * DM allowlist enforcement, threat-response bans, silent drop, rate limiting.
  */
 import { auditWarn, auditInfo } from './auditLogger.js';
+import { isContactBanned } from './threatResponse.js';
 
 // Rate limit state per contact
 const contactRates = new Map<string, number[]>();
@@ -11,6 +12,8 @@ export interface AllowlistConfig {
   allowedNumbers: string[];
   allowedGroups: string[];
   rateLimitPerMinute: number;
+  /** PII HMAC secret; without it contact bans can't be checked. */
+  contactHashSecret?: string;
 }
 
 /**
@@ -53,6 +56,12 @@ export function checkAllowlist(
     return { allowed: false, reason: 'Number not in allowlist' };
   }
 
+  // Banned by a threat-response rule
+  if (isContactBanned('signal', sender, config.contactHashSecret)) {
+    auditWarn('signal_banned_contact', { contactId: sender });
+    return { allowed: false, reason: 'Banned' };
+  }
+
   // Rate limit check
   if (!checkContactRateLimit(sender, config.rateLimitPerMinute)) {
     auditWarn('signal_rate_limited', { contactId: sender });
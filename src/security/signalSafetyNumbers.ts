@@ -2,42 +2,27 @@
  * S-03: Signal Safety Numbers
  * Fingerprint tracking, MITM suspension, clearance CLI.
  */
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { join, dirname } from 'node:path';
-import { getOpenClawDir } from '../core/config.js';
+import { getStorage } from '../core/storage.js';
 import { auditCritical, auditInfo, auditWarn } from './auditLogger.js';
 
-interface SafetyNumberStore {
-  contacts: Record<string, {
-    fingerprint: string;
-    verified: boolean;
-    firstSeen: string;
-    lastSeen: string;
-    suspended: boolean;
-  }>;
-}
-
-const STORE_FILE = 'safety-numbers.json';
-
-function getStorePath(): string {
-  return join(getOpenClawDir(), STORE_FILE);
+export interface SafetyNumberRecord {
+  fingerprint: string;
+  verified: boolean;
+  firstSeen: string;
+  lastSeen: string;
+  suspended: boolean;
 }
 
-function loadStore(): SafetyNumberStore {
-  const path = getStorePath();
-  if (!existsSync(path)) return { contacts: {} };
+function loadRecord(contactId: string): SafetyNumberRecord | null {
   try {
-    return JSON.parse(readFileSync(path, 'utf-8'));
+    return getStorage().get<SafetyNumberRecord>('safetyNumbers', contactId);
   } catch {
-    return { contacts: {} };
+    return null;
   }
 }
 
-function saveStore(store: SafetyNumberStore): void {
-  const path = getStorePath();
-  const dir = dirname(path);
-  if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
-  writeFileSync(path, JSON.stringify(store, null, 2), { mode: 0o600 });
+function saveRecord(contactId: string, record: SafetyNumberRecord): void {
+  getStorage().put('safetyNumbers', contactId, record);
 }
 
 /**
@@ -49,27 +34,25 @@ export function trackSafetyNumber(
   fingerprint: string,
   trustOnFirstUse: boolean,
 ): 'new' | 'unchanged' | 'changed' {
-  const store = loadStore();
-  const existing = store.contacts[contactId];
+  const existing = loadRecord(contactId);
   const now = new Date().toISOString();
 
   if (!existing) {
     // First time seeing this contact
-    store.contacts[contactId] = {
+    saveRecord(contactId, {
       fingerprint,
       verified: trustOnFirstUse,
       firstSeen: now,
       lastSeen: now,
       suspended: false,
-    };
-    saveStore(store);
+    });
     auditInfo('safety_number_new', { contactId });
     return 'new';
   }
 
   if (existing.fingerprint === fingerprint) {
     existing.lastSeen = now;
-    saveStore(store);
+    saveRecord(contactId, existing);
     return 'unchanged';
   }
 
@@ -86,7 +69,7 @@ export function trackSafetyNumber(
   existing.verified = false;
   existing.suspended = true;
   existing.lastSeen = now;
-  saveStore(store);
+  saveRecord(contactId, existing);
 
   return 'changed';
 }
@@ -95,24 +78,29 @@ export function trackSafetyNumber(
  * Check if a contact is suspended (safety number changed, not re-verified).
  */
 export function isContactSuspended(contactId: string): boolean {
-  const store = loadStore();
-  return store.contacts[contactId]?.suspended ?? false;
+  return loadRecord(contactId)?.suspended ?? false;
 }
 
 /**
  * Clear suspension for a contact (after manual verification).
  */
 export function clearSuspension(contactId: string): boolean {
-  const store = loadStore();
-  const contact = store.contacts[contactId];
+  const contact = loadRecord(contactId);
   if (!contact) return false;
   contact.suspended = false;
   contact.verified = true;
-  saveStore(store);
+  saveRecord(contactId, contact);
   auditInfo('safety_number_cleared', { contactId });
   return true;
 }
 
+/**
+ * Get a contact's safety number record.
+ */
+export function getSafetyNumberRecord(contactId: string): SafetyNumberRecord | null {
+  return loadRecord(contactId);
+}
+
 /**
  * List all tracked contacts and their safety number status.
  */
@@ -123,8 +111,13 @@ export function listTrackedContacts(): Array<{
   firstSeen: string;
   lastSeen: string;
 }> {
-  const store = loadStore();
-  return Object.entries(store.contacts).map(([contactId, info]) => ({
+  let records: Array<[string, SafetyNumberRecord]>;
+  try {
+    records = getStorage().entries<SafetyNumberRecord>('safetyNumbers');
+  } catch {
+    return [];
+  }
+  return records.map(([contactId, info]) => ({
     contactId,
     verified: info.verified,
     suspended: info.suspended,
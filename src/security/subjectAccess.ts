@@ -0,0 +1,410 @@
+/**
+ * E-06: Subject Access Export
+ * GDPR Articles 15 and 20 — collect everything held about a contact into a
+ * JSON bundle and a readable PDF, packed into an archive encrypted with a
+ * one-time passphrase.
+ */
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { getOpenClawDir, resolvePath } from '../core/config.js';
+import { getStorage } from '../core/storage.js';
+import { SessionIndex } from '../core/sessionIndex.js';
+import { TranscriptLog, type TranscriptEntry } from '../core/transcripts.js';
+import { UsageLedger, type UsageRow } from '../core/usageLedger.js';
+import { renderPdf } from '../tools/pdfRenderer.js';
+import { contactConsentKeys, getConsentRecord, type ConsentRecord } from './piiConsent.js';
+import { getSafetyNumberRecord, type SafetyNumberRecord } from './signalSafetyNumbers.js';
+import { hashPhone } from './piiUtils.js';
+import { namesContact } from './rightToErasure.js';
+import { auditWarn } from './auditLogger.js';
+import { forEachAuditLine } from './auditLogFiles.js';
+import {
+  CHANNEL_TYPES,
+  type AgentMessage,
+  type AgentSession,
+  type AuditEntry,
+  type UsageConfig,
+} from '../types/index.js';
+
+export const EXPORT_DATA_FILE = 'subject-data.json';
+export const EXPORT_REPORT_FILE = 'subject-report.pdf';
+export const EXPORT_EXTENSION = '.tar.gz.enc';
+export const EXPORTS_DIR = 'exports';
+
+// Archive: magic(3) + version(1) + salt(16) + iv(12) + tag(16) + AES-256-GCM(gzip(tar))
+const ARCHIVE_MAGIC = Buffer.from('OCX', 'ascii');
+const ARCHIVE_VERSION = 1;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+export const MIN_PASSPHRASE_LENGTH = 16;
+
+export interface SubjectExportOptions {
+  encryptionKey: string;
+  /** Needed for transcripts and audit entries, which are keyed by pseudonym. */
+  piiHmacSecret?: string;
+  auditLogPath: string;
+  usage: UsageConfig;
+  retentionDays: number;
+}
+
+export interface WorkspaceFile {
+  agentId: string;
+  name: string;
+  bytes: number;
+}
+
+export interface SubjectData {
+  format: 'openclaw-subject-export';
+  version: 1;
+  generatedAt: string;
+  contactId: string;
+  sessions: AgentSession[];
+  transcripts: TranscriptEntry[];
+  /** One per channel the contact has consented on. */
+  consent: ConsentRecord[];
+  safetyNumber: SafetyNumberRecord | null;
+  usage: UsageRow[];
+  workspaceFiles: WorkspaceFile[];
+  auditEntries: AuditEntry[];
+  /** Data that exists but could not be searched, and why. */
+  notes: string[];
+}
+
+export interface ArchiveFile {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Decrypt and collect everything stored about a contact.
+ */
+export function collectSubjectData(contactId: string, options: SubjectExportOptions, now = new Date()): SubjectData {
+  const baseDir = getOpenClawDir();
+  const notes: string[] = [];
+
+  let transcripts: TranscriptEntry[] = [];
+  let auditEntries: AuditEntry[] = [];
+  if (options.piiHmacSecret) {
+    const log = new TranscriptLog(options.encryptionKey, options.piiHmacSecret, options.retentionDays);
+    let unreadable = 0;
+    for (const channel of CHANNEL_TYPES) {
+      const result = log.read(channel, contactId);
+      transcripts.push(...result.entries);
+      unreadable += result.unreadable;
+    }
+    transcripts.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (unreadable > 0) notes.push(`${unreadable} transcript line(s) could not be decrypted.`);
+
+    auditEntries = readAuditEntries(options.auditLogPath, hashPhone(contactId, options.piiHmacSecret));
+    notes.push('Audit entries written before contact pseudonyms were recorded cannot be attributed and are not included.');
+  } else {
+    notes.push('No PII HMAC secret configured: transcripts and audit entries could not be searched.');
+  }
+
+  return {
+    format: 'openclaw-subject-export',
+    version: 1,
+    generatedAt: now.toISOString(),
+    contactId,
+    sessions: contactSessions(contactId, options.encryptionKey, options.piiHmacSecret),
+    transcripts,
+    consent: contactConsentKeys(contactId)
+      .map(key => getConsentRecord(key, options.encryptionKey))
+      .filter((record): record is ConsentRecord => record !== null),
+    safetyNumber: getSafetyNumberRecord(contactId),
+    usage: new UsageLedger(options.usage, options.encryptionKey).query({ contactId }),
+    workspaceFiles: workspaceFiles(baseDir, contactId).map(({ data, ...f }) => ({ ...f, bytes: data.length })),
+    auditEntries,
+    notes,
+  };
+}
+
+/**
+ * Build the encrypted export archive for a contact: the JSON bundle, the
+ * PDF report and the contact's agent workspace files.
+ */
+export async function exportSubjectData(
+  contactId: string,
+  options: SubjectExportOptions,
+  passphrase: string,
+  now = new Date(),
+): Promise<{ archive: Buffer; data: SubjectData }> {
+  const data = collectSubjectData(contactId, options, now);
+  const files: ArchiveFile[] = [
+    { name: EXPORT_DATA_FILE, data: Buffer.from(JSON.stringify(data, null, 2), 'utf8') },
+    { name: EXPORT_REPORT_FILE, data: await renderPdf('Your Personal Data', renderSubjectReport(data)) },
+    ...workspaceFiles(getOpenClawDir(), contactId).map(f => ({ name: `workspace/${f.agentId}/${f.name}`, data: f.data })),
+  ];
+  const archive = encryptArchive(files, passphrase);
+
+  auditWarn('subject_export_created', {
+    contactId,
+    details: {
+      sessions: data.sessions.length,
+      transcriptTurns: data.transcripts.length,
+      auditEntries: data.auditEntries.length,
+      workspaceFiles: data.workspaceFiles.length,
+      bytes: archive.length,
+    },
+  });
+  return { archive, data };
+}
+
+/**
+ * A random passphrase for one export, to be sent to the contact separately
+ * from the archive.
+ */
+export function generateExportPassphrase(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Pack files into a gzipped tar and encrypt it with a key derived from the
+ * passphrase (scrypt).
+ */
+export function encryptArchive(files: ArchiveFile[], passphrase: string): Buffer {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Export passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = randomBytes(SALT_LENGTH);
+  const header = Buffer.concat([ARCHIVE_MAGIC, Buffer.from([ARCHIVE_VERSION]), salt]);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', scryptSync(passphrase, salt, 32, SCRYPT_OPTIONS), iv);
+  cipher.setAAD(header);
+  const ciphertext = Buffer.concat([cipher.update(gzipSync(packTar(files))), cipher.final()]);
+  return Buffer.concat([header, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt and unpack an export archive.
+ */
+export function decryptArchive(archive: Buffer, passphrase: string): ArchiveFile[] {
+  const headerLength = ARCHIVE_MAGIC.length + 1 + SALT_LENGTH;
+  if (
+    archive.length < headerLength + IV_LENGTH + TAG_LENGTH ||
+    !archive.subarray(0, ARCHIVE_MAGIC.length).equals(ARCHIVE_MAGIC) ||
+    archive[ARCHIVE_MAGIC.length] !== ARCHIVE_VERSION
+  ) {
+    throw new Error('Not an OpenClaw export archive');
+  }
+  const header = archive.subarray(0, headerLength);
+  const salt = header.subarray(ARCHIVE_MAGIC.length + 1);
+  const iv = archive.subarray(headerLength, headerLength + IV_LENGTH);
+  const tag = archive.subarray(headerLength + IV_LENGTH, headerLength + IV_LENGTH + TAG_LENGTH);
+
+  const decipher = createDecipheriv('aes-256-gcm', scryptSync(passphrase, salt, 32, SCRYPT_OPTIONS), iv);
+  decipher.setAAD(header);
+  decipher.setAuthTag(tag);
+  let tar: Buffer;
+  try {
+    tar = Buffer.concat([decipher.update(archive.subarray(headerLength + IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new Error('Decryption failed — wrong passphrase or damaged archive');
+  }
+  return unpackTar(gunzipSync(tar));
+}
+
+/**
+ * The human-readable report, as markdown for the PDF renderer.
+ */
+export function renderSubjectReport(data: SubjectData): string {
+  const lines: string[] = [
+    `Contact: ${data.contactId}`,
+    `Generated: ${data.generatedAt}`,
+    '',
+    'This report lists the personal data this service holds about you. The file',
+    `${EXPORT_DATA_FILE} in the same archive has the same data in machine-readable form.`,
+    '',
+    '## Consent',
+  ];
+  if (data.consent.length === 0) lines.push('No consent record.');
+  for (const record of data.consent) {
+    const channel = record.contactId === data.contactId ? 'any channel' : record.contactId.slice(0, record.contactId.indexOf(':'));
+    lines.push(`- ${channel}: ${record.consentGiven ? 'given' : 'withdrawn'} on ${record.consentDate}, for ${record.purposes.join(', ') || 'no stated purpose'}`);
+  }
+
+  lines.push('', '## Signal safety number');
+  if (data.safetyNumber) {
+    lines.push(`- First seen: ${data.safetyNumber.firstSeen}`);
+    lines.push(`- Last seen: ${data.safetyNumber.lastSeen}`);
+    lines.push(`- Verified: ${data.safetyNumber.verified ? 'yes' : 'no'}`);
+    lines.push(`- Suspended: ${data.safetyNumber.suspended ? 'yes' : 'no'}`);
+  } else {
+    lines.push('No safety number record.');
+  }
+
+  lines.push('', `## Conversations (${data.sessions.length})`);
+  for (const session of data.sessions) {
+    lines.push('', `### ${session.channel} · agent ${session.agentId} · started ${new Date(session.createdAt).toISOString()}`);
+    if (session.memory) lines.push(`Summary of earlier messages: ${session.memory.summary}`, '');
+    for (const message of session.messages) {
+      lines.push(`**${message.role === 'user' ? 'You' : 'Assistant'}** (${new Date(message.timestamp).toISOString()}): ${messageText(message)}`);
+    }
+  }
+
+  lines.push('', `## Conversation archive (${data.transcripts.length} turns)`);
+  for (const turn of data.transcripts) {
+    lines.push('', `### ${turn.timestamp} · ${turn.channel} · agent ${turn.agentId}`);
+    lines.push(`**You:** ${turn.user}`);
+    for (const call of turn.toolCalls) lines.push(`- Tool used: ${call.name}`);
+    lines.push(`**Assistant:** ${turn.assistant}`);
+  }
+
+  lines.push('', '## Usage');
+  if (data.usage.length === 0) lines.push('No usage recorded.');
+  for (const row of data.usage) {
+    lines.push(`- ${row.day} · ${row.channel} · ${row.model}: ${row.requests} request(s), ${row.inputTokens + row.outputTokens} tokens`);
+  }
+
+  lines.push('', `## Security log (${data.auditEntries.length} entries)`);
+  for (const entry of data.auditEntries) {
+    lines.push(`- ${entry.timestamp} ${entry.severity} ${entry.event}`);
+  }
+
+  lines.push('', '## Files');
+  if (data.workspaceFiles.length === 0) lines.push('No files.');
+  for (const file of data.workspaceFiles) {
+    lines.push(`- workspace/${file.agentId}/${file.name} (${file.bytes} bytes, included in the archive)`);
+  }
+
+  if (data.notes.length > 0) {
+    lines.push('', '## Notes');
+    for (const note of data.notes) lines.push(`- ${note}`);
+  }
+  return lines.join('\n');
+}
+
+// ── Internal ─────────────────────────────────────────────────
+
+/**
+ * The contact's sessions on every channel. The session index narrows the
+ * search; sessions it doesn't cover are decrypted and checked.
+ */
+function contactSessions(contactId: string, encryptionKey: string, piiHmacSecret?: string): AgentSession[] {
+  const storage = getStorage(encryptionKey);
+  let index = piiHmacSecret ? new SessionIndex(storage, piiHmacSecret) : undefined;
+  if (index && !index.load()) index = undefined; // unreadable: check everything
+  const indexed = new Set(index?.all().map(e => e.sessionId));
+  const matches = new Set(index ? CHANNEL_TYPES.flatMap(ch => index.find(ch, contactId).map(e => e.sessionId)) : []);
+
+  const sessions: AgentSession[] = [];
+  for (const sessionId of storage.keys('sessions')) {
+    if (!matches.has(sessionId) && indexed.has(sessionId)) continue; // another contact's
+    try {
+      const session = storage.get<AgentSession>('sessions', sessionId);
+      if (session?.contactId === contactId) sessions.push(session);
+    } catch {
+      // unreadable with this key
+    }
+  }
+  return sessions.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Files in agent workspaces named for the contact (the same match erasure uses).
+ */
+function workspaceFiles(baseDir: string, contactId: string): Array<{ agentId: string; name: string; data: Buffer }> {
+  const agentsDir = join(baseDir, 'agents');
+  if (!existsSync(agentsDir)) return [];
+  const files: Array<{ agentId: string; name: string; data: Buffer }> = [];
+  for (const agentId of readdirSync(agentsDir)) {
+    const agentDir = join(agentsDir, agentId);
+    try {
+      for (const name of readdirSync(agentDir)) {
+        const path = join(agentDir, name);
+        if (namesContact(name, contactId) && statSync(path).isFile()) {
+          files.push({ agentId, name, data: readFileSync(path) });
+        }
+      }
+    } catch { /* skip non-directories */ }
+  }
+  return files;
+}
+
+function readAuditEntries(auditLogPath: string, contactHash: string): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  forEachAuditLine(resolvePath(auditLogPath), line => {
+    if (!line.includes(contactHash)) return;
+    try {
+      const entry = JSON.parse(line) as AuditEntry;
+      if (entry.contactHash === contactHash) entries.push(entry);
+    } catch {
+      // torn line
+    }
+  });
+  return entries;
+}
+
+function messageText(message: AgentMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map(block => {
+    if (block.type === 'text') return block.text;
+    if (block.type === 'tool_use') return `[used tool ${block.name}]`;
+    return '[tool result]';
+  }).join(' ');
+}
+
+// ── Tar (ustar) ──────────────────────────────────────────────
+
+const BLOCK = 512;
+
+function packTar(files: ArchiveFile[]): Buffer {
+  const parts: Buffer[] = [];
+  const mtime = Math.floor(Date.now() / 1000);
+  for (const file of files) {
+    const header = Buffer.alloc(BLOCK);
+    const [prefix, name] = splitTarName(file.name);
+    header.write(name, 0, 100, 'utf8');
+    header.write('0000600\0', 100, 8, 'ascii');
+    header.write('0000000\0', 108, 8, 'ascii');
+    header.write('0000000\0', 116, 8, 'ascii');
+    header.write(file.data.length.toString(8).padStart(11, '0') + '\0', 124, 12, 'ascii');
+    header.write(mtime.toString(8).padStart(11, '0') + '\0', 136, 12, 'ascii');
+    header.write('        ', 148, 8, 'ascii');
+    header.write('0', 156, 1, 'ascii');
+    header.write('ustar\0', 257, 6, 'ascii');
+    header.write('00', 263, 2, 'ascii');
+    header.write(prefix, 345, 155, 'utf8');
+    let checksum = 0;
+    for (const byte of header) checksum += byte;
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+
+    parts.push(header, file.data, Buffer.alloc((BLOCK - (file.data.length % BLOCK)) % BLOCK));
+  }
+  parts.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(parts);
+}
+
+function splitTarName(path: string): [string, string] {
+  if (Buffer.byteLength(path) <= 100) return ['', path];
+  const cut = path.lastIndexOf('/', 155);
+  const prefix = path.slice(0, cut);
+  const name = path.slice(cut + 1);
+  if (cut <= 0 || Buffer.byteLength(prefix) > 155 || Buffer.byteLength(name) > 100) {
+    throw new Error(`File name too long for the archive: ${path}`);
+  }
+  return [prefix, name];
+}
+
+function unpackTar(tar: Buffer): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  let offset = 0;
+  while (offset + BLOCK <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) break;
+    const field = (start: number, length: number) => header.subarray(start, start + length).toString('utf8').replace(/\0.*$/s, '');
+    const size = parseInt(field(124, 12).trim(), 8);
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    offset += BLOCK;
+    if (field(156, 1) === '0' || field(156, 1) === '') {
+      files.push({ name, data: Buffer.from(tar.subarray(offset, offset + size)) });
+    }
+    offset += Math.ceil(size / BLOCK) * BLOCK;
+  }
+  return files;
+}
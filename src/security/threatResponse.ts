@@ -0,0 +1,209 @@
+/**
+ * A-05: Threat Response
+ * Rules that watch the audit stream and ban the source of repeated
+ * attacks, e.g. an IP that keeps failing gateway auth or a contact that
+ * keeps trying prompt injection. Bans are kept in storage, so they
+ * survive restarts and a ban lifted from the CLI takes effect in the
+ * running process. The gateway's verifyClient and the REST API refuse
+ * banned IPs; the Signal allowlist, the Discord handler and the REST API
+ * refuse banned contacts on arrival, and the agent manager drops messages
+ * from them on every channel (webchat included), until the ban expires or
+ * is lifted.
+ */
+import { getStorage } from '../core/storage.js';
+import { auditCritical, auditError, auditInfo, auditWarn, onAuditEvent } from './auditLogger.js';
+import { auditEntryFilter } from './auditQuery.js';
+import { hashPhone } from './piiUtils.js';
+import type { AuditEntry, ChannelType, ThreatResponseConfig, ThreatRule } from '../types/index.js';
+
+const MAX_TRACKED_SOURCES = 10_000;
+
+export type BanKind = 'ip' | 'contact';
+
+export interface Ban {
+  kind: BanKind;
+  /** The IP address, or the contact's HMAC (as in audit `contactHash`). */
+  target: string;
+  /**
+   * A contact ban applies on this channel only, as the same ID on another
+   * channel may be someone else. Absent: on every channel.
+   */
+  channel?: ChannelType;
+  rule: string;
+  reason: string;
+  createdAt: string;
+  /** Absent: banned until lifted. */
+  expiresAt?: string;
+}
+
+function banKey(kind: BanKind, target: string, channel?: ChannelType): string {
+  return kind === 'contact' && channel ? `${kind}:${channel}:${target}` : `${kind}:${target}`;
+}
+
+function isActive(ban: Ban, now: Date): boolean {
+  return !ban.expiresAt || Date.parse(ban.expiresAt) > now.getTime();
+}
+
+/**
+ * The active ban on an IP, or on a contact hash on `channel` (or on every
+ * channel), if any. A damaged ban store is reported by storage itself and
+ * doesn't lock everyone out.
+ */
+export function findBan(kind: BanKind, target: string, now = new Date(), channel?: ChannelType): Ban | undefined {
+  try {
+    const storage = getStorage();
+    const keys = kind === 'contact' && channel ? [banKey(kind, target, channel), banKey(kind, target)] : [banKey(kind, target)];
+    return keys.map(key => storage.get<Ban>('bans', key)).find(ban => ban && isActive(ban, now)) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function isIpBanned(ip: string, now = new Date()): boolean {
+  return findBan('ip', ip, now) !== undefined;
+}
+
+/**
+ * Contact bans are keyed by HMAC, so without the PII secret no contact
+ * can be found banned.
+ */
+export function isContactBanned(
+  channel: ChannelType,
+  contactId: string,
+  secret: string | undefined,
+  now = new Date(),
+): boolean {
+  return secret ? findBan('contact', hashPhone(contactId, secret), now, channel) !== undefined : false;
+}
+
+export function addBan(ban: Ban): void {
+  getStorage().put('bans', banKey(ban.kind, ban.target, ban.channel), ban);
+}
+
+/**
+ * Active bans, oldest first.
+ */
+export function listBans(now = new Date()): Ban[] {
+  return getStorage().entries<Ban>('bans')
+    .map(([, ban]) => ban)
+    .filter(ban => isActive(ban, now))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Remove a ban (operator action). Returns false if there was none.
+ */
+export function liftBan(kind: BanKind, target: string, channel?: ChannelType): boolean {
+  const storage = getStorage();
+  const key = banKey(kind, target, channel);
+  const ban = storage.get<Ban>('bans', key);
+  if (!ban || !storage.delete('bans', key)) return false;
+  auditInfo('threat_ban_lifted', { channel: ban.channel, details: { kind, target, rule: ban.rule } });
+  return true;
+}
+
+/**
+ * Delete expired bans (retention scheduler). Returns the number deleted.
+ */
+export function pruneExpiredBans(now = new Date()): number {
+  const storage = getStorage();
+  const expired = storage.entries<Ban>('bans').filter(([, ban]) => !isActive(ban, now));
+  // One delete at a time, each re-reading the store, so a ban added
+  // meanwhile by another process is kept
+  return expired.filter(([key]) => storage.delete('bans', key)).length;
+}
+
+export class ThreatResponder {
+  private config: ThreatResponseConfig;
+  private clock: () => number;
+  private matchers: Array<{ rule: ThreatRule; matches: (entry: AuditEntry) => boolean }>;
+  private hits = new Map<string, number[]>();
+
+  constructor(config: ThreatResponseConfig, clock: () => number = Date.now) {
+    this.config = config;
+    this.clock = clock;
+    this.matchers = config.rules.map(rule => {
+      const byEvent = auditEntryFilter({ event: rule.event });
+      const match = Object.entries(rule.match);
+      return {
+        rule,
+        matches: entry => byEvent(entry) && match.every(([key, value]) => entry.details?.[key] === value),
+      };
+    });
+  }
+
+  /**
+   * Start reacting to audit events. Returns a function that stops it.
+   */
+  attach(): () => void {
+    return onAuditEvent(entry => this.handle(entry));
+  }
+
+  handle(entry: AuditEntry): void {
+    // Our own events never count towards a ban
+    if (entry.event.startsWith('threat_')) return;
+
+    for (const { rule, matches } of this.matchers) {
+      if (!matches(entry)) continue;
+      const target = rule.target === 'ip' ? entry.details?.['ip'] : entry.contactHash;
+      if (typeof target !== 'string' || !target) continue;
+      if (rule.target === 'ip' && this.config.exemptIps.includes(target)) continue;
+      this.count(rule, target, entry);
+    }
+  }
+
+  private count(rule: ThreatRule, target: string, entry: AuditEntry): void {
+    const now = this.clock();
+    const key = `${rule.name}|${target}`;
+    const hits = (this.hits.get(key) ?? []).filter(at => now - at < rule.windowMinutes * 60_000);
+    hits.push(now);
+    this.hits.delete(key);
+    if (hits.length < rule.threshold) {
+      this.hits.set(key, hits);
+      // Forget the sources seen longest ago so a scan can't grow this forever
+      if (this.hits.size > MAX_TRACKED_SOURCES) this.hits.delete(this.hits.keys().next().value!);
+      return;
+    }
+    this.ban(rule, target, entry, new Date(now));
+  }
+
+  private ban(rule: ThreatRule, target: string, entry: AuditEntry, now: Date): void {
+    const channel = rule.target === 'contact' ? entry.channel : undefined;
+    if (findBan(rule.target, target, now, channel)) return;
+
+    const expiresAt = rule.durationMinutes !== undefined
+      ? new Date(now.getTime() + rule.durationMinutes * 60_000).toISOString()
+      : undefined;
+    const ban: Ban = {
+      kind: rule.target,
+      target,
+      channel,
+      rule: rule.name,
+      reason: `${rule.threshold} × ${entry.event} within ${rule.windowMinutes} min`,
+      createdAt: now.toISOString(),
+      expiresAt,
+    };
+
+    try {
+      addBan(ban);
+    } catch (err) {
+      auditError('threat_ban_failed', { details: { rule: rule.name, kind: ban.kind, error: String(err) } });
+      return;
+    }
+
+    const log = rule.alert ? auditCritical : auditWarn;
+    log('threat_ban_added', {
+      channel: ban.channel,
+      details: {
+        rule: rule.name,
+        kind: ban.kind,
+        target,
+        event: entry.event,
+        events: rule.threshold,
+        windowMinutes: rule.windowMinutes,
+        duration: rule.durationMinutes !== undefined ? `${rule.durationMinutes} min` : 'until lifted',
+        expiresAt,
+      },
+    });
+  }
+}
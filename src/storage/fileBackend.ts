@@ -0,0 +1,399 @@
+/**
+ * Storage Backend: Files
+ * The original on-disk layout under ~/.openclaw: one encrypted file per
+ * session, and a single file per map-style store (consent, safety numbers,
+ * session index). Every write goes to a temp file, is fsynced, then renamed
+ * over the old file, so a crash leaves the old or the new contents but never
+ * a truncated file. Map files keep the previous generation as `.bak`, except
+ * after a delete, when the backup is destroyed with the erased record.
+ *
+ * Inside `transaction` map writes are buffered. At the end they are staged,
+ * listed in a journal and then renamed into place, so a crash mid-commit is
+ * replayed on the next start. Session files are always written immediately.
+ *
+ * Outside a transaction each map put or delete re-reads and rewrites its
+ * file holding the file's lock, so the gateway and CLI commands don't lose
+ * each other's changes (e.g. a ban added while another is lifted).
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import {
+  BACKUP_SUFFIX,
+  TEMP_SUFFIX,
+  encrypt,
+  decryptJSON,
+  readEncryptedJSON,
+  stageFile,
+  commitStagedFile,
+  overwriteAndRemove,
+  writeFileAtomic,
+  writeEncryptedJSON,
+} from '../security/encryptedStore.js';
+import { isInsideJail } from '../security/pathSecurity.js';
+import { withFileLock } from '../core/fileLock.js';
+import { auditError, auditWarn } from '../security/auditLogger.js';
+import type { StorageBackend, StorageCheckReport, StorageCollection, StorageProblem } from '../core/storage.js';
+
+type FileLayout =
+  | { kind: 'dir'; dir: string }
+  | { kind: 'map'; file: string; field: string; encrypted: boolean };
+
+const LAYOUT: Record<StorageCollection, FileLayout> = {
+  sessions: { kind: 'dir', dir: 'sessions' },
+  sessionIndex: { kind: 'map', file: 'session-index.enc', field: 'entries', encrypted: true },
+  consent: { kind: 'map', file: 'consent.enc', field: 'records', encrypted: true },
+  // Plaintext for compatibility: holds fingerprints, not message content
+  safetyNumbers: { kind: 'map', file: 'safety-numbers.json', field: 'contacts', encrypted: false },
+  // Plaintext so bans are enforced even without the key: IPs and contact HMACs only
+  bans: { kind: 'map', file: 'bans.json', field: 'bans', encrypted: false },
+  suspensions: { kind: 'map', file: 'suspensions.enc', field: 'suspensions', encrypted: true },
+};
+
+const FILE_KEY = /^[A-Za-z0-9_-]{1,128}$/;
+export const JOURNAL_FILE = 'storage-journal.json';
+
+interface Journal {
+  renames: Array<{ temp: string; target: string }>;
+}
+
+export interface FileBackendOptions {
+  /** Keep a `.bak` generation of each map file (default true). */
+  backups?: boolean;
+}
+
+// Damaged files already audited, so a hot read path doesn't flood the log
+const reportedCorrupt = new Set<string>();
+
+export class FileBackend implements StorageBackend {
+  readonly name = 'file';
+  private baseDir: string;
+  private encryptionKey?: string;
+  private backups: boolean;
+  private pending?: Map<StorageCollection, Record<string, unknown>>;
+  private scrub = new Set<StorageCollection>();
+
+  constructor(baseDir: string, encryptionKey?: string, options: FileBackendOptions = {}) {
+    this.baseDir = baseDir;
+    this.encryptionKey = encryptionKey;
+    this.backups = options.backups ?? true;
+    if (existsSync(join(baseDir, JOURNAL_FILE))) this.replayJournal();
+  }
+
+  get<T>(collection: StorageCollection, key: string): T | null {
+    const layout = LAYOUT[collection];
+    if (layout.kind === 'dir') {
+      const path = this.recordPath(layout.dir, key);
+      return existsSync(path) ? this.readChecked(collection, path, () => readEncryptedJSON<T>(path, this.requireKey(collection))) : null;
+    }
+    const records = this.readMap(collection);
+    return Object.hasOwn(records, key) ? records[key] as T : null;
+  }
+
+  put(collection: StorageCollection, key: string, value: unknown): void {
+    const layout = LAYOUT[collection];
+    if (layout.kind === 'dir') {
+      writeEncryptedJSON(this.recordPath(layout.dir, key), value, this.requireKey(collection));
+      return;
+    }
+    this.lockMap(collection, () => {
+      const records = this.readMap(collection);
+      records[key] = value;
+      this.writeMap(collection, records);
+    });
+  }
+
+  delete(collection: StorageCollection, key: string): boolean {
+    const layout = LAYOUT[collection];
+    if (layout.kind === 'dir') {
+      const path = this.recordPath(layout.dir, key);
+      if (!existsSync(path)) return false;
+      overwriteAndRemove(path);
+      return true;
+    }
+    return this.lockMap(collection, () => {
+      const records = this.readMap(collection);
+      if (!Object.hasOwn(records, key)) return false;
+      delete records[key];
+      this.writeMap(collection, records, true);
+      return true;
+    });
+  }
+
+  keys(collection: StorageCollection): string[] {
+    const layout = LAYOUT[collection];
+    if (layout.kind === 'dir') {
+      const dir = join(this.baseDir, layout.dir);
+      if (!existsSync(dir)) return [];
+      return readdirSync(dir).filter(f => f.endsWith('.enc')).map(f => f.slice(0, -'.enc'.length));
+    }
+    return Object.keys(this.readMap(collection));
+  }
+
+  entries<T>(collection: StorageCollection): Array<[string, T]> {
+    if (LAYOUT[collection].kind === 'dir') {
+      return this.keys(collection).map(key => [key, this.get<T>(collection, key)!]);
+    }
+    return Object.entries(this.readMap(collection)) as Array<[string, T]>;
+  }
+
+  clear(collection: StorageCollection): void {
+    const layout = LAYOUT[collection];
+    if (layout.kind === 'dir') {
+      for (const key of this.keys(collection)) this.delete(collection, key);
+      return;
+    }
+    if (this.pending || existsSync(join(this.baseDir, layout.file))) this.writeMap(collection, {}, true);
+  }
+
+  transaction<T>(fn: () => T): T {
+    if (this.pending) return fn();
+    this.pending = new Map();
+    this.scrub.clear();
+    try {
+      const result = fn();
+      const buffered = this.pending;
+      this.pending = undefined;
+      this.commit(buffered);
+      return result;
+    } finally {
+      this.pending = undefined;
+      this.scrub.clear();
+    }
+  }
+
+  check(repair: boolean): StorageCheckReport {
+    const report: StorageCheckReport = { backend: this.name, checked: 0, problems: [] };
+
+    const journalPath = join(this.baseDir, JOURNAL_FILE);
+    const journaled = new Set<string>();
+    if (existsSync(journalPath)) {
+      const problem: StorageProblem = { location: JOURNAL_FILE, issue: 'interrupted_transaction' };
+      try {
+        for (const r of this.readJournal().renames) journaled.add(r.temp);
+        if (repair) {
+          this.replayJournal();
+          problem.repair = 'replayed';
+        }
+      } catch (err) {
+        problem.error = String(err);
+      }
+      report.problems.push(problem);
+    }
+
+    const dirs = [this.baseDir, ...Object.values(LAYOUT).flatMap(l => l.kind === 'dir' ? [join(this.baseDir, l.dir)] : [])];
+    for (const dir of dirs) {
+      if (!existsSync(dir)) continue;
+      for (const name of readdirSync(dir).filter(f => f.startsWith('.') && f.endsWith(TEMP_SUFFIX))) {
+        const location = relative(this.baseDir, join(dir, name));
+        if (journaled.has(location)) continue;
+        const problem: StorageProblem = { location, issue: 'interrupted_write' };
+        if (repair) {
+          rmSync(join(dir, name), { force: true });
+          problem.repair = 'removed';
+        }
+        report.problems.push(problem);
+      }
+    }
+
+    for (const collection of Object.keys(LAYOUT) as StorageCollection[]) {
+      const layout = LAYOUT[collection];
+      if (layout.kind === 'map') {
+        if (!existsSync(join(this.baseDir, layout.file))) continue;
+        if (layout.encrypted && !this.encryptionKey) continue;
+        const problem = checkStoreFile(this.baseDir, layout.file, data => this.parseMap(collection, data), repair);
+        if (layout.encrypted) report.checked++;
+        if (problem) report.problems.push({ collection, ...problem });
+        continue;
+      }
+      const key = this.encryptionKey;
+      if (!key) continue;
+      for (const id of this.keys(collection)) {
+        const problem = checkStoreFile(this.baseDir, join(layout.dir, `${id}.enc`), data => decryptJSON(data, key), repair);
+        report.checked++;
+        if (problem) report.problems.push({ collection, ...problem });
+      }
+    }
+    return report;
+  }
+
+  close(): void {
+    // nothing held open
+  }
+
+  private recordPath(dir: string, key: string): string {
+    const jail = join(this.baseDir, dir);
+    const path = join(jail, `${key}.enc`);
+    if (!FILE_KEY.test(key) || !isInsideJail(path, jail)) {
+      throw new Error(`Invalid storage key for ${dir}`);
+    }
+    return path;
+  }
+
+  /** Run a map read-modify-write under the file's lock (not needed while buffering). */
+  private lockMap<T>(collection: StorageCollection, fn: () => T): T {
+    if (this.pending) return fn();
+    const layout = LAYOUT[collection] as Extract<FileLayout, { kind: 'map' }>;
+    mkdirSync(this.baseDir, { recursive: true, mode: 0o700 });
+    return withFileLock(join(this.baseDir, layout.file), fn);
+  }
+
+  private readMap(collection: StorageCollection): Record<string, unknown> {
+    const buffered = this.pending?.get(collection);
+    if (buffered) return buffered;
+    const layout = LAYOUT[collection] as Extract<FileLayout, { kind: 'map' }>;
+    const path = join(this.baseDir, layout.file);
+    if (!existsSync(path)) return {};
+    return this.readChecked(collection, path, () => this.parseMap(collection, readFileSync(path)));
+  }
+
+  private parseMap(collection: StorageCollection, raw: Buffer): Record<string, unknown> {
+    const layout = LAYOUT[collection] as Extract<FileLayout, { kind: 'map' }>;
+    const data = layout.encrypted
+      ? decryptJSON(raw, this.requireKey(collection)) as Record<string, unknown>
+      : JSON.parse(raw.toString('utf-8')) as Record<string, unknown>;
+    const records = data?.[layout.field];
+    if (!records || typeof records !== 'object') {
+      throw new Error(`Malformed ${collection} store: missing "${layout.field}"`);
+    }
+    return records as Record<string, unknown>;
+  }
+
+  /**
+   * Run a read, auditing the first failure for each damaged file. The error
+   * is rethrown: callers must not mistake a damaged store for an empty one.
+   */
+  private readChecked<T>(collection: StorageCollection, path: string, read: () => T): T {
+    try {
+      const result = read();
+      reportedCorrupt.delete(path);
+      return result;
+    } catch (err) {
+      if (!reportedCorrupt.has(path)) {
+        reportedCorrupt.add(path);
+        auditError('storage_corrupt', {
+          details: { collection, file: relative(this.baseDir, path), error: String(err) },
+        });
+      }
+      throw new Error(`${relative(this.baseDir, path)} is damaged (${err instanceof Error ? err.message : err}). Run "openclaw storage check --repair".`);
+    }
+  }
+
+  private writeMap(collection: StorageCollection, records: Record<string, unknown>, scrub = false): void {
+    if (this.pending) {
+      this.pending.set(collection, records);
+      if (scrub) this.scrub.add(collection);
+      return;
+    }
+    this.commit(new Map([[collection, records]]), scrub ? new Set([collection]) : new Set());
+  }
+
+  /**
+   * Stage every file, journal the renames, then apply them. A single file
+   * needs no journal: its rename is already atomic.
+   */
+  private commit(maps: Map<StorageCollection, Record<string, unknown>>, scrub = this.scrub): void {
+    const staged = [...maps].map(([collection, records]) => {
+      const layout = LAYOUT[collection] as Extract<FileLayout, { kind: 'map' }>;
+      const data = JSON.stringify({ [layout.field]: records }, null, 2);
+      const target = join(this.baseDir, layout.file);
+      return {
+        collection,
+        target,
+        temp: stageFile(target, layout.encrypted ? encrypt(data, this.requireKey(collection)) : data),
+      };
+    });
+
+    const journalPath = join(this.baseDir, JOURNAL_FILE);
+    if (staged.length > 1) {
+      const journal: Journal = {
+        renames: staged.map(s => ({ temp: relative(this.baseDir, s.temp), target: relative(this.baseDir, s.target) })),
+      };
+      writeFileAtomic(journalPath, JSON.stringify(journal));
+    }
+
+    for (const s of staged) {
+      const scrubbed = scrub.has(s.collection);
+      commitStagedFile(s.temp, s.target, { backup: this.backups && !scrubbed });
+      if (scrubbed && existsSync(s.target + BACKUP_SUFFIX)) overwriteAndRemove(s.target + BACKUP_SUFFIX);
+    }
+    if (staged.length > 1) rmSync(journalPath, { force: true });
+  }
+
+  private readJournal(): Journal {
+    const journal = JSON.parse(readFileSync(join(this.baseDir, JOURNAL_FILE), 'utf-8')) as Journal;
+    for (const r of journal.renames) {
+      if (!isInsideJail(join(this.baseDir, r.temp), this.baseDir) || !isInsideJail(join(this.baseDir, r.target), this.baseDir)) {
+        throw new Error('Storage journal references a path outside the data directory');
+      }
+    }
+    return journal;
+  }
+
+  /**
+   * Finish a transaction interrupted after its journal was written. Temp
+   * files already renamed are skipped, so replaying twice is harmless.
+   */
+  private replayJournal(): void {
+    let replayed = 0;
+    try {
+      for (const { temp, target } of this.readJournal().renames) {
+        const tempPath = join(this.baseDir, temp);
+        if (!existsSync(tempPath)) continue;
+        renameSync(tempPath, join(this.baseDir, target));
+        replayed++;
+      }
+    } catch (err) {
+      auditError('storage_journal_unreadable', { details: { error: String(err) } });
+      return;
+    }
+    rmSync(join(this.baseDir, JOURNAL_FILE), { force: true });
+    auditWarn('storage_journal_replayed', { details: { files: replayed } });
+  }
+
+  private requireKey(collection: StorageCollection): string {
+    if (!this.encryptionKey) throw new Error(`An encryption key is required for ${collection}`);
+    return this.encryptionKey;
+  }
+}
+
+/**
+ * Check one store file under `baseDir`. A damaged file is restored from its
+ * `.bak` if that parses, otherwise moved aside to `<file>.corrupt-<time>` so
+ * it is kept for inspection but no longer read. Returns null if the file is
+ * fine.
+ */
+export function checkStoreFile(
+  baseDir: string,
+  name: string,
+  parse: (data: Buffer) => unknown,
+  repair: boolean,
+): StorageProblem | null {
+  const path = join(baseDir, name);
+  try {
+    parse(readFileSync(path));
+    return null;
+  } catch (err) {
+    const problem: StorageProblem = { location: name, issue: 'corrupt', error: err instanceof Error ? err.message : String(err) };
+    if (!repair) return problem;
+
+    const backup = path + BACKUP_SUFFIX;
+    let restored: Buffer | undefined;
+    if (existsSync(backup)) {
+      try {
+        restored = readFileSync(backup);
+        parse(restored);
+      } catch {
+        restored = undefined;
+      }
+    }
+    renameSync(path, `${path}.corrupt-${Date.now()}`);
+    if (restored) {
+      writeFileAtomic(path, restored);
+      problem.repair = 'restored_from_backup';
+    } else {
+      problem.repair = 'quarantined';
+    }
+    reportedCorrupt.delete(path);
+    return problem;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Storage Backend: SQLite
+ * One embedded database (WAL mode, so readers don't block the writer) with
+ * column-level encryption: record keys and values are AES-256-GCM encrypted
+ * via encryptedStore, and lookups go through an HMAC of the key so contact
+ * IDs never appear in plaintext. Each value is sealed together with its key,
+ * so rows can't be swapped between contacts undetected.
+ *
+ * The lookup HMAC is derived from the encryption key. Until `reencrypt` has
+ * run after a key rotation, rows are also looked up under retired keys.
+ */
+import { chmodSync, existsSync, mkdirSync } from 'node:fs';
+import { createHmac, hkdfSync } from 'node:crypto';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { encrypt, decrypt, keyIdOf, readKeyId, retiredKeys } from '../security/encryptedStore.js';
+import { STORAGE_COLLECTIONS, type StorageBackend, type StorageCheckReport, type StorageCollection } from '../core/storage.js';
+
+const SCHEMA_VERSION = 1;
+const BUSY_TIMEOUT_MS = 5000;
+
+interface RecordRow {
+  key: Buffer;
+  value: Buffer;
+}
+
+interface CheckRow extends RecordRow {
+  collection: string;
+  key_hash: string;
+}
+
+export class SqliteBackend implements StorageBackend {
+  readonly name = 'sqlite';
+  private db: Database.Database;
+  private encryptionKey: string;
+  private hashKeys: Buffer[]; // active first, then retired
+
+  constructor(path: string, encryptionKey: string) {
+    const dir = dirname(path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+    this.encryptionKey = encryptionKey;
+    this.hashKeys = [encryptionKey, ...retiredKeys().filter(k => k !== encryptionKey)]
+      .map(k => Buffer.from(hkdfSync('sha256', k, Buffer.alloc(0), 'openclaw-sqlite-key-hash', 32)));
+
+    this.db = new Database(path);
+    chmodSync(path, 0o600);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.pragma('secure_delete = ON');
+    this.migrate();
+  }
+
+  get<T>(collection: StorageCollection, key: string): T | null {
+    const select = this.db.prepare('SELECT key, value FROM records WHERE collection = ? AND key_hash = ?');
+    for (const hash of this.hashesOf(collection, key)) {
+      const row = select.get(collection, hash) as RecordRow | undefined;
+      if (row) return this.open<T>(collection, row)[1];
+    }
+    return null;
+  }
+
+  put(collection: StorageCollection, key: string, value: unknown): void {
+    const [hash, ...stale] = this.hashesOf(collection, key);
+    const remove = this.db.prepare('DELETE FROM records WHERE collection = ? AND key_hash = ?');
+    for (const old of stale) remove.run(collection, old);
+    this.db.prepare(`
+      INSERT INTO records (collection, key_hash, key, value, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (collection, key_hash) DO UPDATE SET key = excluded.key, value = excluded.value, updated_at = excluded.updated_at
+    `).run(
+      collection,
+      hash,
+      encrypt(key, this.encryptionKey, this.info(collection, 'key')),
+      encrypt(JSON.stringify({ key, value }), this.encryptionKey, this.info(collection, 'value')),
+      Date.now(),
+    );
+  }
+
+  delete(collection: StorageCollection, key: string): boolean {
+    const remove = this.db.prepare('DELETE FROM records WHERE collection = ? AND key_hash = ?');
+    let changes = 0;
+    for (const hash of this.hashesOf(collection, key)) changes += remove.run(collection, hash).changes;
+    return changes > 0;
+  }
+
+  keys(collection: StorageCollection): string[] {
+    const rows = this.db.prepare('SELECT key FROM records WHERE collection = ?').all(collection) as Array<Pick<RecordRow, 'key'>>;
+    return rows.map(r => decrypt(r.key, this.encryptionKey, this.info(collection, 'key')));
+  }
+
+  entries<T>(collection: StorageCollection): Array<[string, T]> {
+    const rows = this.db.prepare('SELECT key, value FROM records WHERE collection = ?').all(collection) as RecordRow[];
+    return rows.map(r => this.open<T>(collection, r));
+  }
+
+  clear(collection: StorageCollection): void {
+    this.db.prepare('DELETE FROM records WHERE collection = ?').run(collection);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  /**
+   * SQLite's own integrity check, then a decrypt of every row. Repair moves
+   * rows that can't be decrypted to the quarantine table; structural damage
+   * needs a restore from backup.
+   */
+  check(repair: boolean): StorageCheckReport {
+    const report: StorageCheckReport = { backend: this.name, checked: 0, problems: [] };
+
+    const integrity = (this.db.pragma('integrity_check') as Array<{ integrity_check: string }>).map(r => r.integrity_check);
+    if (integrity.join() !== 'ok') {
+      report.problems.push({ location: 'database', issue: 'integrity', error: integrity.slice(0, 5).join('; ') });
+    }
+
+    const rows = this.db.prepare('SELECT collection, key_hash, key, value FROM records').all() as CheckRow[];
+    const quarantine = this.db.transaction((collection: string, keyHash: string) => {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO quarantine (collection, key_hash, key, value, quarantined_at)
+        SELECT collection, key_hash, key, value, ? FROM records WHERE collection = ? AND key_hash = ?
+      `).run(Date.now(), collection, keyHash);
+      this.db.prepare('DELETE FROM records WHERE collection = ? AND key_hash = ?').run(collection, keyHash);
+    });
+    for (const row of rows) {
+      report.checked++;
+      const collection = row.collection as StorageCollection;
+      try {
+        if (!STORAGE_COLLECTIONS.includes(collection)) throw new Error(`Unknown collection "${row.collection}"`);
+        this.open(collection, row);
+      } catch (err) {
+        report.problems.push({
+          collection: STORAGE_COLLECTIONS.includes(collection) ? collection : undefined,
+          location: `${row.collection}/${row.key_hash.slice(0, 12)}`,
+          issue: 'corrupt',
+          error: err instanceof Error ? err.message : String(err),
+          ...(repair ? { repair: 'quarantined' as const } : {}),
+        });
+        if (repair) quarantine(row.collection, row.key_hash);
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Rewrite every row not yet under the active key: new ciphertext and a
+   * lookup hash from the active key. One transaction, so an interrupted run
+   * changes nothing and can simply be repeated. Returns rows rewritten.
+   */
+  reencrypt(): number {
+    const activeId = keyIdOf(this.encryptionKey);
+    return this.db.transaction(() => {
+      const rows = this.db.prepare('SELECT collection, key_hash, key, value FROM records').all() as CheckRow[];
+      let rewritten = 0;
+      for (const row of rows) {
+        if (readKeyId(row.key) === activeId && readKeyId(row.value) === activeId) continue;
+        const collection = row.collection as StorageCollection;
+        const [key, value] = this.open(collection, row);
+        this.db.prepare('DELETE FROM records WHERE collection = ? AND key_hash = ?').run(row.collection, row.key_hash);
+        this.put(collection, key, value);
+        rewritten++;
+      }
+      return rewritten;
+    })();
+  }
+
+  close(): void {
+    if (this.db.open) this.db.close();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meta (name TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        key_hash   TEXT NOT NULL,
+        key        BLOB NOT NULL,
+        value      BLOB NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (collection, key_hash)
+      ) WITHOUT ROWID;
+      CREATE TABLE IF NOT EXISTS quarantine (
+        collection     TEXT NOT NULL,
+        key_hash       TEXT NOT NULL,
+        key            BLOB NOT NULL,
+        value          BLOB NOT NULL,
+        quarantined_at INTEGER NOT NULL,
+        PRIMARY KEY (collection, key_hash)
+      ) WITHOUT ROWID;
+    `);
+    const row = this.db.prepare("SELECT value FROM meta WHERE name = 'schema_version'").get() as { value: string } | undefined;
+    const version = row ? Number(row.value) : SCHEMA_VERSION;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Storage database schema ${version} is newer than this build supports (${SCHEMA_VERSION})`);
+    }
+    this.db.prepare("INSERT OR REPLACE INTO meta (name, value) VALUES ('schema_version', ?)").run(String(SCHEMA_VERSION));
+  }
+
+  private open<T>(collection: StorageCollection, row: RecordRow): [string, T] {
+    const key = decrypt(row.key, this.encryptionKey, this.info(collection, 'key'));
+    const sealed = JSON.parse(decrypt(row.value, this.encryptionKey, this.info(collection, 'value'))) as { key: string; value: T };
+    if (sealed.key !== key) throw new Error(`Storage record key mismatch in ${collection}`);
+    return [key, sealed.value];
+  }
+
+  private hashesOf(collection: StorageCollection, key: string): string[] {
+    return this.hashKeys.map(k => createHmac('sha256', k).update(`${collection}:${key}`).digest('hex'));
+  }
+
+  private info(collection: StorageCollection, column: 'key' | 'value'): string {
+    return `openclaw-sqlite:${collection}:${column}`;
+  }
+}
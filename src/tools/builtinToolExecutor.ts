@@ -6,10 +6,10 @@ import { readFile, writeFile, readdir, mkdir, stat } from 'node:fs/promises';
 import { mkdirSync } from 'node:fs';
 import { resolve, dirname, basename } from 'node:path';
 import { homedir } from 'node:os';
-import PDFDocument from 'pdfkit';
 import { validateFilePath, ensureOutputDir, MAX_FILE_SIZE_BYTES } from './fileSecurityPolicy.js';
 import { isBuiltinTool } from './builtinTools.js';
 import { handleSendFileViaSignal, type SignalFileDeliveryContext } from './signalFileDelivery.js';
+import { renderPdf } from './pdfRenderer.js';
 import { auditInfo, auditError } from '../security/auditLogger.js';
 import type { ToolExecutor } from '../core/agent.js';
 
@@ -166,7 +166,7 @@ async function handleGeneratePdf(input: Record<string, unknown>): Promise<string
   mkdirSync(dirname(validation.resolvedPath), { recursive: true });
 
   try {
-    await generatePdfFile(title, content, validation.resolvedPath);
+    await writeFile(validation.resolvedPath, await renderPdf(title, content));
     auditInfo('file_tool_pdf', { details: { path: validation.resolvedPath, title } });
     return `PDF generated successfully: ${validation.resolvedPath}`;
   } catch (err) {
@@ -185,91 +185,3 @@ async function handleSaveToDesktop(input: Record<string, unknown>): Promise<stri
   const desktopPath = resolve(home, 'Desktop', filename);
   return handleWriteFile({ path: desktopPath, content });
 }
-
-// ── PDF Generation ────────────────────────────────────────────────
-
-function generatePdfFile(title: string, content: string, outputPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const doc = new PDFDocument({
-      size: 'A4',
-      margins: { top: 72, bottom: 72, left: 72, right: 72 },
-      info: { Title: title, Creator: 'OpenClaw Fortress' },
-    });
-
-    const chunks: Buffer[] = [];
-    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
-    doc.on('end', async () => {
-      try {
-        const buffer = Buffer.concat(chunks);
-        const { writeFile: writeFileAsync } = await import('node:fs/promises');
-        await writeFileAsync(outputPath, buffer);
-        resolve();
-      } catch (err) {
-        reject(err);
-      }
-    });
-    doc.on('error', reject);
-
-    // Title
-    doc.fontSize(24).font('Helvetica-Bold').text(title, { align: 'center' });
-    doc.moveDown(1.5);
-
-    // Parse lightweight markdown and render
-    const lines = content.split('\n');
-    for (const line of lines) {
-      renderMarkdownLine(doc, line);
-    }
-
-    doc.end();
-  });
-}
-
-function renderMarkdownLine(doc: PDFKit.PDFDocument, line: string): void {
-  const trimmed = line.trimEnd();
-
-  // Headings
-  if (trimmed.startsWith('### ')) {
-    doc.fontSize(14).font('Helvetica-Bold').text(trimmed.slice(4));
-    doc.moveDown(0.3);
-    doc.fontSize(11).font('Helvetica');
-    return;
-  }
-  if (trimmed.startsWith('## ')) {
-    doc.fontSize(16).font('Helvetica-Bold').text(trimmed.slice(3));
-    doc.moveDown(0.4);
-    doc.fontSize(11).font('Helvetica');
-    return;
-  }
-  if (trimmed.startsWith('# ')) {
-    doc.fontSize(20).font('Helvetica-Bold').text(trimmed.slice(2));
-    doc.moveDown(0.5);
-    doc.fontSize(11).font('Helvetica');
-    return;
-  }
-
-  // Bullet lists
-  if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-    const text = trimmed.slice(2);
-    doc.fontSize(11).font('Helvetica').text(`  \u2022  ${renderInlineFormatting(text)}`);
-    doc.moveDown(0.2);
-    return;
-  }
-
-  // Empty line
-  if (trimmed === '') {
-    doc.moveDown(0.5);
-    return;
-  }
-
-  // Regular paragraph with inline formatting
-  doc.fontSize(11).font('Helvetica').text(renderInlineFormatting(trimmed));
-  doc.moveDown(0.2);
-}
-
-function renderInlineFormatting(text: string): string {
-  // Strip bold/italic markers — PDFKit doesn't support inline mixed fonts easily
-  // so we just render the text without the markers
-  return text
-    .replace(/\*\*(.+?)\*\*/g, '$1')
-    .replace(/\*(.+?)\*/g, '$1');
-}
@@ -0,0 +1,86 @@
+/**
+ * PDF Renderer
+ * Renders lightweight markdown (headings, bullets, paragraphs) to an A4 PDF
+ * with pdfkit. Used by the PDF tool and the privacy export.
+ */
+import PDFDocument from 'pdfkit';
+
+/**
+ * Render a titled markdown document to PDF bytes.
+ */
+export function renderPdf(title: string, content: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 72, bottom: 72, left: 72, right: 72 },
+      info: { Title: title, Creator: 'OpenClaw Fortress' },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Title
+    doc.fontSize(24).font('Helvetica-Bold').text(title, { align: 'center' });
+    doc.moveDown(1.5);
+
+    // Parse lightweight markdown and render
+    const lines = content.split('\n');
+    for (const line of lines) {
+      renderMarkdownLine(doc, line);
+    }
+
+    doc.end();
+  });
+}
+
+function renderMarkdownLine(doc: PDFKit.PDFDocument, line: string): void {
+  const trimmed = line.trimEnd();
+
+  // Headings
+  if (trimmed.startsWith('### ')) {
+    doc.fontSize(14).font('Helvetica-Bold').text(trimmed.slice(4));
+    doc.moveDown(0.3);
+    doc.fontSize(11).font('Helvetica');
+    return;
+  }
+  if (trimmed.startsWith('## ')) {
+    doc.fontSize(16).font('Helvetica-Bold').text(trimmed.slice(3));
+    doc.moveDown(0.4);
+    doc.fontSize(11).font('Helvetica');
+    return;
+  }
+  if (trimmed.startsWith('# ')) {
+    doc.fontSize(20).font('Helvetica-Bold').text(trimmed.slice(2));
+    doc.moveDown(0.5);
+    doc.fontSize(11).font('Helvetica');
+    return;
+  }
+
+  // Bullet lists
+  if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+    const text = trimmed.slice(2);
+    doc.fontSize(11).font('Helvetica').text(`  \u2022  ${renderInlineFormatting(text)}`);
+    doc.moveDown(0.2);
+    return;
+  }
+
+  // Empty line
+  if (trimmed === '') {
+    doc.moveDown(0.5);
+    return;
+  }
+
+  // Regular paragraph with inline formatting
+  doc.fontSize(11).font('Helvetica').text(renderInlineFormatting(trimmed));
+  doc.moveDown(0.2);
+}
+
+function renderInlineFormatting(text: string): string {
+  // Strip bold/italic markers — PDFKit doesn't support inline mixed fonts easily
+  // so we just render the text without the markers
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1');
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { AGENT_ID_REGEX } from '../security/pathSecurity.js';
 
 // ── Channel Configs ──────────────────────────────────────────
 
@@ -39,19 +40,161 @@ export type ChannelConfig = z.infer<typeof ChannelConfigSchema>;
 
 // ── Security Config ──────────────────────────────────────────
 
+// One key in the encryption keyring. The active (non-retired) entry encrypts;
+// retired entries only decrypt data that hasn't been rotated yet.
+export const KeyringEntrySchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]{1,32}$/),
+  key: z.string().optional(),
+  keyEnv: z.string().optional(),
+  retired: z.boolean().default(false),
+});
+export type KeyringEntryConfig = z.infer<typeof KeyringEntrySchema>;
+
+// Rotated segments sit next to the log as audit.jsonl.<UTC stamp>[.gz]
+export const AuditRotationConfigSchema = z.object({
+  maxSizeMB: z.number().positive().default(50),
+  interval: z.enum(['daily', 'weekly', 'never']).default('daily'), // UTC days; weeks start Monday
+  maxFiles: z.number().int().positive().optional(), // rotated segments kept; default: only retention.auditLogTTLDays applies
+  compress: z.boolean().default(true),
+});
+export type AuditRotationConfig = z.infer<typeof AuditRotationConfigSchema>;
+
+// What a sink strips before an entry leaves the host; the main log keeps everything
+export const AuditRedactionSchema = z.object({
+  contact: z.enum(['keep', 'pseudonym', 'drop']).default('pseudonym'), // pseudonym: contactHash only
+  session: z.enum(['keep', 'drop']).default('keep'),
+  details: z.enum(['keep', 'drop']).default('keep'),
+  dropDetails: z.array(z.string()).default([]), // detail keys removed when details are kept
+});
+export type AuditRedaction = z.infer<typeof AuditRedactionSchema>;
+
+const auditSinkBase = {
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/).optional(), // default: <type>-<index>
+  minSeverity: z.enum(['INFO', 'WARN', 'ERROR', 'CRITICAL']).default('INFO'),
+  redact: AuditRedactionSchema.default(() => ({
+    contact: 'pseudonym' as const,
+    session: 'keep' as const,
+    details: 'keep' as const,
+    dropDetails: [],
+  })),
+};
+
+// Extra destinations every audit entry is fanned out to, after the main log
+export const AuditSinkConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('file'),
+    ...auditSinkBase,
+    path: z.string(),
+    rotation: AuditRotationConfigSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('syslog'), // RFC 5424
+    ...auditSinkBase,
+    transport: z.enum(['udp', 'unix']).default('udp'), // unix: stream socket, newline framed
+    host: z.string().default('127.0.0.1'),
+    port: z.number().int().positive().default(514),
+    path: z.string().optional(), // unix socket path
+    facility: z.number().int().min(0).max(23).default(13), // 13 = log audit
+    appName: z.string().default('openclaw'),
+  }),
+  z.object({
+    type: z.literal('webhook'),
+    ...auditSinkBase,
+    url: z.string().url(), // https, or http on loopback
+    secret: z.string().optional(), // HMAC-SHA256 signing key
+    secretEnv: z.string().default('OPENCLAW_AUDIT_WEBHOOK_SECRET'),
+    batchSize: z.number().int().positive().default(50),
+    timeoutMs: z.number().int().positive().default(5000),
+    maxBufferMB: z.number().positive().default(10), // undelivered entries kept on disk
+  }),
+]);
+export type AuditSinkConfig = z.infer<typeof AuditSinkConfigSchema>;
+
+// Paging operators about audit events over Signal and/or Discord
+export const AlertConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  signalRecipients: z.array(z.string().regex(/^\+\d{10,15}$/, 'Must be E.164 format')).default([]),
+  discordChannelId: z.string().optional(),
+  minSeverity: z.enum(['INFO', 'WARN', 'ERROR', 'CRITICAL']).default('CRITICAL'),
+  events: z.array(z.string()).default([]), // extra event globs to alert on below minSeverity
+  templates: z.record(z.string(), z.string()).default({}), // event → text; {event}, {contactId}, {details.ip}, …
+  dedupWindowMinutes: z.number().nonnegative().default(10), // same event for the same contact/IP
+  maxPerHour: z.number().int().positive().default(10), // across all events
+});
+export type AlertConfig = z.infer<typeof AlertConfigSchema>;
+
+// "N matching events from one IP/contact within the window → ban it"
+export const ThreatRuleSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/),
+  event: z.string().min(1), // event name glob
+  match: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).default({}), // details fields that must equal
+  target: z.enum(['ip', 'contact']), // counted per details.ip or per contactHash, and banned
+  threshold: z.number().int().positive(),
+  windowMinutes: z.number().positive(),
+  durationMinutes: z.number().positive().optional(), // omitted: until lifted
+  alert: z.boolean().default(false), // log the ban as CRITICAL so operator alerts page
+});
+export type ThreatRule = z.infer<typeof ThreatRuleSchema>;
+
+export const DEFAULT_THREAT_RULES: ThreatRule[] = [
+  { name: 'gateway-auth', event: 'gateway_auth_*', match: {}, target: 'ip', threshold: 5, windowMinutes: 10, durationMinutes: 60, alert: false },
+  { name: 'signal-flood', event: 'signal_rate_limited', match: {}, target: 'contact', threshold: 20, windowMinutes: 10, durationMinutes: 60, alert: false },
+  // The first suspend-level injection suspends the contact, and later messages stop at the
+  // suspension check before the prompt guard: count those, from contacts it suspended
+  {
+    name: 'prompt-injection',
+    event: 'pipeline_message_blocked',
+    match: { stage: 'suspension', reason: 'Suspended by prompt_guard' },
+    target: 'contact',
+    threshold: 3,
+    windowMinutes: 60,
+    alert: true,
+  },
+];
+
+// Rules engine reacting to the audit stream
+export const ThreatResponseConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  rules: z.array(ThreatRuleSchema).default(() => DEFAULT_THREAT_RULES),
+  exemptIps: z.array(z.string()).default(['127.0.0.1', '::1', '::ffff:127.0.0.1']), // never banned
+});
+export type ThreatResponseConfig = z.infer<typeof ThreatResponseConfigSchema>;
+
 export const SecurityConfigSchema = z.object({
   gatewayToken: z.string().optional(),
   gatewayTokenEnv: z.string().default('OPENCLAW_GATEWAY_TOKEN'),
   encryptionKey: z.string().optional(),
   encryptionKeyEnv: z.string().default('OPENCLAW_ENCRYPTION_KEY'),
+  keyring: z.array(KeyringEntrySchema).default([]), // overrides encryptionKey when it has an active entry
   piiHmacSecret: z.string().optional(),
   piiHmacSecretEnv: z.string().default('OPENCLAW_PII_HMAC_SECRET'),
   sessionSecret: z.string().optional(),
   sessionSecretEnv: z.string().default('OPENCLAW_SESSION_SECRET'),
   promptGuardEnabled: z.boolean().default(true),
   piiDetectionEnabled: z.boolean().default(true),
+  consentRequired: z.boolean().default(false),
   auditLogPath: z.string().default('~/.openclaw/audit.jsonl'),
+  auditRotation: AuditRotationConfigSchema.default(() => ({ maxSizeMB: 50, interval: 'daily' as const, compress: true })),
+  auditKey: z.string().optional(), // HMAC key for the audit hash chain; keep it apart from the log
+  auditKeyEnv: z.string().default('OPENCLAW_AUDIT_HMAC_KEY'),
+  auditCheckpointEvery: z.number().int().positive().default(1000), // entries between signed checkpoints
+  auditSinks: z.array(AuditSinkConfigSchema).default([]),
+  alerts: AlertConfigSchema.default(() => ({
+    enabled: false,
+    signalRecipients: [],
+    minSeverity: 'CRITICAL' as const,
+    events: [],
+    templates: {},
+    dedupWindowMinutes: 10,
+    maxPerHour: 10,
+  })),
+  threatResponse: ThreatResponseConfigSchema.default(() => ({
+    enabled: true,
+    rules: DEFAULT_THREAT_RULES,
+    exemptIps: ['127.0.0.1', '::1', '::ffff:127.0.0.1'],
+  })),
   retentionDays: z.number().int().positive().default(90),
+  transcriptsEnabled: z.boolean().default(true), // encrypted per-contact turn archive (needs both secrets)
   maxSessionAge: z.number().int().positive().default(86400), // 24h in seconds
   signalDaemonLoopbackOnly: z.boolean().default(true),
 });
@@ -59,17 +202,162 @@ export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 
 // ── LLM Config ───────────────────────────────────────────────
 
+export const LLMProviderSchema = z.enum(['anthropic', 'openai-compatible', 'mock']);
+export type LLMProviderName = z.infer<typeof LLMProviderSchema>;
+
+// One scripted reply for the offline `mock` provider
+export const MockStepSchema = z.object({
+  text: z.string().default(''),
+  toolCalls: z.array(z.object({
+    name: z.string(),
+    input: z.record(z.string(), z.unknown()).default({}),
+  })).default([]),
+  inputTokens: z.number().int().nonnegative().optional(), // default: estimated
+  outputTokens: z.number().int().nonnegative().optional(),
+});
+export type MockStep = z.infer<typeof MockStepSchema>;
+
+export const MockProviderConfigSchema = z.object({
+  script: z.array(MockStepSchema).default([]),
+  scriptPath: z.string().optional(), // JSON array of steps, played after `script`
+});
+export type MockProviderConfig = z.infer<typeof MockProviderConfigSchema>;
+
+// Capture real HTTP exchanges to fixture files, or serve them back offline
+export const RecordReplayConfigSchema = z.object({
+  mode: z.enum(['record', 'replay']),
+  dir: z.string(),
+});
+export type RecordReplayConfig = z.infer<typeof RecordReplayConfigSchema>;
+
 export const LLMConfigSchema = z.object({
-  provider: z.literal('anthropic').default('anthropic'),
+  provider: LLMProviderSchema.default('anthropic'),
   model: z.string().default('claude-sonnet-4-20250514'),
+  baseUrl: z.string().url().optional(), // openai-compatible, e.g. http://127.0.0.1:11434/v1
   apiKey: z.string().optional(),
-  apiKeyEnv: z.string().default('ANTHROPIC_API_KEY'),
+  apiKeyEnv: z.string().optional(), // default depends on provider
+  mock: MockProviderConfigSchema.optional(),
+  recordReplay: RecordReplayConfigSchema.optional(),
   maxTokens: z.number().int().positive().default(4096),
   temperature: z.number().min(0).max(1).default(0.7),
   maxContextMessages: z.number().int().positive().default(50),
 });
 export type LLMConfig = z.infer<typeof LLMConfigSchema>;
 
+// ── Agents & Routing ─────────────────────────────────────────
+
+export const CompactionConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxMessages: z.number().int().positive().optional(), // default: maxContextMessages
+  maxTokens: z.number().int().positive().optional(), // estimated history size
+  keepRecent: z.number().int().positive().default(10),
+  summaryMaxTokens: z.number().int().positive().default(1024),
+});
+export type CompactionConfig = z.infer<typeof CompactionConfigSchema>;
+
+export const AgentConfigSchema = z.object({
+  id: z.string().regex(AGENT_ID_REGEX, 'Agent ID must be 1-64 letters, digits, - or _'),
+  systemPrompt: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  tools: z.array(z.string()).optional(), // omitted = all tools
+  maxContextMessages: z.number().int().positive().optional(),
+  maxSessionAge: z.number().int().positive().optional(),
+  compaction: CompactionConfigSchema.optional(), // omitted = hard trimming
+});
+export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+
+export const RoutingRuleSchema = z.object({
+  agent: z.string(),
+  channel: z.enum(['signal', 'discord', 'webchat', 'api']).optional(),
+  contacts: z.array(z.string()).optional(),
+  signalGroups: z.array(z.string()).optional(),
+  discordServers: z.array(z.string()).optional(),
+});
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+
+export const RoutingConfigSchema = z.object({
+  defaultAgent: z.string().default('default'),
+  rules: z.array(RoutingRuleSchema).default([]),
+});
+export type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
+
+// ── Usage & Budgets ──────────────────────────────────────────
+
+export const ModelPricingSchema = z.object({
+  inputPerMTok: z.number().nonnegative(), // USD per million input tokens
+  outputPerMTok: z.number().nonnegative(),
+});
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
+// Budgets apply per contact (channel:contactId) across all agents
+export const UsageConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  dailyTokens: z.number().int().positive().optional(),
+  monthlyTokens: z.number().int().positive().optional(),
+  dailyCostUsd: z.number().positive().optional(),
+  monthlyCostUsd: z.number().positive().optional(),
+  warnAtPercent: z.number().int().min(1).max(100).default(80),
+  limitReply: z.string().default(
+    "You've reached the usage limit for now. Please try again later.",
+  ),
+  pricing: z.record(z.string(), ModelPricingSchema).default({}), // overrides built-in prices
+});
+export type UsageConfig = z.infer<typeof UsageConfigSchema>;
+
+// ── Storage Config ───────────────────────────────────────────
+
+export const StorageBackendNameSchema = z.enum(['file', 'sqlite']);
+export type StorageBackendName = z.infer<typeof StorageBackendNameSchema>;
+
+export const StorageConfigSchema = z.object({
+  backend: StorageBackendNameSchema.default('file'),
+  sqlitePath: z.string().default('~/.openclaw/openclaw.db'),
+  backups: z.boolean().default(true), // file backend: keep a .bak of each store file
+});
+export type StorageConfig = z.infer<typeof StorageConfigSchema>;
+
+// ── Message Queue Config ─────────────────────────────────────
+
+// Messages for one session (channel:contactId) are handled one at a time
+export const QueueConfigSchema = z.object({
+  maxDepth: z.number().int().positive().default(5), // messages waiting behind the active one
+  overflow: z.enum(['drop', 'merge', 'busy']).default('busy'),
+  busyReply: z.string().default(
+    "I'm still working on your earlier messages. Please wait a moment and try again.",
+  ),
+});
+export type QueueConfig = z.infer<typeof QueueConfigSchema>;
+
+// ── Retention Config ─────────────────────────────────────────
+
+// Background purge while `openclaw start` runs. Session and transcript TTLs
+// default to security.retentionDays.
+export const RetentionConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  intervalMinutes: z.number().int().positive().default(60),
+  jitterPercent: z.number().int().min(0).max(50).default(10), // spread runs of several instances
+  sessionTTLDays: z.number().int().positive().optional(), // days since last activity
+  transcriptTTLDays: z.number().int().positive().optional(),
+  usageTTLDays: z.number().int().positive().default(400), // enough for a year-over-year report
+  exportTTLDays: z.number().int().positive().default(30), // subject access archives
+  auditLogTTLDays: z.number().int().positive().default(365), // rotated audit segments
+});
+export type RetentionConfig = z.infer<typeof RetentionConfigSchema>;
+
+// ── REST API Config ──────────────────────────────────────────
+
+// Versioned HTTP API under /v1 on the gateway. Requires a gateway token.
+export const RestApiConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxBodyKB: z.number().int().positive().default(64),
+  jobTTLMinutes: z.number().int().positive().default(60), // finished async jobs are kept this long
+  maxJobs: z.number().int().positive().default(1000), // pending and finished, across all callers
+  requestsPerMinute: z.number().int().positive().default(600), // per IP, counted apart from WebSocket connections
+});
+export type RestApiConfig = z.infer<typeof RestApiConfigSchema>;
+
 // ── File Tools Config ────────────────────────────────────────
 
 export const FileToolsConfigSchema = z.object({
@@ -87,11 +375,15 @@ export const OpenClawConfigSchema = z.object({
   gateway: z.object({
     host: z.string().default('127.0.0.1'),
     port: z.number().int().default(18789),
-  }).default(() => ({ host: '127.0.0.1', port: 18789 })),
+    api: RestApiConfigSchema.default(() => ({ enabled: false, maxBodyKB: 64, jobTTLMinutes: 60, maxJobs: 1000, requestsPerMinute: 600 })),
+  }).default(() => ({
+    host: '127.0.0.1',
+    port: 18789,
+    api: { enabled: false, maxBodyKB: 64, jobTTLMinutes: 60, maxJobs: 1000, requestsPerMinute: 600 },
+  })),
   llm: LLMConfigSchema.default(() => ({
     provider: 'anthropic' as const,
     model: 'claude-sonnet-4-20250514',
-    apiKeyEnv: 'ANTHROPIC_API_KEY',
     maxTokens: 4096,
     temperature: 0.7,
     maxContextMessages: 50,
@@ -100,12 +392,33 @@ export const OpenClawConfigSchema = z.object({
   security: SecurityConfigSchema.default(() => ({
     gatewayTokenEnv: 'OPENCLAW_GATEWAY_TOKEN',
     encryptionKeyEnv: 'OPENCLAW_ENCRYPTION_KEY',
+    keyring: [],
     piiHmacSecretEnv: 'OPENCLAW_PII_HMAC_SECRET',
     sessionSecretEnv: 'OPENCLAW_SESSION_SECRET',
     promptGuardEnabled: true,
     piiDetectionEnabled: true,
+    consentRequired: false,
     auditLogPath: '~/.openclaw/audit.jsonl',
+    auditRotation: { maxSizeMB: 50, interval: 'daily' as const, compress: true },
+    auditKeyEnv: 'OPENCLAW_AUDIT_HMAC_KEY',
+    auditCheckpointEvery: 1000,
+    auditSinks: [],
+    alerts: {
+      enabled: false,
+      signalRecipients: [],
+      minSeverity: 'CRITICAL' as const,
+      events: [],
+      templates: {},
+      dedupWindowMinutes: 10,
+      maxPerHour: 10,
+    },
+    threatResponse: {
+      enabled: true,
+      rules: DEFAULT_THREAT_RULES,
+      exemptIps: ['127.0.0.1', '::1', '::ffff:127.0.0.1'],
+    },
     retentionDays: 90,
+    transcriptsEnabled: true,
     maxSessionAge: 86400,
     signalDaemonLoopbackOnly: true,
   })),
@@ -113,32 +426,126 @@ export const OpenClawConfigSchema = z.object({
   systemPrompt: z.string().default(
     'You are a helpful AI assistant. Be concise and accurate.',
   ),
+  agents: z.array(AgentConfigSchema).default([]),
+  routing: RoutingConfigSchema.default(() => ({ defaultAgent: 'default', rules: [] })),
+  usage: UsageConfigSchema.default(() => ({
+    enabled: true,
+    warnAtPercent: 80,
+    limitReply: "You've reached the usage limit for now. Please try again later.",
+    pricing: {},
+  })),
+  storage: StorageConfigSchema.default(() => ({ backend: 'file' as const, sqlitePath: '~/.openclaw/openclaw.db', backups: true })),
+  queue: QueueConfigSchema.default(() => ({
+    maxDepth: 5,
+    overflow: 'busy' as const,
+    busyReply: "I'm still working on your earlier messages. Please wait a moment and try again.",
+  })),
+  retention: RetentionConfigSchema.default(() => ({
+    enabled: true,
+    intervalMinutes: 60,
+    jitterPercent: 10,
+    usageTTLDays: 400,
+    exportTTLDays: 30,
+    auditLogTTLDays: 365,
+  })),
+}).superRefine((config, ctx) => {
+  if (config.llm.provider === 'openai-compatible' && !config.llm.baseUrl) {
+    ctx.addIssue({ code: 'custom', path: ['llm', 'baseUrl'], message: 'baseUrl is required for the openai-compatible provider' });
+  }
+
+  const keyIds = config.security.keyring.map(k => k.id);
+  if (new Set(keyIds).size !== keyIds.length) {
+    ctx.addIssue({ code: 'custom', path: ['security', 'keyring'], message: 'Duplicate key ID' });
+  }
+  if (config.security.keyring.filter(k => !k.retired).length > 1) {
+    ctx.addIssue({ code: 'custom', path: ['security', 'keyring'], message: 'Only one keyring entry can be active' });
+  }
+
+  // The implicit 'default' agent always exists; everything else must be declared
+  const declared = config.agents.map(a => a.id);
+  if (new Set(declared).size !== declared.length) {
+    ctx.addIssue({ code: 'custom', path: ['agents'], message: 'Duplicate agent ID' });
+  }
+  const ids = new Set(['default', ...declared]);
+  if (!ids.has(config.routing.defaultAgent)) {
+    ctx.addIssue({ code: 'custom', path: ['routing', 'defaultAgent'], message: `Unknown agent: ${config.routing.defaultAgent}` });
+  }
+  config.routing.rules.forEach((rule, i) => {
+    if (!ids.has(rule.agent)) {
+      ctx.addIssue({ code: 'custom', path: ['routing', 'rules', i, 'agent'], message: `Unknown agent: ${rule.agent}` });
+    }
+  });
 });
 export type OpenClawConfig = z.infer<typeof OpenClawConfigSchema>;
 
 // ── Agent & Session Types ────────────────────────────────────
 
+// Content blocks mirror the Anthropic Messages API shapes so history
+// can be replayed to the LLM exactly as it happened.
+
+export interface TextContentBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolUseContentBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultContentBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type AgentContentBlock = TextContentBlock | ToolUseContentBlock | ToolResultContentBlock;
+
 export interface AgentMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | AgentContentBlock[];
   timestamp: number;
   channel: ChannelType;
   contactId: string;
 }
 
+/**
+ * Persisted session format version.
+ * v1: plain-string message content only.
+ * v2: content may be an array of text / tool_use / tool_result blocks.
+ * v3: optional compacted conversation memory.
+ */
+export const SESSION_FORMAT_VERSION = 3;
+
+/**
+ * Summary of turns removed by compaction. Pinned to the session (and so
+ * encrypted with it at rest) and sent to the LLM ahead of the history.
+ */
+export interface ConversationMemory {
+  summary: string;
+  compactedMessages: number;
+  updatedAt: number;
+}
+
 export interface AgentSession {
+  version?: number;
   id: string;
   agentId: string;
   contactId: string;
   channel: ChannelType;
   messages: AgentMessage[];
+  memory?: ConversationMemory;
   createdAt: number;
   lastActiveAt: number;
   expiresAt: number;
   metadata: Record<string, unknown>;
 }
 
-export type ChannelType = 'signal' | 'discord' | 'webchat';
+export const CHANNEL_TYPES = ['signal', 'discord', 'webchat', 'api'] as const;
+export type ChannelType = typeof CHANNEL_TYPES[number];
 
 // ── Skill Types ──────────────────────────────────────────────
 
@@ -199,8 +606,14 @@ export interface AuditEntry {
   event: string;
   channel?: ChannelType;
   contactId?: string;
+  /** HMAC of the contact ID, when the PII HMAC secret is configured. */
+  contactHash?: string;
   sessionId?: string;
   details?: Record<string, unknown>;
+  /** Hash chain (with an audit key): position, previous entry's hash, this entry's HMAC. */
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
 }
 
 // ── Security Check Types ─────────────────────────────────────
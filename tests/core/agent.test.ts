@@ -4,6 +4,7 @@
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Agent, type AgentOptions, type ToolExecutor } from '../../src/core/agent.js';
+import { auditInfo, auditWarn } from '../../src/security/auditLogger.js';
 import type { LLMClient, LLMResponse } from '../../src/core/llm.js';
 import type { IncomingMessage, ChannelType } from '../../src/types/index.js';
 
@@ -29,6 +30,10 @@ function createMockLLM(response?: Partial<LLMResponse>): LLMClient {
 
   return {
     chat: vi.fn(async () => defaultResponse),
+    chatStream: vi.fn(async (_req: unknown, onText: (delta: string) => void) => {
+      for (const word of defaultResponse.content.split(/(?<= )/)) onText(word);
+      return defaultResponse;
+    }),
     continueWithToolResults: vi.fn(async () => defaultResponse),
   } as unknown as LLMClient;
 }
@@ -336,4 +341,318 @@ describe('Agent', () => {
       expect(messages.length).toBeLessThanOrEqual(5); // maxContextMessages + 1 for the new user message
     });
   });
+
+  // ── Streaming ───────────────────────────────────────────────
+
+  describe('streaming', () => {
+    it('should stream deltas through onDelta and resolve with the full text', async () => {
+      const deltas: string[] = [];
+      const response = await agent.handleMessage(createIncomingMessage(), {
+        onDelta: (d) => deltas.push(d),
+      });
+      expect(mockLLM.chatStream).toHaveBeenCalledTimes(1);
+      expect(mockLLM.chat).not.toHaveBeenCalled();
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe(response);
+    });
+
+    it('should not stream when no onDelta is given', async () => {
+      await agent.handleMessage(createIncomingMessage());
+      expect(mockLLM.chatStream).not.toHaveBeenCalled();
+    });
+
+    it('should stream across tool rounds with a separator between rounds', async () => {
+      const toolLLM = createMockLLM();
+      vi.mocked(toolLLM.chatStream).mockImplementationOnce(async (_req, onText) => {
+        onText('Let me check.');
+        return {
+          content: 'Let me check.',
+          toolCalls: [{ id: 'call-1', name: 'test_tool', input: {} }],
+          stopReason: 'tool_use',
+          inputTokens: 10,
+          outputTokens: 5,
+        };
+      });
+      vi.mocked(toolLLM.continueWithToolResults).mockImplementationOnce(async (_req, _results, onText) => {
+        onText?.('Done.');
+        return { content: 'Done.', toolCalls: [], stopReason: 'end_turn', inputTokens: 10, outputTokens: 5 };
+      });
+
+      const toolAgent = new Agent({
+        llm: toolLLM,
+        systemPrompt: 'Test',
+        tools: [{ name: 'test_tool', description: 'A test tool', input_schema: {} }],
+        toolExecutor: vi.fn(async () => 'ok'),
+        maxContextMessages: 20,
+        maxSessionAge: 3600,
+      });
+
+      const deltas: string[] = [];
+      const response = await toolAgent.handleMessage(createIncomingMessage(), { onDelta: (d) => deltas.push(d) });
+      expect(deltas).toEqual(['Let me check.', '\n\n', 'Done.']);
+      expect(response).toBe('Done.');
+      expect(vi.mocked(toolLLM.continueWithToolResults).mock.calls[0]![2]).toBeTypeOf('function');
+    });
+  });
+
+  // ── Usage reporting ─────────────────────────────────────────
+
+  describe('usage reporting', () => {
+    it('should report tokens summed across tool rounds', async () => {
+      const toolLLM = createMockLLM();
+      vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+        content: '',
+        toolCalls: [{ id: 'call-1', name: 'test_tool', input: {} }],
+        stopReason: 'tool_use',
+        inputTokens: 100,
+        outputTokens: 20,
+      });
+      const onUsage = vi.fn();
+      const toolAgent = new Agent({
+        agentId: 'support',
+        llm: toolLLM,
+        systemPrompt: 'Test',
+        toolExecutor: vi.fn(async () => 'ok'),
+        maxContextMessages: 20,
+        maxSessionAge: 3600,
+        onUsage,
+      });
+
+      await toolAgent.handleMessage(createIncomingMessage());
+      expect(onUsage).toHaveBeenCalledWith({
+        channel: 'signal',
+        contactId: '+12025551234',
+        agentId: 'support',
+        inputTokens: 200,
+        outputTokens: 70,
+      });
+    });
+
+    it('should report usage already spent when a turn fails', async () => {
+      const toolLLM = createMockLLM();
+      vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+        content: '',
+        toolCalls: [{ id: 'call-1', name: 'test_tool', input: {} }],
+        stopReason: 'tool_use',
+        inputTokens: 100,
+        outputTokens: 20,
+      });
+      vi.mocked(toolLLM.continueWithToolResults).mockRejectedValueOnce(new Error('API down'));
+      const onUsage = vi.fn();
+      const toolAgent = new Agent({
+        llm: toolLLM,
+        systemPrompt: 'Test',
+        toolExecutor: vi.fn(async () => 'ok'),
+        maxContextMessages: 20,
+        maxSessionAge: 3600,
+        onUsage,
+      });
+
+      await toolAgent.handleMessage(createIncomingMessage());
+      expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ inputTokens: 100, outputTokens: 20 }));
+    });
+  });
+
+  // ── Turn records ────────────────────────────────────────────
+
+  describe('turn records', () => {
+    it('should record the exchange with tool calls and tokens', async () => {
+      const toolLLM = createMockLLM({ content: 'Done.' });
+      vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+        content: '',
+        toolCalls: [{ id: 'call-1', name: 'lookup', input: { q: 'x' } }],
+        stopReason: 'tool_use',
+        inputTokens: 100,
+        outputTokens: 20,
+      });
+      const onTurn = vi.fn();
+      const toolAgent = new Agent({
+        agentId: 'support',
+        llm: toolLLM,
+        systemPrompt: 'Test',
+        toolExecutor: vi.fn(async () => { throw new Error('no index'); }),
+        maxContextMessages: 20,
+        maxSessionAge: 3600,
+        onTurn,
+      });
+
+      await toolAgent.handleMessage(createIncomingMessage({ text: 'Find x' }));
+      expect(onTurn).toHaveBeenCalledWith(expect.objectContaining({
+        channel: 'signal',
+        contactId: '+12025551234',
+        agentId: 'support',
+        user: 'Find x',
+        assistant: 'Done.',
+        toolCalls: [{ name: 'lookup', input: { q: 'x' }, isError: true }],
+        inputTokens: 200,
+        outputTokens: 70,
+        error: false,
+      }));
+    });
+
+    it('should record failed turns with the error reply', async () => {
+      vi.mocked(mockLLM.chat).mockRejectedValueOnce(new Error('API down'));
+      const onTurn = vi.fn();
+      const failing = new Agent({
+        llm: mockLLM,
+        systemPrompt: 'Test',
+        maxContextMessages: 20,
+        maxSessionAge: 3600,
+        onTurn,
+      });
+
+      const response = await failing.handleMessage(createIncomingMessage());
+      expect(onTurn).toHaveBeenCalledWith(expect.objectContaining({ assistant: response, error: true }));
+    });
+  });
+
+  // ── Message queue ───────────────────────────────────────────
+
+  describe('message queue', () => {
+    /** LLM whose replies resolve only when released, echoing the last user text. */
+    function createGatedLLM(): { llm: LLMClient; release(): void } {
+      const gates: Array<() => void> = [];
+      const llm = {
+        chat: vi.fn(async (req: { messages: Array<{ role: string; content: unknown }> }) => {
+          await new Promise<void>(resolve => gates.push(resolve));
+          const last = req.messages[req.messages.length - 1]!;
+          return { content: `re: ${String(last.content)}`, toolCalls: [], stopReason: 'end_turn', inputTokens: 1, outputTokens: 1 };
+        }),
+      } as unknown as LLMClient;
+      const release = (): void => { gates.shift()?.(); };
+      return { llm, release };
+    }
+
+    async function settle(): Promise<void> {
+      for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+    }
+
+    function queuedAgent(llm: LLMClient, queue?: AgentOptions['queue']): Agent {
+      return new Agent({ llm, systemPrompt: 'Test', maxContextMessages: 20, maxSessionAge: 3600, queue });
+    }
+
+    it('should process messages from one contact in order', async () => {
+      const { llm, release } = createGatedLLM();
+      const queued = queuedAgent(llm);
+
+      const first = queued.handleMessage(createIncomingMessage({ text: 'one' }));
+      const second = queued.handleMessage(createIncomingMessage({ text: 'two' }));
+      await settle();
+      expect(llm.chat).toHaveBeenCalledTimes(1);
+
+      release();
+      expect(await first).toBe('re: one');
+      await settle();
+      release();
+      expect(await second).toBe('re: two');
+
+      const history = vi.mocked(llm.chat).mock.calls[1]![0].messages;
+      expect(history.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(history[1]!.content).toBe('re: one');
+      expect(auditInfo).toHaveBeenCalledWith('agent_response', expect.objectContaining({
+        details: expect.objectContaining({ queueDepth: 1, queueWaitMs: expect.any(Number) }),
+      }));
+    });
+
+    it('should not serialize different contacts', async () => {
+      const { llm, release } = createGatedLLM();
+      const queued = queuedAgent(llm);
+
+      const a = queued.handleMessage(createIncomingMessage({ contactId: '+1111', text: 'a' }));
+      const b = queued.handleMessage(createIncomingMessage({ contactId: '+2222', text: 'b' }));
+      await settle();
+      expect(llm.chat).toHaveBeenCalledTimes(2);
+      release();
+      release();
+      await Promise.all([a, b]);
+    });
+
+    it('should reply busy when the queue is full', async () => {
+      const { llm, release } = createGatedLLM();
+      const queued = queuedAgent(llm, { maxDepth: 1, overflow: 'busy', busyReply: 'Busy!' });
+
+      const first = queued.handleMessage(createIncomingMessage({ text: 'one' }));
+      const second = queued.handleMessage(createIncomingMessage({ text: 'two' }));
+      expect(await queued.handleMessage(createIncomingMessage({ text: 'three' }))).toBe('Busy!');
+      expect(auditWarn).toHaveBeenCalledWith('agent_queue_overflow', expect.objectContaining({
+        details: expect.objectContaining({ policy: 'busy', queueDepth: 2 }),
+      }));
+
+      release();
+      await first;
+      await settle();
+      release();
+      await second;
+    });
+
+    it('should drop overflow without a reply', async () => {
+      const { llm, release } = createGatedLLM();
+      const queued = queuedAgent(llm, { maxDepth: 1, overflow: 'drop', busyReply: 'Busy!' });
+
+      const first = queued.handleMessage(createIncomingMessage({ text: 'one' }));
+      const second = queued.handleMessage(createIncomingMessage({ text: 'two' }));
+      expect(await queued.handleMessage(createIncomingMessage({ text: 'three' }))).toBe('');
+
+      release();
+      await first;
+      await settle();
+      release();
+      expect(await second).toBe('re: two');
+      expect(llm.chat).toHaveBeenCalledTimes(2);
+    });
+
+    it('should merge overflow into the last waiting message', async () => {
+      const { llm, release } = createGatedLLM();
+      const queued = queuedAgent(llm, { maxDepth: 1, overflow: 'merge', busyReply: 'Busy!' });
+
+      const first = queued.handleMessage(createIncomingMessage({ text: 'one' }));
+      const second = queued.handleMessage(createIncomingMessage({ text: 'two' }));
+      expect(await queued.handleMessage(createIncomingMessage({ text: 'three' }))).toBe('');
+
+      release();
+      await first;
+      await settle();
+      release();
+      expect(await second).toBe('re: two\nthree');
+    });
+
+    it('should reply busy rather than merge past the message length limit', async () => {
+      const { llm, release } = createGatedLLM();
+      const queued = queuedAgent(llm, { maxDepth: 1, overflow: 'merge', busyReply: 'Busy!' });
+      const long = 'x'.repeat(6_000);
+
+      const first = queued.handleMessage(createIncomingMessage({ text: 'one' }));
+      const second = queued.handleMessage(createIncomingMessage({ text: long }));
+      expect(await queued.handleMessage(createIncomingMessage({ text: long }))).toBe('Busy!');
+
+      release();
+      await first;
+      await settle();
+      release();
+      expect(await second).toBe(`re: ${long}`);
+    });
+
+    it('should run beforeTurn when a queued turn starts, not when it arrives', async () => {
+      const { llm, release } = createGatedLLM();
+      let spent = false;
+      const queued = new Agent({
+        llm,
+        systemPrompt: 'Test',
+        maxContextMessages: 20,
+        maxSessionAge: 3600,
+        queue: { maxDepth: 1, overflow: 'merge', busyReply: 'Busy!' },
+        beforeTurn: () => (spent ? 'Limit reached' : undefined),
+        onUsage: () => { spent = true; },
+      });
+
+      const first = queued.handleMessage(createIncomingMessage({ text: 'one' }));
+      const second = queued.handleMessage(createIncomingMessage({ text: 'two' }));
+      expect(await queued.handleMessage(createIncomingMessage({ text: 'three' }))).toBe('');
+
+      release();
+      expect(await first).toBe('re: one');
+      expect(await second).toBe('Limit reached');
+      expect(llm.chat).toHaveBeenCalledTimes(1);
+    });
+  });
 });
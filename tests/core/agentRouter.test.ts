@@ -0,0 +1,128 @@
+/**
+ * Tests for 1.12: Agent Router
+ * Rule matching by channel, contact, Signal group, Discord server; config validation.
+ */
+import { describe, it, expect } from 'vitest';
+import { ruleMatches, resolveAgentId } from '../../src/core/agentRouter.js';
+import { OpenClawConfigSchema, type IncomingMessage, type RoutingConfig } from '../../src/types/index.js';
+
+function createIncomingMessage(overrides?: Partial<IncomingMessage>): IncomingMessage {
+  return {
+    channel: 'signal',
+    contactId: '+12025551234',
+    text: 'Hello!',
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('agentRouter', () => {
+  // ── ruleMatches ─────────────────────────────────────────────
+
+  describe('ruleMatches', () => {
+    it('should match everything when the rule has no criteria', () => {
+      expect(ruleMatches({ agent: 'a' }, createIncomingMessage())).toBe(true);
+    });
+
+    it('should match by channel', () => {
+      const rule = { agent: 'a', channel: 'discord' as const };
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'discord' }))).toBe(true);
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'signal' }))).toBe(false);
+    });
+
+    it('should match by contact', () => {
+      const rule = { agent: 'a', contacts: ['+12025551234'] };
+      expect(ruleMatches(rule, createIncomingMessage())).toBe(true);
+      expect(ruleMatches(rule, createIncomingMessage({ contactId: '+19999999999' }))).toBe(false);
+    });
+
+    it('should match Signal groups only on the Signal channel', () => {
+      const rule = { agent: 'a', signalGroups: ['group-1'] };
+      expect(ruleMatches(rule, createIncomingMessage({ groupId: 'group-1' }))).toBe(true);
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'discord', groupId: 'group-1' }))).toBe(false);
+      expect(ruleMatches(rule, createIncomingMessage())).toBe(false);
+    });
+
+    it('should match Discord servers only on the Discord channel', () => {
+      const rule = { agent: 'a', discordServers: ['111'] };
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'discord', groupId: '111' }))).toBe(true);
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'signal', groupId: '111' }))).toBe(false);
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'discord', groupId: '222' }))).toBe(false);
+    });
+
+    it('should require every specified criterion to match', () => {
+      const rule = { agent: 'a', channel: 'signal' as const, contacts: ['+12025551234'] };
+      expect(ruleMatches(rule, createIncomingMessage())).toBe(true);
+      expect(ruleMatches(rule, createIncomingMessage({ channel: 'webchat' }))).toBe(false);
+    });
+  });
+
+  // ── resolveAgentId ──────────────────────────────────────────
+
+  describe('resolveAgentId', () => {
+    const routing: RoutingConfig = {
+      defaultAgent: 'default',
+      rules: [
+        { agent: 'support', channel: 'discord' },
+        { agent: 'private', channel: 'signal', contacts: ['+12025551234'] },
+        { agent: 'catchall-signal', channel: 'signal' },
+      ],
+    };
+
+    it('should use the first matching rule', () => {
+      expect(resolveAgentId(createIncomingMessage(), routing)).toBe('private');
+    });
+
+    it('should fall through to later rules', () => {
+      expect(resolveAgentId(createIncomingMessage({ contactId: '+13335551234' }), routing)).toBe('catchall-signal');
+    });
+
+    it('should route Discord to the support agent', () => {
+      expect(resolveAgentId(createIncomingMessage({ channel: 'discord', contactId: '123' }), routing)).toBe('support');
+    });
+
+    it('should fall back to the default agent', () => {
+      expect(resolveAgentId(createIncomingMessage({ channel: 'webchat' }), routing)).toBe('default');
+    });
+  });
+
+  // ── Config validation ───────────────────────────────────────
+
+  describe('config validation', () => {
+    it('should default to a single implicit agent with no rules', () => {
+      const config = OpenClawConfigSchema.parse({});
+      expect(config.agents).toEqual([]);
+      expect(config.routing).toEqual({ defaultAgent: 'default', rules: [] });
+    });
+
+    it('should accept rules that reference declared agents', () => {
+      const result = OpenClawConfigSchema.safeParse({
+        agents: [{ id: 'support', systemPrompt: 'You are support.', tools: [] }],
+        routing: { rules: [{ agent: 'support', channel: 'discord' }] },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject rules that reference unknown agents', () => {
+      const result = OpenClawConfigSchema.safeParse({
+        routing: { rules: [{ agent: 'ghost' }] },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an unknown default agent', () => {
+      const result = OpenClawConfigSchema.safeParse({ routing: { defaultAgent: 'ghost' } });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject duplicate agent IDs', () => {
+      const result = OpenClawConfigSchema.safeParse({ agents: [{ id: 'a' }, { id: 'a' }] });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unsafe agent IDs', () => {
+      const result = OpenClawConfigSchema.safeParse({ agents: [{ id: '../etc' }] });
+      expect(result.success).toBe(false);
+    });
+  });
+});
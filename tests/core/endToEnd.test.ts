@@ -0,0 +1,134 @@
+/**
+ * End-to-end: Gateway + AgentManager + tools over a real WebSocket,
+ * driven by the offline mock LLM provider. No network beyond loopback.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { Gateway } from '../../src/core/gateway.js';
+import { AgentManager } from '../../src/core/agentManager.js';
+import type { ToolExecutor } from '../../src/core/agent.js';
+import { OpenClawConfigSchema, type ToolDefinition } from '../../src/types/index.js';
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+const TOKEN = 'e2e-gateway-token';
+
+const config = OpenClawConfigSchema.parse({
+  gateway: { host: '127.0.0.1', port: 0 },
+  llm: {
+    provider: 'mock',
+    mock: {
+      script: [
+        { text: 'Let me check.', toolCalls: [{ name: 'get_time', input: { zone: 'UTC' } }] },
+        { text: 'It is noon in UTC.' },
+      ],
+    },
+  },
+  security: {
+    gatewayToken: TOKEN,
+    // Keep sessions in memory regardless of the host environment
+    encryptionKeyEnv: 'OPENCLAW_E2E_UNSET_KEY',
+  },
+  fileTools: {},
+});
+
+const tools: ToolDefinition[] = [{
+  name: 'get_time',
+  description: 'Current time in a zone',
+  input_schema: { type: 'object', properties: { zone: { type: 'string' } } },
+}];
+
+interface Frame {
+  type: string;
+  text?: string;
+  status?: string;
+}
+
+/** Send one message and collect frames up to the final `message` or `queued` frame. */
+function exchange(ws: WebSocket, text: string): Promise<Frame[]> {
+  return new Promise((resolve, reject) => {
+    const frames: Frame[] = [];
+    const onMessage = (data: Buffer): void => {
+      const frame = JSON.parse(data.toString()) as Frame;
+      frames.push(frame);
+      if (frame.type === 'message' || frame.type === 'queued' || frame.type === 'error') {
+        ws.off('message', onMessage);
+        resolve(frames);
+      }
+    };
+    ws.on('message', onMessage);
+    ws.once('error', reject);
+    ws.send(JSON.stringify({ text }));
+  });
+}
+
+function connect(port: number, token?: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+}
+
+describe('end-to-end with the mock provider', () => {
+  let gateway: Gateway;
+  let executor: ReturnType<typeof vi.fn<ToolExecutor>>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    executor = vi.fn<ToolExecutor>(async () => '12:00');
+    const manager = new AgentManager(config);
+    manager.updateAgent(executor, tools);
+
+    gateway = new Gateway({ config, onMessage: (msg, opts) => manager.respond(msg, opts) });
+    await gateway.start();
+  });
+
+  afterEach(async () => {
+    await gateway.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should run a tool turn and stream the reply over WebSocket', async () => {
+    const ws = await connect(gateway.getPort(), TOKEN);
+    try {
+      const frames = await exchange(ws, 'What time is it?');
+
+      expect(executor).toHaveBeenCalledWith('get_time', { zone: 'UTC' });
+      expect(frames.filter(f => f.type === 'delta').length).toBeGreaterThan(1);
+      expect(frames.at(-1)).toEqual({ type: 'message', text: 'It is noon in UTC.' });
+
+      // Script exhausted: the mock echoes the user
+      const next = await exchange(ws, 'Thanks');
+      expect(next.at(-1)).toEqual({ type: 'message', text: '[mock] Thanks' });
+    } finally {
+      ws.close();
+    }
+  });
+
+  it('should report a dropped message without sending an empty reply', async () => {
+    const dropping = new Gateway({ config, onMessage: async () => ({ status: 'dropped', reply: '' }) });
+    await dropping.start();
+    const ws = await connect(dropping.getPort(), TOKEN);
+    try {
+      expect(await exchange(ws, 'One too many')).toEqual([{ type: 'queued', status: 'dropped' }]);
+    } finally {
+      ws.close();
+      await dropping.stop();
+    }
+  });
+
+  it('should reject connections without the gateway token', async () => {
+    await expect(connect(gateway.getPort())).rejects.toThrow('401');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for 1.22: File Locks
+ * Exclusive, re-entrant locks that break when their owner has died.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { withFileLock, LOCK_SUFFIX } from '../../src/core/fileLock.js';
+
+describe('file locks', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-lock-'));
+    file = join(dir, 'bans.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should hold the lock while running and release it after, even on error', () => {
+    expect(withFileLock(file, () => existsSync(file + LOCK_SUFFIX))).toBe(true);
+    expect(existsSync(file + LOCK_SUFFIX)).toBe(false);
+
+    expect(() => withFileLock(file, () => { throw new Error('boom'); })).toThrow('boom');
+    expect(existsSync(file + LOCK_SUFFIX)).toBe(false);
+  });
+
+  it('should be re-entrant within a process', () => {
+    expect(withFileLock(file, () => withFileLock(file, () => 'nested'))).toBe('nested');
+  });
+
+  it('should wait for a live owner and give up after the timeout', () => {
+    writeFileSync(file + LOCK_SUFFIX, String(process.ppid));
+    expect(() => withFileLock(file, () => 'never', 50)).toThrow('Timed out');
+    expect(existsSync(file + LOCK_SUFFIX)).toBe(true);
+  });
+
+  it('should break a lock whose owner has died', () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(file + LOCK_SUFFIX, String(pid));
+    expect(withFileLock(file, () => 'taken', 50)).toBe('taken');
+  });
+});
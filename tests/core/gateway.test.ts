@@ -71,7 +71,7 @@ describe('Gateway', () => {
     systemPrompt: 'You are a test assistant.',
   };
 
-  const mockOnMessage: MessageHandler = vi.fn(async () => 'Test response');
+  const mockOnMessage: MessageHandler = vi.fn(async () => ({ status: 'replied' as const, reply: 'Test response' }));
 
   describe('constructor', () => {
     it('should instantiate without throwing', () => {
@@ -0,0 +1,216 @@
+/**
+ * Tests for 1.18: Key Rotation
+ * Key IDs in the ciphertext header, keyring decryption of retired and
+ * pre-header data, and resumable re-encryption of files and SQLite rows.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync, existsSync, readFileSync, readdirSync, writeFileSync, mkdirSync } from 'node:fs';
+import { createCipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import { rotateEncryptedData, ROTATION_STATE_FILE } from '../../src/core/keyRotation.js';
+import { TranscriptLog, TRANSCRIPTS_DIR } from '../../src/core/transcripts.js';
+import {
+  encrypt,
+  decrypt,
+  keyIdOf,
+  readKeyId,
+  registerKeyring,
+  readEncryptedJSON,
+  writeEncryptedJSON,
+} from '../../src/security/encryptedStore.js';
+import { FileBackend } from '../../src/storage/fileBackend.js';
+import { SqliteBackend } from '../../src/storage/sqliteBackend.js';
+import { auditInfo, auditError } from '../../src/security/auditLogger.js';
+import { OpenClawConfigSchema } from '../../src/types/index.js';
+
+const OLD = 'old-master-key-for-encryption-32chars!!';
+const NEW = 'new-master-key-for-encryption-32chars!!';
+
+/** Ciphertext as written before key ID headers existed. */
+function legacyEncrypt(plaintext: string, masterKey: string): Buffer {
+  const salt = randomBytes(16);
+  const key = Buffer.from(hkdfSync('sha256', masterKey, salt, 'openclaw-store', 32));
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([salt, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+describe('key rotation', () => {
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-rotation-'));
+    registerKeyring([]);
+    vi.mocked(auditInfo).mockClear();
+    vi.mocked(auditError).mockClear();
+  });
+
+  afterEach(() => {
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  describe('key IDs', () => {
+    it('should name the keyring key in the header', () => {
+      registerKeyring([{ id: 'k2', key: NEW }, { id: 'k1', key: OLD, retired: true }]);
+      expect(readKeyId(encrypt('x', NEW))).toBe('k2');
+      expect(readKeyId(encrypt('x', OLD))).toBe('k1');
+    });
+
+    it('should fall back to a key fingerprint without a keyring', () => {
+      expect(keyIdOf(OLD)).toMatch(/^fp-[0-9a-f]{12}$/);
+      expect(keyIdOf(OLD)).not.toBe(keyIdOf(NEW));
+      expect(readKeyId(encrypt('x', OLD))).toBe(keyIdOf(OLD));
+    });
+
+    it('should authenticate the header', () => {
+      registerKeyring([{ id: 'k2', key: NEW }, { id: 'k1', key: OLD, retired: true }]);
+      const data = encrypt('secret', OLD);
+      data[5] = 'x'.charCodeAt(0); // k1 → x1
+      expect(() => decrypt(data, NEW)).toThrow();
+    });
+
+    it('should decrypt data under a retired key through the keyring', () => {
+      const data = encrypt('secret', OLD);
+      expect(() => decrypt(data, NEW)).toThrow('not in the keyring');
+
+      registerKeyring([{ id: 'k2', key: NEW }, { id: 'k1', key: OLD, retired: true }]);
+      expect(decrypt(data, NEW)).toBe('secret');
+    });
+
+    it('should decrypt data written before headers existed', () => {
+      const data = legacyEncrypt('secret', OLD);
+      expect(readKeyId(data)).toBeNull();
+      expect(decrypt(data, OLD)).toBe('secret');
+
+      registerKeyring([{ id: 'k2', key: NEW }, { id: 'k1', key: OLD, retired: true }]);
+      expect(decrypt(data, NEW)).toBe('secret');
+    });
+
+    it('should allow only one active keyring entry', () => {
+      const result = OpenClawConfigSchema.safeParse({
+        security: { keyring: [{ id: 'a', key: OLD }, { id: 'b', key: NEW }] },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('re-encryption', () => {
+    beforeEach(() => {
+      registerKeyring([{ id: 'k2', key: NEW }, { id: 'k1', key: OLD, retired: true }]);
+    });
+
+    it('should re-encrypt sessions, stores and backups under the active key', () => {
+      const old = new FileBackend(state.dir, OLD);
+      old.put('sessions', 'session-1', { hello: 'world' });
+      old.put('consent', 'signal:+12025551234', { granted: true });
+      old.put('consent', 'signal:+13335551234', { granted: true }); // leaves a .bak
+      writeFileSync(join(state.dir, 'usage.enc'), legacyEncrypt(JSON.stringify({ rows: {} }), OLD));
+
+      const summary = rotateEncryptedData(NEW, new FileBackend(state.dir, NEW));
+      expect(summary.files).toEqual({ rotated: 4, current: 0, failed: 0 });
+
+      registerKeyring([{ id: 'k2', key: NEW }]);
+      for (const file of ['sessions/session-1.enc', 'consent.enc', 'consent.enc.bak', 'usage.enc']) {
+        expect(readKeyId(readFileSync(join(state.dir, file)))).toBe('k2');
+      }
+      expect(new FileBackend(state.dir, NEW).get('consent', 'signal:+12025551234')).toEqual({ granted: true });
+      expect(existsSync(join(state.dir, ROTATION_STATE_FILE))).toBe(false);
+      expect(auditInfo).toHaveBeenCalledWith('key_rotation_completed', expect.objectContaining({
+        details: expect.objectContaining({ keyId: 'k2', rotated: 4 }),
+      }));
+    });
+
+    it('should re-encrypt transcripts line by line, copying torn lines through', () => {
+      const log = new TranscriptLog(OLD, 'test-pii-hmac-secret-for-hashing-32ch!', 30, state.dir);
+      log.append({
+        timestamp: new Date().toISOString(),
+        channel: 'signal',
+        contactId: '+12025551234',
+        agentId: 'default',
+        sessionId: 'session-1',
+        user: 'hi',
+        assistant: 'hello',
+        toolCalls: [],
+        usage: { inputTokens: 1, outputTokens: 1 },
+      });
+
+      const [name] = readdirSync(join(state.dir, TRANSCRIPTS_DIR));
+      const file = join(state.dir, TRANSCRIPTS_DIR, name!);
+      // A crash mid-append leaves half a line
+      const torn = readFileSync(file, 'utf-8').trim().slice(0, 40);
+      appendFileSync(file, `${torn}\n`);
+
+      const summary = rotateEncryptedData(NEW, new FileBackend(state.dir, NEW));
+      expect(summary.files).toEqual({ rotated: 1, current: 0, failed: 0 });
+      expect(summary.unreadableLines).toEqual({ [join(TRANSCRIPTS_DIR, name!)]: 1 });
+      const [line, kept] = readFileSync(file, 'utf-8').split('\n');
+      expect(readKeyId(Buffer.from(line!, 'base64'))).toBe('k2');
+      expect(kept).toBe(torn);
+      expect(auditInfo).toHaveBeenCalledWith('key_rotation_completed', expect.objectContaining({
+        details: expect.objectContaining({ unreadableLines: 1 }),
+      }));
+    });
+
+    it('should skip files already under the active key', () => {
+      writeEncryptedJSON(join(state.dir, 'a.enc'), { a: 1 }, OLD);
+      rotateEncryptedData(NEW, new FileBackend(state.dir, NEW));
+
+      expect(rotateEncryptedData(NEW, new FileBackend(state.dir, NEW)).files).toEqual({ rotated: 0, current: 1, failed: 0 });
+    });
+
+    it('should report undecryptable files and resume on the next run', () => {
+      writeEncryptedJSON(join(state.dir, 'a.enc'), { a: 1 }, OLD);
+      writeFileSync(join(state.dir, 'lost.enc'), legacyEncrypt('{}', 'a-key-nobody-remembers-anymore-32chars'));
+
+      const first = rotateEncryptedData(NEW, new FileBackend(state.dir, NEW));
+      expect(first.failures).toEqual(['lost.enc']);
+      expect(first.resumed).toBe(false);
+      expect(auditError).toHaveBeenCalledWith('key_rotation_incomplete', expect.anything());
+      expect(existsSync(join(state.dir, ROTATION_STATE_FILE))).toBe(true);
+
+      rmSync(join(state.dir, 'lost.enc'));
+      const second = rotateEncryptedData(NEW, new FileBackend(state.dir, NEW));
+      expect(second.resumed).toBe(true);
+      expect(second.files).toEqual({ rotated: 0, current: 1, failed: 0 });
+      expect(readEncryptedJSON(join(state.dir, 'a.enc'), NEW)).toEqual({ a: 1 });
+    });
+
+    it('should re-encrypt and re-key SQLite rows', () => {
+      const dbPath = join(state.dir, 'openclaw.db');
+      registerKeyring([]);
+      const old = new SqliteBackend(dbPath, OLD);
+      old.put('consent', 'signal:+12025551234', { granted: true });
+      old.close();
+
+      registerKeyring([{ id: 'k2', key: NEW }, { id: 'k1', key: OLD, retired: true }]);
+      const backend = new SqliteBackend(dbPath, NEW);
+      // Still found under the retired key's lookup hash before rotation
+      expect(backend.get('consent', 'signal:+12025551234')).toEqual({ granted: true });
+      expect(rotateEncryptedData(NEW, backend).records).toBe(1);
+      backend.close();
+
+      registerKeyring([{ id: 'k2', key: NEW }]);
+      const rotated = new SqliteBackend(dbPath, NEW);
+      expect(rotated.get('consent', 'signal:+12025551234')).toEqual({ granted: true });
+      expect(rotated.reencrypt()).toBe(0);
+      rotated.close();
+    });
+  });
+});
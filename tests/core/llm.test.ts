@@ -0,0 +1,110 @@
+/**
+ * Tests for 1.4: LLM Integration
+ * Provider selection, retries, auth failures, streaming and tool-result continuation.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { LLMClient, createProvider, type LLMProvider, type LLMResponse } from '../../src/core/llm.js';
+import { LLMConfigSchema } from '../../src/types/index.js';
+import { auditInfo } from '../../src/security/auditLogger.js';
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+const config = LLMConfigSchema.parse({ apiKey: 'test-key' });
+
+const okResponse: LLMResponse = {
+  content: 'Hi there.',
+  toolCalls: [],
+  stopReason: 'end_turn',
+  inputTokens: 10,
+  outputTokens: 3,
+};
+
+function createProviderMock(): LLMProvider {
+  return {
+    name: 'mock',
+    complete: vi.fn(async () => okResponse),
+    stream: vi.fn(async (_req, onText) => {
+      onText('Hi ');
+      onText('there.');
+      return okResponse;
+    }),
+  };
+}
+
+describe('LLMClient', () => {
+  it('should select the provider from config', () => {
+    expect(createProvider(config).name).toBe('anthropic');
+    expect(createProvider(LLMConfigSchema.parse({
+      provider: 'openai-compatible',
+      baseUrl: 'http://127.0.0.1:8080/v1',
+    })).name).toBe('openai-compatible');
+  });
+
+  it('should audit usage with the provider name', async () => {
+    const client = new LLMClient(config, createProviderMock());
+    const response = await client.chat({ systemPrompt: 'S', messages: [{ role: 'user', content: 'Hi' }] });
+    expect(response).toEqual(okResponse);
+    expect(auditInfo).toHaveBeenCalledWith('llm_request', {
+      details: { provider: 'mock', model: config.model, inputTokens: 10, outputTokens: 3 },
+    });
+  });
+
+  it('should retry transient failures', async () => {
+    vi.useFakeTimers();
+    try {
+      const provider = createProviderMock();
+      vi.mocked(provider.complete).mockRejectedValueOnce(new Error('overloaded'));
+      const client = new LLMClient(config, provider);
+
+      const pending = client.chat({ systemPrompt: 'S', messages: [] });
+      await vi.runAllTimersAsync();
+      await expect(pending).resolves.toEqual(okResponse);
+      expect(provider.complete).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not retry authentication failures', async () => {
+    const provider = createProviderMock();
+    vi.mocked(provider.complete).mockRejectedValueOnce(Object.assign(new Error('forbidden'), { status: 403 }));
+    const client = new LLMClient(config, provider);
+
+    await expect(client.chat({ systemPrompt: 'S', messages: [] })).rejects.toThrow('forbidden');
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry a stream that already emitted text', async () => {
+    const provider = createProviderMock();
+    vi.mocked(provider.stream).mockImplementationOnce(async (_req, onText) => {
+      onText('partial');
+      throw new Error('connection reset');
+    });
+    const client = new LLMClient(config, provider);
+
+    await expect(client.chatStream({ systemPrompt: 'S', messages: [] }, () => {})).rejects.toThrow('connection reset');
+    expect(provider.stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should append tool results as a user turn when continuing', async () => {
+    const provider = createProviderMock();
+    const client = new LLMClient(config, provider);
+
+    await client.continueWithToolResults(
+      { systemPrompt: 'S', messages: [{ role: 'user', content: 'Weather?' }] },
+      [{ tool_use_id: 'c1', content: 'sunny' }],
+    );
+
+    const request = vi.mocked(provider.complete).mock.calls[0]![0];
+    expect(request.messages[1]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'c1', content: 'sunny', is_error: undefined }],
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for 1.16: Session Index
+ * Index-backed lookups and pruning, consistency with the session files,
+ * rebuilds, and erasure via the index.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import { StateManager } from '../../src/core/stateManager.js';
+import { SessionIndex } from '../../src/core/sessionIndex.js';
+import { FileBackend } from '../../src/storage/fileBackend.js';
+import { eraseContact } from '../../src/security/rightToErasure.js';
+import { writeEncryptedJSON } from '../../src/security/encryptedStore.js';
+import { SESSION_FORMAT_VERSION, type AgentSession, type ChannelType } from '../../src/types/index.js';
+
+const KEY = 'test-master-key-for-encryption-32chars!';
+const SECRET = 'test-pii-hmac-secret';
+const SESSION_INDEX_FILE = 'session-index.enc';
+
+function session(overrides?: Partial<AgentSession>): AgentSession {
+  const now = Date.now();
+  return {
+    version: SESSION_FORMAT_VERSION,
+    id: crypto.randomUUID(),
+    agentId: 'default',
+    contactId: '+12025551234',
+    channel: 'signal' as ChannelType,
+    messages: [{ role: 'user', content: 'Hello' }],
+    createdAt: now,
+    lastActiveAt: now,
+    expiresAt: now + 3600_000,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function sessionPath(id: string): string {
+  return join(state.dir, 'sessions', `${id}.enc`);
+}
+
+describe('session index', () => {
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-index-'));
+  });
+
+  afterEach(() => {
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it('should index saved sessions without storing contact IDs', () => {
+    const sm = new StateManager(KEY, SECRET);
+    const s = session();
+    sm.saveSession(s);
+
+    const index = new SessionIndex(new FileBackend(state.dir, KEY), SECRET);
+    expect(index.load()).toBe(true);
+    expect(index.find('signal', '+12025551234')).toEqual([
+      { sessionId: s.id, agentId: 'default', expiresAt: s.expiresAt },
+    ]);
+    expect(index.find('discord', '+12025551234')).toEqual([]);
+    expect(JSON.stringify(index.all())).not.toContain('+12025551234');
+    expect(readFileSync(join(state.dir, SESSION_INDEX_FILE)).toString('utf-8')).not.toContain(s.id);
+  });
+
+  it('should find a session without decrypting other session files', () => {
+    const sm = new StateManager(KEY, SECRET);
+    const mine = session();
+    const other = session({ contactId: '+13335551234' });
+    sm.saveSession(mine);
+    sm.saveSession(other);
+    writeFileSync(sessionPath(other.id), 'not decryptable');
+
+    const restarted = new StateManager(KEY, SECRET);
+    expect(restarted.findSession('signal', '+12025551234', 'default')?.id).toBe(mine.id);
+    expect(restarted.findSession('signal', '+12025551234', 'support')).toBeNull();
+  });
+
+  it('should prune expired sessions using the indexed expiry', () => {
+    const sm = new StateManager(KEY, SECRET);
+    const expired = session({ expiresAt: Date.now() - 1000 });
+    sm.saveSession(expired);
+    sm.saveSession(session({ contactId: '+13335551234' }));
+    writeFileSync(sessionPath(expired.id), 'not decryptable');
+
+    expect(new StateManager(KEY, SECRET).pruneExpiredSessions()).toBe(1);
+    expect(existsSync(sessionPath(expired.id))).toBe(false);
+  });
+
+  it('should drop entries when sessions are deleted', () => {
+    const sm = new StateManager(KEY, SECRET);
+    const s = session();
+    sm.saveSession(s);
+    sm.deleteSession(s.id);
+
+    const index = new SessionIndex(new FileBackend(state.dir, KEY), SECRET);
+    index.load();
+    expect(index.all()).toEqual([]);
+  });
+
+  it('should rebuild a missing index from the session files', () => {
+    const s = session();
+    new StateManager(KEY, SECRET).saveSession(s);
+    rmSync(join(state.dir, SESSION_INDEX_FILE));
+
+    expect(new StateManager(KEY, SECRET).findSession('signal', '+12025551234', 'default')?.id).toBe(s.id);
+    expect(existsSync(join(state.dir, SESSION_INDEX_FILE))).toBe(true);
+  });
+
+  it('should index session files written without an entry', () => {
+    new StateManager(KEY, SECRET).saveSession(session({ contactId: '+13335551234' }));
+    // e.g. a crash between writing the session and updating the index
+    const orphan = session();
+    writeEncryptedJSON(sessionPath(orphan.id), orphan, KEY);
+
+    expect(new StateManager(KEY, SECRET).findSession('signal', '+12025551234', 'default')?.id).toBe(orphan.id);
+  });
+
+  it('should fall back to scanning without an HMAC secret', () => {
+    const sm = new StateManager(KEY);
+    const s = session();
+    sm.saveSession(s);
+
+    expect(existsSync(join(state.dir, SESSION_INDEX_FILE))).toBe(false);
+    expect(sm.findSession('signal', '+12025551234', 'default')?.id).toBe(s.id);
+  });
+
+  describe('erasure', () => {
+    it('should erase the contact\'s sessions on every channel via the index', () => {
+      const sm = new StateManager(KEY, SECRET);
+      const signal = session();
+      const webchat = session({ channel: 'webchat' });
+      const other = session({ contactId: '+13335551234' });
+      for (const s of [signal, webchat, other]) sm.saveSession(s);
+      // Indexed sessions are not decrypted, so an unrelated corrupt file is left alone
+      writeFileSync(sessionPath(other.id), 'not decryptable');
+
+      const result = eraseContact('+12025551234', KEY, SECRET);
+      expect(result.filesDeleted).toBe(2);
+      expect(existsSync(sessionPath(signal.id))).toBe(false);
+      expect(existsSync(sessionPath(webchat.id))).toBe(false);
+      expect(existsSync(sessionPath(other.id))).toBe(true);
+
+      const index = new SessionIndex(new FileBackend(state.dir, KEY), SECRET);
+      index.load();
+      expect(index.all().map(e => e.sessionId)).toEqual([other.id]);
+    });
+
+    it('should still check session files missing from the index', () => {
+      new StateManager(KEY, SECRET).saveSession(session({ contactId: '+13335551234' }));
+      const orphan = session();
+      writeEncryptedJSON(sessionPath(orphan.id), orphan, KEY);
+
+      expect(eraseContact('+12025551234', KEY, SECRET).filesDeleted).toBe(1);
+      expect(existsSync(sessionPath(orphan.id))).toBe(false);
+    });
+  });
+});
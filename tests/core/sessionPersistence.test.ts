@@ -5,8 +5,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Agent, type AgentOptions, type ToolExecutor } from '../../src/core/agent.js';
 import type { LLMClient, LLMResponse } from '../../src/core/llm.js';
-import type { IncomingMessage, ChannelType, AgentSession } from '../../src/types/index.js';
-import type { StateManager } from '../../src/core/stateManager.js';
+import { SESSION_FORMAT_VERSION, type IncomingMessage, type ChannelType, type AgentSession } from '../../src/types/index.js';
+import { migrateSession, type StateManager } from '../../src/core/stateManager.js';
 
 // Mock auditLogger
 vi.mock('../../src/security/auditLogger.js', () => ({
@@ -61,6 +61,12 @@ function createMockStateManager(): StateManager {
       store.delete(sessionId);
     }),
     listSessions: vi.fn(() => Array.from(store.keys())),
+    findSession: vi.fn((channel: ChannelType, contactId: string, agentId: string) => {
+      for (const s of store.values()) {
+        if (s.channel === channel && s.contactId === contactId && s.agentId === agentId) return structuredClone(s);
+      }
+      return null;
+    }),
     pruneExpiredSessions: vi.fn(() => {
       let pruned = 0;
       const now = Date.now();
@@ -197,4 +203,161 @@ describe('Session Persistence', () => {
     const chatCall = vi.mocked(mockLLM2.chat).mock.calls[0][0];
     expect(chatCall.messages.length).toBeGreaterThan(1);
   });
+
+  it('should store tool_use and tool_result blocks in order', async () => {
+    const toolLLM = createMockLLM();
+    vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+      content: 'Let me look that up.',
+      toolCalls: [{ id: 'call-1', name: 'lookup', input: { q: 'weather' } }],
+      stopReason: 'tool_use',
+      inputTokens: 10,
+      outputTokens: 5,
+    });
+    vi.mocked(toolLLM.continueWithToolResults).mockResolvedValueOnce({
+      content: 'It is sunny.',
+      toolCalls: [],
+      stopReason: 'end_turn',
+      inputTokens: 10,
+      outputTokens: 5,
+    });
+    const executor: ToolExecutor = vi.fn(async () => 'sunny');
+    const agent = new Agent({
+      llm: toolLLM,
+      systemPrompt: 'Test',
+      toolExecutor: executor,
+      maxContextMessages: 20,
+      maxSessionAge: 3600,
+      stateManager,
+    });
+
+    await agent.handleMessage(createIncomingMessage({ text: 'Weather?' }));
+
+    const saved = vi.mocked(stateManager.saveSession).mock.calls[0]![0];
+    expect(saved.version).toBe(SESSION_FORMAT_VERSION);
+    expect(saved.messages.map(m => m.content)).toEqual([
+      'Weather?',
+      [
+        { type: 'text', text: 'Let me look that up.' },
+        { type: 'tool_use', id: 'call-1', name: 'lookup', input: { q: 'weather' } },
+      ],
+      [{ type: 'tool_result', tool_use_id: 'call-1', content: 'sunny' }],
+      'It is sunny.',
+    ]);
+  });
+
+  it('should send earlier tool exchanges to the LLM on the next turn', async () => {
+    const toolLLM = createMockLLM({ content: 'Anything else?' });
+    vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+      content: '',
+      toolCalls: [{ id: 'call-1', name: 'lookup', input: {} }],
+      stopReason: 'tool_use',
+      inputTokens: 10,
+      outputTokens: 5,
+    });
+    const agent = new Agent({
+      llm: toolLLM,
+      systemPrompt: 'Test',
+      toolExecutor: vi.fn(async () => 'result'),
+      maxContextMessages: 20,
+      maxSessionAge: 3600,
+    });
+
+    await agent.handleMessage(createIncomingMessage({ text: 'First' }));
+    await agent.handleMessage(createIncomingMessage({ text: 'Second' }));
+
+    const secondCall = vi.mocked(toolLLM.chat).mock.calls[1]![0];
+    expect(secondCall.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(secondCall.messages[1]!.content).toEqual([
+      { type: 'tool_use', id: 'call-1', name: 'lookup', input: {} },
+    ]);
+  });
+
+  it('should never start trimmed history with an orphaned tool_result', async () => {
+    const toolLLM = createMockLLM({ content: 'Done.' });
+    vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+      content: '',
+      toolCalls: [{ id: 'call-1', name: 'lookup', input: {} }],
+      stopReason: 'tool_use',
+      inputTokens: 10,
+      outputTokens: 5,
+    });
+    const agent = new Agent({
+      llm: toolLLM,
+      systemPrompt: 'Test',
+      toolExecutor: vi.fn(async () => 'result'),
+      maxContextMessages: 3,
+      maxSessionAge: 3600,
+    });
+
+    // First turn stores user, tool_use, tool_result, assistant
+    await agent.handleMessage(createIncomingMessage({ text: 'First' }));
+    // Second turn pushes to 5 messages; trimming 2 would leave tool_result first
+    await agent.handleMessage(createIncomingMessage({ text: 'Second' }));
+
+    const secondCall = vi.mocked(toolLLM.chat).mock.calls[1]![0];
+    const first = secondCall.messages[0]!;
+    expect(first.role).toBe('user');
+    expect(typeof first.content).toBe('string');
+  });
+
+  it('should not keep a partial tool exchange when the turn fails', async () => {
+    const toolLLM = createMockLLM();
+    vi.mocked(toolLLM.chat).mockResolvedValueOnce({
+      content: '',
+      toolCalls: [{ id: 'call-1', name: 'lookup', input: {} }],
+      stopReason: 'tool_use',
+      inputTokens: 10,
+      outputTokens: 5,
+    });
+    vi.mocked(toolLLM.continueWithToolResults).mockRejectedValueOnce(new Error('boom'));
+    const agent = new Agent({
+      llm: toolLLM,
+      systemPrompt: 'Test',
+      toolExecutor: vi.fn(async () => 'result'),
+      maxContextMessages: 20,
+      maxSessionAge: 3600,
+    });
+
+    await agent.handleMessage(createIncomingMessage({ text: 'First' }));
+    await agent.handleMessage(createIncomingMessage({ text: 'Second' }));
+
+    const secondCall = vi.mocked(toolLLM.chat).mock.calls[1]![0];
+    expect(secondCall.messages.map(m => m.content)).toEqual(['First', 'Second']);
+  });
+});
+
+describe('migrateSession', () => {
+  function createStoredSession(overrides?: Partial<AgentSession>): AgentSession {
+    return {
+      id: 'session-0001',
+      agentId: 'default',
+      contactId: '+12025551234',
+      channel: 'signal',
+      messages: [{ role: 'user', content: 'Hi', timestamp: 1, channel: 'signal', contactId: '+12025551234' }],
+      createdAt: 1,
+      lastActiveAt: 1,
+      expiresAt: Date.now() + 60_000,
+      metadata: {},
+      ...overrides,
+    };
+  }
+
+  it('should upgrade unversioned (v1) sessions', () => {
+    const { session, migrated } = migrateSession(createStoredSession());
+    expect(migrated).toBe(true);
+    expect(session.version).toBe(SESSION_FORMAT_VERSION);
+    expect(session.messages[0]!.content).toBe('Hi');
+  });
+
+  it('should leave current sessions untouched', () => {
+    const stored = createStoredSession({ version: SESSION_FORMAT_VERSION });
+    const { session, migrated } = migrateSession(stored);
+    expect(migrated).toBe(false);
+    expect(session).toEqual(stored);
+  });
+
+  it('should reject sessions from a newer format', () => {
+    expect(() => migrateSession(createStoredSession({ version: SESSION_FORMAT_VERSION + 1 })))
+      .toThrow('Unsupported session format version');
+  });
 });
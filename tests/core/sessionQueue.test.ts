@@ -0,0 +1,84 @@
+/**
+ * Tests for 1.15: Session Queue
+ * Per-key serialization, overflow policies, cancelling, failures and lane
+ * cleanup.
+ */
+import { describe, it, expect } from 'vitest';
+import { SessionQueue } from '../../src/core/sessionQueue.js';
+import { QueueConfigSchema, type QueueConfig } from '../../src/types/index.js';
+
+function queue(overrides?: Partial<QueueConfig>): SessionQueue<string, string> {
+  return new SessionQueue({ ...QueueConfigSchema.parse({}), ...overrides }, (a, b) => `${a}+${b}`);
+}
+
+function deferred(): { promise: Promise<void>; resolve(): void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('SessionQueue', () => {
+  it('should run items for one key strictly in order', async () => {
+    const q = queue();
+    const gate = deferred();
+    const log: string[] = [];
+
+    const a = q.submit('k', 'a', async (item) => { await gate.promise; log.push(item); return item; });
+    const b = q.submit('k', 'b', async (item) => { log.push(item); return item; });
+    expect(q.depth('k')).toBe(2);
+
+    gate.resolve();
+    expect(await a).toMatchObject({ status: 'processed', value: 'a', ticket: { depth: 0, waitMs: 0 } });
+    expect(await b).toMatchObject({ status: 'processed', value: 'b', ticket: { depth: 1 } });
+    expect(log).toEqual(['a', 'b']);
+  });
+
+  it('should apply the overflow policy beyond maxDepth', async () => {
+    const gate = deferred();
+    const slow = async (item: string): Promise<string> => { await gate.promise; return item; };
+
+    const busy = queue({ maxDepth: 1, overflow: 'busy' });
+    void busy.submit('k', 'a', slow);
+    const waiting = busy.submit('k', 'b', slow);
+    expect(await busy.submit('k', 'c', slow)).toEqual({ status: 'busy', depth: 2 });
+
+    const merge = queue({ maxDepth: 1, overflow: 'merge' });
+    void merge.submit('k', 'a', slow);
+    const merged = merge.submit('k', 'b', slow);
+    expect(await merge.submit('k', 'c', slow)).toEqual({ status: 'merged', depth: 2 });
+
+    gate.resolve();
+    expect(await waiting).toMatchObject({ value: 'b' });
+    expect(await merged).toMatchObject({ value: 'b+c' });
+  });
+
+  it('should cancel waiting items and resolve once the active one finishes', async () => {
+    const q = queue();
+    const gate = deferred();
+    const log: string[] = [];
+    const active = q.submit('k', 'a', async (item) => { await gate.promise; log.push(item); return item; });
+    const waiting = q.submit('k', 'b', async (item) => { log.push(item); return item; });
+
+    let cancelled = false;
+    const cancel = q.cancel('k').then(() => { cancelled = true; });
+    expect(await waiting).toEqual({ status: 'cancelled', depth: 1 });
+    expect(cancelled).toBe(false);
+
+    gate.resolve();
+    await cancel;
+    expect(await active).toMatchObject({ status: 'processed', value: 'a' });
+    expect(log).toEqual(['a']);
+    expect(q.depth('k')).toBe(0);
+    await q.cancel('other');
+  });
+
+  it('should keep going after a handler fails and then release the key', async () => {
+    const q = queue();
+    const failed = q.submit('k', 'a', async () => { throw new Error('boom'); });
+    const next = q.submit('k', 'b', async (item) => item);
+
+    await expect(failed).rejects.toThrow('boom');
+    expect(await next).toMatchObject({ status: 'processed', value: 'b' });
+    expect(q.depth('k')).toBe(0);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Tests for 1.17: Storage
+ * File and SQLite backends share one contract; the SQLite database holds no
+ * plaintext, detects tampering, and both directions of migration are lossless.
+ * Damaged stores are reported and repaired rather than read as empty.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, mkdirSync, writeFileSync, readdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import {
+  configureStorage,
+  createStorageBackend,
+  getStorage,
+  migrateStorage,
+  checkStorage,
+  type StorageBackend,
+} from '../../src/core/storage.js';
+import { FileBackend, JOURNAL_FILE } from '../../src/storage/fileBackend.js';
+import { SqliteBackend } from '../../src/storage/sqliteBackend.js';
+import { StateManager } from '../../src/core/stateManager.js';
+import { recordConsent, hasConsent } from '../../src/security/piiConsent.js';
+import { auditInfo, auditError } from '../../src/security/auditLogger.js';
+import { encrypt } from '../../src/security/encryptedStore.js';
+import { SESSION_FORMAT_VERSION, type AgentSession } from '../../src/types/index.js';
+
+const KEY = 'test-master-key-for-encryption-32chars!';
+const SECRET = 'test-pii-hmac-secret';
+const CONTACT = '+12025551234';
+
+function session(overrides?: Partial<AgentSession>): AgentSession {
+  const now = Date.now();
+  return {
+    version: SESSION_FORMAT_VERSION,
+    id: crypto.randomUUID(),
+    agentId: 'default',
+    contactId: CONTACT,
+    channel: 'signal',
+    messages: [{ role: 'user', content: 'secret message body' }],
+    createdAt: now,
+    lastActiveAt: now,
+    expiresAt: now + 3600_000,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+const dbPath = () => join(state.dir, 'openclaw.db');
+
+const backends: Array<[string, () => StorageBackend]> = [
+  ['file', () => new FileBackend(state.dir, KEY)],
+  ['sqlite', () => new SqliteBackend(dbPath(), KEY)],
+];
+
+describe('storage', () => {
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-storage-'));
+    vi.mocked(auditInfo).mockClear();
+    vi.mocked(auditError).mockClear();
+  });
+
+  afterEach(() => {
+    configureStorage(new FileBackend(state.dir, KEY));
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  describe.each(backends)('%s backend', (_name, create) => {
+    let backend: StorageBackend;
+
+    beforeEach(() => {
+      backend = create();
+    });
+
+    afterEach(() => {
+      backend.close();
+    });
+
+    it('should round-trip records in every collection', () => {
+      const s = session();
+      backend.put('sessions', s.id, s);
+      backend.put('consent', `signal:${CONTACT}`, { granted: true });
+      backend.put('safetyNumbers', CONTACT, { fingerprint: 'abc' });
+
+      expect(backend.get('sessions', s.id)).toEqual(s);
+      expect(backend.get('consent', `signal:${CONTACT}`)).toEqual({ granted: true });
+      expect(backend.keys('safetyNumbers')).toEqual([CONTACT]);
+      expect(backend.entries('consent')).toEqual([[`signal:${CONTACT}`, { granted: true }]]);
+      expect(backend.get('consent', 'signal:+10000000000')).toBeNull();
+    });
+
+    it('should delete and clear records', () => {
+      backend.put('consent', 'a', 1);
+      backend.put('consent', 'b', 2);
+
+      expect(backend.delete('consent', 'a')).toBe(true);
+      expect(backend.delete('consent', 'a')).toBe(false);
+      expect(backend.keys('consent')).toEqual(['b']);
+
+      backend.clear('consent');
+      expect(backend.keys('consent')).toEqual([]);
+    });
+
+    it('should discard writes from a failed transaction', () => {
+      backend.put('consent', 'kept', 1);
+      expect(() => backend.transaction(() => {
+        backend.put('consent', 'dropped', 2);
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(backend.keys('consent')).toEqual(['kept']);
+    });
+  });
+
+  describe('sqlite backend', () => {
+    it('should not store contact IDs or content in plaintext', () => {
+      const backend = new SqliteBackend(dbPath(), KEY);
+      backend.put('sessions', 'session-1', session());
+      backend.put('consent', `signal:${CONTACT}`, { granted: true });
+      backend.close();
+
+      const raw = readFileSync(dbPath()).toString('latin1');
+      expect(raw).not.toContain(CONTACT);
+      expect(raw).not.toContain('secret message body');
+      expect(raw).not.toContain('session-1');
+    });
+
+    it('should refuse to read with the wrong key', () => {
+      const backend = new SqliteBackend(dbPath(), KEY);
+      backend.put('consent', 'a', 1);
+      backend.close();
+
+      const wrong = new SqliteBackend(dbPath(), 'another-master-key-for-encryption-32!');
+      expect(wrong.get('consent', 'a')).toBeNull();
+      expect(() => wrong.entries('consent')).toThrow();
+      wrong.close();
+    });
+
+    it('should detect values swapped between records', () => {
+      const backend = new SqliteBackend(dbPath(), KEY);
+      backend.put('consent', 'a', 'value-a');
+      backend.put('consent', 'b', 'value-b');
+      backend.close();
+
+      const db = new Database(dbPath());
+      const rows = db.prepare('SELECT key_hash, value FROM records').all() as Array<{ key_hash: string; value: Buffer }>;
+      const update = db.prepare('UPDATE records SET value = ? WHERE key_hash = ?');
+      update.run(rows[1]!.value, rows[0]!.key_hash);
+      update.run(rows[0]!.value, rows[1]!.key_hash);
+      db.close();
+
+      const reopened = new SqliteBackend(dbPath(), KEY);
+      expect(() => reopened.get('consent', 'a')).toThrow('key mismatch');
+      reopened.close();
+    });
+
+    it('should require an encryption key', () => {
+      expect(() => createStorageBackend({ backend: 'sqlite', sqlitePath: dbPath() })).toThrow('encryption key');
+    });
+  });
+
+  describe('migration', () => {
+    it('should copy every collection from files to sqlite and back', () => {
+      const file = new FileBackend(state.dir, KEY);
+      const s = session();
+      file.put('sessions', s.id, s);
+      file.put('sessionIndex', 'hash', [{ sessionId: s.id, agentId: 'default', expiresAt: s.expiresAt }]);
+      file.put('consent', `signal:${CONTACT}`, { granted: true });
+      file.put('safetyNumbers', CONTACT, { fingerprint: 'abc' });
+
+      const sqlite = new SqliteBackend(dbPath(), KEY);
+      expect(migrateStorage(file, sqlite)).toEqual({ sessions: 1, sessionIndex: 1, consent: 1, safetyNumbers: 1, bans: 0, suspensions: 0 });
+      expect(sqlite.get('sessions', s.id)).toEqual(s);
+      expect(auditInfo).toHaveBeenCalledWith('storage_migrated', expect.objectContaining({
+        details: expect.objectContaining({ from: 'file', to: 'sqlite' }),
+      }));
+
+      const back = new FileBackend(join(state.dir, 'restored'), KEY);
+      migrateStorage(sqlite, back);
+      expect(back.get('sessions', s.id)).toEqual(s);
+      expect(back.get('safetyNumbers', CONTACT)).toEqual({ fingerprint: 'abc' });
+      sqlite.close();
+    });
+
+    it('should leave the source untouched', () => {
+      const file = new FileBackend(state.dir, KEY);
+      file.put('consent', 'a', 1);
+      const sqlite = new SqliteBackend(dbPath(), KEY);
+      migrateStorage(file, sqlite);
+      sqlite.close();
+
+      expect(file.entries('consent')).toEqual([['a', 1]]);
+    });
+  });
+
+  describe('configured backend', () => {
+    it('should back StateManager and consent with sqlite', () => {
+      configureStorage(createStorageBackend({ backend: 'sqlite', sqlitePath: dbPath() }, KEY));
+      expect(getStorage().name).toBe('sqlite');
+
+      const sm = new StateManager(KEY, SECRET);
+      const s = session();
+      sm.saveSession(s);
+      recordConsent(CONTACT, ['assistant'], KEY);
+
+      expect(new StateManager(KEY, SECRET).findSession('signal', CONTACT, 'default')?.id).toBe(s.id);
+      expect(hasConsent(CONTACT, KEY)).toBe(true);
+      expect(existsSync(join(state.dir, 'sessions', `${s.id}.enc`))).toBe(false);
+      expect(existsSync(join(state.dir, 'consent.enc'))).toBe(false);
+    });
+  });
+
+  describe('recovery', () => {
+    const consentFile = () => join(state.dir, 'consent.enc');
+
+    it('should refuse to treat a damaged store as empty', () => {
+      const backend = new FileBackend(state.dir, KEY);
+      configureStorage(backend);
+      expect(hasConsent('a', KEY)).toBe(false);
+      backend.put('consent', 'a', 1);
+      writeFileSync(consentFile(), 'truncated');
+
+      expect(() => backend.get('consent', 'a')).toThrow('storage check --repair');
+      expect(() => backend.put('consent', 'b', 2)).toThrow('damaged');
+      expect(readFileSync(consentFile(), 'utf-8')).toBe('truncated');
+      expect(() => hasConsent('a', KEY)).toThrow('damaged');
+      expect(auditError).toHaveBeenCalledTimes(1);
+      expect(auditError).toHaveBeenCalledWith('storage_corrupt', expect.objectContaining({
+        details: expect.objectContaining({ collection: 'consent', file: 'consent.enc' }),
+      }));
+    });
+
+    it('should restore a damaged store from its backup', () => {
+      const backend = new FileBackend(state.dir, KEY);
+      backend.put('consent', 'a', 1);
+      backend.put('consent', 'b', 2);
+      writeFileSync(consentFile(), 'truncated');
+
+      expect(checkStorage(backend, false).problems).toEqual([
+        expect.objectContaining({ collection: 'consent', location: 'consent.enc', issue: 'corrupt' }),
+      ]);
+      const report = checkStorage(backend, true);
+      expect(report.problems[0]?.repair).toBe('restored_from_backup');
+      expect(backend.entries('consent')).toEqual([['a', 1]]);
+      expect(readdirSync(state.dir).some(f => f.startsWith('consent.enc.corrupt-'))).toBe(true);
+    });
+
+    it('should quarantine a damaged store without a usable backup', () => {
+      const backend = new FileBackend(state.dir, KEY, { backups: false });
+      backend.put('consent', 'a', 1);
+      writeFileSync(consentFile(), 'truncated');
+
+      expect(checkStorage(backend, true).problems[0]?.repair).toBe('quarantined');
+      expect(backend.keys('consent')).toEqual([]);
+      expect(checkStorage(backend, false).problems).toEqual([]);
+    });
+
+    it('should destroy the backup when a record is deleted', () => {
+      const backend = new FileBackend(state.dir, KEY);
+      backend.put('consent', `signal:${CONTACT}`, { granted: true });
+      backend.put('consent', 'other', 1);
+      expect(existsSync(consentFile() + '.bak')).toBe(true);
+
+      backend.delete('consent', `signal:${CONTACT}`);
+      expect(existsSync(consentFile() + '.bak')).toBe(false);
+    });
+
+    it('should remove temp files left by an interrupted write', () => {
+      const backend = new FileBackend(state.dir, KEY);
+      backend.put('consent', 'a', 1);
+      writeFileSync(join(state.dir, '.consent.enc.abc123.tmp'), 'partial');
+
+      expect(checkStorage(backend, true).problems).toEqual([
+        expect.objectContaining({ location: '.consent.enc.abc123.tmp', issue: 'interrupted_write', repair: 'removed' }),
+      ]);
+      expect(existsSync(join(state.dir, '.consent.enc.abc123.tmp'))).toBe(false);
+    });
+
+    it('should replay a transaction interrupted after its journal was written', () => {
+      const temp = '.consent.enc.feed.tmp';
+      writeFileSync(join(state.dir, temp), encrypt(JSON.stringify({ records: { a: 1 } }), KEY));
+      writeFileSync(join(state.dir, JOURNAL_FILE), JSON.stringify({ renames: [{ temp, target: 'consent.enc' }] }));
+
+      const backend = new FileBackend(state.dir, KEY);
+      expect(backend.get('consent', 'a')).toBe(1);
+      expect(existsSync(join(state.dir, JOURNAL_FILE))).toBe(false);
+    });
+
+    it('should refuse to repair when nothing decrypts', () => {
+      const backend = new FileBackend(state.dir, KEY);
+      backend.put('consent', 'a', 1);
+      backend.put('sessions', 'session-1', session());
+
+      const wrongKey = new FileBackend(state.dir, 'another-master-key-for-encryption-32!');
+      expect(() => checkStorage(wrongKey, true)).toThrow('encryption key');
+      expect(backend.get('consent', 'a')).toBe(1);
+    });
+
+    it('should quarantine undecryptable sqlite rows on repair', () => {
+      const backend = new SqliteBackend(dbPath(), KEY);
+      backend.put('consent', 'a', 1);
+      backend.put('consent', 'b', 2);
+      const db = new Database(dbPath());
+      const [row] = db.prepare('SELECT key_hash FROM records').all() as Array<{ key_hash: string }>;
+      db.prepare('UPDATE records SET value = ? WHERE key_hash = ?').run(Buffer.from('garbage'), row!.key_hash);
+      db.close();
+
+      const report = checkStorage(backend, true);
+      expect(report.checked).toBe(2);
+      expect(report.problems).toEqual([expect.objectContaining({ collection: 'consent', issue: 'corrupt', repair: 'quarantined' })]);
+      expect(backend.keys('consent')).toHaveLength(1);
+      backend.close();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for 1.19: Transcripts
+ * Encrypted append-only per-contact turns, pseudonymous file names, torn
+ * lines, retention pruning, key rotation and erasure.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, readdirSync, appendFileSync, utimesSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import {
+  TranscriptLog,
+  TRANSCRIPTS_DIR,
+  transcriptFileName,
+  reencryptTranscript,
+  type TranscriptEntry,
+} from '../../src/core/transcripts.js';
+import { registerKeyring, readKeyId } from '../../src/security/encryptedStore.js';
+import { eraseContact } from '../../src/security/rightToErasure.js';
+import { auditInfo, auditWarn } from '../../src/security/auditLogger.js';
+
+const KEY = 'test-master-key-for-encryption-32chars!';
+const NEW_KEY = 'new-master-key-for-encryption-32chars!!';
+const SECRET = 'test-pii-hmac-secret-for-hashing-32ch!';
+const CONTACT = '+12025551234';
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+function entry(overrides?: Partial<TranscriptEntry>): TranscriptEntry {
+  return {
+    timestamp: NOW.toISOString(),
+    channel: 'signal',
+    contactId: CONTACT,
+    agentId: 'default',
+    sessionId: 'session-1',
+    user: 'What is my balance?',
+    assistant: 'Your balance is 42.',
+    toolCalls: [{ name: 'balance', input: { account: 'main' }, isError: false }],
+    usage: { inputTokens: 100, outputTokens: 20, model: 'claude-sonnet-4-20250514' },
+    ...overrides,
+  };
+}
+
+function daysBefore(date: Date, days: number): Date {
+  return new Date(date.getTime() - days * 86400_000);
+}
+
+describe('TranscriptLog', () => {
+  let log: TranscriptLog;
+  let file: string;
+
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-transcripts-'));
+    registerKeyring([]);
+    log = new TranscriptLog(KEY, SECRET, 30, state.dir);
+    file = join(state.dir, TRANSCRIPTS_DIR, transcriptFileName('signal', CONTACT, SECRET));
+    vi.mocked(auditInfo).mockClear();
+    vi.mocked(auditWarn).mockClear();
+  });
+
+  afterEach(() => {
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it('should read back appended turns in order', () => {
+    log.append(entry({ user: 'first' }), NOW);
+    log.append(entry({ user: 'second', error: true }), NOW);
+
+    const { entries, unreadable } = log.read('signal', CONTACT);
+    expect(unreadable).toBe(0);
+    expect(entries.map(e => e.user)).toEqual(['first', 'second']);
+    expect(entries[0]).toEqual(entry({ user: 'first' }));
+    expect(entries[1]!.error).toBe(true);
+  });
+
+  it('should keep contacts and channels in separate files', () => {
+    log.append(entry(), NOW);
+    log.append(entry({ channel: 'discord', contactId: '123456789' }), NOW);
+
+    expect(log.read('signal', CONTACT).entries).toHaveLength(1);
+    expect(log.read('discord', CONTACT).entries).toHaveLength(0);
+    expect(log.list()).toHaveLength(2);
+    expect(log.list({ contactId: CONTACT, channels: ['signal', 'discord'] })).toEqual([
+      expect.objectContaining({ turns: 1, pseudonym: transcriptFileName('signal', CONTACT, SECRET).slice(0, -4) }),
+    ]);
+  });
+
+  it('should not store the contact or message text in plaintext', () => {
+    log.append(entry(), NOW);
+
+    const names = readdirSync(join(state.dir, TRANSCRIPTS_DIR));
+    expect(names.join()).not.toContain('12025551234');
+    const content = readFileSync(file, 'utf-8');
+    expect(content).not.toContain('12025551234');
+    expect(content).not.toContain('balance');
+  });
+
+  it('should lose only a torn line', () => {
+    log.append(entry({ user: 'before' }), NOW);
+    appendFileSync(file, 'T0NLAWsx'); // crash mid-append
+    log.append(entry({ user: 'after' }), NOW);
+
+    const { entries, unreadable } = log.read('signal', CONTACT);
+    expect(entries.map(e => e.user)).toEqual(['before', 'after']);
+    expect(unreadable).toBe(1);
+    expect(auditWarn).toHaveBeenCalledWith('transcript_lines_unreadable', expect.anything());
+  });
+
+  it('should not read another installation\'s transcripts', () => {
+    log.append(entry(), NOW);
+    const other = new TranscriptLog('another-master-key-for-encrypt-32chars', SECRET, 30, state.dir);
+    expect(other.read('signal', CONTACT)).toEqual({ entries: [], unreadable: 1 });
+  });
+
+  it('should drop turns older than retentionDays', () => {
+    log.append(entry({ user: 'old', timestamp: daysBefore(NOW, 40).toISOString() }), NOW);
+    log.append(entry({ user: 'new' }), NOW);
+
+    expect(log.prune(NOW)).toEqual({ filesDeleted: 0, turnsDropped: 1 });
+    expect(log.read('signal', CONTACT).entries.map(e => e.user)).toEqual(['new']);
+    expect(auditInfo).toHaveBeenCalledWith('transcripts_pruned', expect.anything());
+  });
+
+  it('should delete files with no recent turns', () => {
+    log.append(entry({ timestamp: daysBefore(NOW, 40).toISOString() }), NOW);
+    const old = daysBefore(NOW, 40);
+    utimesSync(file, old, old);
+
+    expect(log.prune(NOW)).toEqual({ filesDeleted: 1, turnsDropped: 1 });
+    expect(existsSync(file)).toBe(false);
+  });
+
+  it('should prune on the first append of a day', () => {
+    log.append(entry({ timestamp: daysBefore(NOW, 40).toISOString() }), daysBefore(NOW, 40));
+    log.append(entry({ user: 'today' }), NOW);
+
+    expect(log.read('signal', CONTACT).entries.map(e => e.user)).toEqual(['today']);
+  });
+
+  it('should re-encrypt every line under a new key', () => {
+    log.append(entry({ user: 'one' }), NOW);
+    log.append(entry({ user: 'two' }), NOW);
+    registerKeyring([{ id: 'k2', key: NEW_KEY }, { id: 'k1', key: KEY, retired: true }]);
+
+    expect(reencryptTranscript(file, NEW_KEY)).toEqual({ status: 'rotated', unreadable: 0 });
+    expect(reencryptTranscript(file, NEW_KEY)).toEqual({ status: 'current', unreadable: 0 });
+    for (const line of readFileSync(file, 'utf-8').split('\n').filter(Boolean)) {
+      expect(readKeyId(Buffer.from(line, 'base64'))).toBe('k2');
+    }
+
+    registerKeyring([{ id: 'k2', key: NEW_KEY }]);
+    const rotated = new TranscriptLog(NEW_KEY, SECRET, 30, state.dir);
+    expect(rotated.read('signal', CONTACT).entries.map(e => e.user)).toEqual(['one', 'two']);
+  });
+
+  it('should be erased with the contact', () => {
+    log.append(entry(), NOW);
+    log.append(entry({ contactId: '+13335551234' }), NOW);
+
+    eraseContact(CONTACT, KEY, SECRET);
+    expect(existsSync(file)).toBe(false);
+    expect(log.list()).toHaveLength(1);
+  });
+});
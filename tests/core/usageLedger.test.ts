@@ -0,0 +1,215 @@
+/**
+ * Tests for 1.14: Usage Ledger
+ * Recording, encrypted persistence shared across processes, pricing,
+ * daily/monthly budgets and warnings.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import { UsageLedger, priceFor, estimateCost, type UsageEntry } from '../../src/core/usageLedger.js';
+import { UsageConfigSchema, type UsageConfig } from '../../src/types/index.js';
+import { auditWarn } from '../../src/security/auditLogger.js';
+
+const KEY = 'test-master-key-for-encryption-32chars!';
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+function entry(overrides?: Partial<UsageEntry>): UsageEntry {
+  return {
+    channel: 'signal',
+    contactId: '+12025551234',
+    agentId: 'default',
+    model: 'claude-sonnet-4-20250514',
+    inputTokens: 1000,
+    outputTokens: 500,
+    ...overrides,
+  };
+}
+
+function usageConfig(overrides?: Partial<UsageConfig>): UsageConfig {
+  return { ...UsageConfigSchema.parse({}), ...overrides };
+}
+
+describe('usageLedger', () => {
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-usage-'));
+    vi.mocked(auditWarn).mockClear();
+  });
+
+  afterEach(() => {
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  // ── Pricing ─────────────────────────────────────────────────
+
+  describe('pricing', () => {
+    it('should match models by prefix', () => {
+      expect(priceFor('claude-sonnet-4-20250514')).toEqual({ inputPerMTok: 3, outputPerMTok: 15 });
+      expect(priceFor('llama3.1:8b')).toBeUndefined();
+    });
+
+    it('should prefer config overrides', () => {
+      const overrides = { 'llama3': { inputPerMTok: 0, outputPerMTok: 0 } };
+      expect(priceFor('llama3.1:8b', overrides)).toEqual({ inputPerMTok: 0, outputPerMTok: 0 });
+    });
+
+    it('should estimate cost per million tokens', () => {
+      expect(estimateCost({ inputTokens: 1_000_000, outputTokens: 100_000 }, { inputPerMTok: 3, outputPerMTok: 15 })).toBeCloseTo(4.5);
+      expect(estimateCost({ inputTokens: 1, outputTokens: 1 }, undefined)).toBeUndefined();
+    });
+  });
+
+  // ── Recording ───────────────────────────────────────────────
+
+  describe('record', () => {
+    it('should aggregate by day, contact, channel, agent and model', () => {
+      const ledger = new UsageLedger(usageConfig(), KEY);
+      ledger.record(entry(), NOW);
+      ledger.record(entry(), NOW);
+      ledger.record(entry({ agentId: 'support' }), NOW);
+
+      const rows = ledger.query({ contactId: '+12025551234' });
+      expect(rows).toHaveLength(2);
+      expect(ledger.totals(ledger.query({ agentId: 'default' }))).toMatchObject({
+        inputTokens: 2000,
+        outputTokens: 1000,
+        requests: 2,
+      });
+    });
+
+    it('should persist encrypted and reload', () => {
+      const ledger = new UsageLedger(usageConfig(), KEY);
+      ledger.record(entry(), NOW);
+
+      const raw = readFileSync(join(state.dir, 'usage.enc'));
+      expect(raw.toString('utf-8')).not.toContain('+12025551234');
+
+      const reloaded = new UsageLedger(usageConfig(), KEY);
+      expect(reloaded.query({ period: '2026-03' })).toHaveLength(1);
+    });
+
+    it('should not overwrite an unreadable ledger', () => {
+      writeFileSync(join(state.dir, 'usage.enc'), 'truncated');
+      const ledger = new UsageLedger(usageConfig(), KEY);
+      ledger.record(entry(), NOW);
+
+      expect(auditWarn).toHaveBeenCalledWith('usage_ledger_unreadable', expect.anything());
+      expect(ledger.query()).toHaveLength(1);
+      expect(readFileSync(join(state.dir, 'usage.enc'), 'utf-8')).toBe('truncated');
+    });
+
+    it('should stay in memory without an encryption key', () => {
+      const ledger = new UsageLedger(usageConfig());
+      ledger.record(entry(), NOW);
+      expect(ledger.query()).toHaveLength(1);
+      expect(existsSync(join(state.dir, 'usage.enc'))).toBe(false);
+    });
+
+    it('should filter by day and month', () => {
+      const ledger = new UsageLedger(usageConfig(), KEY);
+      ledger.record(entry(), NOW);
+      ledger.record(entry(), new Date('2026-03-01T00:00:00Z'));
+      ledger.record(entry(), new Date('2026-02-28T23:59:59Z'));
+
+      expect(ledger.query({ period: '2026-03-15' })).toHaveLength(1);
+      expect(ledger.query({ period: '2026-03' })).toHaveLength(2);
+    });
+
+    it('should not write back rows another process has erased', () => {
+      const gateway = new UsageLedger(usageConfig(), KEY);
+      gateway.record(entry(), NOW);
+      gateway.record(entry({ contactId: 'other' }), NOW);
+
+      expect(new UsageLedger(usageConfig(), KEY).forget('+12025551234')).toBe(1);
+      expect(gateway.query({ contactId: '+12025551234' })).toEqual([]);
+
+      gateway.record(entry({ contactId: 'other' }), NOW);
+      const onDisk = new UsageLedger(usageConfig(), KEY);
+      expect(onDisk.query({ contactId: '+12025551234' })).toEqual([]);
+      expect(onDisk.query({ contactId: 'other' })).toMatchObject([{ requests: 2 }]);
+    });
+
+    it('should prune rows older than its retention', () => {
+      const ledger = new UsageLedger(usageConfig(), KEY, 30);
+      ledger.record(entry(), new Date('2026-02-01T00:00:00Z'));
+      ledger.record(entry(), new Date('2026-03-01T00:00:00Z'));
+
+      expect(ledger.prune(NOW)).toBe(1);
+      expect(new UsageLedger(usageConfig(), KEY).query().map(r => r.day)).toEqual(['2026-03-01']);
+    });
+  });
+
+  // ── Budgets ─────────────────────────────────────────────────
+
+  describe('checkBudget', () => {
+    it('should allow everything when no budget is set', () => {
+      const ledger = new UsageLedger(usageConfig(), KEY);
+      ledger.record(entry({ inputTokens: 10_000_000 }), NOW);
+      expect(ledger.checkBudget('signal', '+12025551234', NOW)).toEqual({ allowed: true, usedPercent: 0 });
+    });
+
+    it('should cut off a contact over the daily token budget', () => {
+      const ledger = new UsageLedger(usageConfig({ dailyTokens: 3000 }), KEY);
+      ledger.record(entry(), NOW);
+      expect(ledger.checkBudget('signal', '+12025551234', NOW).allowed).toBe(true);
+
+      ledger.record(entry(), NOW);
+      const check = ledger.checkBudget('signal', '+12025551234', NOW);
+      expect(check).toMatchObject({ allowed: false, budget: 'dailyTokens' });
+      expect(auditWarn).toHaveBeenCalledWith('usage_budget_exceeded', expect.anything());
+
+      // Next day starts fresh
+      expect(ledger.checkBudget('signal', '+12025551234', new Date('2026-03-16T00:00:01Z')).allowed).toBe(true);
+    });
+
+    it('should cut off on the monthly cost budget', () => {
+      // 1M in + 1M out on Sonnet = $18
+      const ledger = new UsageLedger(usageConfig({ monthlyCostUsd: 10 }), KEY);
+      ledger.record(entry({ inputTokens: 1_000_000, outputTokens: 1_000_000 }), new Date('2026-03-02T00:00:00Z'));
+      expect(ledger.checkBudget('signal', '+12025551234', NOW)).toMatchObject({
+        allowed: false,
+        budget: 'monthlyCostUsd',
+      });
+    });
+
+    it('should only count the contact being checked', () => {
+      const ledger = new UsageLedger(usageConfig({ dailyTokens: 1000 }), KEY);
+      ledger.record(entry({ contactId: '+13335551234', inputTokens: 5000 }), NOW);
+      expect(ledger.checkBudget('signal', '+12025551234', NOW).allowed).toBe(true);
+    });
+
+    it('should warn once per period when crossing warnAtPercent', () => {
+      const ledger = new UsageLedger(usageConfig({ dailyTokens: 1800, warnAtPercent: 80 }), KEY);
+      ledger.record(entry(), NOW); // 1500 / 1800 = 83%
+
+      const check = ledger.checkBudget('signal', '+12025551234', NOW);
+      expect(check.allowed).toBe(true);
+      expect(check.usedPercent).toBeCloseTo(83.3);
+      ledger.checkBudget('signal', '+12025551234', NOW);
+
+      const warnings = vi.mocked(auditWarn).mock.calls.filter(c => c[0] === 'usage_budget_warning');
+      expect(warnings).toHaveLength(1);
+    });
+
+    it('should not enforce budgets when disabled', () => {
+      const ledger = new UsageLedger(usageConfig({ enabled: false, dailyTokens: 1 }), KEY);
+      ledger.record(entry(), NOW);
+      expect(ledger.checkBudget('signal', '+12025551234', NOW).allowed).toBe(true);
+    });
+  });
+});
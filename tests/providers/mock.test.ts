@@ -0,0 +1,98 @@
+/**
+ * Tests for LLM Provider: Mock
+ * Scripted replies, deterministic tool calls, echo fallback and script files.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MockProvider } from '../../src/providers/mock.js';
+import { createProvider, type LLMRequest } from '../../src/core/llm.js';
+import { LLMConfigSchema } from '../../src/types/index.js';
+
+function request(text: string): LLMRequest {
+  return { systemPrompt: 'S', messages: [{ role: 'user', content: text }] };
+}
+
+describe('MockProvider', () => {
+  let dir = '';
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = '';
+  });
+
+  it('should be selectable without an API key', () => {
+    expect(createProvider(LLMConfigSchema.parse({ provider: 'mock' })).name).toBe('mock');
+  });
+
+  it('should play the script in order, then echo', async () => {
+    const provider = new MockProvider(LLMConfigSchema.parse({
+      provider: 'mock',
+      mock: { script: [{ text: 'first' }, { text: 'second', inputTokens: 7, outputTokens: 2 }] },
+    }));
+
+    expect((await provider.complete(request('a'))).content).toBe('first');
+    expect(await provider.complete(request('b'))).toMatchObject({
+      content: 'second',
+      stopReason: 'end_turn',
+      inputTokens: 7,
+      outputTokens: 2,
+    });
+    expect(provider.remaining()).toBe(0);
+    expect((await provider.complete(request('hello'))).content).toBe('[mock] hello');
+  });
+
+  it('should return scripted tool calls with deterministic IDs', async () => {
+    const provider = new MockProvider(LLMConfigSchema.parse({
+      provider: 'mock',
+      mock: {
+        script: [
+          { toolCalls: [{ name: 'read_file', input: { path: '/tmp/a' } }, { name: 'list_directory' }] },
+          { text: 'Done.' },
+        ],
+      },
+    }));
+
+    const response = await provider.complete(request('read it'));
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.toolCalls).toEqual([
+      { id: 'mock_call_1', name: 'read_file', input: { path: '/tmp/a' } },
+      { id: 'mock_call_2', name: 'list_directory', input: {} },
+    ]);
+  });
+
+  it('should stream the scripted text in chunks', async () => {
+    const provider = new MockProvider(LLMConfigSchema.parse({
+      provider: 'mock',
+      mock: { script: [{ text: 'Hello there, friend.' }] },
+    }));
+
+    const deltas: string[] = [];
+    const response = await provider.stream(request('hi'), d => deltas.push(d));
+    expect(deltas).toEqual(['Hello ', 'there, ', 'friend.']);
+    expect(deltas.join('')).toBe(response.content);
+  });
+
+  it('should append steps from scriptPath', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-mock-'));
+    const scriptPath = join(dir, 'script.json');
+    writeFileSync(scriptPath, JSON.stringify([{ text: 'from file' }]));
+
+    const provider = new MockProvider(LLMConfigSchema.parse({
+      provider: 'mock',
+      mock: { script: [{ text: 'inline' }], scriptPath },
+    }));
+
+    expect((await provider.complete(request('a'))).content).toBe('inline');
+    expect((await provider.complete(request('b'))).content).toBe('from file');
+  });
+
+  it('should reject an invalid script file', () => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-mock-'));
+    const scriptPath = join(dir, 'script.json');
+    writeFileSync(scriptPath, JSON.stringify([{ toolCalls: [{ input: {} }] }]));
+
+    expect(() => new MockProvider(LLMConfigSchema.parse({ provider: 'mock', mock: { scriptPath } }))).toThrow();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for the OpenAI-compatible LLM provider
+ * Message conversion, tool calls, streaming (SSE), usage, HTTP errors.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAICompatibleProvider, toChatMessages } from '../../src/providers/openaiCompatible.js';
+import { LLMConfigSchema, type LLMConfig } from '../../src/types/index.js';
+
+const config: LLMConfig = LLMConfigSchema.parse({
+  provider: 'openai-compatible',
+  model: 'llama3.1:8b',
+  baseUrl: 'http://127.0.0.1:11434/v1/',
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const payload = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+  // Split mid-line to exercise buffering across chunks
+  const bytes = new TextEncoder().encode(payload);
+  const mid = Math.floor(bytes.length / 2);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes.slice(0, mid));
+      controller.enqueue(bytes.slice(mid));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // ── Message conversion ──────────────────────────────────────
+
+  describe('toChatMessages', () => {
+    it('should prepend the system prompt and pass plain messages through', () => {
+      expect(toChatMessages('Be brief.', [{ role: 'user', content: 'Hi' }])).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ]);
+    });
+
+    it('should map tool_use and tool_result blocks', () => {
+      const messages = toChatMessages('S', [
+        { role: 'user', content: 'Weather?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'call-1', name: 'weather', input: { city: 'Oslo' } },
+          ],
+        },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-1', content: 'sunny' }] },
+      ]);
+
+      expect(messages.slice(2)).toEqual([
+        {
+          role: 'assistant',
+          content: 'Checking.',
+          tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call-1', content: 'sunny' },
+      ]);
+    });
+  });
+
+  // ── Requests ────────────────────────────────────────────────
+
+  describe('complete', () => {
+    it('should post to /chat/completions and map the response', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse({
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{ id: 'c1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 42, completion_tokens: 7 },
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new OpenAICompatibleProvider(config);
+      const response = await provider.complete({
+        systemPrompt: 'S',
+        messages: [{ role: 'user', content: 'Weather?' }],
+        tools: [{ name: 'weather', description: 'Get weather', input_schema: { type: 'object' } }],
+      });
+
+      expect(response).toEqual({
+        content: '',
+        toolCalls: [{ id: 'c1', name: 'weather', input: { city: 'Oslo' } }],
+        stopReason: 'tool_use',
+        inputTokens: 42,
+        outputTokens: 7,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://127.0.0.1:11434/v1/chat/completions');
+      const body = JSON.parse(init.body as string);
+      expect(body.model).toBe('llama3.1:8b');
+      expect(body.tools[0].function.name).toBe('weather');
+      expect((init.headers as Record<string, string>).authorization).toBeUndefined();
+    });
+
+    it('should send the API key as a bearer token when configured', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse({ choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }] }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await new OpenAICompatibleProvider({ ...config, apiKey: 'sk-local' })
+        .complete({ systemPrompt: 'S', messages: [{ role: 'user', content: 'Hi' }] });
+
+      const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+      expect((init.headers as Record<string, string>).authorization).toBe('Bearer sk-local');
+    });
+
+    it('should surface HTTP errors with their status', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('bad key', { status: 401 })));
+      const provider = new OpenAICompatibleProvider(config);
+      await expect(provider.complete({ systemPrompt: 'S', messages: [] }))
+        .rejects.toMatchObject({ status: 401 });
+    });
+
+    it('should tolerate malformed tool arguments and missing IDs', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({
+        choices: [{
+          message: { content: '', tool_calls: [{ id: '', type: 'function', function: { name: 'x', arguments: '{oops' } }] },
+          finish_reason: 'tool_calls',
+        }],
+      })));
+      const response = await new OpenAICompatibleProvider(config).complete({ systemPrompt: 'S', messages: [] });
+      expect(response.toolCalls).toEqual([{ id: 'call_0', name: 'x', input: {} }]);
+      expect(response.inputTokens).toBe(0);
+    });
+
+    it('should require a baseUrl', () => {
+      expect(() => new OpenAICompatibleProvider({ ...config, baseUrl: undefined })).toThrow('baseUrl');
+    });
+  });
+
+  describe('stream', () => {
+    it('should emit text deltas and assemble tool calls and usage', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+        { choices: [{ delta: { content: 'Let me ' } }] },
+        { choices: [{ delta: { content: 'check.' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'c1', function: { name: 'weather', arguments: '{"ci' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] } }] },
+        { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+        { choices: [], usage: { prompt_tokens: 30, completion_tokens: 12 } },
+      ])));
+
+      const deltas: string[] = [];
+      const response = await new OpenAICompatibleProvider(config)
+        .stream({ systemPrompt: 'S', messages: [{ role: 'user', content: 'Weather?' }] }, d => deltas.push(d));
+
+      expect(deltas).toEqual(['Let me ', 'check.']);
+      expect(response).toEqual({
+        content: 'Let me check.',
+        toolCalls: [{ id: 'c1', name: 'weather', input: { city: 'Oslo' } }],
+        stopReason: 'tool_use',
+        inputTokens: 30,
+        outputTokens: 12,
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for LLM Provider: Record / Replay
+ * Fixture capture without credentials and byte-for-byte replay through a provider.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRecordReplayFetch, type FetchLike, type Fixture } from '../../src/providers/recordReplay.js';
+import { OpenAICompatibleProvider } from '../../src/providers/openaiCompatible.js';
+import { LLMConfigSchema, type RecordReplayConfig } from '../../src/types/index.js';
+
+const SSE = [
+  'data: {"choices":[{"delta":{"content":"Hello"}}]}',
+  'data: {"choices":[{"delta":{"content":" world"},"finish_reason":"stop"}]}',
+  'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2}}',
+  'data: [DONE]',
+  '',
+].join('\n\n');
+
+const config = LLMConfigSchema.parse({
+  provider: 'openai-compatible',
+  baseUrl: 'http://127.0.0.1:8080/v1',
+  apiKey: 'sk-secret-key',
+  model: 'llama3.1:8b',
+});
+
+const request = { systemPrompt: 'S', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+describe('recordReplay', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function recordReplay(mode: RecordReplayConfig['mode'], inner?: FetchLike): FetchLike {
+    return createRecordReplayFetch({ mode, dir }, inner);
+  }
+
+  it('should record exchanges without request headers', async () => {
+    const inner = vi.fn<FetchLike>(async () => new Response(SSE, {
+      status: 200,
+      headers: { 'content-type': 'text/event-stream', 'set-cookie': 'a=b' },
+    }));
+
+    const provider = new OpenAICompatibleProvider(config, recordReplay('record', inner));
+    const response = await provider.stream(request, () => {});
+    expect(response.content).toBe('Hello world');
+    expect(inner).toHaveBeenCalledOnce();
+
+    const files = readdirSync(dir);
+    expect(files).toHaveLength(1);
+    const raw = readFileSync(join(dir, files[0]!), 'utf-8');
+    expect(raw).not.toContain('sk-secret-key');
+
+    const fixture = JSON.parse(raw) as Fixture;
+    expect(fixture.request.url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+    expect(fixture.response.body).toBe(SSE);
+    expect(fixture.response.headers).toEqual({ 'content-type': 'text/event-stream' });
+  });
+
+  it('should replay identical bytes without the network', async () => {
+    const inner = vi.fn<FetchLike>(async () => new Response(SSE, { status: 200 }));
+    await new OpenAICompatibleProvider(config, recordReplay('record', inner)).stream(request, () => {});
+
+    const offline = vi.fn<FetchLike>(async () => { throw new Error('network used'); });
+    const replay = recordReplay('replay', offline);
+    const res = await replay(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        messages: [{ role: 'system', content: 'S' }, { role: 'user', content: 'Hi' }],
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+    expect(await res.text()).toBe(SSE);
+
+    const deltas: string[] = [];
+    const response = await new OpenAICompatibleProvider(config, replay).stream(request, d => deltas.push(d));
+    expect(deltas).toEqual(['Hello', ' world']);
+    expect(response).toMatchObject({ content: 'Hello world', inputTokens: 12, outputTokens: 2 });
+    expect(offline).not.toHaveBeenCalled();
+  });
+
+  it('should keep binary bodies intact', async () => {
+    const bytes = Buffer.from([0xff, 0x00, 0xfe, 0x80]);
+    const inner: FetchLike = async () => new Response(bytes, { status: 200 });
+    await recordReplay('record', inner)('http://example.test/bin', { method: 'POST', body: 'x' });
+
+    const res = await recordReplay('replay')('http://example.test/bin', { method: 'POST', body: 'x' });
+    expect(Buffer.from(await res.arrayBuffer()).equals(bytes)).toBe(true);
+  });
+
+  it('should fail loudly when no fixture matches', async () => {
+    const provider = new OpenAICompatibleProvider(config, recordReplay('replay'));
+    await expect(provider.complete(request)).rejects.toThrow('No recorded fixture');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for A-02: Audit Alerts
+ * Which events page, templates, dedup windows, the hourly cap, and
+ * delivery failures.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../../src/core/config.js', () => ({
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+import { audit, auditCritical, initAuditLog } from '../../src/security/auditLogger.js';
+import { AlertManager, renderAlertTemplate, type AlertTransport } from '../../src/security/auditAlerts.js';
+import { OpenClawConfigSchema } from '../../src/types/index.js';
+
+function alertConfig(alerts: Record<string, unknown> = {}) {
+  return OpenClawConfigSchema.parse({ security: { alerts: { enabled: true, ...alerts } } }).security.alerts;
+}
+
+describe('audit alerts', () => {
+  let dir: string;
+  let now: number;
+  let sent: string[];
+  let transport: AlertTransport;
+  let detach: (() => void) | undefined;
+
+  function attach(alerts: Record<string, unknown> = {}, transports = [transport]): AlertManager {
+    const manager = new AlertManager(alertConfig(alerts), transports, () => now);
+    detach = manager.attach();
+    return manager;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-audit-alerts-'));
+    initAuditLog(join(dir, 'audit.jsonl'));
+    now = Date.parse('2026-03-15T09:30:00Z');
+    sent = [];
+    transport = { name: 'signal', send: vi.fn(async (text: string) => { sent.push(text); }) };
+  });
+
+  afterEach(() => {
+    detach?.();
+    detach = undefined;
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should page on CRITICAL events and configured globs only', async () => {
+    const manager = attach({ events: ['rate_limit_*'] });
+    audit('WARN', 'prompt_injection_warning');
+    audit('WARN', 'rate_limit_exceeded');
+    auditCritical('gateway_auth_failed', { details: { ip: '203.0.113.9' } });
+    await manager.settled();
+
+    expect(sent).toHaveLength(2);
+    expect(sent[0]).toMatch(/^\[OpenClaw WARN\] rate_limit_exceeded\n/);
+    expect(sent[1]!.split('\n').slice(0, 2)).toEqual([
+      '[OpenClaw CRITICAL] gateway_auth_failed',
+      'Gateway authentication failed from 203.0.113.9.',
+    ]);
+  });
+
+  it('should render templates from entry fields', () => {
+    const entry = {
+      timestamp: '2026-03-15T09:30:00.000Z',
+      severity: 'CRITICAL' as const,
+      event: 'prompt_injection_detected',
+      channel: 'signal' as const,
+      details: { patterns: ['ignore_previous', 'role_override'], severity: 'block' },
+    };
+    expect(renderAlertTemplate('Injection ({details.severity}) on {channel}: {details.patterns}. {contactId}', entry))
+      .toBe('Injection (block) on signal: ignore_previous, role_override. ?');
+    expect(renderAlertTemplate('{event} {details}', { ...entry, details: undefined })).toBe('prompt_injection_detected');
+  });
+
+  it('should fold repeats into one alert per window and report them with the next', async () => {
+    const manager = attach({ dedupWindowMinutes: 10, templates: { gateway_auth_failed: 'Bad token from {details.ip}' } });
+    for (let i = 0; i < 5; i++) auditCritical('gateway_auth_failed', { details: { ip: '203.0.113.9' } });
+    auditCritical('gateway_auth_failed', { details: { ip: '198.51.100.7' } });
+    await manager.settled();
+    expect(sent.map(s => s.split('\n')[1])).toEqual(['Bad token from 203.0.113.9', 'Bad token from 198.51.100.7']);
+
+    now += 11 * 60_000;
+    auditCritical('gateway_auth_failed', { details: { ip: '203.0.113.9' } });
+    await manager.settled();
+    expect(sent).toHaveLength(3);
+    expect(sent[2]).toContain('4 more like this since the last alert.');
+  });
+
+  it('should cap alerts per hour and say how many were held back', async () => {
+    const manager = attach({ maxPerHour: 2, dedupWindowMinutes: 0 });
+    for (let i = 0; i < 5; i++) auditCritical(`incident_${i}`);
+    await manager.settled();
+    expect(sent).toHaveLength(2);
+    const log = readFileSync(join(dir, 'audit.jsonl'), 'utf-8');
+    expect(log.match(/alert_rate_limited/g)).toHaveLength(1);
+
+    now += 61 * 60_000;
+    auditCritical('incident_5');
+    await manager.settled();
+    expect(sent[2]).toContain('3 other alert(s) were held back by the hourly limit.');
+  });
+
+  it('should audit delivery failures without paging about them', async () => {
+    const broken: AlertTransport = { name: 'discord', send: vi.fn(async () => { throw new Error('Missing Access'); }) };
+    const manager = attach({}, [broken, transport]);
+    auditCritical('skill_integrity_failed_at_runtime', { details: { skill: 'weather', tool: 'get_weather', reason: 'hash mismatch' } });
+    await manager.settled();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toContain('Skill "weather" failed its integrity check before running get_weather: hash mismatch.');
+    const failures = readFileSync(join(dir, 'audit.jsonl'), 'utf-8').split('\n').filter(l => l.includes('alert_delivery_failed'));
+    expect(failures).toHaveLength(1);
+    expect(JSON.parse(failures[0]!).details).toMatchObject({ transport: 'discord', event: 'skill_integrity_failed_at_runtime' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for A-02: Audit Chain
+ * Sealing entries, resuming the chain, and detecting modification, gaps,
+ * reordering and truncation across rotated segments.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../../src/core/config.js', () => ({
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+import { audit, auditLogSettled, checkpointAuditLog, initAuditLog, setAuditChainKey } from '../../src/security/auditLogger.js';
+import { auditLogSegments } from '../../src/security/auditLogFiles.js';
+import { verifyAuditLog, GENESIS_HASH } from '../../src/security/auditChain.js';
+
+const KEY = 'audit-key-for-tests';
+
+describe('audit chain', () => {
+  let dir: string;
+  let logFile: string;
+
+  function lines(): string[] {
+    return readFileSync(logFile, 'utf-8').split('\n').filter(Boolean);
+  }
+
+  function write(entries: string[]): void {
+    writeFileSync(logFile, entries.join('\n') + '\n');
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-audit-chain-'));
+    logFile = join(dir, 'audit.jsonl');
+    initAuditLog(logFile);
+    setAuditChainKey(KEY, 3);
+    for (let i = 1; i <= 5; i++) audit('INFO', `event_${i}`);
+  });
+
+  afterEach(async () => {
+    await auditLogSettled();
+    initAuditLog(logFile);
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should seal entries into a chain that verifies', () => {
+    const entries = lines().map(l => JSON.parse(l) as { seq: number; prevHash: string; hash: string });
+    expect(entries.map(e => e.seq)).toEqual([1, 2, 3, 4, 5]);
+    expect(entries[0]!.prevHash).toBe(GENESIS_HASH);
+    expect(entries[1]!.prevHash).toBe(entries[0]!.hash);
+
+    const report = verifyAuditLog(logFile, KEY);
+    expect(report).toMatchObject({ segments: 1, entries: 5, firstSeq: 1, lastSeq: 5, checkpoints: 1, issues: [] });
+    expect(verifyAuditLog(logFile, 'wrong-key').issues.some(i => i.kind === 'bad-checkpoint')).toBe(true);
+  });
+
+  it('should resume the chain after a restart and across rotation', async () => {
+    initAuditLog(logFile, { maxSizeMB: 0.001, interval: 'never', compress: true });
+    setAuditChainKey(KEY, 3);
+    for (let i = 6; i <= 20; i++) audit('INFO', `event_${i}`, { details: { pad: 'x'.repeat(40) } });
+    await auditLogSettled();
+
+    const report = verifyAuditLog(logFile, KEY);
+    expect(auditLogSegments(logFile).length).toBeGreaterThan(1);
+    expect(report.segments).toBe(auditLogSegments(logFile).length);
+    expect(report.firstSeq).toBe(1);
+    expect(report.lastSeq).toBe(report.entries);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should report a modified entry', () => {
+    const edited = lines();
+    edited[1] = edited[1]!.replace('event_2', 'event_X');
+    write(edited);
+
+    expect(verifyAuditLog(logFile, KEY).issues).toEqual([
+      expect.objectContaining({ kind: 'modified', segment: 'audit.jsonl', line: 2, seq: 2 }),
+    ]);
+  });
+
+  it('should report deleted and reordered entries', () => {
+    const all = lines();
+    write([all[0]!, all[2]!, all[3]!, all[4]!]);
+    expect(verifyAuditLog(logFile, KEY).issues.map(i => [i.kind, i.seq])).toEqual([['gap', 3]]);
+
+    write([all[0]!, all[2]!, all[1]!, all[3]!, all[4]!]);
+    const kinds = verifyAuditLog(logFile, KEY).issues.map(i => i.kind);
+    expect(kinds).toContain('gap');
+    expect(kinds).toContain('reordered');
+  });
+
+  it('should catch truncation through the signed checkpoints', () => {
+    write(lines().slice(0, 2));
+    expect(verifyAuditLog(logFile, KEY).issues).toEqual([
+      expect.objectContaining({ kind: 'truncated', segment: 'audit.jsonl.checkpoints', seq: 3 }),
+    ]);
+  });
+
+  it('should checkpoint the head on exit so the newest entries cannot be cut', () => {
+    const all = lines();
+    // Entries 4 and 5 came after the periodic checkpoint at 3
+    write(all.slice(0, 3));
+    expect(verifyAuditLog(logFile, KEY).issues).toEqual([]);
+    write(all);
+
+    checkpointAuditLog();
+    checkpointAuditLog();
+    expect(readFileSync(`${logFile}.checkpoints`, 'utf-8').split('\n').filter(Boolean)).toHaveLength(2);
+
+    write(all.slice(0, 3));
+    expect(verifyAuditLog(logFile, KEY).issues).toEqual([
+      expect.objectContaining({ kind: 'truncated', seq: 5 }),
+    ]);
+  });
+
+  it('should seal under the log lock and break one left by a dead process', () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(`${logFile}.lock`, String(pid));
+
+    audit('INFO', 'event_6');
+    expect(existsSync(`${logFile}.lock`)).toBe(false);
+    expect(JSON.parse(lines().at(-1)!)).toMatchObject({ event: 'event_6', seq: 6 });
+    expect(verifyAuditLog(logFile, KEY).issues).toEqual([]);
+  });
+
+  it('should count entries from before the key was set and flag unsealed ones after', () => {
+    write([JSON.stringify({ timestamp: new Date().toISOString(), severity: 'INFO', event: 'legacy' }), ...lines()]);
+    expect(verifyAuditLog(logFile, KEY)).toMatchObject({ unchained: 1, issues: [] });
+
+    setAuditChainKey(undefined);
+    audit('INFO', 'unsealed');
+    expect(verifyAuditLog(logFile, KEY).issues.map(i => i.kind)).toEqual(['unsealed']);
+  });
+});
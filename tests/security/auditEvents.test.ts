@@ -0,0 +1,89 @@
+/**
+ * Tests for A-02: Audit Event Catalog
+ * Every emitted event is catalogued, schema-driven recursive scrubbing,
+ * and the generated reference.
+ */
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { AUDIT_EVENTS, isKnownAuditEvent, renderAuditEventDocs, scrubAuditDetails } from '../../src/security/auditEvents.js';
+import { hashPhone } from '../../src/security/piiUtils.js';
+
+const SECRET = 'test-pii-hmac-secret-for-hashing-32ch!';
+const SEVERITY = { Info: 'INFO', Warn: 'WARN', Error: 'ERROR', Critical: 'CRITICAL' } as const;
+
+function sourceFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? sourceFiles(join(dir, entry.name)) : entry.name.endsWith('.ts') ? [join(dir, entry.name)] : []);
+}
+
+describe('audit event catalog', () => {
+  it('should catalogue every event the source emits, at its severity', () => {
+    const problems: string[] = [];
+    for (const file of sourceFiles('src')) {
+      const source = readFileSync(file, 'utf-8');
+      const calls = [
+        ...[...source.matchAll(/audit(Info|Warn|Error|Critical)\(\s*'(\w+)'/g)].map(m => [SEVERITY[m[1] as keyof typeof SEVERITY], m[2]!]),
+        ...[...source.matchAll(/audit\(\s*'(\w+)',\s*'(\w+)'/g)].map(m => [m[1]!, m[2]!]),
+      ];
+      for (const [severity, event] of calls) {
+        const spec = AUDIT_EVENTS[event!];
+        if (!spec) problems.push(`${file}: unknown event ${event}`);
+        else if (!spec.severity.includes(severity as never)) problems.push(`${file}: ${event} logged at ${severity}`);
+      }
+    }
+    expect(problems).toEqual([]);
+    expect(isKnownAuditEvent('gateway_auth_failed')).toBe(true);
+    expect(isKnownAuditEvent('toString')).toBe(false);
+  });
+
+  it('should scrub nested objects and arrays', () => {
+    const details = scrubAuditDetails('made_up_event', {
+      contact: { phone: '+12025551234', notes: ['mail me at user@example.com', 3] },
+      count: 2,
+    }, SECRET);
+    expect(JSON.stringify(details)).not.toMatch(/12025551234|user@example\.com/);
+    expect(details['count']).toBe(2);
+    expect((details['contact'] as { notes: unknown[] }).notes[1]).toBe(3);
+  });
+
+  it('should hash, mask, drop, keep and shorten paths per field', () => {
+    expect(scrubAuditDetails('signal_group_blocked', { groupId: 'grp-1' }, SECRET))
+      .toEqual({ groupId: hashPhone('grp-1', SECRET) });
+    expect(scrubAuditDetails('signal_group_blocked', { groupId: 'grp-1' }, undefined)).toEqual({ groupId: '[REDACTED]' });
+    expect(scrubAuditDetails('signal_channel_started', { phoneNumber: '+12025551234' }, SECRET))
+      .toEqual({ phoneNumber: '+1******1234' });
+    expect(scrubAuditDetails('signal_invalid_event', { raw: '{"envelope":{"source":"+12025551234"}}' }, SECRET)).toEqual({});
+    expect(scrubAuditDetails('gateway_auth_failed', { ip: '203.0.113.9' }, SECRET)).toEqual({ ip: '203.0.113.9' });
+    expect(scrubAuditDetails('file_tool_write', { path: join(homedir(), 'Desktop', 'notes.txt'), bytes: 5 }, SECRET))
+      .toEqual({ path: join('~', 'Desktop', 'notes.txt'), bytes: 5 });
+    expect(scrubAuditDetails('file_tool_read', { path: '/home/alice/Documents/a.txt', bytes: 1 }, SECRET)['path'])
+      .toBe('/home/[user]/Documents/a.txt');
+  });
+
+  it('should keep per-field rules for known fields when details do not match the schema', () => {
+    const details = scrubAuditDetails('signal_channel_started', { phoneNumber: '+12025551234', extra: 'x' }, SECRET);
+    expect(details).toEqual({ phoneNumber: '+1******1234', extra: 'x' });
+
+    expect(scrubAuditDetails('signal_group_blocked', { groupId: 'grp-1', note: 'from user@example.com' }, SECRET))
+      .toEqual({ groupId: hashPhone('grp-1', SECRET), note: 'from [REDACTED:email]' });
+    expect(scrubAuditDetails('signal_invalid_event', { raw: { source: '+12025551234' }, extra: 1 }, SECRET)).toEqual({ extra: 1 });
+
+    // A known field holding the wrong type gets the default rule, not its own
+    const ip = scrubAuditDetails('gateway_auth_failed', { ip: { forwarded: 'mail user@example.com' } }, SECRET);
+    expect(JSON.stringify(ip)).not.toContain('user@example.com');
+  });
+
+  it('should render the reference as markdown and JSON Schema', () => {
+    const markdown = renderAuditEventDocs('markdown');
+    expect(markdown).toContain('### `gateway_auth_failed`');
+    expect(markdown).toContain('| `groupId` | string | hash |');
+    expect(markdown).toContain('| `receiptId`? | string | redact |');
+
+    const events = JSON.parse(renderAuditEventDocs('json')) as Array<{ event: string; details?: Record<string, unknown> }>;
+    expect(events).toHaveLength(Object.keys(AUDIT_EVENTS).length);
+    const raw = events.find(e => e.event === 'signal_invalid_event')!.details!;
+    expect(raw).toMatchObject({ additionalProperties: false, properties: { raw: { type: 'string', scrub: 'drop' } } });
+  });
+});
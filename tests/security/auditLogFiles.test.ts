@@ -0,0 +1,152 @@
+/**
+ * Tests for A-02: Audit Log Files
+ * Size and daily rotation, compression, retention by count and age, and
+ * reading across segments.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, writeFileSync, readdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+vi.mock('../../src/core/config.js', () => ({
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+import { audit, auditLogSettled, initAuditLog, maintainAuditLog, pruneAuditLog } from '../../src/security/auditLogger.js';
+import {
+  AuditLogRotator,
+  auditLogSegments,
+  forEachAuditLine,
+  readAuditTail,
+} from '../../src/security/auditLogFiles.js';
+
+function events(lines: string[]): string[] {
+  return lines.map(l => (JSON.parse(l) as { event: string }).event);
+}
+
+describe('audit log files', () => {
+  let dir: string;
+  let logFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-audit-files-'));
+    logFile = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await auditLogSettled();
+    initAuditLog(logFile);
+    vi.useRealTimers();
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rotate by size, compress, and read the tail across segments', async () => {
+    initAuditLog(logFile, { maxSizeMB: 0.001, interval: 'never', compress: true });
+    maintainAuditLog();
+    for (let i = 0; i < 30; i++) audit('INFO', `event_${i}`, { details: { pad: 'x'.repeat(40) } });
+    await auditLogSettled();
+
+    const segments = auditLogSegments(logFile);
+    expect(segments.length).toBeGreaterThan(2);
+    expect(segments.slice(0, -1).every(s => s.compressed && s.path.endsWith('.gz'))).toBe(true);
+    expect(readdirSync(dir).some(f => /\d{8}T\d{6}Z(-\d+)?$/.test(f))).toBe(false);
+
+    const active = readFileSync(logFile, 'utf-8').split('\n')[0]!;
+    expect(JSON.parse(active)).toMatchObject({
+      event: 'audit_log_rotated',
+      details: { previous: segments.at(-2)!.path.slice(dir.length + 1) },
+    });
+
+    const all: string[] = [];
+    forEachAuditLine(logFile, line => all.push(line));
+    const written = events(all).filter(e => e !== 'audit_log_rotated');
+    expect(written).toEqual(Array.from({ length: 30 }, (_, i) => `event_${i}`));
+    expect(events(readAuditTail(logFile, 3)).filter(e => e !== 'audit_log_rotated').at(-1)).toBe('event_29');
+    expect(readAuditTail(logFile, 1000)).toEqual(all);
+  });
+
+  it('should rotate when the UTC day changes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-15T23:59:00Z'));
+    initAuditLog(logFile, { maxSizeMB: 50, interval: 'daily', compress: false });
+    audit('INFO', 'before_midnight');
+    audit('INFO', 'still_before');
+    vi.setSystemTime(new Date('2026-03-16T00:00:01Z'));
+    audit('INFO', 'after_midnight');
+    await auditLogSettled();
+
+    const segments = auditLogSegments(logFile);
+    expect(segments.map(s => s.path.slice(dir.length + 1))).toEqual(['audit.jsonl.20260316T000001Z', 'audit.jsonl']);
+    expect(events(readFileSync(segments[0]!.path, 'utf-8').split('\n').filter(Boolean))).toEqual(['before_midnight', 'still_before']);
+
+    // A restart picks the day up from the file's first entry
+    initAuditLog(logFile, { maxSizeMB: 50, interval: 'daily', compress: false });
+    audit('INFO', 'same_day');
+    expect(auditLogSegments(logFile)).toHaveLength(2);
+  });
+
+  it('should prune segments by count and by age', () => {
+    for (const stamp of ['20250101T000000Z', '20260301T000000Z', '20260310T000000Z', '20260314T000000Z']) {
+      writeFileSync(join(dir, `audit.jsonl.${stamp}.gz`), gzipSync('{}\n'));
+    }
+    writeFileSync(logFile, '{}\n');
+    const rotator = new AuditLogRotator(logFile, { maxSizeMB: 50, interval: 'daily', compress: true, maxFiles: 2, ttlDays: 365 });
+
+    expect(rotator.prune(new Date('2026-03-15T00:00:00Z'))).toBe(2);
+    expect(readdirSync(dir).sort()).toEqual([
+      'audit.jsonl',
+      'audit.jsonl.20260310T000000Z.gz',
+      'audit.jsonl.20260314T000000Z.gz',
+    ]);
+
+    initAuditLog(logFile, { maxSizeMB: 50, interval: 'daily', compress: true, ttlDays: 3 });
+    expect(pruneAuditLog(new Date('2026-03-15T00:00:00Z'))).toBe(1);
+  });
+
+  it('should list a segment caught mid-compression once and finish it on startup', async () => {
+    writeFileSync(join(dir, 'audit.jsonl.20260314T000000Z'), '{"event":"a"}\n');
+    writeFileSync(join(dir, 'audit.jsonl.20260315T000000Z'), '{"event":"b"}\n');
+    writeFileSync(join(dir, 'audit.jsonl.20260315T000000Z.gz'), gzipSync('{"event":"b"}\n'));
+    writeFileSync(join(dir, 'audit.jsonl.20260314T000000Z.gz.1234-abcd.tmp'), 'partial');
+    writeFileSync(logFile, '{"event":"c"}\n');
+    expect(auditLogSegments(logFile).map(s => s.compressed)).toEqual([false, true, false]);
+
+    initAuditLog(logFile, { maxSizeMB: 50, interval: 'daily', compress: true });
+    maintainAuditLog();
+    await auditLogSettled();
+    expect(auditLogSegments(logFile).map(s => s.compressed)).toEqual([true, true, false]);
+    expect(readdirSync(dir).sort()).toEqual([
+      'audit.jsonl',
+      'audit.jsonl.20260314T000000Z.gz',
+      'audit.jsonl.20260315T000000Z.gz',
+    ]);
+    expect(events(readAuditTail(logFile, 10))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should leave rotated segments plain in a process that does not maintain the log', async () => {
+    initAuditLog(logFile, { maxSizeMB: 0.001, interval: 'never', compress: true, maxFiles: 1 });
+    for (let i = 0; i < 30; i++) audit('INFO', `event_${i}`, { details: { pad: 'x'.repeat(40) } });
+    await auditLogSettled();
+
+    const rotated = auditLogSegments(logFile).slice(0, -1);
+    expect(rotated.length).toBeGreaterThan(1);
+    expect(rotated.some(s => s.compressed)).toBe(false);
+
+    // The maintaining process compresses them and applies retention
+    maintainAuditLog();
+    await auditLogSettled();
+    expect(auditLogSegments(logFile).map(s => s.compressed)).toEqual([true, false]);
+  });
+
+  it('should read the tail of a large file in chunks', () => {
+    const lines = Array.from({ length: 3000 }, (_, i) => JSON.stringify({ event: `e${i}`, pad: 'é'.repeat(20) }));
+    writeFileSync(logFile, lines.join('\n') + '\n{"torn');
+
+    expect(readAuditTail(logFile, 2).map(l => l.slice(0, 12))).toEqual([lines[2999]!.slice(0, 12), '{"torn']);
+    expect(readAuditTail(logFile, 2500).slice(0, -1)).toEqual(lines.slice(-2499));
+    let count = 0;
+    forEachAuditLine(logFile, () => count++);
+    expect(count).toBe(3001);
+  });
+});
@@ -31,7 +31,9 @@ import {
   auditError,
   auditCritical,
   initAuditLog,
+  setAuditContactSecret,
 } from '../../src/security/auditLogger.js';
+import { hashPhone } from '../../src/security/piiUtils.js';
 import { resolvePath } from '../../src/core/config.js';
 
 describe('auditLogger', () => {
@@ -174,6 +176,19 @@ describe('auditLogger', () => {
       expect(entries[0]!['contactId']).toBe('[REDACTED:phone]');
     });
 
+    it('should record a contact pseudonym when a secret is set', () => {
+      setAuditContactSecret('test-pii-hmac-secret-for-hashing-32ch!');
+      audit('INFO', 'pii_hash_test', { contactId: '+12025551234' });
+      audit('INFO', 'pii_hash_test');
+      setAuditContactSecret(undefined);
+      audit('INFO', 'pii_hash_test', { contactId: '+12025551234' });
+
+      const entries = readLogEntries();
+      expect(entries[0]!['contactHash']).toBe(hashPhone('+12025551234', 'test-pii-hmac-secret-for-hashing-32ch!'));
+      expect(entries[1]).not.toHaveProperty('contactHash');
+      expect(entries[2]).not.toHaveProperty('contactHash');
+    });
+
     it('should scrub phone numbers from string values in details', () => {
       audit('INFO', 'pii_details_test', {
         details: { sender: '+12025551234' },
@@ -0,0 +1,102 @@
+/**
+ * Tests for A-02: Audit Query
+ * Filters, time bounds, counts across segments, and following the log
+ * through rotation.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync, appendFileSync, renameSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import {
+  auditEntryFilter,
+  countAuditLog,
+  followAuditLog,
+  parseTimeBound,
+  queryAuditLog,
+} from '../../src/security/auditQuery.js';
+import type { AuditEntry } from '../../src/types/index.js';
+
+function line(entry: Partial<AuditEntry> & Pick<AuditEntry, 'timestamp' | 'event'>): string {
+  return JSON.stringify({ severity: 'INFO', ...entry }) + '\n';
+}
+
+describe('audit query', () => {
+  let dir: string;
+  let logFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openclaw-audit-query-'));
+    logFile = join(dir, 'audit.jsonl');
+    writeFileSync(join(dir, 'audit.jsonl.20260314T000000Z.gz'), gzipSync(
+      line({ timestamp: '2026-03-13T10:00:00.000Z', event: 'session_created', channel: 'signal', sessionId: 's1' })
+      + line({ timestamp: '2026-03-13T11:00:00.000Z', event: 'prompt_injection_detected', severity: 'WARN', channel: 'signal', contactHash: 'abc123' }),
+    ));
+    writeFileSync(logFile,
+      line({ timestamp: '2026-03-15T09:00:00.000Z', event: 'session_created', channel: 'discord', sessionId: 's2' })
+      + line({ timestamp: '2026-03-15T09:30:00.000Z', event: 'prompt_injection_blocked', severity: 'CRITICAL', channel: 'discord', contactHash: 'abc123' })
+      + line({ timestamp: '2026-03-15T10:00:00.000Z', event: 'gateway_auth_failed', severity: 'ERROR' })
+      + '{"torn');
+  });
+
+  afterEach(() => {
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should filter by minimum severity, event glob, channel, session and contact', () => {
+    const events = (q: Parameters<typeof queryAuditLog>[1]) => queryAuditLog(logFile, q).map(e => e.event);
+
+    expect(events({})).toHaveLength(5);
+    expect(events({ severity: 'ERROR' })).toEqual(['prompt_injection_blocked', 'gateway_auth_failed']);
+    expect(events({ event: 'prompt_injection_*' })).toEqual(['prompt_injection_detected', 'prompt_injection_blocked']);
+    expect(events({ event: 'session_?reated', channel: 'discord' })).toEqual(['session_created']);
+    expect(events({ sessionId: 's1' })).toEqual(['session_created']);
+    expect(events({ contactHash: 'abc123', severity: 'WARN' })).toHaveLength(2);
+    expect(queryAuditLog(logFile, {}, 2).map(e => e.event)).toEqual(['prompt_injection_blocked', 'gateway_auth_failed']);
+  });
+
+  it('should bound by time, skipping segments rotated out before --since', () => {
+    const since = Date.parse('2026-03-15T00:00:00Z');
+    expect(queryAuditLog(logFile, { since }).map(e => e.timestamp.slice(0, 10))).toEqual(['2026-03-15', '2026-03-15', '2026-03-15']);
+    expect(queryAuditLog(logFile, { until: Date.parse('2026-03-15T09:30:00Z') })).toHaveLength(3);
+
+    const now = Date.parse('2026-03-15T12:00:00Z');
+    expect(parseTimeBound('3h', now)).toBe(Date.parse('2026-03-15T09:00:00Z'));
+    expect(parseTimeBound('2d', now)).toBe(Date.parse('2026-03-13T12:00:00Z'));
+    expect(parseTimeBound('2026-03-14', now)).toBe(Date.parse('2026-03-14T00:00:00Z'));
+    expect(() => parseTimeBound('yesterday', now)).toThrow(/Invalid time/);
+
+    const filter = auditEntryFilter({ since: parseTimeBound('3h', now) });
+    expect(filter({ timestamp: '2026-03-15T08:59:59.000Z', severity: 'INFO', event: 'x' })).toBe(false);
+  });
+
+  it('should count matches by severity and event', () => {
+    expect(countAuditLog(logFile, { event: '*injection*' })).toEqual({
+      total: 2,
+      bySeverity: { INFO: 0, WARN: 1, ERROR: 0, CRITICAL: 1 },
+      byEvent: { prompt_injection_detected: 1, prompt_injection_blocked: 1 },
+      first: '2026-03-13T11:00:00.000Z',
+      last: '2026-03-15T09:30:00.000Z',
+    });
+  });
+
+  it('should follow new entries through rotation', async () => {
+    writeFileSync(logFile, line({ timestamp: '2026-03-15T09:00:00.000Z', event: 'old' }));
+    const seen: string[] = [];
+    const stop = followAuditLog(logFile, { severity: 'WARN' }, e => seen.push(e.event), 10);
+    try {
+      appendFileSync(logFile, line({ timestamp: '2026-03-15T11:00:00.000Z', event: 'quiet' }));
+      appendFileSync(logFile, line({ timestamp: '2026-03-15T11:00:01.000Z', event: 'loud', severity: 'WARN' }).slice(0, 30));
+      await new Promise(r => setTimeout(r, 40));
+      expect(seen).toEqual([]);
+
+      appendFileSync(logFile, line({ timestamp: '2026-03-15T11:00:01.000Z', event: 'loud', severity: 'WARN' }).slice(30));
+      renameSync(logFile, join(dir, 'audit.jsonl.20260315T110002Z'));
+      writeFileSync(logFile, line({ timestamp: '2026-03-15T11:00:02.000Z', event: 'after_rotation', severity: 'ERROR' }));
+      await new Promise(r => setTimeout(r, 40));
+      expect(seen).toEqual(['loud', 'after_rotation']);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Tests for A-02: Audit Sinks
+ * Per-sink thresholds and redaction, RFC 5424 syslog over UDP and unix
+ * sockets, and signed webhook delivery with an on-disk retry buffer.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, mkdirSync, writeFileSync } from 'node:fs';
+import { createHmac } from 'node:crypto';
+import { createSocket } from 'node:dgram';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+  resolveSecret: vi.fn((value: string | undefined, envKey: string) => value || process.env[envKey]),
+}));
+
+import { audit, auditLogSettled, initAuditLog, setAuditSinks } from '../../src/security/auditLogger.js';
+import {
+  createAuditSink,
+  createAuditSinks,
+  formatSyslog,
+  redactAuditEntry,
+  SINK_BUFFER_DIR,
+  type AuditSink,
+} from '../../src/security/auditSinks.js';
+import { AuditSinkConfigSchema, type AuditEntry } from '../../src/types/index.js';
+
+const ENTRY: AuditEntry = {
+  timestamp: '2026-03-15T09:30:00.000Z',
+  severity: 'CRITICAL',
+  event: 'prompt_injection_blocked',
+  channel: 'signal',
+  contactId: '+1******4567',
+  contactHash: 'abc123',
+  sessionId: 'sess-1',
+  details: { pattern: 'ignore previous', score: 0.97 },
+};
+
+function sink(config: unknown, fetchImpl?: Parameters<typeof createAuditSink>[2]): AuditSink {
+  return createAuditSink(AuditSinkConfigSchema.parse(config), 0, fetchImpl);
+}
+
+describe('audit sinks', () => {
+  let sinks: AuditSink[] = [];
+
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-audit-sinks-'));
+    initAuditLog(join(state.dir, 'audit.jsonl'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(setAuditSinks([]).map(s => s.close()));
+    await Promise.all(sinks.map(s => s.close()));
+    sinks = [];
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it('should redact per policy without touching the original', () => {
+    const base = { contact: 'pseudonym', session: 'keep', details: 'keep', dropDetails: [] } as const;
+    expect(redactAuditEntry(ENTRY, { ...base, dropDetails: [] })).not.toHaveProperty('contactId');
+    expect(redactAuditEntry(ENTRY, { ...base, contact: 'drop', session: 'drop', dropDetails: ['pattern'] })).toEqual({
+      timestamp: ENTRY.timestamp,
+      severity: 'CRITICAL',
+      event: 'prompt_injection_blocked',
+      channel: 'signal',
+      details: { score: 0.97 },
+    });
+    expect(redactAuditEntry(ENTRY, { ...base, details: 'drop' })).not.toHaveProperty('details');
+    expect(ENTRY.contactId).toBe('+1******4567');
+  });
+
+  it('should fan entries out to file sinks above their threshold', async () => {
+    const all = join(state.dir, 'siem', 'all.jsonl');
+    const alerts = join(state.dir, 'siem', 'alerts.jsonl');
+    setAuditSinks([
+      sink({ type: 'file', path: all, redact: { contact: 'keep' } }),
+      sink({ type: 'file', path: alerts, minSeverity: 'ERROR', redact: { details: 'drop' } }),
+    ]);
+    audit('INFO', 'session_created', { sessionId: 's1' });
+    audit('CRITICAL', 'prompt_injection_blocked', { sessionId: 's1', details: { pattern: 'x' } });
+    await auditLogSettled();
+
+    const read = (p: string) => readFileSync(p, 'utf-8').split('\n').filter(Boolean).map(l => JSON.parse(l) as AuditEntry);
+    expect(read(all).map(e => e.event)).toEqual(['session_created', 'prompt_injection_blocked']);
+    expect(read(alerts)).toEqual([expect.objectContaining({ event: 'prompt_injection_blocked', sessionId: 's1' })]);
+    expect(read(alerts)[0]).not.toHaveProperty('details');
+  });
+
+  it('should format RFC 5424 and send over UDP', async () => {
+    expect(formatSyslog(ENTRY, 13, 'openclaw', 'host1')).toBe(
+      `<106>1 2026-03-15T09:30:00.000Z host1 openclaw ${process.pid} prompt_injection_blocked - ${JSON.stringify(ENTRY)}`,
+    );
+    expect(formatSyslog({ ...ENTRY, severity: 'INFO', event: 'has space' }, 4, 'oc', 'h')).toMatch(/^<38>1 \S+ h oc \d+ - - /);
+
+    const server = createSocket('udp4');
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+    const received = new Promise<string>(resolve => server.once('message', msg => resolve(msg.toString())));
+    try {
+      const udp = sink({ type: 'syslog', port: server.address().port, minSeverity: 'WARN' });
+      sinks.push(udp);
+      setAuditSinks([udp]);
+      audit('INFO', 'ignored');
+      audit('WARN', 'rate_limited');
+      expect(await received).toMatch(/^<108>1 \S+ \S+ openclaw \d+ rate_limited - \{.*"event":"rate_limited"/);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should queue syslog messages until the unix socket accepts them', async () => {
+    const path = join(state.dir, 'syslog.sock');
+    const unix = sink({ type: 'syslog', transport: 'unix', path });
+    sinks.push(unix);
+    unix.deliver(ENTRY);
+
+    const lines: string[] = [];
+    const server = createServer(conn => conn.on('data', d => lines.push(...d.toString().split('\n').filter(Boolean))));
+    await new Promise<void>(resolve => server.listen(path, resolve));
+    try {
+      await vi.waitFor(() => expect(lines).toHaveLength(1), { timeout: 3000 });
+      unix.deliver({ ...ENTRY, event: 'second' });
+      await vi.waitFor(() => expect(lines).toHaveLength(2));
+      expect(lines[1]).toContain(' second - ');
+    } finally {
+      await unix.close();
+      server.close();
+    }
+  });
+
+  it('should sign webhook batches and keep undelivered entries on disk', async () => {
+    const secret = 'webhook-secret';
+    const bufferPath = join(state.dir, SINK_BUFFER_DIR, 'webhook-0.jsonl');
+    const config = { type: 'webhook', url: 'http://127.0.0.1:9999/audit', secret, batchSize: 2 };
+
+    const down = vi.fn(async () => new Response('down', { status: 503 }));
+    const first = sink(config, down);
+    first.maintain!();
+    first.deliver(ENTRY);
+    await first.flush();
+    await first.close();
+    expect(down).toHaveBeenCalledTimes(1);
+    expect(readFileSync(bufferPath, 'utf-8').split('\n').filter(Boolean)).toHaveLength(1);
+
+    // A CLI process only buffers; the restarted gateway drains everything
+    const bodies: string[] = [];
+    const up = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      const headers = init!.headers as Record<string, string>;
+      const body = String(init!.body);
+      const expected = createHmac('sha256', secret).update(`${headers['X-OpenClaw-Timestamp']}.${body}`).digest('hex');
+      expect(headers['X-OpenClaw-Signature']).toBe(`sha256=${expected}`);
+      bodies.push(body);
+      return new Response(null, { status: 204 });
+    });
+    const second = sink(config, up);
+    sinks.push(second);
+    second.deliver({ ...ENTRY, event: 'second' });
+    second.deliver({ ...ENTRY, event: 'third' });
+    await second.flush();
+    expect(up).not.toHaveBeenCalled();
+    second.maintain!();
+    await vi.waitFor(() => expect(existsSync(bufferPath)).toBe(false));
+
+    const events = bodies.flatMap(b => (JSON.parse(b) as { entries: AuditEntry[] }).entries.map(e => e.event));
+    expect(events).toEqual(['prompt_injection_blocked', 'second', 'third']);
+  });
+
+  it('should drop only the delivered lines when another process changed the buffer meanwhile', async () => {
+    const bufferPath = join(state.dir, SINK_BUFFER_DIR, 'webhook-0.jsonl');
+    const config = { type: 'webhook', url: 'http://127.0.0.1:9999/audit', secret: 's', batchSize: 2 };
+    const cli = sink(config);
+    sinks.push(cli);
+    cli.deliver({ ...ENTRY, event: 'first' });
+    cli.deliver({ ...ENTRY, event: 'second' });
+
+    const events: string[] = [];
+    const gateway = sink(config, async (_url, init) => {
+      if (events.length === 0) {
+        // While the first batch is in flight the cap trims 'first' and a CLI command adds 'third'
+        const lines = readFileSync(bufferPath, 'utf-8').split('\n').filter(Boolean);
+        writeFileSync(bufferPath, lines.slice(1).join('\n') + '\n');
+        cli.deliver({ ...ENTRY, event: 'third' });
+      }
+      events.push(...(JSON.parse(String(init!.body)) as { entries: AuditEntry[] }).entries.map(e => e.event));
+      return new Response(null, { status: 204 });
+    });
+    sinks.push(gateway);
+    gateway.maintain!();
+    await vi.waitFor(() => expect(existsSync(bufferPath)).toBe(false));
+    expect(events).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should refuse webhooks without a secret or over plain http off loopback', () => {
+    expect(() => sink({ type: 'webhook', url: 'https://siem.example.com/in', secretEnv: 'UNSET_AUDIT_SECRET' })).toThrow(/signing secret/);
+    expect(() => sink({ type: 'webhook', url: 'http://siem.example.com/in', secret: 's' })).toThrow(/https/);
+    expect(() => sink({ type: 'syslog', transport: 'unix' })).toThrow(/socket path/);
+  });
+
+  it('should leave out a misconfigured sink and report it, keeping the rest', () => {
+    const problems: string[] = [];
+    const built = createAuditSinks([
+      AuditSinkConfigSchema.parse({ type: 'webhook', url: 'https://siem.example.com/in', secretEnv: 'UNSET_AUDIT_SECRET' }),
+      AuditSinkConfigSchema.parse({ type: 'file', path: join(state.dir, 'copy.jsonl') }),
+    ], problem => problems.push(problem));
+    sinks.push(...built);
+
+    expect(built.map(s => s.name)).toEqual(['file-1']);
+    expect(problems).toEqual([expect.stringMatching(/^Audit sink webhook-0: .*signing secret/)]);
+  });
+});
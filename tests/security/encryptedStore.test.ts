@@ -1,9 +1,10 @@
 /**
  * Tests for P-03: Encrypted Store
- * encrypt/decrypt roundtrip, tamper detection, writeEncryptedJSON/readEncryptedJSON
+ * encrypt/decrypt roundtrip, tamper detection, writeEncryptedJSON/readEncryptedJSON,
+ * atomic writes and backups
  */
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync, existsSync } from 'node:fs';
+import { mkdtempSync, rmSync, existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import {
@@ -11,6 +12,8 @@ import {
   decrypt,
   writeEncryptedJSON,
   readEncryptedJSON,
+  stageFile,
+  writeFileAtomic,
 } from '../../src/security/encryptedStore.js';
 
 describe('encryptedStore', () => {
@@ -202,4 +205,40 @@ describe('encryptedStore', () => {
       expect(result).toBe(true);
     });
   });
+
+  // ── atomic writes ───────────────────────────────────────────
+
+  describe('atomic writes', () => {
+    it('should leave no temp files behind', () => {
+      const filePath = join(tmpDir, 'store.enc');
+      writeEncryptedJSON(filePath, { a: 1 }, masterKey);
+      writeEncryptedJSON(filePath, { a: 2 }, masterKey);
+      expect(readdirSync(tmpDir)).toEqual(['store.enc']);
+      expect(statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should not touch the target until a staged file is committed', () => {
+      const filePath = join(tmpDir, 'store.enc');
+      writeEncryptedJSON(filePath, { version: 1 }, masterKey);
+      // A crash after staging leaves only a stray temp file
+      stageFile(filePath, encrypt(JSON.stringify({ version: 2 }), masterKey));
+      expect(readEncryptedJSON<{ version: number }>(filePath, masterKey).version).toBe(1);
+    });
+
+    it('should keep the previous generation as .bak when asked', () => {
+      const filePath = join(tmpDir, 'store.enc');
+      writeEncryptedJSON(filePath, { version: 1 }, masterKey, { backup: true });
+      expect(existsSync(filePath + '.bak')).toBe(false);
+
+      writeEncryptedJSON(filePath, { version: 2 }, masterKey, { backup: true });
+      expect(readEncryptedJSON<{ version: number }>(filePath + '.bak', masterKey).version).toBe(1);
+      expect(readEncryptedJSON<{ version: number }>(filePath, masterKey).version).toBe(2);
+    });
+
+    it('should write plain data atomically', () => {
+      const filePath = join(tmpDir, 'nested', 'plain.json');
+      writeFileAtomic(filePath, '{"ok":true}');
+      expect(readFileSync(filePath, 'utf-8')).toBe('{"ok":true}');
+    });
+  });
 });
@@ -148,6 +148,14 @@ describe('gatewayAuth', () => {
       expect(checkRateLimit('192.168.1.4', 5)).toBe(false);
     });
 
+    it('should count each scope separately', () => {
+      for (let i = 0; i < 60; i++) {
+        checkRateLimit('192.168.1.6');
+      }
+      expect(checkRateLimit('192.168.1.6')).toBe(false);
+      expect(checkRateLimit('192.168.1.6', 600, 'api')).toBe(true);
+    });
+
     it('should reset correctly via resetRateLimits', () => {
       for (let i = 0; i < 60; i++) {
         checkRateLimit('192.168.1.5');
@@ -220,6 +228,14 @@ describe('gatewayAuth', () => {
       expect(result.reason).toBe('Rate limited');
     });
 
+    it('should apply the given limit in its own scope', () => {
+      for (let i = 0; i < 2; i++) {
+        expect(authenticateRequest(validToken, validToken, '10.10.10.11', { scope: 'api', maxRequests: 2 }).ok).toBe(true);
+      }
+      expect(authenticateRequest(validToken, validToken, '10.10.10.11', { scope: 'api', maxRequests: 2 }).reason).toBe('Rate limited');
+      expect(authenticateRequest(validToken, validToken, '10.10.10.11').ok).toBe(true);
+    });
+
     it('should not rate-limit before checking token when expectedToken is undefined', () => {
       const result = authenticateRequest('any', undefined, '127.0.0.1');
       expect(result.ok).toBe(true);
@@ -1,10 +1,11 @@
 /**
  * Tests for G-02: Path Security
- * isValidSessionId, isInsideJail, containsNullByte, validatePath, sanitizePathSegment
+ * isValidSessionId, isValidAgentId, isInsideJail, containsNullByte, validatePath, sanitizePathSegment
  */
 import { describe, it, expect } from 'vitest';
 import {
   isValidSessionId,
+  isValidAgentId,
   isInsideJail,
   containsNullByte,
   validatePath,
@@ -72,6 +73,32 @@ describe('pathSecurity', () => {
     });
   });
 
+  // ── isValidAgentId ──────────────────────────────────────────
+
+  describe('isValidAgentId', () => {
+    it('should accept short names like "default"', () => {
+      expect(isValidAgentId('default')).toBe(true);
+    });
+
+    it('should accept hyphens and underscores', () => {
+      expect(isValidAgentId('support-bot_2')).toBe(true);
+    });
+
+    it('should reject empty IDs', () => {
+      expect(isValidAgentId('')).toBe(false);
+    });
+
+    it('should reject IDs over 64 characters', () => {
+      expect(isValidAgentId('a'.repeat(65))).toBe(false);
+    });
+
+    it('should reject path separators and traversal', () => {
+      expect(isValidAgentId('../etc')).toBe(false);
+      expect(isValidAgentId('a/b')).toBe(false);
+      expect(isValidAgentId('a.b')).toBe(false);
+    });
+  });
+
   // ── isInsideJail ─────────────────────────────────────────────
 
   describe('isInsideJail', () => {
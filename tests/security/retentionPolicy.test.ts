@@ -0,0 +1,133 @@
+/**
+ * Tests for E-04: Retention Policy
+ * Per-class TTLs, run summaries, overlap protection, jitter and export purging.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, mkdirSync, writeFileSync, utimesSync, readdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import {
+  enforceRetention,
+  exportsRetentionTask,
+  nextRunDelay,
+  readRetentionState,
+  resolveRetention,
+  RetentionScheduler,
+} from '../../src/security/retentionPolicy.js';
+import { auditError, auditInfo, auditWarn } from '../../src/security/auditLogger.js';
+import { OpenClawConfigSchema } from '../../src/types/index.js';
+
+describe('retention policy', () => {
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-retention-'));
+    vi.mocked(auditInfo).mockClear();
+    vi.mocked(auditWarn).mockClear();
+    vi.mocked(auditError).mockClear();
+  });
+
+  afterEach(() => {
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to security.retentionDays for sessions and transcripts', () => {
+    const config = OpenClawConfigSchema.parse({
+      security: { retentionDays: 14 },
+      retention: { transcriptTTLDays: 60 },
+    });
+    expect(resolveRetention(config)).toEqual({
+      sessionTTLDays: 14,
+      transcriptTTLDays: 60,
+      usageTTLDays: 400,
+      exportTTLDays: 30,
+      auditLogTTLDays: 365,
+    });
+  });
+
+  it('should audit and save a summary, keeping the last success when a task fails', async () => {
+    const ok = await enforceRetention({ sessions: () => 2, usage: () => 1 });
+    expect(ok.totalPurged).toBe(3);
+    expect(auditInfo).toHaveBeenCalledWith('retention_enforced', {
+      details: expect.objectContaining({ totalPurged: 3, breakdown: { sessions: 2, usage: 1 } }),
+    });
+
+    const failed = await enforceRetention({
+      sessions: () => { throw new Error('disk full'); },
+      usage: () => 4,
+    });
+    expect(failed.breakdown).toEqual({ usage: 4 });
+    expect(failed.errors).toEqual({ sessions: 'Error: disk full' });
+    expect(auditError).toHaveBeenCalledWith('retention_task_failed', expect.anything());
+
+    const saved = readRetentionState();
+    expect(saved.lastRun).toEqual(failed);
+    expect(saved.lastSuccess).toEqual(ok);
+  });
+
+  it('should not start a run while one is in progress', async () => {
+    const scheduler = new RetentionScheduler({ sessions: () => 1 }, { intervalMinutes: 60, jitterPercent: 0 });
+    const [first, second] = await Promise.all([scheduler.runNow(), scheduler.runNow()]);
+
+    expect(first?.totalPurged).toBe(1);
+    expect(second).toBeUndefined();
+    expect(auditWarn).toHaveBeenCalledWith('retention_run_skipped', expect.anything());
+    expect(await scheduler.runNow()).toBeDefined();
+  });
+
+  it('should schedule one jittered interval after the last run', () => {
+    const options = { intervalMinutes: 60, jitterPercent: 10 };
+    const now = 1_000_000_000;
+    expect(nextRunDelay(options, undefined, now, () => 0.5)).toBe(0);
+    expect(nextRunDelay(options, now, now, () => 0.5)).toBe(3_600_000);
+    expect(nextRunDelay(options, now, now, () => 0)).toBe(3_240_000);
+    expect(nextRunDelay(options, now, now, () => 1)).toBe(3_960_000);
+    expect(nextRunDelay(options, now - 7_200_000, now, () => 0.5)).toBe(0);
+  });
+
+  it('should run on its timer and stop cleanly', async () => {
+    vi.useFakeTimers();
+    try {
+      const task = vi.fn(() => 0);
+      const scheduler = new RetentionScheduler({ task }, { intervalMinutes: 1, jitterPercent: 0 });
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(task).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(task).toHaveBeenCalledTimes(2);
+
+      scheduler.stop();
+      await vi.advanceTimersByTimeAsync(180_000);
+      expect(task).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should purge subject access archives older than their TTL', () => {
+    const dir = join(state.dir, 'exports');
+    mkdirSync(dir);
+    writeFileSync(join(dir, 'old.tar.gz.enc'), 'old');
+    writeFileSync(join(dir, 'new.tar.gz.enc'), 'new');
+    const old = new Date(Date.now() - 40 * 86400_000);
+    utimesSync(join(dir, 'old.tar.gz.enc'), old, old);
+
+    expect(exportsRetentionTask(30)(new Date())).toBe(1);
+    expect(readdirSync(dir)).toEqual(['new.tar.gz.enc']);
+  });
+});
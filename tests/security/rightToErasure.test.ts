@@ -0,0 +1,194 @@
+/**
+ * Tests for E-03: Right to Erasure
+ * Finding a contact's data in every store, preview without deleting,
+ * erasure of non-phone IDs, and signed receipts.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, mkdirSync, writeFileSync, readdirSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import {
+  eraseContact,
+  planErasure,
+  verifyErasureReceipt,
+  namesContact,
+  RECEIPTS_DIR,
+} from '../../src/security/rightToErasure.js';
+import { configureStorage, getStorage } from '../../src/core/storage.js';
+import { FileBackend } from '../../src/storage/fileBackend.js';
+import { readEncryptedJSON } from '../../src/security/encryptedStore.js';
+import { SessionIndex } from '../../src/core/sessionIndex.js';
+import { TranscriptLog } from '../../src/core/transcripts.js';
+import { UsageLedger } from '../../src/core/usageLedger.js';
+import { recordConsent, hasConsent } from '../../src/security/piiConsent.js';
+import { trackSafetyNumber } from '../../src/security/signalSafetyNumbers.js';
+import { UsageConfigSchema, type AgentSession, type ChannelType } from '../../src/types/index.js';
+
+const KEY = 'test-master-key-for-encryption-32chars!';
+const SECRET = 'test-pii-hmac-secret-for-hashing-32ch!';
+const PHONE = '+12025551234';
+const DISCORD = '4242';
+const DISCORD_OTHER = '424242';
+
+function session(id: string, channel: ChannelType, contactId: string): AgentSession {
+  return {
+    version: 3,
+    id,
+    agentId: 'default',
+    contactId,
+    channel,
+    messages: [{ role: 'user', content: 'hi', timestamp: 1_700_000_000_000, channel, contactId }],
+    createdAt: 1_700_000_000_000,
+    lastActiveAt: 1_700_000_000_000,
+    expiresAt: Date.now() + 3600_000,
+    metadata: {},
+  };
+}
+
+function seed(channel: ChannelType, contactId: string, sessionId: string): void {
+  const storage = getStorage(KEY);
+  storage.put('sessions', sessionId, session(sessionId, channel, contactId));
+  recordConsent(`${channel}:${contactId}`, ['conversation'], KEY);
+  new UsageLedger(UsageConfigSchema.parse({}), KEY).record({
+    channel, contactId, agentId: 'default', model: 'claude-sonnet-4-20250514', inputTokens: 1, outputTokens: 1,
+  });
+  new TranscriptLog(KEY, SECRET, 30, state.dir).append({
+    timestamp: new Date().toISOString(),
+    channel,
+    contactId,
+    agentId: 'default',
+    sessionId,
+    user: 'hi',
+    assistant: 'hello',
+    toolCalls: [],
+    usage: { inputTokens: 1, outputTokens: 1 },
+  });
+  writeFileSync(join(state.dir, 'agents', 'default', `notes-${contactId}.md`), 'note');
+}
+
+describe('right to erasure', () => {
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-erasure-'));
+    configureStorage(new FileBackend(state.dir, KEY));
+    mkdirSync(join(state.dir, 'agents', 'default'), { recursive: true });
+  });
+
+  afterEach(() => {
+    configureStorage(new FileBackend(state.dir, KEY));
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it('should match contact IDs in file names as whole tokens', () => {
+    expect(namesContact('notes-+12025551234.md', PHONE)).toBe(true);
+    expect(namesContact('notes-+120255512345.md', PHONE)).toBe(false);
+    expect(namesContact('4242', DISCORD)).toBe(true);
+    expect(namesContact('user-424242.json', DISCORD)).toBe(false);
+    expect(namesContact('424242_4242.json', DISCORD)).toBe(true);
+  });
+
+  it('should preview everything without deleting it', () => {
+    seed('signal', PHONE, 'session-a');
+    trackSafetyNumber(PHONE, 'abcdef0123456789', true);
+
+    const plan = planErasure(PHONE, KEY, SECRET);
+    const locations = plan.items.map(i => i.location).sort();
+    expect(locations).toEqual(['agent-workspaces', 'consent', 'safety-numbers', 'sessions', 'transcripts', 'usage']);
+    expect(plan.skipped).toEqual([]);
+    expect(getStorage(KEY).get('sessions', 'session-a')).not.toBeNull();
+    expect(hasConsent(`signal:${PHONE}`, KEY)).toBe(true);
+  });
+
+  it('should erase a Discord contact and leave similar IDs alone', () => {
+    seed('discord', DISCORD, 'session-a');
+    seed('discord', DISCORD_OTHER, 'session-b');
+    const storage = getStorage(KEY);
+    new SessionIndex(storage, SECRET).reset(storage.keys('sessions').map(id => storage.get<AgentSession>('sessions', id)!));
+
+    const result = eraseContact(DISCORD, KEY, SECRET);
+    expect(result.removed).toEqual({
+      sessions: 1, transcripts: 1, 'agent-workspaces': 1, consent: 1, usage: 1,
+    });
+
+    expect(storage.keys('sessions')).toEqual(['session-b']);
+    expect(hasConsent(`discord:${DISCORD}`, KEY)).toBe(false);
+    expect(hasConsent(`discord:${DISCORD_OTHER}`, KEY)).toBe(true);
+    const ledger = new UsageLedger(UsageConfigSchema.parse({}), KEY);
+    expect(ledger.query({ contactId: DISCORD })).toEqual([]);
+    expect(ledger.query({ contactId: DISCORD_OTHER })).toHaveLength(1);
+    expect(readdirSync(join(state.dir, 'agents', 'default'))).toEqual([`notes-${DISCORD_OTHER}.md`]);
+    expect(new TranscriptLog(KEY, SECRET, 30, state.dir).list()).toHaveLength(1);
+
+    const reloaded = new SessionIndex(getStorage(KEY), SECRET);
+    reloaded.load();
+    expect(reloaded.find('discord', DISCORD)).toEqual([]);
+  });
+
+  it('should not leave erased usage rows in the ledger backup', () => {
+    seed('discord', DISCORD, 'session-a');
+    seed('discord', DISCORD_OTHER, 'session-b');
+    const backup = join(state.dir, 'usage.enc.bak');
+    const backedUp = () => Object.values(readEncryptedJSON<{ rows: Record<string, { contactId: string }> }>(backup, KEY).rows)
+      .map(r => r.contactId);
+    expect(backedUp()).toEqual([DISCORD]);
+
+    eraseContact(DISCORD, KEY, SECRET, UsageConfigSchema.parse({ dailyTokens: 1000 }));
+    expect(existsSync(backup)).toBe(false);
+
+    // The next write backs up the ledger as it is after erasure
+    new UsageLedger(UsageConfigSchema.parse({}), KEY).record({
+      channel: 'discord', contactId: DISCORD_OTHER, agentId: 'default', model: 'claude-sonnet-4-20250514', inputTokens: 1, outputTokens: 1,
+    });
+    expect(backedUp()).toEqual([DISCORD_OTHER]);
+  });
+
+  it('should find sessions without the index by decrypting them', () => {
+    seed('webchat', 'wc-7f3a', 'session-a');
+    seed('webchat', 'wc-9b1c', 'session-b');
+
+    const result = eraseContact('wc-7f3a', KEY);
+    expect(result.removed.sessions).toBe(1);
+    expect(getStorage(KEY).keys('sessions')).toEqual(['session-b']);
+    expect(result.skipped).toEqual([expect.stringContaining('transcripts')]);
+  });
+
+  it('should issue a signed receipt that names nobody', () => {
+    seed('signal', PHONE, 'session-a');
+
+    const { receipt } = eraseContact(PHONE, KEY, SECRET);
+    expect(receipt).toBeDefined();
+    expect(verifyErasureReceipt(receipt!, KEY)).toEqual({ valid: true });
+    expect(verifyErasureReceipt(receipt!, KEY, PHONE)).toEqual({ valid: true });
+    expect(verifyErasureReceipt(receipt!, KEY, '+13335551234').valid).toBe(false);
+    expect(verifyErasureReceipt({ ...receipt!, removed: { sessions: 0 } }, KEY).valid).toBe(false);
+
+    const stored = readFileSync(join(state.dir, RECEIPTS_DIR, `${receipt!.receiptId}.json`), 'utf-8');
+    expect(stored).not.toContain('12025551234');
+    expect(verifyErasureReceipt(JSON.parse(stored), KEY, PHONE)).toEqual({ valid: true });
+  });
+
+  it('should say what it could not search without the encryption key', () => {
+    seed('signal', PHONE, 'session-a');
+
+    const result = eraseContact(PHONE);
+    expect(result.receipt).toBeUndefined();
+    expect(result.skipped.join('\n')).toMatch(/sessions: no encryption key/);
+    expect(getStorage(KEY).get('sessions', 'session-a')).not.toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for E-06: Subject Access Export
+ * Collecting a contact's data from every store, the PDF report, and the
+ * passphrase-encrypted archive.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const state = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('../../src/core/config.js', () => ({
+  getOpenClawDir: vi.fn(() => state.dir),
+  ensureOpenClawDir: vi.fn(() => mkdirSync(state.dir, { recursive: true })),
+  resolvePath: vi.fn((p: string) => p),
+}));
+
+vi.mock('../../src/security/auditLogger.js', () => ({
+  auditWarn: vi.fn(),
+  auditCritical: vi.fn(),
+  auditInfo: vi.fn(),
+  auditError: vi.fn(),
+  audit: vi.fn(),
+}));
+
+import {
+  collectSubjectData,
+  exportSubjectData,
+  decryptArchive,
+  encryptArchive,
+  generateExportPassphrase,
+  EXPORT_DATA_FILE,
+  EXPORT_REPORT_FILE,
+  type SubjectData,
+  type SubjectExportOptions,
+} from '../../src/security/subjectAccess.js';
+import { configureStorage, getStorage } from '../../src/core/storage.js';
+import { FileBackend } from '../../src/storage/fileBackend.js';
+import { TranscriptLog } from '../../src/core/transcripts.js';
+import { UsageLedger } from '../../src/core/usageLedger.js';
+import { recordConsent } from '../../src/security/piiConsent.js';
+import { trackSafetyNumber } from '../../src/security/signalSafetyNumbers.js';
+import { hashPhone } from '../../src/security/piiUtils.js';
+import { auditWarn } from '../../src/security/auditLogger.js';
+import { UsageConfigSchema, type AgentSession } from '../../src/types/index.js';
+
+const KEY = 'test-master-key-for-encryption-32chars!';
+const SECRET = 'test-pii-hmac-secret-for-hashing-32ch!';
+const CONTACT = '+12025551234';
+const OTHER = '+13335551234';
+
+function session(id: string, contactId: string): AgentSession {
+  return {
+    version: 3,
+    id,
+    agentId: 'default',
+    contactId,
+    channel: 'signal',
+    messages: [
+      { role: 'user', content: `Hello from ${contactId}`, timestamp: 1_700_000_000_000, channel: 'signal', contactId },
+      { role: 'assistant', content: [{ type: 'text', text: 'Hi!' }], timestamp: 1_700_000_001_000, channel: 'signal', contactId },
+    ],
+    memory: { summary: 'Asked about invoices.', compactedMessages: 4, updatedAt: 1_700_000_000_000 },
+    createdAt: 1_700_000_000_000,
+    lastActiveAt: 1_700_000_001_000,
+    expiresAt: Date.now() + 3600_000,
+    metadata: {},
+  };
+}
+
+describe('subject access export', () => {
+  let options: SubjectExportOptions;
+
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), 'openclaw-export-'));
+    configureStorage(new FileBackend(state.dir, KEY));
+    options = {
+      encryptionKey: KEY,
+      piiHmacSecret: SECRET,
+      auditLogPath: join(state.dir, 'audit.jsonl'),
+      usage: UsageConfigSchema.parse({}),
+      retentionDays: 30,
+    };
+
+    const storage = getStorage(KEY);
+    storage.put('sessions', 'session-a', session('session-a', CONTACT));
+    storage.put('sessions', 'session-b', session('session-b', OTHER));
+    recordConsent(`signal:${CONTACT}`, ['support'], KEY);
+    trackSafetyNumber(CONTACT, 'abcdef0123456789', true);
+    const ledger = new UsageLedger(options.usage, KEY);
+    ledger.record({ channel: 'signal', contactId: CONTACT, agentId: 'default', model: 'claude-sonnet-4-20250514', inputTokens: 10, outputTokens: 5 });
+    ledger.record({ channel: 'signal', contactId: OTHER, agentId: 'default', model: 'claude-sonnet-4-20250514', inputTokens: 10, outputTokens: 5 });
+    new TranscriptLog(KEY, SECRET, 30, state.dir).append({
+      timestamp: new Date().toISOString(),
+      channel: 'signal',
+      contactId: CONTACT,
+      agentId: 'default',
+      sessionId: 'session-a',
+      user: 'Where is my invoice?',
+      assistant: 'Attached.',
+      toolCalls: [{ name: 'find_invoice', input: {}, isError: false }],
+      usage: { inputTokens: 10, outputTokens: 5 },
+    });
+    mkdirSync(join(state.dir, 'agents', 'default'), { recursive: true });
+    writeFileSync(join(state.dir, 'agents', 'default', `notes-${CONTACT}.txt`), 'likes tea');
+    writeFileSync(options.auditLogPath, [
+      { timestamp: '2026-01-01T00:00:00Z', severity: 'INFO', event: 'message_received', contactHash: hashPhone(CONTACT, SECRET) },
+      { timestamp: '2026-01-01T00:00:01Z', severity: 'INFO', event: 'message_received', contactHash: hashPhone(OTHER, SECRET) },
+      { timestamp: '2026-01-01T00:00:02Z', severity: 'INFO', event: 'gateway_started' },
+    ].map(e => JSON.stringify(e)).join('\n') + '\n{"torn');
+    vi.mocked(auditWarn).mockClear();
+  });
+
+  afterEach(() => {
+    configureStorage(new FileBackend(state.dir, KEY));
+    if (existsSync(state.dir)) rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it('should collect the contact\'s data from every store', () => {
+    const data = collectSubjectData(CONTACT, options);
+
+    expect(data.sessions.map(s => s.id)).toEqual(['session-a']);
+    expect(data.sessions[0]!.memory?.summary).toBe('Asked about invoices.');
+    expect(data.transcripts.map(t => t.user)).toEqual(['Where is my invoice?']);
+    expect(data.consent).toEqual([expect.objectContaining({ contactId: `signal:${CONTACT}`, consentGiven: true, purposes: ['support'] })]);
+    expect(data.safetyNumber).toMatchObject({ fingerprint: 'abcdef0123456789' });
+    expect(data.usage).toHaveLength(1);
+    expect(data.workspaceFiles).toEqual([{ agentId: 'default', name: `notes-${CONTACT}.txt`, bytes: 9 }]);
+    expect(data.auditEntries.map(e => e.timestamp)).toEqual(['2026-01-01T00:00:00Z']);
+  });
+
+  it('should say what it could not search without the HMAC secret', () => {
+    const data = collectSubjectData(CONTACT, { ...options, piiHmacSecret: undefined });
+    expect(data.sessions).toHaveLength(1);
+    expect(data.transcripts).toEqual([]);
+    expect(data.auditEntries).toEqual([]);
+    expect(data.notes.join()).toContain('No PII HMAC secret');
+  });
+
+  it('should pack the bundle, report and files into an encrypted archive', async () => {
+    const passphrase = generateExportPassphrase();
+    const { archive } = await exportSubjectData(CONTACT, options, passphrase);
+
+    expect(archive.includes(Buffer.from(CONTACT))).toBe(false);
+    expect(archive.includes(Buffer.from('likes tea'))).toBe(false);
+
+    const files = decryptArchive(archive, passphrase);
+    expect(files.map(f => f.name)).toEqual([EXPORT_DATA_FILE, EXPORT_REPORT_FILE, `workspace/default/notes-${CONTACT}.txt`]);
+    const bundle = JSON.parse(files[0]!.data.toString('utf8')) as SubjectData;
+    expect(bundle.contactId).toBe(CONTACT);
+    expect(bundle.sessions).toHaveLength(1);
+    expect(files[1]!.data.subarray(0, 5).toString('ascii')).toBe('%PDF-');
+    expect(files[2]!.data.toString('utf8')).toBe('likes tea');
+    expect(auditWarn).toHaveBeenCalledWith('subject_export_created', expect.objectContaining({ contactId: CONTACT }));
+  });
+
+  it('should not open with the wrong passphrase', () => {
+    const archive = encryptArchive([{ name: 'a.txt', data: Buffer.from('a') }], 'correct-horse-battery-staple');
+    expect(() => decryptArchive(archive, 'wrong-horse-battery-staple!')).toThrow('wrong passphrase');
+    expect(() => encryptArchive([], 'short')).toThrow('at least');
+  });
+
+  it('should keep long file names intact', () => {
+    const name = `workspace/${'a'.repeat(60)}/${'b'.repeat(90)}.txt`;
+    const files = decryptArchive(encryptArchive([{ name, data: Buffer.alloc(1000, 1) }], 'correct-horse-battery-staple'), 'correct-horse-battery-staple');
+    expect(files).toEqual([{ name, data: Buffer.alloc(1000, 1) }]);
+  });
+});